@@ -3,26 +3,13 @@ import { openai } from '@ai-sdk/openai';
 import { anthropic } from '@ai-sdk/anthropic';
 import { generateText, generateObject } from 'ai';
 import { config, isProviderAvailable } from '../config';
+import { logDebug } from '../tracing';
+import { createUsageTracker, withUsage, type UsageTracker } from '../usage';
 import { ModelProvider } from '../../components/ModelSelector';
 import { z } from 'zod';
 
 export const maxDuration = 230; // Set to 60 seconds for serverless functions
 
-// Enhanced logging function that works in production
-function logDebug(message: string, data?: any) {
-  const timestamp = new Date().toISOString();
-  const logMessage = `[${timestamp}] ${message}`;
-  
-  console.log(logMessage);
-  if (data) {
-    console.log(JSON.stringify(data, null, 2));
-  }
-  
-  // In production, these logs will show up in the Vercel logs
-  // For client-side visibility, we'll return some of these in the error responses
-  return logMessage;
-}
-
 // CV evaluation criteria
 const evaluationCriteria = [
   {
@@ -62,6 +49,12 @@ interface CriterionRating {
 }
 
 export async function POST(req: NextRequest) {
+  // Every agent call of the request is counted, and the totals are returned with the result
+  const usage = createUsageTracker();
+  return usage.track(() => evaluateCv(req, usage));
+}
+
+async function evaluateCv(req: NextRequest, usage: UsageTracker) {
   const logs: string[] = [];
   try {
     logs.push(logDebug('Starting CV evaluation API route'));
@@ -141,7 +134,7 @@ export async function POST(req: NextRequest) {
       logs.push(logDebug('Using Anthropic processing path'));
       try {
         logs.push(logDebug('Starting Anthropic text generation'));
-        const { text } = await generateText({
+        const { text } = await withUsage('cv_evaluation', model, () => generateText({
           model,
           messages: [
             {
@@ -189,7 +182,7 @@ export async function POST(req: NextRequest) {
               ],
             }
           ]
-        });
+        }));
         
         logs.push(logDebug('Anthropic generation completed successfully'));
         
@@ -197,6 +190,7 @@ export async function POST(req: NextRequest) {
         return NextResponse.json({ 
           result: text,
           isStructured: false,
+          usage: usage.summary(),
           debug: { logs }
         });
       } catch (error) {
@@ -281,7 +275,7 @@ export async function POST(req: NextRequest) {
       // Run all evaluations in parallel
       const [structureResult, summaryResult, experienceResult, relevanceResult, skillsResult] = await Promise.all([
         // Structure evaluation
-        generateObject({
+        withUsage('overall_structure', model, () => generateObject({
           model: openai(modelName),
           schema: criterionSchema,
           system: structureSystemPrompt,
@@ -300,7 +294,7 @@ export async function POST(req: NextRequest) {
               }
             ],
           }]
-        }).then(result => ({
+        })).then(result => ({
           ...result.object,
           criterion_id: 'overall_structure',
           criterion_name: 'Overall Structure and Layout'
@@ -310,7 +304,7 @@ export async function POST(req: NextRequest) {
         }),
         
         // Summary evaluation
-        generateObject({
+        withUsage('summary_quality', model, () => generateObject({
           model: openai(modelName),
           schema: criterionSchema,
           system: summarySystemPrompt,
@@ -329,7 +323,7 @@ export async function POST(req: NextRequest) {
               }
             ],
           }]
-        }).then(result => ({
+        })).then(result => ({
           ...result.object,
           criterion_id: 'summary_quality',
           criterion_name: 'Summary Quality'
@@ -339,7 +333,7 @@ export async function POST(req: NextRequest) {
         }),
         
         // Experience evaluation
-        generateObject({
+        withUsage('experience_description', model, () => generateObject({
           model: openai(modelName),
           schema: criterionSchema,
           system: experienceSystemPrompt,
@@ -358,7 +352,7 @@ export async function POST(req: NextRequest) {
               }
             ],
           }]
-        }).then(result => ({
+        })).then(result => ({
           ...result.object,
           criterion_id: 'experience_description',
           criterion_name: 'Experience Description'
@@ -368,7 +362,7 @@ export async function POST(req: NextRequest) {
         }),
 
         // Relevance evaluation
-        generateObject({
+        withUsage('relevance_tailoring', model, () => generateObject({
           model: openai(modelName),
           schema: criterionSchema,
           system: relevanceSystemPrompt,
@@ -387,7 +381,7 @@ export async function POST(req: NextRequest) {
               }
             ],
           }]
-        }).then(result => ({
+        })).then(result => ({
           ...result.object,
           criterion_id: 'relevance_tailoring',
           criterion_name: 'Relevance and Tailoring'
@@ -397,7 +391,7 @@ export async function POST(req: NextRequest) {
         }),
         
         // Skills evaluation
-        generateObject({
+        withUsage('skills_presentation', model, () => generateObject({
           model: openai(modelName),
           schema: criterionSchema,
           system: skillsSystemPrompt,
@@ -416,7 +410,7 @@ export async function POST(req: NextRequest) {
               }
             ],
           }]
-        }).then(result => ({
+        })).then(result => ({
           ...result.object,
           criterion_id: 'skills_presentation',
           criterion_name: 'Skills Presentation'
@@ -503,6 +497,7 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ 
         result,
         isStructured: true,
+        usage: usage.summary(),
         debug: { logs }
       });
     } catch (error) {
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockLanguageModelV1 } from 'ai/test';
+import { z } from 'zod';
+import { clearAgentCache, getAgentCacheKey, withAgentCache, type AgentCacheKey } from './agentCache';
+import { config } from './config';
+import { getStore } from './storage';
+
+const cacheConfig = { ...config.cache };
+const store = () => getStore<{ id: string; agent: string; createdAt: string }>('agent_cache', 'memory');
+
+const keyOf = (content: unknown, overrides: Partial<AgentCacheKey> = {}): AgentCacheKey => ({
+  agent: 'summary_quality',
+  model: new MockLanguageModelV1({ provider: 'openai', modelId: 'gpt-4o' }),
+  schema: z.object({ score: z.number() }),
+  content,
+  prompt: 'Evaluate the summary',
+  ...overrides
+});
+
+// Cache the output of an agent call, returning whether the agent ran
+async function cached(key: AgentCacheKey, output: unknown = { score: 7 }, options: { bypass?: boolean; logs?: string[] } = {}) {
+  const run = vi.fn(async () => output);
+  const result = await withAgentCache(key, options, run);
+  return { result, ran: run.mock.calls.length > 0 };
+}
+
+beforeEach(async () => {
+  Object.assign(config.cache, { backend: 'memory', ttlMs: 60_000, maxEntries: 100 });
+  await clearAgentCache();
+});
+
+afterEach(() => {
+  Object.assign(config.cache, cacheConfig);
+  vi.useRealTimers();
+});
+
+describe('getAgentCacheKey', () => {
+  it('is the same for the same inputs and changes with any of them', () => {
+    const key = getAgentCacheKey(keyOf('CV text'));
+
+    expect(getAgentCacheKey(keyOf('CV text'))).toBe(key);
+    expect(getAgentCacheKey(keyOf('Other CV text'))).not.toBe(key);
+    expect(getAgentCacheKey(keyOf('CV text', { prompt: 'Evaluate the summary strictly' }))).not.toBe(key);
+    expect(getAgentCacheKey(keyOf('CV text', { model: new MockLanguageModelV1({ provider: 'openai', modelId: 'gpt-4o-mini' }) }))).not.toBe(key);
+    expect(getAgentCacheKey(keyOf('CV text', { schema: z.object({ score: z.string() }) }))).not.toBe(key);
+  });
+});
+
+describe('withAgentCache', () => {
+  it('runs the agent once and serves the cached output after that', async () => {
+    const logs: string[] = [];
+    expect(await cached(keyOf('CV'), { score: 7 }, { logs })).toEqual({ result: { score: 7 }, ran: true });
+    expect(await cached(keyOf('CV'), { score: 3 }, { logs })).toEqual({ result: { score: 7 }, ran: false });
+
+    expect(logs.map(line => line.match(/\[cache \w+\]/)?.[0])).toEqual(['[cache miss]', '[cache hit]']);
+  });
+
+  it('runs the agent and replaces the cached output when bypassed', async () => {
+    await cached(keyOf('CV'), { score: 7 });
+
+    expect(await cached(keyOf('CV'), { score: 3 }, { bypass: true })).toEqual({ result: { score: 3 }, ran: true });
+    expect(await cached(keyOf('CV'))).toEqual({ result: { score: 3 }, ran: false });
+  });
+
+  it('does not cache a failed call', async () => {
+    await expect(withAgentCache(keyOf('CV'), undefined, async () => {
+      throw new Error('Rate limited');
+    })).rejects.toThrow('Rate limited');
+
+    expect(await store().list()).toEqual([]);
+  });
+
+  it('runs the agent again when the cached output has expired', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await cached(keyOf('CV'), { score: 7 });
+    vi.advanceTimersByTime(60_001);
+
+    expect(await cached(keyOf('CV'), { score: 3 })).toEqual({ result: { score: 3 }, ran: true });
+  });
+
+  it('removes expired outputs when an output is cached', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await cached(keyOf('first CV'));
+    await cached(keyOf('second CV'));
+    vi.advanceTimersByTime(60_001);
+    await cached(keyOf('third CV'));
+
+    expect((await store().list()).map(entry => entry.id)).toEqual([getAgentCacheKey(keyOf('third CV'))]);
+  });
+
+  it('removes the oldest outputs above the maximum number of entries', async () => {
+    config.cache.maxEntries = 2;
+    vi.useFakeTimers({ toFake: ['Date'] });
+    for (const content of ['first CV', 'second CV', 'third CV']) {
+      await cached(keyOf(content));
+      vi.advanceTimersByTime(1000);
+    }
+
+    const ids = (await store().list()).map(entry => entry.id);
+    expect(ids.sort()).toEqual([getAgentCacheKey(keyOf('second CV')), getAgentCacheKey(keyOf('third CV'))].sort());
+    expect(await cached(keyOf('first CV'))).toMatchObject({ ran: true });
+  });
+
+  it('lists the store only once to find the outputs to remove', async () => {
+    const list = vi.spyOn(store(), 'list');
+    for (const content of ['first CV', 'second CV', 'third CV']) {
+      await cached(keyOf(content));
+    }
+
+    expect(list).toHaveBeenCalledTimes(1);
+    list.mockRestore();
+  });
+
+  it('always runs the agent when the cache is off', async () => {
+    config.cache.backend = 'off';
+    await cached(keyOf('CV'));
+
+    expect(await cached(keyOf('CV'))).toMatchObject({ ran: true });
+    expect(await store().list()).toEqual([]);
+  });
+});
@@ -0,0 +1,176 @@
+import { createHash } from 'crypto';
+import { zodSchema, type LanguageModel } from 'ai';
+import type { z } from 'zod';
+import { config } from './config';
+import { getStore } from './storage';
+import { logDebug } from './cv-analysis-agent/utils';
+
+/**
+ * Per-request cache settings passed to the agents
+ */
+export interface AgentCacheOptions {
+  // Run the agent even when a cached output exists, and replace the cached output with the new one
+  bypass?: boolean;
+  // Debug logs of the route, cache hits and misses are added to them
+  logs?: string[];
+}
+
+/**
+ * Everything an agent output depends on. Two calls with the same key get the same cached output.
+ */
+export interface AgentCacheKey {
+  agent: string;
+  model: LanguageModel;
+  schema: z.ZodTypeAny;
+  // The document text or structured CV the agent reads
+  content: unknown;
+  // System prompt and instructions, including the checklist text, so an edited checklist or prompt is a new key
+  prompt: string;
+}
+
+interface CachedAgentOutput {
+  // Store id of the entry, so entries found by listing the store can be removed
+  id: string;
+  agent: string;
+  output: unknown;
+  createdAt: string;
+  expiresAt: string;
+}
+
+type CacheIndex = Map<string, Pick<CachedAgentOutput, 'createdAt' | 'expiresAt'>>;
+
+const cacheBackend = () => config.cache.backend === 'file' ? 'file' : 'memory';
+const cacheStore = () => getStore<CachedAgentOutput>('agent_cache', cacheBackend());
+
+// Creation and expiry time of the cached outputs per backend, so eviction does not read the whole store on every write.
+// Each index is loaded from the store once and then kept up to date with the writes and deletes of this module.
+const indexes = new Map<string, Promise<CacheIndex>>();
+
+function cacheIndex(): Promise<CacheIndex> {
+  const backend = cacheBackend();
+  if (!indexes.has(backend)) {
+    indexes.set(backend, cacheStore().list()
+      .then(entries => new Map(entries.map(({ id, createdAt, expiresAt }) => [id, { createdAt, expiresAt }])))
+      .catch(error => {
+        indexes.delete(backend);
+        throw error;
+      }));
+  }
+  return indexes.get(backend) as Promise<CacheIndex>;
+}
+
+const hash = (value: unknown) => createHash('sha256').update(JSON.stringify(value)).digest('hex');
+
+/**
+ * Hash of the cache key, used as the store id
+ */
+export function getAgentCacheKey({ agent, model, schema, content, prompt }: AgentCacheKey): string {
+  return hash({
+    agent,
+    model: `${model.provider}:${model.modelId}`,
+    schema: hash(zodSchema(schema).jsonSchema),
+    content: hash(content),
+    prompt: hash(prompt)
+  });
+}
+
+function log(options: AgentCacheOptions | undefined, message: string, error?: unknown) {
+  const entry = logDebug(message, error);
+  options?.logs?.push(entry);
+}
+
+/**
+ * Remove expired outputs, then the oldest outputs above config.cache.maxEntries
+ */
+async function evictCachedOutputs(options: AgentCacheOptions | undefined) {
+  const index = await cacheIndex();
+  const now = new Date().toISOString();
+  const entries = Array.from(index, ([id, { createdAt, expiresAt }]) => ({ id, createdAt, expiresAt }));
+  const expired = entries.filter(entry => entry.expiresAt <= now);
+  const live = entries
+    .filter(entry => entry.expiresAt > now)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const evicted = [...expired, ...live.slice(0, Math.max(0, live.length - config.cache.maxEntries))];
+
+  if (evicted.length > 0) {
+    evicted.forEach(entry => index.delete(entry.id));
+    await Promise.all(evicted.map(entry => cacheStore().delete(entry.id)));
+    log(options, `[cache evict] ${expired.length} expired and ${evicted.length - expired.length} oldest outputs removed`);
+  }
+}
+
+/**
+ * Remove all cached outputs of the configured backend
+ */
+export async function clearAgentCache(): Promise<void> {
+  const store = cacheStore();
+  await Promise.all((await store.list()).map(entry => store.delete(entry.id)));
+  indexes.delete(cacheBackend());
+}
+
+/**
+ * Run an agent call through the cache. Only successful outputs are cached, and cache errors never fail the call.
+ * Caching an output removes expired and excess outputs.
+ */
+export async function withAgentCache<T>(
+  key: AgentCacheKey,
+  options: AgentCacheOptions | undefined,
+  run: () => Promise<T>
+): Promise<T> {
+  if (config.cache.backend === 'off') {
+    return run();
+  }
+
+  const id = getAgentCacheKey(key);
+  const marker = `${key.agent} ${id.slice(0, 12)}`;
+
+  if (options?.bypass) {
+    log(options, `[cache bypass] ${marker}`);
+  } else {
+    try {
+      const cached = await cacheStore().get(id);
+      if (cached && cached.expiresAt > new Date().toISOString()) {
+        log(options, `[cache hit] ${marker} from ${cached.createdAt}`);
+        return cached.output as T;
+      }
+      if (cached) {
+        await cacheStore().delete(id);
+        (await cacheIndex()).delete(id);
+      }
+      log(options, `[cache miss] ${marker}`);
+    } catch (error) {
+      log(options, `[cache error] ${marker}: reading failed`, error);
+    }
+  }
+
+  const output = await run();
+
+  try {
+    const now = Date.now();
+    const entry: CachedAgentOutput = {
+      id,
+      agent: key.agent,
+      output,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + config.cache.ttlMs).toISOString()
+    };
+    await cacheStore().put(id, entry);
+    (await cacheIndex()).set(id, { createdAt: entry.createdAt, expiresAt: entry.expiresAt });
+  } catch (error) {
+    log(options, `[cache error] ${marker}: writing failed`, error);
+  }
+
+  try {
+    await evictCachedOutputs(options);
+  } catch (error) {
+    log(options, `[cache error] ${marker}: eviction failed`, error);
+  }
+  return output;
+}
+
+/**
+ * Read the `bypassCache` form field of a request
+ */
+export function getAgentCacheOptions(formData: FormData, logs?: string[]): AgentCacheOptions {
+  return { bypass: formData.get('bypassCache') === 'true', logs };
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { openai } from '@ai-sdk/openai';
 import { generateObject } from 'ai';
 import { config, isProviderAvailable } from '../config';
+import { logger } from '../tracing';
+import { createUsageTracker, withUsage, type UsageTracker } from '../usage';
 import { ModelProvider } from '../../components/ModelSelector';
 import { z } from 'zod';
 
@@ -34,6 +36,12 @@ const combinedAnalysisSchema = z.object({
 });
 
 export async function POST(req: NextRequest) {
+  // Every agent call of the request is counted, and the totals are returned with the result
+  const usage = createUsageTracker();
+  return usage.track(() => analyzeCv(req, usage));
+}
+
+async function analyzeCv(req: NextRequest, usage: UsageTracker) {
   try {
     const formData = await req.formData();
     const pdfFile = formData.get('file') as File;
@@ -105,7 +113,7 @@ export async function POST(req: NextRequest) {
 
     // Different processing based on analysis type
     if (analysisType === 'agent_evaluation') {
-      console.log('Redirecting to agent-cv-evaluation with analysisType:', analysisType);
+      logger.debug(`Redirecting to agent-cv-evaluation with analysisType: ${analysisType}`);
       
       // Create a new FormData for the agent evaluation endpoint
       const agentFormData = new FormData();
@@ -124,22 +132,22 @@ ${assignmentsChecklistText}
       
       // Add the checklist in the format expected by agent-cv-evaluation
       agentFormData.append('checklistText', combinedChecklist);
-      console.log('Created checklistText with length:', combinedChecklist.length);
+      logger.debug(`Created checklistText with length: ${combinedChecklist.length}`);
       
       // Copy other necessary parameters
       agentFormData.append('modelProvider', modelProvider);
       agentFormData.append('modelName', modelName);
       
       // Redirect to the agent-cv-evaluation endpoint
-      console.log('Calling agent-cv-evaluation endpoint...');
+      logger.debug('Calling agent-cv-evaluation endpoint...');
       const response = await fetch(`${new URL(req.url).origin}/api/agent-cv-evaluation`, {
         method: 'POST',
         body: agentFormData,
       });
       
-      console.log('agent-cv-evaluation response status:', response.status);
+      logger.debug(`agent-cv-evaluation response status: ${response.status}`);
       const data = await response.json();
-      console.log('agent-cv-evaluation response data:', Object.keys(data));
+      logger.debug('agent-cv-evaluation response data', Object.keys(data));
       
       // Add the analysis type to the response so we can track it in the frontend
       return NextResponse.json({
@@ -174,7 +182,7 @@ ${assignmentsChecklistText}
 
           // Run both analyses in parallel
           const [summaryAnalysis, assignmentsAnalysis] = await Promise.all([
-            generateObject({
+            withUsage('summary_analysis', model, () => generateObject({
               model,
               schema: summaryAnalysisSchema,
               system: summarySystemMessage,
@@ -193,9 +201,9 @@ ${assignmentsChecklistText}
                   }
                 ],
               }]
-            }).then(result => result.object),
+            })).then(result => result.object),
             
-            generateObject({
+            withUsage('assignments_analysis', model, () => generateObject({
               model,
               schema: assignmentAnalysisSchema,
               system: assignmentsSystemMessage,
@@ -214,7 +222,7 @@ ${assignmentsChecklistText}
                   }
                 ],
               }]
-            }).then(result => result.object)
+            })).then(result => result.object)
           ]);
 
           // Combine the results
@@ -226,7 +234,8 @@ ${assignmentsChecklistText}
           return NextResponse.json({ 
             result: combinedResult,
             isStructured: true,
-            analysisType: 'combined'
+            analysisType: 'combined',
+            usage: usage.summary()
           });
         } else {
           // For Anthropic and other providers, we can still process but without structured output
@@ -236,7 +245,7 @@ ${assignmentsChecklistText}
           );
         }
       } catch (error) {
-        console.error('Error processing CV analysis:', error);
+        logger.error('Error processing CV analysis', error);
         return NextResponse.json(
           { error: 'Error processing CV analysis', details: error instanceof Error ? error.message : 'Unknown error' },
           { status: 500 }
@@ -249,7 +258,7 @@ ${assignmentsChecklistText}
       );
     }
   } catch (error) {
-    console.error('Error processing CV analysis:', error);
+    logger.error('Error processing CV analysis', error);
     return NextResponse.json(
       { error: 'Error processing CV analysis', details: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
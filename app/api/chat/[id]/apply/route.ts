@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyChatEdit } from '../../sessions';
+import type { AnalysisResult } from '../../../cv-analysis-agent/pipeline';
+import { getResponseHeaders, logDebug } from '../../../cv-customization/utils';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Apply a proposed edit from JSON { messageId, editId, result? }. Returns the updated result,
+ * or 409 when the edit was already applied or no longer fits the result.
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const { messageId, editId, result } = await req.json() as { messageId?: string; editId?: string; result?: AnalysisResult };
+
+    if (!messageId || !editId) {
+      return NextResponse.json(
+        { error: 'Missing required parameters (messageId and editId)' },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    const applied = await applyChatEdit(id, messageId, editId, result);
+    if (applied.error !== undefined) {
+      return NextResponse.json(
+        { error: applied.error },
+        { status: applied.status, headers: getResponseHeaders() }
+      );
+    }
+
+    return NextResponse.json(applied, { headers: getResponseHeaders() });
+  } catch (error) {
+    logDebug('Error applying chat edit:', error);
+    return NextResponse.json(
+      { error: 'Error applying chat edit', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChatSession, sendChatMessage, withLatestResult } from '../../sessions';
+import type { AnalysisResult } from '../../../cv-analysis-agent/pipeline';
+import { getResponseHeaders, logDebug } from '../../../cv-customization/utils';
+
+export const maxDuration = 230;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Send a message from JSON { message, result? }. Returns the assistant's reply with any proposed edits.
+ * Analysis sessions may send the latest result, e.g. after a criterion was retried.
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const { message, result } = await req.json() as { message?: string; result?: AnalysisResult };
+
+    if (!message?.trim()) {
+      return NextResponse.json(
+        { error: 'Missing message' },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    const session = await getChatSession(id);
+    if (!session) {
+      return NextResponse.json(
+        { error: `Chat session not found: ${id}` },
+        { status: 404, headers: getResponseHeaders() }
+      );
+    }
+
+    const reply = await sendChatMessage(withLatestResult(session, result), message.trim());
+    return NextResponse.json(reply, { headers: getResponseHeaders() });
+  } catch (error) {
+    logDebug('Error answering chat message:', error);
+    return NextResponse.json(
+      { error: 'Error answering chat message', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteChatSession, getChatSession } from '../sessions';
+import { getResponseHeaders } from '../../cv-customization/utils';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) => NextResponse.json(
+  { error: `Chat session not found: ${id}` },
+  { status: 404, headers: getResponseHeaders() }
+);
+
+/**
+ * Get a chat session with its messages and proposed edits
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const session = await getChatSession(id);
+
+  if (!session) {
+    return notFound(id);
+  }
+
+  return NextResponse.json({ session }, { headers: getResponseHeaders() });
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!(await deleteChatSession(id))) {
+    return notFound(id);
+  }
+
+  return new NextResponse(null, { status: 204, headers: getResponseHeaders() });
+}
@@ -0,0 +1,169 @@
+import { generateObject, type LanguageModel } from 'ai';
+import { z } from 'zod';
+import { formatCvForPrompt } from '../cv-analysis-agent/agents/cvStructure';
+import { getFinalCustomization } from '../../utils/customizationOutput';
+import { EDIT_SECTIONS } from './edits';
+import type { ChatContext, ChatMessage, ChatSessionType } from './sessions';
+import { withUsage } from '../usage';
+import { logger } from '../tracing';
+
+// How many earlier messages are sent with each question
+const HISTORY_LENGTH = 20;
+
+const chatResponseSchema = z.object({
+  reply: z.string().describe('The answer to the user'),
+  edits: z.array(z.object({
+    section: z.enum(['profile', 'competencies', 'project', 'summary']),
+    project_id: z.string().describe('The project id in brackets, e.g. "project-2", for project edits, otherwise an empty string'),
+    new_text: z.string().describe('The complete replacement text. For competencies, the full list with one competency per line'),
+    description: z.string().describe('Short description of the change')
+  })).describe('Proposed changes to the result. Empty when the user only asks a question')
+});
+
+export type ChatResponse = z.infer<typeof chatResponseSchema>;
+
+interface RefinementChatParams {
+  model: LanguageModel;
+  type: ChatSessionType;
+  context: ChatContext;
+  history: ChatMessage[];
+  message: string;
+}
+
+const formatList = (items: string[] = []) => items.length > 0 ? items.map(item => `- ${item}`).join('\n') : '(none)';
+
+function formatRequirements(requirements: any): string {
+  if (!requirements) {
+    return '';
+  }
+  return `CUSTOMER REQUIREMENTS:
+${requirements.context_summary}
+
+Must-have:
+${formatList(requirements.must_have_requirements.map((req: any) => `${req.requirement}: ${req.description}`))}
+
+Should-have:
+${formatList(requirements.should_have_requirements.map((req: any) => `${req.requirement}: ${req.description}`))}`;
+}
+
+function formatCustomizationResult(result: any): string {
+  const final = getFinalCustomization(result);
+  const validation = result.validation;
+
+  const projects = final.projects.map(project => {
+    const projectValidation = validation?.projects_validation?.find((p: any) => p.project_id === project.project_id);
+    return `[${project.project_id}] ${project.project_name}
+${project.description}
+Fabricated details: ${projectValidation?.fabricated_details?.join('; ') || 'none'}
+Unsupported claims: ${projectValidation?.unsupported_claims?.join('; ') || 'none'}
+Validation reasoning: ${projectValidation?.reasoning || '-'}`;
+  }).join('\n\n');
+
+  return `CUSTOMIZED PROFILE:
+${final.profile}
+
+Fabricated claims: ${validation?.profile_validation?.fabricated_claims?.join('; ') || 'none'}
+Unsupported claims: ${validation?.profile_validation?.unsupported_claims?.join('; ') || 'none'}
+Validation reasoning: ${validation?.profile_validation?.reasoning || '-'}
+
+KEY COMPETENCIES:
+${formatList(final.competencies)}
+
+Unsupported competencies: ${validation?.competencies_validation?.unsupported_competencies?.join('; ') || 'none'}
+Validation reasoning: ${validation?.competencies_validation?.reasoning || '-'}
+
+CUSTOMIZED PROJECTS:
+${projects}
+
+EVALUATION (score ${result.evaluation?.overall_score ?? '-'}/10):
+${result.evaluation?.overall_comments || ''}
+${formatList(result.evaluation?.improvement_suggestions)}`;
+}
+
+function formatAnalysisResult(result: any): string {
+  const criteria = (result.criterion_evaluations || []).map((criterion: any) => `${criterion.criterion_name} (${criterion.score}/10)
+${criterion.reasoning}
+Suggestions:
+${formatList(criterion.suggestions)}`).join('\n\n');
+
+  const summaryQuality = result.detailed_analysis?.summary_quality;
+  const projectEvaluations = result.detailed_analysis?.project_descriptions?.project_evaluations || [];
+  const projects = projectEvaluations.map((project: any) => `[${project.project_id}] ${project.project_name} (${project.score}/10)
+Weaknesses: ${project.weaknesses?.join('; ') || 'none'}
+Improved version: ${project.improved_version || '(none)'}`).join('\n\n');
+
+  return `CV ANALYSIS (overall score ${result.overall_score}/10):
+${result.summary}
+
+CRITERIA:
+${criteria}
+
+IMPROVED SUMMARY:
+${summaryQuality?.improved_version || '(none)'}
+
+PROJECT EVALUATIONS:
+${projects || '(none)'}`;
+}
+
+/**
+ * Answer a question about an analysis or customization result, and propose edits when the user asks for changes
+ */
+export async function runRefinementChatAgent({
+  model,
+  type,
+  context,
+  history,
+  message
+}: RefinementChatParams): Promise<ChatResponse> {
+  const sections = EDIT_SECTIONS[type];
+
+  const systemPrompt = `
+    You are an expert CV consultant helping a user refine ${type === 'customization'
+      ? 'a CV that was customized for a customer'
+      : 'a CV based on an automated analysis'}.
+    You have the structured CV${type === 'customization' ? ', the customer requirements' : ''} and the latest result below.
+
+    - Answer questions about the result, e.g. why something was flagged, using the validation and evaluation details
+    - When the user asks for a change, propose it as an edit with the complete new text. Explain the change briefly in the reply
+    - Only propose edits to these sections: ${sections.join(', ')}. ${type === 'customization'
+      ? '"profile" is the customized profile, "competencies" the list of key competencies and "project" a customized project description.'
+      : '"summary" is the improved summary and "project" the improved version of a project description.'}
+    - Refer to projects by the id shown in brackets
+    - Stay factually grounded in the CV. Never add skills, technologies, results or experiences that are not in the CV, and say so if the user asks for it
+    - Answer in the language of the user's message, and write edited texts in the language of the CV
+
+    STRUCTURED CV:
+    ${formatCvForPrompt(context.cv)}
+
+    ${formatRequirements(context.customerRequirements)}
+
+    LATEST RESULT:
+    ${type === 'customization' ? formatCustomizationResult(context.result) : formatAnalysisResult(context.result)}
+  `;
+
+  try {
+    const { object } = await withUsage('chat', model, () => generateObject({
+      model,
+      schema: chatResponseSchema,
+      system: systemPrompt,
+      messages: [
+        ...history.slice(-HISTORY_LENGTH).map(previous => ({
+          role: previous.role,
+          content: previous.edits?.length
+            ? `${previous.content}\n\n(Proposed edits: ${previous.edits.map(edit => edit.description).join('; ')})`
+            : previous.content
+        })),
+        { role: 'user' as const, content: message }
+      ]
+    }));
+
+    // Drop edits the session type cannot apply
+    return {
+      ...object,
+      edits: object.edits.filter(edit => sections.includes(edit.section))
+    };
+  } catch (error) {
+    logger.error('Error in refinement chat', error);
+    throw new Error('Failed to answer the chat message');
+  }
+}
@@ -0,0 +1,122 @@
+import type { ChatSessionType, EditSection, ProposedEdit } from './sessions';
+
+// Sections the assistant may edit for each session type
+export const EDIT_SECTIONS: Record<ChatSessionType, EditSection[]> = {
+  customization: ['profile', 'competencies', 'project'],
+  analysis: ['summary', 'project']
+};
+
+export type ApplyEditResult =
+  | { result: any; error?: undefined }
+  | { result?: undefined; error: string };
+
+const parseCompetencies = (text: string) =>
+  text
+    .split('\n')
+    .map(line => line.replace(/^\s*[-•*]\s*/, '').trim())
+    .filter(Boolean);
+
+/**
+ * Apply an edit to a customization result. The corrected texts are updated as well,
+ * since they take precedence in the final CV.
+ */
+function applyCustomizationEdit(result: any, edit: ProposedEdit): ApplyEditResult {
+  const correction = result.correction;
+
+  switch (edit.section) {
+    case 'profile':
+      return {
+        result: {
+          ...result,
+          profile_customization: { ...result.profile_customization, customized_profile: edit.new_text },
+          correction: correction && {
+            ...correction,
+            corrected_profile: { ...correction.corrected_profile, profile: edit.new_text }
+          }
+        }
+      };
+    case 'competencies': {
+      const competencies = parseCompetencies(edit.new_text);
+      return {
+        result: {
+          ...result,
+          key_competencies: { ...result.key_competencies, relevant_competencies: competencies },
+          correction: correction && {
+            ...correction,
+            corrected_competencies: { ...correction.corrected_competencies, competencies }
+          }
+        }
+      };
+    }
+    case 'project': {
+      if (!result.customized_projects?.some((project: any) => project.project_id === edit.project_id)) {
+        return { error: `Project not found in the result: ${edit.project_id}` };
+      }
+      return {
+        result: {
+          ...result,
+          customized_projects: result.customized_projects.map((project: any) =>
+            project.project_id === edit.project_id ? { ...project, customized_description: edit.new_text } : project
+          ),
+          correction: correction && {
+            ...correction,
+            corrected_projects: correction.corrected_projects.map((project: any) =>
+              project.project_id === edit.project_id ? { ...project, corrected_description: edit.new_text } : project
+            )
+          }
+        }
+      };
+    }
+    default:
+      return { error: `Cannot edit ${edit.section} in a customization result` };
+  }
+}
+
+/**
+ * Apply an edit to the improved versions suggested by an enhanced agent analysis
+ */
+function applyAnalysisEdit(result: any, edit: ProposedEdit): ApplyEditResult {
+  const criterionId = edit.section === 'summary' ? 'summary_quality' : 'project_descriptions';
+  const criterion = result.criterion_evaluations?.find((c: any) => c.criterion_id === criterionId);
+  if (!criterion) {
+    return { error: `Criterion was not evaluated: ${criterionId}` };
+  }
+
+  let updated: any;
+  switch (edit.section) {
+    case 'summary':
+      updated = { ...criterion, improved_version: edit.new_text };
+      break;
+    case 'project':
+      if (!criterion.project_evaluations?.some((project: any) => project.project_id === edit.project_id)) {
+        return { error: `Project not found in the result: ${edit.project_id}` };
+      }
+      updated = {
+        ...criterion,
+        project_evaluations: criterion.project_evaluations.map((project: any) =>
+          project.project_id === edit.project_id ? { ...project, improved_version: edit.new_text } : project
+        )
+      };
+      break;
+    default:
+      return { error: `Cannot edit ${edit.section} in an analysis result` };
+  }
+
+  // detailed_analysis holds the same criterion results keyed by id
+  return {
+    result: {
+      ...result,
+      criterion_evaluations: result.criterion_evaluations.map((c: any) => c.criterion_id === criterionId ? updated : c),
+      detailed_analysis: { ...result.detailed_analysis, [criterionId]: updated }
+    }
+  };
+}
+
+/**
+ * Return the result with the edit applied, or an error when the edit does not fit the result
+ */
+export function applyEdit(type: ChatSessionType, result: any, edit: ProposedEdit): ApplyEditResult {
+  return type === 'customization'
+    ? applyCustomizationEdit(result, edit)
+    : applyAnalysisEdit(result, edit);
+}
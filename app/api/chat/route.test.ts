@@ -0,0 +1,45 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { config } from '../config';
+import { createJob, updateJob } from '../jobs/jobs';
+import { CUSTOMIZATION_JOB_TYPE } from '../cv-customization/pipeline';
+import { POST } from './route';
+
+const start = (jobId: string) => POST(new NextRequest('http://localhost/api/chat', {
+  method: 'POST',
+  body: JSON.stringify({ type: 'customization', modelProvider: 'openai', modelName: 'gpt-4o', jobId }),
+  headers: { 'Content-Type': 'application/json' }
+}));
+
+async function completedJob(type: string) {
+  const job = await createJob(type, {});
+  await updateJob(job.id, current => ({ ...current, status: 'completed', result: {} }));
+  return job;
+}
+
+const apiKey = config.openai.apiKey;
+
+// The model check needs a key for the provider, no request is made
+beforeAll(() => {
+  config.openai.apiKey = 'test-key';
+});
+
+afterAll(() => {
+  config.openai.apiKey = apiKey;
+});
+
+describe('POST /api/chat', () => {
+  it('starts a customization session for a completed customization job', async () => {
+    const job = await completedJob(CUSTOMIZATION_JOB_TYPE);
+
+    expect((await start(job.id)).status).toBe(201);
+  });
+
+  it('rejects jobs of another type', async () => {
+    const job = await completedJob('batch_analysis');
+    const response = await start(job.id);
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe(`No completed customization job found: ${job.id}`);
+  });
+});
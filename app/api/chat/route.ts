@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createChatSession, validateChatSessionInput, type CreateChatSessionInput } from './sessions';
+import { checkModelSupport } from '../models';
+import { getJob } from '../jobs/jobs';
+import { CUSTOMIZATION_JOB_TYPE } from '../cv-customization/pipeline';
+import { getResponseHeaders, logDebug } from '../cv-customization/utils';
+
+/**
+ * Start a refinement chat from JSON { type, modelProvider, modelName, jobId?, result? }.
+ * Customization sessions need the id of a completed customization job,
+ * analysis sessions the enhanced agent analysis result.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const input = await req.json() as CreateChatSessionInput;
+    const validationError = validateChatSessionInput(input)
+      ?? checkModelSupport(input.modelProvider, input.modelName, { structuredOutput: true });
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    if (input.type === 'customization') {
+      const job = await getJob(input.jobId!);
+      if (job?.type !== CUSTOMIZATION_JOB_TYPE || !job.result) {
+        return NextResponse.json(
+          { error: `No completed customization job found: ${input.jobId}` },
+          { status: 404, headers: getResponseHeaders() }
+        );
+      }
+    }
+
+    const session = await createChatSession(input);
+    return NextResponse.json(
+      { session },
+      { status: 201, headers: getResponseHeaders() }
+    );
+  } catch (error) {
+    logDebug('Error creating chat session:', error);
+    return NextResponse.json(
+      { error: 'Error creating chat session', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createJob, getJob, updateJob } from '../jobs/jobs';
+import { CUSTOMIZATION_JOB_TYPE, type CustomizationJob } from '../cv-customization/pipeline';
+import type { AnalysisResult } from '../cv-analysis-agent/pipeline';
+import type { CvDocument } from '../cv-analysis-agent/schemas';
+import { runRefinementChatAgent, type ChatResponse } from './agent';
+import { applyChatEdit, createChatSession, getChatSession, sendChatMessage, type ChatSession } from './sessions';
+
+vi.mock('./agent', () => ({
+  runRefinementChatAgent: vi.fn()
+}));
+
+const cv: CvDocument = {
+  candidate_name: 'Ola Nordmann',
+  summary: 'Developer',
+  roles: [],
+  projects: [],
+  competencies: ['TypeScript'],
+  education: [],
+  certifications: [],
+  languages: []
+};
+
+const analysisResult = {
+  cv,
+  criterion_evaluations: [
+    { criterion_id: 'summary_quality', improved_version: 'Developer' },
+    { criterion_id: 'project_descriptions', project_evaluations: [{ project_id: 'p1', improved_version: 'Built an API' }] }
+  ],
+  detailed_analysis: {}
+} as unknown as AnalysisResult;
+
+const reply = (edits: ChatResponse['edits'] = []): ChatResponse => ({ reply: 'Here is a suggestion', edits });
+
+const summaryEdit = { section: 'summary' as const, project_id: '', new_text: 'Senior TypeScript developer', description: 'Stronger opening' };
+const projectEdit = { section: 'project' as const, project_id: 'p1', new_text: 'Built the payment API', description: 'More specific' };
+
+beforeEach(() => {
+  vi.mocked(runRefinementChatAgent).mockReset().mockResolvedValue(reply());
+});
+
+const analysisSession = () => createChatSession({ type: 'analysis', modelProvider: 'openai', modelName: 'gpt-4o', result: analysisResult });
+
+// Send a message whose reply proposes the given edits, returning their message and edit ids
+async function propose(session: ChatSession, ...edits: ChatResponse['edits']) {
+  vi.mocked(runRefinementChatAgent).mockResolvedValueOnce(reply(edits));
+  const { message } = await sendChatMessage(session, 'Improve it');
+  return message.edits!.map(edit => ({ messageId: message.id, editId: edit.id }));
+}
+
+describe('sendChatMessage', () => {
+  it('keeps the messages of concurrent requests', async () => {
+    const session = await analysisSession();
+
+    await Promise.all([sendChatMessage(session, 'First question'), sendChatMessage(session, 'Second question')]);
+
+    const stored = await getChatSession(session.id);
+    expect(stored?.messages.map(message => message.role)).toEqual(['user', 'assistant', 'user', 'assistant']);
+    expect(stored?.messages.filter(message => message.role === 'user').map(message => message.content).sort())
+      .toEqual(['First question', 'Second question']);
+  });
+});
+
+describe('applyChatEdit', () => {
+  it('applies an edit to the analysis result and marks it as applied', async () => {
+    const session = await analysisSession();
+    const [{ messageId, editId }] = await propose(session, summaryEdit);
+
+    const applied = await applyChatEdit(session.id, messageId, editId);
+    expect(applied.error).toBeUndefined();
+    expect(applied.error === undefined && applied.result.criterion_evaluations[0].improved_version).toBe('Senior TypeScript developer');
+
+    const stored = await getChatSession(session.id);
+    expect(stored?.messages[1].edits?.[0].applied).toBe(true);
+    expect(stored?.result?.criterion_evaluations[0]).toMatchObject({ improved_version: 'Senior TypeScript developer' });
+  });
+
+  it('rejects an edit that was already applied', async () => {
+    const session = await analysisSession();
+    const [{ messageId, editId }] = await propose(session, summaryEdit);
+
+    await applyChatEdit(session.id, messageId, editId);
+    expect(await applyChatEdit(session.id, messageId, editId)).toEqual({ error: `Edit already applied: ${editId}`, status: 409 });
+  });
+
+  it('keeps both edits when they are applied at the same time', async () => {
+    const session = await analysisSession();
+    const [summary, project] = await propose(session, summaryEdit, projectEdit);
+
+    await Promise.all([
+      applyChatEdit(session.id, summary.messageId, summary.editId),
+      applyChatEdit(session.id, project.messageId, project.editId)
+    ]);
+
+    const stored = await getChatSession(session.id);
+    expect(stored?.messages[1].edits?.map(edit => edit.applied)).toEqual([true, true]);
+    expect(stored?.result?.criterion_evaluations.map((criterion: any) =>
+      criterion.improved_version ?? criterion.project_evaluations[0].improved_version
+    )).toEqual(['Senior TypeScript developer', 'Built the payment API']);
+  });
+
+  it('saves customization edits on the job', async () => {
+    const job = await createJob(CUSTOMIZATION_JOB_TYPE, {});
+    await updateJob<CustomizationJob>(job.id, current => ({
+      ...current,
+      status: 'completed',
+      stages: { cv_structure: cv },
+      result: { profile_customization: { customized_profile: 'Developer' } } as any
+    }));
+    const session = await createChatSession({ type: 'customization', modelProvider: 'openai', modelName: 'gpt-4o', jobId: job.id });
+    const [{ messageId, editId }] = await propose(session, { ...summaryEdit, section: 'profile' });
+
+    expect((await applyChatEdit(session.id, messageId, editId)).error).toBeUndefined();
+    expect((await getJob<CustomizationJob>(job.id))?.result?.profile_customization.customized_profile).toBe('Senior TypeScript developer');
+  });
+
+  it('returns 404 for an unknown session or edit', async () => {
+    const session = await analysisSession();
+
+    expect(await applyChatEdit('missing', 'message', 'edit')).toMatchObject({ status: 404 });
+    expect(await applyChatEdit(session.id, 'message', 'edit')).toEqual({ error: 'Edit not found: edit', status: 404 });
+  });
+});
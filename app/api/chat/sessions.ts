@@ -0,0 +1,285 @@
+import { randomUUID } from 'crypto';
+import { getStore } from '../storage';
+import { getJob, updateJob } from '../jobs/jobs';
+import { resolveModel } from '../models';
+import type { ModelProvider } from '../../utils/modelOptions';
+import type { CvDocument } from '../cv-analysis-agent/schemas';
+import type { AnalysisResult } from '../cv-analysis-agent/pipeline';
+import type { CustomizationJob } from '../cv-customization/pipeline';
+import { runRefinementChatAgent } from './agent';
+import { applyEdit } from './edits';
+
+export type ChatSessionType = 'analysis' | 'customization';
+
+export const CHAT_SESSION_TYPES: ChatSessionType[] = ['analysis', 'customization'];
+
+export type EditSection = 'profile' | 'competencies' | 'project' | 'summary';
+
+/**
+ * A change to the result proposed by the assistant, applied only when the user accepts it
+ */
+export interface ProposedEdit {
+  id: string;
+  section: EditSection;
+  // Project id from the structured CV for project edits
+  project_id?: string;
+  // The complete replacement text, one competency per line for competencies
+  new_text: string;
+  description: string;
+  applied: boolean;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  edits?: ProposedEdit[];
+  createdAt: string;
+}
+
+/**
+ * A refinement conversation about one analysis or customization result.
+ * Customization sessions read the CV, requirements and latest result from the job,
+ * analysis sessions keep the result (which includes the structured CV) themselves.
+ */
+export interface ChatSession {
+  id: string;
+  type: ChatSessionType;
+  modelProvider: ModelProvider;
+  modelName: string;
+  jobId?: string;
+  result?: AnalysisResult;
+  messages: ChatMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * What the assistant knows about the session
+ */
+export interface ChatContext {
+  cv: CvDocument;
+  customerRequirements?: any;
+  result: any;
+}
+
+export interface CreateChatSessionInput {
+  type: ChatSessionType;
+  modelProvider: ModelProvider;
+  modelName: string;
+  jobId?: string;
+  result?: AnalysisResult;
+}
+
+const sessionStore = () => getStore<ChatSession>('chat_sessions');
+
+/**
+ * Validation error for a create request, or null when it is valid
+ */
+export function validateChatSessionInput(input: Partial<CreateChatSessionInput>): string | null {
+  if (!CHAT_SESSION_TYPES.includes(input.type as ChatSessionType)) {
+    return `type must be one of: ${CHAT_SESSION_TYPES.join(', ')}`;
+  }
+  if (input.type === 'customization' && !input.jobId) {
+    return 'jobId is required for customization sessions';
+  }
+  if (input.type === 'analysis' && !input.result?.cv) {
+    return 'result with the structured CV is required for analysis sessions';
+  }
+  return null;
+}
+
+export async function createChatSession(input: CreateChatSessionInput): Promise<ChatSession> {
+  const now = new Date().toISOString();
+  const session: ChatSession = {
+    id: randomUUID(),
+    type: input.type,
+    modelProvider: input.modelProvider,
+    modelName: input.modelName,
+    jobId: input.type === 'customization' ? input.jobId : undefined,
+    result: input.type === 'analysis' ? input.result : undefined,
+    messages: [],
+    createdAt: now,
+    updatedAt: now
+  };
+  await sessionStore().put(session.id, session);
+  return session;
+}
+
+export async function getChatSession(id: string): Promise<ChatSession | null> {
+  return sessionStore().get(id);
+}
+
+// Updates to the same session are chained, so concurrent messages and applied edits do not overwrite each other
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+/**
+ * Read, change and write a session as one step. Returns null when the session does not exist,
+ * an update that returns the session it was given writes nothing.
+ */
+async function updateChatSession(
+  id: string,
+  update: (session: ChatSession) => Promise<ChatSession> | ChatSession
+): Promise<ChatSession | null> {
+  const previous = pendingUpdates.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(async () => {
+    const session = await getChatSession(id);
+    if (!session) {
+      return null;
+    }
+    const updated = await update(session);
+    if (updated === session) {
+      return session;
+    }
+    const saved = { ...updated, updatedAt: new Date().toISOString() };
+    await sessionStore().put(id, saved);
+    return saved;
+  });
+
+  pendingUpdates.set(id, next);
+  try {
+    return await next;
+  } finally {
+    if (pendingUpdates.get(id) === next) {
+      pendingUpdates.delete(id);
+    }
+  }
+}
+
+export async function deleteChatSession(id: string): Promise<boolean> {
+  if (!(await getChatSession(id))) {
+    return false;
+  }
+  await sessionStore().delete(id);
+  return true;
+}
+
+/**
+ * Load the CV, requirements and latest result for a session.
+ * Throws when the customization job is missing or not completed.
+ */
+export async function getChatContext(session: ChatSession): Promise<ChatContext> {
+  if (session.type === 'analysis') {
+    return { cv: session.result!.cv, result: session.result };
+  }
+
+  const job = await getJob<CustomizationJob>(session.jobId!);
+  if (!job?.result || !job.stages.cv_structure) {
+    throw new Error(`Customization job ${session.jobId} is not available`);
+  }
+  return {
+    cv: job.stages.cv_structure,
+    customerRequirements: job.stages.requirements_analysis,
+    result: job.result
+  };
+}
+
+/**
+ * Use the client's copy of an analysis result, which may include retried criteria.
+ * Customization sessions always read the result from the job.
+ */
+export function withLatestResult(session: ChatSession, result?: AnalysisResult): ChatSession {
+  return session.type === 'analysis' && result?.cv ? { ...session, result } : session;
+}
+
+const createMessage = (role: ChatMessage['role'], content: string, edits?: ProposedEdit[]): ChatMessage => ({
+  id: randomUUID(),
+  role,
+  content,
+  edits,
+  createdAt: new Date().toISOString()
+});
+
+/**
+ * Ask the assistant about the latest result. Both messages are added to the session as stored when the reply arrives,
+ * the assistant's edits are only proposed until applied with applyChatEdit.
+ */
+export async function sendChatMessage(
+  session: ChatSession,
+  content: string
+): Promise<{ session: ChatSession; message: ChatMessage }> {
+  const context = await getChatContext(session);
+  const response = await runRefinementChatAgent({
+    model: resolveModel(session.modelProvider, session.modelName),
+    type: session.type,
+    context,
+    history: session.messages,
+    message: content
+  });
+
+  const message = createMessage('assistant', response.reply, response.edits.map(edit => ({
+    id: randomUUID(),
+    section: edit.section,
+    project_id: edit.project_id || undefined,
+    new_text: edit.new_text,
+    description: edit.description,
+    applied: false
+  })));
+
+  const userMessage = createMessage('user', content);
+  const updated = await updateChatSession(session.id, current => ({
+    ...current,
+    messages: [...current.messages, userMessage, message]
+  }));
+  if (!updated) {
+    throw new Error(`Chat session not found: ${session.id}`);
+  }
+  return { session: updated, message };
+}
+
+/**
+ * Apply a proposed edit to the latest result, once. Analysis sessions may pass the client's copy of the result.
+ * Customization results are saved on the job, so the final CV and exports include the edit.
+ */
+export async function applyChatEdit(
+  sessionId: string,
+  messageId: string,
+  editId: string,
+  result?: AnalysisResult
+): Promise<{ session: ChatSession; result: any; error?: undefined } | { error: string; status: number }> {
+  // Set by the update, which only runs when the session exists
+  let outcome = { error: `Chat session not found: ${sessionId}`, status: 404 } as
+    { result: any; error?: undefined } | { error: string; status: number };
+
+  const updated = await updateChatSession(sessionId, async stored => {
+    const session = withLatestResult(stored, result);
+    const edit = session.messages.find(message => message.id === messageId)?.edits?.find(e => e.id === editId);
+    if (!edit) {
+      outcome = { error: `Edit not found: ${editId}`, status: 404 };
+      return stored;
+    }
+    if (edit.applied) {
+      outcome = { error: `Edit already applied: ${editId}`, status: 409 };
+      return stored;
+    }
+
+    const context = await getChatContext(session);
+    let applied = applyEdit(session.type, context.result, edit);
+    if (applied.error === undefined && session.type === 'customization') {
+      // Applied again to the result as stored when the update is written, so regenerations and edits saved since are kept
+      await updateJob<CustomizationJob>(session.jobId!, current => {
+        applied = applyEdit(session.type, current.result, edit);
+        return applied.error === undefined ? { ...current, result: applied.result } : current;
+      });
+    }
+    if (applied.error !== undefined) {
+      outcome = { error: applied.error, status: 409 };
+      return stored;
+    }
+
+    outcome = { result: applied.result };
+    return {
+      ...session,
+      result: session.type === 'analysis' ? applied.result : undefined,
+      messages: session.messages.map(message => message.id !== messageId ? message : {
+        ...message,
+        edits: message.edits?.map(e => e.id === editId ? { ...e, applied: true } : e)
+      })
+    };
+  });
+
+  if (outcome.error !== undefined) {
+    return outcome;
+  }
+  return { session: updated as ChatSession, result: outcome.result };
+}
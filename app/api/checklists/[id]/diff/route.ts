@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { diffChecklistVersions, getChecklist, latestVersion } from '../../checklists';
+import { getResponseHeaders } from '../../../cv-customization/utils';
+
+/**
+ * Line diff between two versions of a checklist.
+ * ?from= defaults to the version before ?to=, which defaults to the latest version.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const checklist = await getChecklist(id);
+
+  if (!checklist) {
+    return NextResponse.json(
+      { error: `Checklist not found: ${id}` },
+      { status: 404, headers: getResponseHeaders() }
+    );
+  }
+
+  const searchParams = req.nextUrl.searchParams;
+  const to = Number(searchParams.get('to') ?? latestVersion(checklist).version);
+  const from = Number(searchParams.get('from') ?? Math.max(1, to - 1));
+  const diff = diffChecklistVersions(checklist, from, to);
+
+  if (!diff) {
+    return NextResponse.json(
+      { error: `Version not found, checklist has versions 1 to ${latestVersion(checklist).version}` },
+      { status: 404, headers: getResponseHeaders() }
+    );
+  }
+
+  return NextResponse.json(diff, { headers: getResponseHeaders() });
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteChecklist,
+  getChecklist,
+  updateChecklist,
+  validateChecklistInput,
+  type UpdateChecklistInput
+} from '../checklists';
+import { getResponseHeaders, logDebug } from '../../cv-customization/utils';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) => NextResponse.json(
+  { error: `Checklist not found: ${id}` },
+  { status: 404, headers: getResponseHeaders() }
+);
+
+/**
+ * Get a checklist with its full version history
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const checklist = await getChecklist(id);
+
+  if (!checklist) {
+    return notFound(id);
+  }
+
+  return NextResponse.json({ checklist }, { headers: getResponseHeaders() });
+}
+
+/**
+ * Update the type, name, description, owner or content of a checklist from JSON.
+ * Changed content is saved as a new version with the optional author and note.
+ */
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const input = await req.json().catch(() => null) as UpdateChecklistInput | null;
+  if (!input || typeof input !== 'object') {
+    return NextResponse.json(
+      { error: 'Request body must be a JSON object' },
+      { status: 400, headers: getResponseHeaders() }
+    );
+  }
+
+  try {
+    const validationError = validateChecklistInput(input, true);
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    const checklist = await updateChecklist(id, input);
+    if (!checklist) {
+      return notFound(id);
+    }
+
+    return NextResponse.json({ checklist }, { headers: getResponseHeaders() });
+  } catch (error) {
+    logDebug('Error updating checklist:', error);
+    return NextResponse.json(
+      { error: 'Error updating checklist', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!(await deleteChecklist(id))) {
+    return notFound(id);
+  }
+
+  return new NextResponse(null, { status: 204, headers: getResponseHeaders() });
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createChecklist,
+  deleteChecklist,
+  diffChecklistVersions,
+  getChecklist,
+  listChecklists,
+  updateChecklist,
+  validateChecklistInput,
+  type CreateChecklistInput
+} from './checklists';
+
+const input = (overrides: Partial<CreateChecklistInput> = {}): CreateChecklistInput => ({
+  type: 'summary',
+  name: 'Strict summary',
+  owner: 'Kari',
+  content: '1) Use third person\n2) 50-150 words',
+  ...overrides
+});
+
+describe('validateChecklistInput', () => {
+  it('requires a known type, a name, an owner and content', () => {
+    expect(validateChecklistInput(input())).toBeNull();
+    expect(validateChecklistInput(input({ type: 'profile' as never }))).toBe('type must be one of: summary, assignments');
+    expect(validateChecklistInput(input({ owner: ' ' }))).toBe('owner is required');
+  });
+
+  it('checks only the given fields of an update', () => {
+    expect(validateChecklistInput({ name: 'Renamed' }, true)).toBeNull();
+    expect(validateChecklistInput({ content: '' }, true)).toBe('content is required');
+  });
+});
+
+describe('updateChecklist', () => {
+  it('adds a version only when the content changes', async () => {
+    const checklist = await createChecklist(input());
+
+    const renamed = await updateChecklist(checklist.id, { name: 'Renamed', content: checklist.versions[0].content });
+    expect(renamed?.name).toBe('Renamed');
+    expect(renamed?.versions).toHaveLength(1);
+
+    const edited = await updateChecklist(checklist.id, { content: '1) Use third person', author: 'Ola', note: 'Dropped the length' });
+    expect(edited?.versions.map(version => [version.version, version.author, version.note])).toEqual([
+      [1, 'Kari', undefined],
+      [2, 'Ola', 'Dropped the length']
+    ]);
+  });
+
+  it('keeps every version of concurrent edits', async () => {
+    const checklist = await createChecklist(input());
+
+    await Promise.all(['First edit', 'Second edit', 'Third edit'].map(content => updateChecklist(checklist.id, { content })));
+
+    const updated = await getChecklist(checklist.id);
+    expect(updated?.versions.map(version => version.version)).toEqual([1, 2, 3, 4]);
+    expect(updated?.versions.map(version => version.content).slice(1)).toEqual(['First edit', 'Second edit', 'Third edit']);
+  });
+
+  it('moves a checklist to another type', async () => {
+    const checklist = await createChecklist(input({ name: 'Moved checklist' }));
+    await updateChecklist(checklist.id, { type: 'assignments' });
+
+    expect((await listChecklists('assignments')).map(summary => summary.id)).toContain(checklist.id);
+    expect((await listChecklists('summary')).map(summary => summary.id)).not.toContain(checklist.id);
+  });
+
+  it('returns null for an unknown checklist', async () => {
+    expect(await updateChecklist('missing', { name: 'Renamed' })).toBeNull();
+  });
+});
+
+describe('deleteChecklist', () => {
+  it('deletes a checklist once', async () => {
+    const checklist = await createChecklist(input());
+
+    expect(await deleteChecklist(checklist.id)).toBe(true);
+    expect(await deleteChecklist(checklist.id)).toBe(false);
+    expect(await getChecklist(checklist.id)).toBeNull();
+  });
+});
+
+describe('diffChecklistVersions', () => {
+  it('compares the lines of two versions', async () => {
+    const checklist = await createChecklist(input({ content: 'Use third person\n50-150 words' }));
+    const updated = await updateChecklist(checklist.id, { content: 'Use third person\n50-100 words' });
+
+    expect(diffChecklistVersions(updated!, 1, 2)?.changes).toEqual([
+      { type: 'equal', value: 'Use third person\n' },
+      { type: 'removed', value: '50-150 words' },
+      { type: 'added', value: '50-100 words' }
+    ]);
+    expect(diffChecklistVersions(updated!, 1, 3)).toBeNull();
+  });
+});
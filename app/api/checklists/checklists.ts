@@ -0,0 +1,197 @@
+import { randomUUID } from 'crypto';
+import { config } from '../config';
+import { getStore } from '../storage';
+import { diffLines, type DiffPart } from '../../utils/textDiff';
+
+export type ChecklistType = 'summary' | 'assignments';
+
+export const CHECKLIST_TYPES: ChecklistType[] = ['summary', 'assignments'];
+
+export interface ChecklistVersion {
+  version: number;
+  content: string;
+  author: string;
+  note?: string;
+  createdAt: string;
+}
+
+/**
+ * A user-managed checklist. Every content change is kept as a new version.
+ */
+export interface StoredChecklist {
+  id: string;
+  type: ChecklistType;
+  name: string;
+  description: string;
+  owner: string;
+  versions: ChecklistVersion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A checklist without its version history, with the content of the latest version
+ */
+export interface ChecklistSummary extends Omit<StoredChecklist, 'versions'> {
+  version: number;
+  content: string;
+}
+
+export interface CreateChecklistInput {
+  type: ChecklistType;
+  name: string;
+  description?: string;
+  owner: string;
+  content: string;
+}
+
+export interface UpdateChecklistInput {
+  type?: ChecklistType;
+  name?: string;
+  description?: string;
+  owner?: string;
+  content?: string;
+  // Author and note of the new version when the content changes, the author defaults to the owner
+  author?: string;
+  note?: string;
+}
+
+const checklistStore = () => getStore<StoredChecklist>('checklists', config.storage.checklistBackend);
+
+// Changes to the same checklist are chained, so concurrent edits do not overwrite each other's versions
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+async function chainUpdate<T>(id: string, change: () => Promise<T>): Promise<T> {
+  const previous = pendingUpdates.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(change);
+
+  pendingUpdates.set(id, next);
+  try {
+    return await next;
+  } finally {
+    if (pendingUpdates.get(id) === next) {
+      pendingUpdates.delete(id);
+    }
+  }
+}
+
+export function latestVersion(checklist: StoredChecklist): ChecklistVersion {
+  return checklist.versions[checklist.versions.length - 1];
+}
+
+export function toChecklistSummary({ versions, ...checklist }: StoredChecklist): ChecklistSummary {
+  const { version, content } = versions[versions.length - 1];
+  return { ...checklist, version, content };
+}
+
+/**
+ * Validation error for a create or update request, or null when it is valid
+ */
+export function validateChecklistInput(input: Partial<CreateChecklistInput>, partial = false): string | null {
+  if (!partial || input.type !== undefined) {
+    if (!CHECKLIST_TYPES.includes(input.type as ChecklistType)) {
+      return `type must be one of: ${CHECKLIST_TYPES.join(', ')}`;
+    }
+  }
+  for (const field of ['name', 'owner', 'content'] as const) {
+    if ((!partial || input[field] !== undefined) && !input[field]?.trim()) {
+      return `${field} is required`;
+    }
+  }
+  return null;
+}
+
+export async function createChecklist(input: CreateChecklistInput): Promise<StoredChecklist> {
+  const now = new Date().toISOString();
+  const checklist: StoredChecklist = {
+    id: randomUUID(),
+    type: input.type,
+    name: input.name.trim(),
+    description: input.description?.trim() || '',
+    owner: input.owner.trim(),
+    versions: [{ version: 1, content: input.content, author: input.owner.trim(), createdAt: now }],
+    createdAt: now,
+    updatedAt: now
+  };
+  await checklistStore().put(checklist.id, checklist);
+  return checklist;
+}
+
+export async function getChecklist(id: string): Promise<StoredChecklist | null> {
+  return checklistStore().get(id);
+}
+
+export async function listChecklists(type?: ChecklistType): Promise<ChecklistSummary[]> {
+  const checklists = await checklistStore().list();
+  return checklists
+    .filter(checklist => !type || checklist.type === type)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(toChecklistSummary);
+}
+
+/**
+ * Update the details of a checklist. A new version is added only when the content changed.
+ */
+export async function updateChecklist(id: string, input: UpdateChecklistInput): Promise<StoredChecklist | null> {
+  return chainUpdate(id, () => applyChecklistUpdate(id, input));
+}
+
+async function applyChecklistUpdate(id: string, input: UpdateChecklistInput): Promise<StoredChecklist | null> {
+  const checklist = await getChecklist(id);
+  if (!checklist) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const current = latestVersion(checklist);
+  const versions = input.content !== undefined && input.content !== current.content
+    ? [
+        ...checklist.versions,
+        {
+          version: current.version + 1,
+          content: input.content,
+          author: input.author?.trim() || input.owner?.trim() || checklist.owner,
+          ...(input.note?.trim() ? { note: input.note.trim() } : {}),
+          createdAt: now
+        }
+      ]
+    : checklist.versions;
+
+  const updated: StoredChecklist = {
+    ...checklist,
+    type: input.type ?? checklist.type,
+    name: input.name?.trim() || checklist.name,
+    description: input.description !== undefined ? input.description.trim() : checklist.description,
+    owner: input.owner?.trim() || checklist.owner,
+    versions,
+    updatedAt: now
+  };
+  await checklistStore().put(id, updated);
+  return updated;
+}
+
+export async function deleteChecklist(id: string): Promise<boolean> {
+  return chainUpdate(id, async () => {
+    if (!(await getChecklist(id))) {
+      return false;
+    }
+    await checklistStore().delete(id);
+    return true;
+  });
+}
+
+/**
+ * Line diff between two versions of a checklist, or null if either version does not exist
+ */
+export function diffChecklistVersions(
+  checklist: StoredChecklist,
+  from: number,
+  to: number
+): { from: ChecklistVersion; to: ChecklistVersion; changes: DiffPart[] } | null {
+  const fromVersion = checklist.versions.find(version => version.version === from);
+  const toVersion = checklist.versions.find(version => version.version === to);
+  if (!fromVersion || !toVersion) {
+    return null;
+  }
+  return { from: fromVersion, to: toVersion, changes: diffLines(fromVersion.content, toVersion.content) };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from './route';
+import { PUT } from './[id]/route';
+
+const request = (method: string, body: string) => new NextRequest('http://localhost/api/checklists', {
+  method,
+  body,
+  headers: { 'Content-Type': 'application/json' }
+});
+
+describe('POST /api/checklists', () => {
+  it('creates a checklist', async () => {
+    const response = await POST(request('POST', JSON.stringify({ type: 'summary', name: 'Strict', owner: 'Kari', content: '1) Be brief' })));
+
+    expect(response.status).toBe(201);
+    expect((await response.json()).checklist).toMatchObject({ name: 'Strict', version: 1 });
+  });
+
+  it('rejects malformed JSON and invalid input with 400', async () => {
+    expect((await POST(request('POST', '{"type": "summary",'))).status).toBe(400);
+    expect((await POST(request('POST', 'null'))).status).toBe(400);
+    expect((await POST(request('POST', JSON.stringify({ type: 'summary' })))).status).toBe(400);
+  });
+});
+
+describe('PUT /api/checklists/:id', () => {
+  const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+  it('rejects malformed JSON with 400 and unknown checklists with 404', async () => {
+    expect((await PUT(request('PUT', 'name=Strict'), params('missing'))).status).toBe(400);
+    expect((await PUT(request('PUT', JSON.stringify({ name: 'Strict' })), params('missing'))).status).toBe(404);
+  });
+});
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CHECKLIST_TYPES,
+  createChecklist,
+  listChecklists,
+  toChecklistSummary,
+  validateChecklistInput,
+  type ChecklistType,
+  type CreateChecklistInput
+} from './checklists';
+import { getResponseHeaders, logDebug } from '../cv-customization/utils';
+
+/**
+ * List stored checklists with the content of their latest version, optionally filtered with ?type=summary|assignments
+ */
+export async function GET(req: NextRequest) {
+  const type = req.nextUrl.searchParams.get('type');
+
+  if (type && !CHECKLIST_TYPES.includes(type as ChecklistType)) {
+    return NextResponse.json(
+      { error: `type must be one of: ${CHECKLIST_TYPES.join(', ')}` },
+      { status: 400, headers: getResponseHeaders() }
+    );
+  }
+
+  try {
+    const checklists = await listChecklists((type as ChecklistType) || undefined);
+    return NextResponse.json({ checklists }, { headers: getResponseHeaders() });
+  } catch (error) {
+    logDebug('Error listing checklists:', error);
+    return NextResponse.json(
+      { error: 'Error listing checklists', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
+
+/**
+ * Create a checklist from JSON { type, name, description?, owner, content }
+ */
+export async function POST(req: NextRequest) {
+  const input = await req.json().catch(() => null) as CreateChecklistInput | null;
+  if (!input || typeof input !== 'object') {
+    return NextResponse.json(
+      { error: 'Request body must be a JSON object' },
+      { status: 400, headers: getResponseHeaders() }
+    );
+  }
+
+  try {
+    const validationError = validateChecklistInput(input);
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    const checklist = await createChecklist(input);
+    return NextResponse.json(
+      { checklist: toChecklistSummary(checklist) },
+      { status: 201, headers: getResponseHeaders() }
+    );
+  } catch (error) {
+    logDebug('Error creating checklist:', error);
+    return NextResponse.json(
+      { error: 'Error creating checklist', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
@@ -1,3 +1,20 @@
+import type { ModelPrice } from '../utils/modelOptions';
+
+// Price overrides as JSON, e.g. {"openai/gpt-4o": {"input": 2.5, "output": 10}} in the currency of USAGE_CURRENCY per million tokens
+function parseModelPrices(value: string | undefined): Record<string, ModelPrice> {
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    console.error('MODEL_PRICES is not valid JSON, using the default prices');
+    return {};
+  }
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
 // Configuration for API providers
 export const config = {
   openai: {
@@ -12,6 +29,55 @@ export const config = {
   google: {
     apiKey: process.env.GOOGLE_API_KEY || '',
   },
+  agents: {
+    // Per-attempt timeout and retries for each analysis agent, with exponential backoff between attempts
+    timeoutMs: Number(process.env.AGENT_TIMEOUT_MS) || 60000,
+    maxRetries: Number(process.env.AGENT_MAX_RETRIES ?? 1),
+    retryBackoffMs: Number(process.env.AGENT_RETRY_BACKOFF_MS ?? 1000),
+  },
+  analysis: {
+    // Comma separated criterion ids to run, defaults to every criterion enabled in the registry
+    criteria: process.env.ANALYSIS_CRITERIA
+      ? process.env.ANALYSIS_CRITERIA.split(',').map(id => id.trim()).filter(Boolean)
+      : undefined,
+  },
+  batch: {
+    // How many CVs of a batch analysis or candidate ranking are processed at the same time, and the most CVs per request
+    concurrency: Math.max(1, Number(process.env.BATCH_CONCURRENCY) || 3),
+    maxFiles: Number(process.env.BATCH_MAX_FILES) || 50,
+  },
+  export: {
+    // Company name and logo (png or jpg, path relative to the project root) used by the default DOCX template
+    companyName: process.env.EXPORT_COMPANY_NAME || '',
+    logoPath: process.env.EXPORT_LOGO_PATH || '',
+  },
+  cache: {
+    // Agent outputs are cached by their inputs: 'memory', 'file' (under the storage dir) or 'off'
+    backend: (['file', 'off'].includes(process.env.AGENT_CACHE || '') ? process.env.AGENT_CACHE : 'memory') as 'memory' | 'file' | 'off',
+    ttlMs: Number(process.env.AGENT_CACHE_TTL_MS) || 7 * 24 * 60 * 60 * 1000,
+    // Expired outputs are removed when an output is cached, and the oldest ones above this count
+    maxEntries: Math.max(1, Number(process.env.AGENT_CACHE_MAX_ENTRIES) || 1000),
+  },
+  usage: {
+    // Estimated costs use the prices from MODEL_PRICES, then the list prices in the model catalogue
+    currency: process.env.USAGE_CURRENCY || 'USD',
+    prices: parseModelPrices(process.env.MODEL_PRICES),
+  },
+  logging: {
+    // Lowest level written to the console and the log file, defaults to debug so every message is shown. 'silent' logs nothing.
+    level: ([...LOG_LEVELS, 'silent'].includes(process.env.LOG_LEVEL as LogLevel) ? process.env.LOG_LEVEL : 'debug') as LogLevel | 'silent',
+    // 'text' writes readable lines to the console, 'json' writes the same JSON lines as the log file
+    format: (process.env.LOG_FORMAT === 'json' ? 'json' : 'text') as 'text' | 'json',
+    // Logs and finished trace spans are appended to this file as JSON lines when it is set
+    file: process.env.LOG_FILE || '',
+  },
+  storage: {
+    // 'memory' keeps data for the lifetime of the server process, 'file' writes JSON files under dir
+    backend: (process.env.STORAGE_BACKEND === 'file' ? 'file' : 'memory') as 'memory' | 'file',
+    dir: process.env.STORAGE_DIR || '.data',
+    // Saved checklists are edited by users and kept in files under dir unless CHECKLIST_STORAGE_BACKEND is 'memory'
+    checklistBackend: (process.env.CHECKLIST_STORAGE_BACKEND === 'memory' ? 'memory' : 'file') as 'memory' | 'file',
+  },
 };
 
 // Check if a provider's API key is available
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConsultantFile } from '../../../../consultants';
+import { getResponseHeaders } from '../../../../../cv-customization/utils';
+
+type RouteContext = { params: Promise<{ id: string; revision: string }> };
+
+/**
+ * Download the original CV file of a revision
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id, revision } = await params;
+  const file = await getConsultantFile(id, Number(revision));
+
+  if (!file) {
+    return NextResponse.json(
+      { error: `Revision ${revision} of consultant ${id} not found` },
+      { status: 404, headers: getResponseHeaders() }
+    );
+  }
+
+  return new NextResponse(new Uint8Array(file.data), {
+    headers: {
+      ...getResponseHeaders(),
+      'Content-Type': file.fileType || 'application/octet-stream',
+      // The plain filename is a fallback for clients without RFC 5987 support
+      'Content-Disposition': `attachment; filename="cv${file.fileName.match(/\.[A-Za-z0-9]+$/)?.[0] || ''}"; filename*=UTF-8''${encodeURIComponent(file.fileName)}`
+    }
+  });
+}
@@ -0,0 +1,55 @@
+// Node.js runtime is needed for server-side PDF/DOCX text extraction
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { addConsultantRevision, validateUploadInput } from '../../consultants';
+import type { ModelProvider } from '../../../../utils/modelOptions';
+import { getResponseHeaders, logDebug } from '../../../cv-customization/utils';
+
+export const maxDuration = 230;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Upload a newer CV of a consultant from form data with `file`, `modelProvider` and `modelName`.
+ * It becomes the latest revision, linked to the revision it replaces.
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const formData = await req.formData();
+    const input = {
+      file: formData.get('file') as File,
+      modelProvider: formData.get('modelProvider') as ModelProvider,
+      modelName: formData.get('modelName') as string
+    };
+    const validationError = validateUploadInput(input);
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    const updated = await addConsultantRevision(id, input);
+    if (!updated.consultant) {
+      return NextResponse.json(
+        { error: updated.error },
+        { status: updated.status, headers: getResponseHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { consultant: updated.consultant },
+      { status: 201, headers: getResponseHeaders() }
+    );
+  } catch (error) {
+    logDebug('Error adding consultant revision:', error);
+    return NextResponse.json(
+      { error: 'Error adding consultant revision', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteConsultant, getConsultant, updateConsultant, type UpdateConsultantInput } from '../consultants';
+import { getResponseHeaders, logDebug } from '../../cv-customization/utils';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) => NextResponse.json(
+  { error: `Consultant not found: ${id}` },
+  { status: 404, headers: getResponseHeaders() }
+);
+
+/**
+ * Get a consultant with every revision, including the extracted text and structured CV
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const consultant = await getConsultant(id);
+
+  if (!consultant) {
+    return notFound(id);
+  }
+
+  return NextResponse.json({ consultant }, { headers: getResponseHeaders() });
+}
+
+/**
+ * Update the name or tags of a consultant from JSON { name?, tags?: { practice?, seniority?, location? } }
+ */
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const input = await req.json() as UpdateConsultantInput;
+    const consultant = await updateConsultant(id, input);
+    if (!consultant) {
+      return notFound(id);
+    }
+
+    return NextResponse.json({ consultant }, { headers: getResponseHeaders() });
+  } catch (error) {
+    logDebug('Error updating consultant:', error);
+    return NextResponse.json(
+      { error: 'Error updating consultant', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!(await deleteConsultant(id))) {
+    return notFound(id);
+  }
+
+  return new NextResponse(null, { status: 204, headers: getResponseHeaders() });
+}
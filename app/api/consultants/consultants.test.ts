@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CvDocument } from '../cv-analysis-agent/schemas';
+import { parseCvStructure } from '../cv-analysis-agent/agents';
+import {
+  addConsultantRevision,
+  createConsultant,
+  deleteConsultant,
+  getConsultant,
+  getConsultantFile,
+  updateConsultant,
+  type StoredConsultant
+} from './consultants';
+
+vi.mock('../cv-analysis-agent/agents', () => ({
+  parseCvStructure: vi.fn()
+}));
+
+const cvOf = (text: string): CvDocument => ({
+  candidate_name: 'Ola Nordmann',
+  summary: text,
+  roles: [],
+  projects: [],
+  competencies: [],
+  education: [],
+  certifications: [],
+  languages: []
+});
+
+const upload = (text: string) => ({
+  file: new File([text], 'ola.txt', { type: 'text/plain' }),
+  modelProvider: 'openai' as const,
+  modelName: 'gpt-4o'
+});
+
+beforeEach(() => {
+  vi.mocked(parseCvStructure).mockReset().mockImplementation(async ({ document }) => cvOf(document.text));
+});
+
+async function registered(): Promise<StoredConsultant> {
+  const created = await createConsultant({ ...upload('First CV'), tags: { practice: 'Cloud' } });
+  return created.consultant!;
+}
+
+describe('createConsultant', () => {
+  it('names the consultant after the CV and keeps the uploaded file', async () => {
+    const consultant = await registered();
+
+    expect(consultant.name).toBe('Ola Nordmann');
+    expect(consultant.revisions.map(revision => revision.revision)).toEqual([1]);
+    expect((await getConsultantFile(consultant.id, 1))?.data.toString()).toBe('First CV');
+  });
+});
+
+describe('addConsultantRevision', () => {
+  it('numbers concurrent uploads one after the other', async () => {
+    const consultant = await registered();
+
+    await Promise.all([addConsultantRevision(consultant.id, upload('Second CV')), addConsultantRevision(consultant.id, upload('Third CV'))]);
+
+    const stored = await getConsultant(consultant.id);
+    expect(stored?.revisions.map(revision => [revision.revision, revision.previousRevision])).toEqual([[1, undefined], [2, 1], [3, 2]]);
+    expect(stored?.revisions.map(revision => revision.cv.summary).slice(1).sort()).toEqual(['Second CV', 'Third CV']);
+  });
+
+  it('rejects a file identical to the latest revision', async () => {
+    const consultant = await registered();
+
+    expect(await addConsultantRevision(consultant.id, upload('First CV'))).toEqual({
+      error: 'The file is identical to revision 1',
+      status: 409
+    });
+  });
+
+  it('keeps a tag change made while the CV is parsed', async () => {
+    const consultant = await registered();
+
+    await Promise.all([
+      addConsultantRevision(consultant.id, upload('Second CV')),
+      updateConsultant(consultant.id, { tags: { seniority: 'Senior' } })
+    ]);
+
+    const stored = await getConsultant(consultant.id);
+    expect(stored?.revisions).toHaveLength(2);
+    expect(stored?.tags).toMatchObject({ practice: 'Cloud', seniority: 'Senior' });
+  });
+});
+
+describe('deleteConsultant', () => {
+  it('leaves no files behind when a revision is added while deleting', async () => {
+    const consultant = await registered();
+
+    const [added, deleted] = await Promise.all([
+      addConsultantRevision(consultant.id, upload('Second CV')),
+      deleteConsultant(consultant.id)
+    ]);
+
+    expect(deleted).toBe(true);
+    expect(added).toEqual({ error: `Consultant not found: ${consultant.id}`, status: 404 });
+    expect(await getConsultant(consultant.id)).toBeNull();
+    expect(await getConsultantFile(consultant.id, 1)).toBeNull();
+    expect(await getConsultantFile(consultant.id, 2)).toBeNull();
+  });
+
+  it('returns false for an unknown consultant', async () => {
+    expect(await deleteConsultant('missing')).toBe(false);
+  });
+});
@@ -0,0 +1,353 @@
+import { createHash, randomUUID } from 'crypto';
+import { getStore } from '../storage';
+import { checkModelSupport, resolveModel } from '../models';
+import { parseCvStructure } from '../cv-analysis-agent/agents';
+import { extractDocumentText, type ExtractedDocument } from '../../utils/fileParser';
+import type { ModelProvider } from '../../utils/modelOptions';
+import type { CvDocument } from '../cv-analysis-agent/schemas';
+
+export const CONSULTANT_TAGS = ['practice', 'seniority', 'location'] as const;
+
+export type ConsultantTag = typeof CONSULTANT_TAGS[number];
+
+export type ConsultantTags = Record<ConsultantTag, string>;
+
+/**
+ * One uploaded version of a consultant's CV with its extracted text and structured CV
+ */
+export interface ConsultantRevision {
+  revision: number;
+  // The revision this upload replaced
+  previousRevision?: number;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  // Hash of the file contents, to detect re-uploads of the same file
+  fileHash: string;
+  document: ExtractedDocument;
+  cv: CvDocument;
+  modelProvider: ModelProvider;
+  modelName: string;
+  createdAt: string;
+}
+
+/**
+ * A consultant in the registry. Every uploaded CV is kept as a revision.
+ */
+export interface StoredConsultant {
+  id: string;
+  name: string;
+  tags: ConsultantTags;
+  revisions: ConsultantRevision[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A consultant without the revision contents, with the details of the latest revision
+ */
+export interface ConsultantSummary extends Omit<StoredConsultant, 'revisions'> {
+  revision: number;
+  revisionCount: number;
+  fileName: string;
+}
+
+/**
+ * The original file of a revision, stored apart from the consultant so listings stay small
+ */
+interface StoredConsultantFile {
+  consultantId: string;
+  revision: number;
+  fileName: string;
+  fileType: string;
+  // Base64 encoded file contents
+  data: string;
+}
+
+export interface UploadCvInput {
+  file: File;
+  modelProvider: ModelProvider;
+  modelName: string;
+}
+
+export interface CreateConsultantInput extends UploadCvInput {
+  // Defaults to the candidate name from the CV
+  name?: string;
+  tags?: Partial<ConsultantTags>;
+}
+
+export interface UpdateConsultantInput {
+  name?: string;
+  tags?: Partial<ConsultantTags>;
+}
+
+export type ConsultantResult =
+  | { consultant: StoredConsultant; error?: undefined }
+  | { consultant?: undefined; error: string; status: number };
+
+/**
+ * The CV of a consultant revision, ready to be used in place of an uploaded file
+ */
+export type ConsultantCvResult =
+  | { consultant: StoredConsultant; revision: ConsultantRevision; error?: undefined }
+  | { consultant?: undefined; revision?: undefined; error: string; status: number };
+
+const consultantStore = () => getStore<StoredConsultant>('consultants');
+const fileStore = () => getStore<StoredConsultantFile>('consultant_files');
+
+const fileId = (consultantId: string, revision: number) => `${consultantId}-${revision}`;
+
+// Changes to the same consultant are chained, so concurrent uploads, edits and deletes do not overwrite each other
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+async function chainUpdate<T>(id: string, change: () => Promise<T>): Promise<T> {
+  const previous = pendingUpdates.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(change);
+
+  pendingUpdates.set(id, next);
+  try {
+    return await next;
+  } finally {
+    if (pendingUpdates.get(id) === next) {
+      pendingUpdates.delete(id);
+    }
+  }
+}
+
+/**
+ * Read, change and write a consultant as one step. Returns null when the consultant does not exist,
+ * an update that returns the consultant it was given writes nothing.
+ */
+async function updateStoredConsultant(
+  id: string,
+  update: (consultant: StoredConsultant) => Promise<StoredConsultant> | StoredConsultant
+): Promise<StoredConsultant | null> {
+  return chainUpdate(id, async () => {
+    const consultant = await getConsultant(id);
+    if (!consultant) {
+      return null;
+    }
+    const updated = await update(consultant);
+    if (updated !== consultant) {
+      await consultantStore().put(id, updated);
+    }
+    return updated;
+  });
+}
+
+export function latestRevision(consultant: StoredConsultant): ConsultantRevision {
+  return consultant.revisions[consultant.revisions.length - 1];
+}
+
+export function toConsultantSummary({ revisions, ...consultant }: StoredConsultant): ConsultantSummary {
+  const { revision, fileName } = revisions[revisions.length - 1];
+  return { ...consultant, revision, revisionCount: revisions.length, fileName };
+}
+
+const normalizeTags = (tags: Partial<ConsultantTags> = {}, current?: ConsultantTags): ConsultantTags =>
+  Object.fromEntries(CONSULTANT_TAGS.map(tag => [tag, tags[tag] !== undefined ? tags[tag]!.trim() : current?.[tag] ?? ''])) as ConsultantTags;
+
+/**
+ * Validation error for an upload, or null when it is valid
+ */
+export function validateUploadInput(input: Partial<UploadCvInput>): string | null {
+  if (!input.file || typeof input.file === 'string') {
+    return 'file is required';
+  }
+  return checkModelSupport(input.modelProvider as ModelProvider, input.modelName as string, { structuredOutput: true });
+}
+
+/**
+ * Extract the text of an uploaded CV and parse it into a structured CV
+ */
+async function createRevision(
+  input: UploadCvInput,
+  revision: number,
+  previousRevision?: number
+): Promise<{ revision: ConsultantRevision; data: Buffer; error?: undefined } | { error: string; status: number }> {
+  let document: ExtractedDocument;
+  try {
+    document = await extractDocumentText(input.file);
+  } catch (fileError) {
+    return { error: fileError instanceof Error ? fileError.message : 'Failed to extract text from CV file', status: 400 };
+  }
+
+  const data = Buffer.from(await input.file.arrayBuffer());
+  const cv = await parseCvStructure({ model: resolveModel(input.modelProvider, input.modelName), document });
+
+  return {
+    data,
+    revision: {
+      revision,
+      ...(previousRevision !== undefined ? { previousRevision } : {}),
+      fileName: input.file.name,
+      fileType: input.file.type,
+      fileSize: input.file.size,
+      fileHash: createHash('sha256').update(data).digest('hex'),
+      document,
+      cv,
+      modelProvider: input.modelProvider,
+      modelName: input.modelName,
+      createdAt: new Date().toISOString()
+    }
+  };
+}
+
+async function saveFile(consultantId: string, revision: ConsultantRevision, data: Buffer) {
+  await fileStore().put(fileId(consultantId, revision.revision), {
+    consultantId,
+    revision: revision.revision,
+    fileName: revision.fileName,
+    fileType: revision.fileType,
+    data: data.toString('base64')
+  });
+}
+
+/**
+ * Register a consultant from an uploaded CV
+ */
+export async function createConsultant(input: CreateConsultantInput): Promise<ConsultantResult> {
+  const created = await createRevision(input, 1);
+  if (created.error !== undefined) {
+    return created;
+  }
+
+  const now = new Date().toISOString();
+  const consultant: StoredConsultant = {
+    id: randomUUID(),
+    name: input.name?.trim() || created.revision.cv.candidate_name.trim() || input.file.name.replace(/\.[^.]+$/, ''),
+    tags: normalizeTags(input.tags),
+    revisions: [created.revision],
+    createdAt: now,
+    updatedAt: now
+  };
+  await saveFile(consultant.id, created.revision, created.data);
+  await consultantStore().put(consultant.id, consultant);
+  return { consultant };
+}
+
+/**
+ * Add a newer CV of a consultant as a new revision linked to the latest one
+ */
+export async function addConsultantRevision(id: string, input: UploadCvInput): Promise<ConsultantResult> {
+  const consultant = await getConsultant(id);
+  if (!consultant) {
+    return { error: `Consultant not found: ${id}`, status: 404 };
+  }
+
+  const current = latestRevision(consultant);
+  const fileHash = createHash('sha256').update(Buffer.from(await input.file.arrayBuffer())).digest('hex');
+  if (fileHash === current.fileHash) {
+    return { error: `The file is identical to revision ${current.revision}`, status: 409 };
+  }
+
+  const created = await createRevision(input, current.revision + 1, current.revision);
+  if (created.error !== undefined) {
+    return created;
+  }
+
+  // The revision is numbered after the latest one when it is saved, as another upload may have been saved while
+  // the CV was parsed, and a tag change made meanwhile is kept
+  let duplicateOf: number | undefined;
+  const updated = await updateStoredConsultant(id, async latest => {
+    const previous = latestRevision(latest);
+    if (previous.fileHash === created.revision.fileHash) {
+      duplicateOf = previous.revision;
+      return latest;
+    }
+    const revision = { ...created.revision, revision: previous.revision + 1, previousRevision: previous.revision };
+    await saveFile(id, revision, created.data);
+    return { ...latest, revisions: [...latest.revisions, revision], updatedAt: new Date().toISOString() };
+  });
+
+  if (!updated) {
+    return { error: `Consultant not found: ${id}`, status: 404 };
+  }
+  if (duplicateOf !== undefined) {
+    return { error: `The file is identical to revision ${duplicateOf}`, status: 409 };
+  }
+  return { consultant: updated };
+}
+
+export async function getConsultant(id: string): Promise<StoredConsultant | null> {
+  return consultantStore().get(id);
+}
+
+/**
+ * List consultants, optionally only those whose tags match every given tag (case-insensitive)
+ */
+export async function listConsultants(filter: Partial<ConsultantTags> = {}): Promise<ConsultantSummary[]> {
+  const consultants = await consultantStore().list();
+  return consultants
+    .filter(consultant => CONSULTANT_TAGS.every(tag =>
+      !filter[tag] || consultant.tags[tag].toLowerCase() === filter[tag]!.trim().toLowerCase()))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(toConsultantSummary);
+}
+
+/**
+ * Update the name or tags of a consultant, tags that are not given are kept
+ */
+export async function updateConsultant(id: string, input: UpdateConsultantInput): Promise<StoredConsultant | null> {
+  return updateStoredConsultant(id, consultant => ({
+    ...consultant,
+    name: input.name?.trim() || consultant.name,
+    tags: normalizeTags(input.tags, consultant.tags),
+    updatedAt: new Date().toISOString()
+  }));
+}
+
+export async function deleteConsultant(id: string): Promise<boolean> {
+  // Chained with the updates, so a revision added while deleting does not leave its file behind
+  return chainUpdate(id, async () => {
+    const consultant = await getConsultant(id);
+    if (!consultant) {
+      return false;
+    }
+    await Promise.all(consultant.revisions.map(revision => fileStore().delete(fileId(id, revision.revision))));
+    await consultantStore().delete(id);
+    return true;
+  });
+}
+
+/**
+ * The original file of a revision, or null if the consultant or revision does not exist
+ */
+export async function getConsultantFile(
+  id: string,
+  revision: number
+): Promise<{ fileName: string; fileType: string; data: Buffer } | null> {
+  const file = await fileStore().get(fileId(id, revision));
+  return file ? { fileName: file.fileName, fileType: file.fileType, data: Buffer.from(file.data, 'base64') } : null;
+}
+
+/**
+ * The stored CV of a consultant, from the latest revision unless a revision is given
+ */
+export async function getConsultantCv(id: string, revision?: number): Promise<ConsultantCvResult> {
+  const consultant = await getConsultant(id);
+  if (!consultant) {
+    return { error: `Consultant not found: ${id}`, status: 404 };
+  }
+
+  const found = revision === undefined
+    ? latestRevision(consultant)
+    : consultant.revisions.find(r => r.revision === revision);
+  if (!found) {
+    return { error: `Consultant ${consultant.name} has no revision ${revision}`, status: 404 };
+  }
+  return { consultant, revision: found };
+}
+
+/**
+ * The stored CV referenced by the `consultantId` and optional `consultantRevision` form fields,
+ * or null when the request does not reference a consultant
+ */
+export async function getConsultantCvFromForm(formData: FormData): Promise<ConsultantCvResult | null> {
+  const consultantId = formData.get('consultantId') as string | null;
+  if (!consultantId) {
+    return null;
+  }
+  const revision = formData.get('consultantRevision') as string | null;
+  return getConsultantCv(consultantId, revision ? Number(revision) : undefined);
+}
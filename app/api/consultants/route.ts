@@ -0,0 +1,79 @@
+// Node.js runtime is needed for server-side PDF/DOCX text extraction
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CONSULTANT_TAGS,
+  createConsultant,
+  listConsultants,
+  toConsultantSummary,
+  validateUploadInput,
+  type ConsultantTags
+} from './consultants';
+import type { ModelProvider } from '../../utils/modelOptions';
+import { getResponseHeaders, logDebug } from '../cv-customization/utils';
+
+export const maxDuration = 230;
+
+const getTags = (get: (name: string) => unknown): Partial<ConsultantTags> =>
+  Object.fromEntries(CONSULTANT_TAGS.map(tag => [tag, (get(tag) as string | null) ?? undefined]));
+
+/**
+ * List registered consultants with their latest revision, filtered with ?practice=&seniority=&location=
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const consultants = await listConsultants(getTags(name => req.nextUrl.searchParams.get(name)));
+    return NextResponse.json({ consultants }, { headers: getResponseHeaders() });
+  } catch (error) {
+    logDebug('Error listing consultants:', error);
+    return NextResponse.json(
+      { error: 'Error listing consultants', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
+
+/**
+ * Register a consultant from form data with the CV `file`, `modelProvider` and `modelName` used to parse it,
+ * and optional `name`, `practice`, `seniority` and `location`
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const input = {
+      file: formData.get('file') as File,
+      modelProvider: formData.get('modelProvider') as ModelProvider,
+      modelName: formData.get('modelName') as string,
+      name: (formData.get('name') as string | null) || undefined,
+      tags: getTags(name => formData.get(name))
+    };
+    const validationError = validateUploadInput(input);
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    const created = await createConsultant(input);
+    if (!created.consultant) {
+      return NextResponse.json(
+        { error: created.error },
+        { status: created.status, headers: getResponseHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { consultant: toConsultantSummary(created.consultant) },
+      { status: 201, headers: getResponseHeaders() }
+    );
+  } catch (error) {
+    logDebug('Error registering consultant:', error);
+    return NextResponse.json(
+      { error: 'Error registering consultant', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
@@ -0,0 +1,165 @@
+import { generateObject } from 'ai';
+import type { LanguageModel } from 'ai';
+import { cvDocumentSchema, type CvDocument, type CvProject } from '../schemas';
+import { logDebug } from '../utils';
+import { formatDocumentForPrompt, type ExtractedDocument } from '../../../utils/fileParser';
+import { withAgentCache, type AgentCacheOptions } from '../../agentCache';
+import { withUsage } from '../../usage';
+
+export interface CvStructureAgentInput {
+  model: LanguageModel;
+  document: ExtractedDocument;
+  cache?: AgentCacheOptions;
+}
+
+const SYSTEM_PROMPT = `You are a CV parser. Convert the CV into structured data without evaluating or rewriting it.
+
+        RULES:
+        - Copy all text word for word from the CV, in the original language. Do not translate, summarize or correct anything.
+        - summary: the complete profile/summary section
+        - roles: the roles or positions the candidate presents (e.g. "Project manager", "Solution architect") with their descriptions
+        - projects: every project/assignment in the order they appear, with the complete description
+        - competencies: every listed competency, skill or technology in the competency sections
+        - Include education, certifications and spoken languages when present
+        - Use an empty string for any value that is not stated in the CV and an empty list for missing sections`;
+const INSTRUCTION = 'Please parse this CV into the structured format.';
+
+/**
+ * CV Structure Agent - parses the extracted CV text into a structured CvDocument.
+ * Projects get stable ids (project-1, project-2, ...) in the order they appear in the CV,
+ * so analysis, customization and correction agents all refer to the same projects.
+ */
+export async function parseCvStructure({
+  model,
+  document,
+  cache,
+}: CvStructureAgentInput): Promise<CvDocument> {
+  try {
+    const parsed = await withAgentCache(
+      { agent: 'cv_structure', model, schema: cvDocumentSchema, content: document.text, prompt: `${SYSTEM_PROMPT}\n${INSTRUCTION}` },
+      cache,
+      async () => (await withUsage('cv_structure', model, () => generateObject({
+        model,
+        schema: cvDocumentSchema,
+        system: SYSTEM_PROMPT,
+        messages: [{
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: INSTRUCTION,
+            },
+            {
+              type: 'text',
+              text: formatDocumentForPrompt(document, 'CV'),
+            }
+          ],
+        }]
+      }))).object
+    );
+
+    const cv: CvDocument = {
+      ...parsed,
+      projects: parsed.projects.map((project, index) => ({
+        id: `project-${index + 1}`,
+        ...project
+      }))
+    };
+
+    logDebug(`CV structure parsed: ${cv.projects.length} projects, ${cv.competencies.length} competencies, ${cv.roles.length} roles`);
+    return cv;
+  } catch (e) {
+    logDebug('Error in CV structure parsing:', e);
+    throw new Error(`CV structure agent failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+/**
+ * Render a structured CV as prompt text, with project ids so agents can refer back to them
+ */
+export function formatCvForPrompt(cv: CvDocument): string {
+  const optional = (label: string, value: string) => value ? `${label}: ${value}\n` : '';
+
+  const roles = cv.roles
+    .map(role => `- ${role.title}${role.description ? `: ${role.description}` : ''}`)
+    .join('\n');
+
+  const projects = cv.projects
+    .map(project => {
+      const period = [project.start_date, project.end_date].filter(Boolean).join(' - ');
+      return `[${project.id}] ${project.name}\n` +
+        optional('Customer', project.customer) +
+        optional('Role', project.role) +
+        optional('Period', period) +
+        optional('Technologies', project.technologies.join(', ')) +
+        `Description:\n${project.description}`;
+    })
+    .join('\n\n');
+
+  const education = cv.education
+    .map(item => `- ${[item.degree, item.institution].filter(Boolean).join(', ')}` +
+      `${item.start_date || item.end_date ? ` (${[item.start_date, item.end_date].filter(Boolean).join(' - ')})` : ''}`)
+    .join('\n');
+
+  const certifications = cv.certifications
+    .map(item => `- ${item.name}${item.issuer ? `, ${item.issuer}` : ''}${item.date ? ` (${item.date})` : ''}`)
+    .join('\n');
+
+  const languages = cv.languages
+    .map(item => `- ${item.language}${item.proficiency ? `: ${item.proficiency}` : ''}`)
+    .join('\n');
+
+  return `STRUCTURED CV${cv.candidate_name ? ` - ${cv.candidate_name}` : ''}
+
+SUMMARY:
+${cv.summary || '(none)'}
+
+ROLES:
+${roles || '(none)'}
+
+PROJECTS:
+${projects || '(none)'}
+
+COMPETENCIES:
+${cv.competencies.map(competency => `- ${competency}`).join('\n') || '(none)'}
+
+EDUCATION:
+${education || '(none)'}
+
+CERTIFICATIONS:
+${certifications || '(none)'}
+
+LANGUAGES:
+${languages || '(none)'}`;
+}
+
+/**
+ * Find the CV project an agent output refers to, by id first and then by name
+ */
+export function findCvProject(cv: CvDocument, projectId?: string, projectName?: string): CvProject | undefined {
+  const byId = projectId ? cv.projects.find(project => project.id === projectId) : undefined;
+  if (byId) {
+    return byId;
+  }
+
+  const normalizedName = projectName?.trim().toLowerCase();
+  return normalizedName
+    ? cv.projects.find(project => project.name.trim().toLowerCase() === normalizedName)
+    : undefined;
+}
+
+/**
+ * Align project ids and names in agent output with the structured CV,
+ * so the same project keeps the same identity across all agents
+ */
+export function alignProjectIdentity<T extends { project_id: string; project_name: string }>(
+  cv: CvDocument,
+  items: T[]
+): T[] {
+  return items.map(item => {
+    const project = findCvProject(cv, item.project_id, item.project_name);
+    return project
+      ? { ...item, project_id: project.id, project_name: project.name }
+      : item;
+  });
+}
@@ -1,14 +1,12 @@
 // Export all agent functions
-export { runLanguageQualityAgent } from './languageQuality';
-export { runContentCompletenessAgent } from './contentCompleteness';
-export { runSummaryQualityAgent } from './summaryQuality';
-export { runProjectDescriptionsAgent, fixProjectDescriptionsScore } from './projectDescriptions';
-export { runCompetenceVerificationAgent } from './competenceVerification';
 export { runLanguageDetectionAgent, type LanguageDetectionResult } from './languageDetection';
+export { parseCvStructure, formatCvForPrompt, findCvProject, alignProjectIdentity } from './cvStructure';
 
 // Export agent result processing functions and types
 export { 
   generateOverallSummary,
+  streamOverallSummary,
+  getFallbackSummary,
   extractStrengths,
   extractImprovementAreas,
   type AgentResult
@@ -16,10 +14,11 @@ export {
 
 // Common agent types
 import type { LanguageModel } from 'ai';
+import type { CvDocument } from '../schemas';
 
 export interface BaseAgentInput {
   model: LanguageModel;
-  fileBuffer: Buffer;
-  fileName: string;
+  cv: CvDocument;
   languageInstruction: string;
+  abortSignal?: AbortSignal;
 }
\ No newline at end of file
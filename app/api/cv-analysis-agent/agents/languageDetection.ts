@@ -2,6 +2,9 @@ import { generateObject } from 'ai';
 import type { LanguageModel } from 'ai';
 import { z } from 'zod';
 import { logDebug } from '../utils';
+import { formatDocumentForPrompt, type ExtractedDocument } from '../../../utils/fileParser';
+import { withAgentCache, type AgentCacheOptions } from '../../agentCache';
+import { withUsage } from '../../usage';
 
 export interface LanguageDetectionResult {
   language: string;
@@ -11,48 +14,55 @@ export interface LanguageDetectionResult {
 
 export interface LanguageDetectionAgentInput {
   model: LanguageModel;
-  fileBuffer: Buffer;
-  fileName: string;
+  document: ExtractedDocument;
+  cache?: AgentCacheOptions;
 }
 
+const languageSchema = z.object({
+  language: z.string().describe('The detected language name (e.g., English, Norwegian, German)'),
+  languageCode: z.string().describe('The ISO language code (e.g., en, no, de)'),
+  confidence: z.number().min(0).max(1).describe('Confidence level of detection')
+});
+
+const SYSTEM_PROMPT = 'You are a language detection specialist. Analyze the document and identify the primary language used.';
+const INSTRUCTION = 'What language is this document written in? Provide the language name, ISO code, and your confidence level.';
+
 /**
  * Language Detection Agent - detects the primary language used in the document
  */
 export async function runLanguageDetectionAgent({
   model,
-  fileBuffer,
-  fileName,
+  document,
+  cache,
 }: LanguageDetectionAgentInput): Promise<LanguageDetectionResult> {
   try {
-    const languageResult = await generateObject({
-      model,
-      schema: z.object({
-        language: z.string().describe('The detected language name (e.g., English, Norwegian, German)'),
-        languageCode: z.string().describe('The ISO language code (e.g., en, no, de)'),
-        confidence: z.number().min(0).max(1).describe('Confidence level of detection')
-      }),
-      system: 'You are a language detection specialist. Analyze the document and identify the primary language used.',
-      messages: [{
-        role: 'user',
-        content: [
-          {
-            type: 'text',
-            text: 'What language is this document written in? Provide the language name, ISO code, and your confidence level.',
-          },
-          {
-            type: 'file',
-            data: fileBuffer,
-            mimeType: 'application/pdf',
-            filename: fileName,
-          }
-        ],
-      }]
-    });
+    const detected = await withAgentCache(
+      { agent: 'language_detection', model, schema: languageSchema, content: document.text, prompt: `${SYSTEM_PROMPT}\n${INSTRUCTION}` },
+      cache,
+      async () => (await withUsage('language_detection', model, () => generateObject({
+        model,
+        schema: languageSchema,
+        system: SYSTEM_PROMPT,
+        messages: [{
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: INSTRUCTION,
+            },
+            {
+              type: 'text',
+              text: formatDocumentForPrompt(document, 'Document'),
+            }
+          ],
+        }]
+      }))).object
+    );
 
     const result: LanguageDetectionResult = {
-      language: languageResult.object.language || 'English',
-      languageCode: languageResult.object.languageCode || 'en',
-      confidence: languageResult.object.confidence || 0.8
+      language: detected.language || 'English',
+      languageCode: detected.languageCode || 'en',
+      confidence: detected.confidence || 0.8
     };
 
     logDebug(`Language detected: ${result.language} (${result.languageCode}) with ${result.confidence * 100}% confidence`);
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { MockLanguageModelV1, convertArrayToReadableStream } from 'ai/test';
+import { getFallbackSummary, streamOverallSummary, type AgentResult } from './resultProcessing';
+import { createUsageTracker } from '../../usage';
+
+const evaluations: AgentResult[] = [
+  { criterion_id: 'summary_quality', criterion_name: 'Summary Quality', score: 8, reasoning: 'Clear', suggestions: [] }
+];
+
+const streamingModel = (text: string[]) => new MockLanguageModelV1({
+  doStream: async () => ({
+    stream: convertArrayToReadableStream([
+      ...text.map(textDelta => ({ type: 'text-delta' as const, textDelta })),
+      { type: 'finish' as const, finishReason: 'stop' as const, usage: { promptTokens: 120, completionTokens: 30 } }
+    ]),
+    rawCall: { rawPrompt: null, rawSettings: {} }
+  })
+});
+
+const failingModel = () => new MockLanguageModelV1({
+  doStream: async () => {
+    throw new Error('Provider unavailable');
+  }
+});
+
+async function collect(stream: AsyncGenerator<string>) {
+  let text = '';
+  for await (const delta of stream) {
+    text += delta;
+  }
+  return text;
+}
+
+describe('streamOverallSummary', () => {
+  it('streams the summary and records its token usage', async () => {
+    const usage = createUsageTracker();
+    const text = await usage.track(() =>
+      collect(streamOverallSummary(streamingModel(['Strong ', 'CV.']), evaluations, 8, '')));
+
+    expect(text).toBe('Strong CV.');
+    expect(usage.calls).toHaveLength(1);
+    expect(usage.calls[0]).toMatchObject({ agent: 'overall_summary', promptTokens: 120, completionTokens: 30 });
+  });
+
+  it('finishes without recording usage when the provider fails', async () => {
+    const usage = createUsageTracker();
+    await usage.track(() => collect(streamOverallSummary(failingModel(), evaluations, 6.5, '')));
+
+    expect(usage.calls).toHaveLength(0);
+  });
+
+  it('yields the fallback summary when the provider fails', async () => {
+    const text = await collect(streamOverallSummary(failingModel(), evaluations, 6.5, ''));
+
+    expect(text).toBe(getFallbackSummary(6.5));
+  });
+
+  it('yields the fallback summary when the stream ends without text', async () => {
+    const text = await collect(streamOverallSummary(streamingModel([]), evaluations, 4, ''));
+
+    expect(text).toBe(getFallbackSummary(4));
+  });
+
+  it('does not add the fallback after streamed text', async () => {
+    const text = await collect(streamOverallSummary(streamingModel(['Solid ', 'profile.']), evaluations, 7, ''));
+
+    expect(text).toBe('Solid profile.');
+  });
+});
@@ -1,6 +1,7 @@
-import { generateText } from 'ai';
-import type { LanguageModel } from 'ai';
+import { generateText, streamText } from 'ai';
+import type { LanguageModel, LanguageModelUsage } from 'ai';
 import { logDebug } from '../utils';
+import { recordUsage, withUsage } from '../../usage';
 
 // Define the AgentResult interface directly to avoid circular imports
 export interface AgentResult {
@@ -13,18 +14,15 @@ export interface AgentResult {
 }
 
 /**
- * Generate an overall summary based on all agent results
+ * Build the prompts for the overall summary
  */
-export async function generateOverallSummary(
-  model: LanguageModel,
+function buildOverallSummaryPrompt(
   criterionEvaluations: AgentResult[],
   overallScore: number,
   languageInstruction: string
-): Promise<string> {
-  try {
-    const summaryResult = await generateText({
-      model,
-      system: `You are a CV evaluation coordinator summarizing detailed analysis results. 
+) {
+  return {
+    system: `You are a CV evaluation coordinator summarizing detailed analysis results. 
         Create a concise, professional summary of the CV evaluation that highlights:
         1. The overall quality level (based on score of ${overallScore.toFixed(1)} out of 10)
         2. Key strengths identified
@@ -34,24 +32,89 @@ export async function generateOverallSummary(
         Keep your summary concise and actionable. Focus on the most important findings.
         
         ${languageInstruction}`,
-      prompt: `Synthesize these CV evaluation results into a concise summary with key actions:
+    prompt: `Synthesize these CV evaluation results into a concise summary with key actions:
         ${JSON.stringify(criterionEvaluations, null, 2)}`
-    });
+  };
+}
+
+/**
+ * Fallback summary used when summary generation fails
+ */
+export function getFallbackSummary(overallScore: number): string {
+  return `CV evaluated with overall score ${overallScore.toFixed(1)}/10. Review detailed feedback for specific improvement areas.`;
+}
+
+/**
+ * Generate an overall summary based on all agent results
+ */
+export async function generateOverallSummary(
+  model: LanguageModel,
+  criterionEvaluations: AgentResult[],
+  overallScore: number,
+  languageInstruction: string
+): Promise<string> {
+  try {
+    const summaryResult = await withUsage('overall_summary', model, () => generateText({
+      model,
+      ...buildOverallSummaryPrompt(criterionEvaluations, overallScore, languageInstruction)
+    }));
     
     return summaryResult.text;
   } catch (summaryError) {
     logDebug('Error generating overall summary:', summaryError);
     // Provide fallback summary if generation fails
-    return `CV evaluated with overall score ${overallScore.toFixed(1)}/10. Review detailed feedback for specific improvement areas.`;
+    return getFallbackSummary(overallScore);
+  }
+}
+
+/**
+ * Stream the overall summary text as it is generated.
+ * Falls back to the static summary if the stream fails or ends before producing any text.
+ */
+export async function* streamOverallSummary(
+  model: LanguageModel,
+  criterionEvaluations: AgentResult[],
+  overallScore: number,
+  languageInstruction: string
+): AsyncGenerator<string> {
+  let hasText = false;
+  try {
+    const startedAt = Date.now();
+    // summaryStream.usage never settles when the stream fails, so the usage is taken when it finishes
+    const finished: { usage?: LanguageModelUsage } = {};
+    const summaryStream = streamText({
+      model,
+      ...buildOverallSummaryPrompt(criterionEvaluations, overallScore, languageInstruction),
+      onFinish: ({ usage }) => {
+        finished.usage = usage;
+      },
+      // textStream ends without throwing when the provider fails, the error is only reported here
+      onError: ({ error }) => {
+        logDebug('Error streaming overall summary:', error);
+      }
+    });
+    
+    for await (const delta of summaryStream.textStream) {
+      hasText = true;
+      yield delta;
+    }
+    if (finished.usage) {
+      recordUsage('overall_summary', model, finished.usage, Date.now() - startedAt);
+    }
+  } catch (summaryError) {
+    logDebug('Error streaming overall summary:', summaryError);
+  }
+  if (!hasText) {
+    yield getFallbackSummary(overallScore);
   }
 }
 
 /**
  * Extract strengths from evaluation results
  */
-export function extractStrengths(criterionEvaluations: AgentResult[]): string[] {
+export function extractStrengths(criterionEvaluations: AgentResult[], threshold: number = 7): string[] {
   return criterionEvaluations
-    .filter(criterion => criterion.score >= 7)
+    .filter(criterion => criterion.score >= threshold)
     .map(criterion => {
       const areaName = criterion.criterion_name.toLowerCase();
       return `Strong ${areaName} (scored ${criterion.score.toFixed(1)}/10)`;
@@ -61,9 +124,9 @@ export function extractStrengths(criterionEvaluations: AgentResult[]): string[]
 /**
  * Extract improvement areas from evaluation results
  */
-export function extractImprovementAreas(criterionEvaluations: AgentResult[]): string[] {
+export function extractImprovementAreas(criterionEvaluations: AgentResult[], threshold: number = 7): string[] {
   return criterionEvaluations
-    .filter(criterion => criterion.score < 7)
+    .filter(criterion => criterion.score < threshold)
     .sort((a, b) => a.score - b.score) // Sort by score ascending (worst first)
     .map(criterion => {
       const areaName = criterion.criterion_name.toLowerCase();
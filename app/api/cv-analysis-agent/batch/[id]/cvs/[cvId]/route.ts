@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob } from '../../../../../jobs/jobs';
+import { BATCH_ANALYSIS_JOB_TYPE, type BatchAnalysisJob } from '../../../batch';
+import { getResponseHeaders } from '../../../../utils';
+
+/**
+ * The full analysis result of one CV in a batch, in the same format as the single CV analysis
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; cvId: string }> }
+) {
+  const { id, cvId } = await params;
+  const job = await getJob<BatchAnalysisJob>(id);
+
+  if (!job || job.type !== BATCH_ANALYSIS_JOB_TYPE) {
+    return NextResponse.json(
+      { error: `Batch analysis not found: ${id}` },
+      { status: 404, headers: getResponseHeaders() }
+    );
+  }
+
+  const outcome = job.stages[cvId];
+  if (!outcome) {
+    return NextResponse.json(
+      { error: job.input.cvs.some(cv => cv.id === cvId) ? `CV has not been analyzed yet: ${cvId}` : `CV not found: ${cvId}` },
+      { status: 404, headers: getResponseHeaders() }
+    );
+  }
+  if (outcome.status === 'failed') {
+    return NextResponse.json(
+      { error: 'Analysis of this CV failed', details: outcome.error },
+      { status: 422, headers: getResponseHeaders() }
+    );
+  }
+
+  return NextResponse.json({ result: outcome.result }, { headers: getResponseHeaders() });
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, isJobRunning } from '../../../jobs/jobs';
+import {
+  BATCH_ANALYSIS_JOB_TYPE,
+  buildBatchSummary,
+  startBatchAnalysisJob,
+  type BatchAnalysisJob
+} from '../batch';
+import { getResponseHeaders } from '../../utils';
+
+/**
+ * Status and summary table of a batch analysis.
+ * A batch that is no longer running, e.g. after a server restart, resumes with the CVs not analyzed yet.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = await getJob<BatchAnalysisJob>(id);
+
+  if (!job || job.type !== BATCH_ANALYSIS_JOB_TYPE) {
+    return NextResponse.json(
+      { error: `Batch analysis not found: ${id}` },
+      { status: 404, headers: getResponseHeaders() }
+    );
+  }
+
+  if ((job.status === 'pending' || job.status === 'running') && !isJobRunning(id)) {
+    startBatchAnalysisJob(id);
+  }
+
+  return NextResponse.json(
+    {
+      id: job.id,
+      status: job.status,
+      error: job.error,
+      summary: job.result ?? buildBatchSummary(job),
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt
+    },
+    { headers: getResponseHeaders() }
+  );
+}
@@ -0,0 +1,218 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../../config';
+import { getJob, saveJobStage } from '../../jobs/jobs';
+import { generateOverallSummary, parseCvStructure, runLanguageDetectionAgent } from '../agents';
+import { createCriterionTasks } from '../pipeline';
+import { getEnabledCriteria } from '../criteria';
+import type { CvDocument } from '../schemas';
+import {
+  buildBatchSummary,
+  createBatchAnalysisJob,
+  runBatchAnalysis,
+  type BatchAnalysisJob,
+  type BatchItemOutcome
+} from './batch';
+
+vi.mock('../agents', async importOriginal => ({
+  ...await importOriginal<typeof import('../agents')>(),
+  runLanguageDetectionAgent: vi.fn(),
+  parseCvStructure: vi.fn(),
+  generateOverallSummary: vi.fn()
+}));
+
+vi.mock('../pipeline', async importOriginal => ({
+  ...await importOriginal<typeof import('../pipeline')>(),
+  createCriterionTasks: vi.fn()
+}));
+
+// The score of every criterion for each CV text
+const scores: Record<string, number> = { 'Ola Nordmann, developer': 8, 'Kari Nordmann, architect': 4 };
+
+const cvOf = (text: string): CvDocument => ({
+  candidate_name: text.split(',')[0],
+  summary: text,
+  roles: [],
+  projects: [],
+  competencies: [],
+  education: [],
+  certifications: [],
+  languages: []
+});
+
+const formOf = (files: File[], fields: Record<string, string> = {}) => {
+  const formData = new FormData();
+  files.forEach(file => formData.append('files', file));
+  Object.entries({
+    modelProvider: 'openai',
+    modelName: 'gpt-4o',
+    summaryChecklistText: 'Summary checklist',
+    assignmentsChecklistText: 'Assignments checklist',
+    ...fields
+  }).forEach(([name, value]) => formData.append(name, value));
+  return formData;
+};
+
+const textFile = (name: string, text: string) => new File([text], name, { type: 'text/plain' });
+
+async function createdBatch(files = [textFile('ola.txt', 'Ola Nordmann, developer'), textFile('kari.txt', 'Kari Nordmann, architect')]) {
+  const created = await createBatchAnalysisJob(formOf(files));
+  return created.job!;
+}
+
+async function run(jobId: string) {
+  const events: any[] = [];
+  await runBatchAnalysis(jobId, event => events.push(event));
+  return events;
+}
+
+const apiKey = config.openai.apiKey;
+
+beforeAll(() => {
+  config.openai.apiKey = 'test-key';
+});
+
+afterAll(() => {
+  config.openai.apiKey = apiKey;
+});
+
+beforeEach(() => {
+  vi.mocked(runLanguageDetectionAgent).mockReset().mockResolvedValue({ language: 'English', languageCode: 'en', confidence: 0.9 } as any);
+  vi.mocked(parseCvStructure).mockReset().mockImplementation(async ({ document }) => cvOf(document.text));
+  vi.mocked(generateOverallSummary).mockReset().mockResolvedValue('A solid CV');
+  vi.mocked(createCriterionTasks).mockReset().mockImplementation(({ cv }, criteria = getEnabledCriteria()) => criteria.map(criterion => ({
+    id: criterion.id,
+    name: criterion.name,
+    run: async () => ({
+      criterion_id: criterion.id,
+      criterion_name: criterion.name,
+      score: scores[cv.summary],
+      reasoning: 'Evaluated',
+      suggestions: []
+    })
+  })));
+});
+
+describe('createBatchAnalysisJob', () => {
+  it('stores the text of every readable CV and reports the files it skipped', async () => {
+    const created = await createBatchAnalysisJob(formOf([
+      textFile('ola.txt', 'Ola Nordmann, developer'),
+      new File(['image'], 'photo.png', { type: 'image/png' })
+    ]));
+
+    expect(created.job?.input.cvs).toEqual([
+      { id: 'cv-1', document: expect.objectContaining({ fileName: 'ola.txt', text: 'Ola Nordmann, developer' }) }
+    ]);
+    expect(created.job?.input.skippedFiles).toEqual([{ fileName: 'photo.png', error: expect.stringMatching(/^Unsupported file type/) }]);
+  });
+
+  it('rejects a batch without files, checklists or readable CVs', async () => {
+    expect(await createBatchAnalysisJob(formOf([]))).toEqual({ error: 'Missing required parameters', details: 'CV files' });
+    expect(await createBatchAnalysisJob(formOf([textFile('ola.txt', 'CV')], { summaryChecklistText: ' ' })))
+      .toEqual({ error: 'Missing required parameters', details: 'summary checklist' });
+    expect(await createBatchAnalysisJob(formOf([textFile('ola.txt', 'CV')], { scoringProfileId: 'unknown' })))
+      .toEqual({ error: 'Unknown scoring profile: unknown' });
+    expect(await createBatchAnalysisJob(formOf([new File(['image'], 'photo.png', { type: 'image/png' })])))
+      .toMatchObject({ error: 'None of the uploaded files could be read' });
+  });
+
+  it('rejects more CVs than the maximum', async () => {
+    const { maxFiles } = config.batch;
+    config.batch.maxFiles = 1;
+    try {
+      expect(await createBatchAnalysisJob(formOf([textFile('ola.txt', 'CV'), textFile('kari.txt', 'CV')])))
+        .toEqual({ error: 'Too many CVs: 2, the maximum is 1' });
+    } finally {
+      config.batch.maxFiles = maxFiles;
+    }
+  });
+});
+
+describe('runBatchAnalysis', () => {
+  it('analyzes every CV and completes with the summary table', async () => {
+    const job = await createdBatch();
+    const events = await run(job.id);
+
+    const completed = await getJob<BatchAnalysisJob>(job.id);
+    expect(completed?.status).toBe('completed');
+    expect(completed?.result?.rows.map(row => [row.candidateName, row.status, row.overallScore])).toEqual([
+      ['Ola Nordmann', 'completed', 8],
+      ['Kari Nordmann', 'completed', 4]
+    ]);
+    expect(completed?.result?.averageScore).toBe(6);
+    expect(events.at(-1)).toMatchObject({ step: 'complete', status: 'completed', data: completed?.result });
+  });
+
+  it('records a failing CV and keeps analyzing the others', async () => {
+    vi.mocked(parseCvStructure).mockImplementation(async ({ document }) => {
+      if (document.fileName === 'kari.txt') throw new Error('Rate limited');
+      return cvOf(document.text);
+    });
+    const job = await createdBatch();
+    const events = await run(job.id);
+
+    const completed = await getJob<BatchAnalysisJob>(job.id);
+    expect(completed?.status).toBe('completed');
+    expect(completed?.stages['cv-2']).toEqual({ status: 'failed', error: 'Rate limited' });
+    expect(completed?.result).toMatchObject({ completed: 1, failed: 1, averageScore: 8 });
+    expect(events).toContainEqual(expect.objectContaining({ step: 'cv', status: 'error', message: 'Failed to analyze kari.txt: Rate limited' }));
+  });
+
+  it('only analyzes the CVs without an outcome when resumed', async () => {
+    const job = await createdBatch();
+    const outcome = { status: 'failed', error: 'Timed out' } as BatchItemOutcome;
+    await saveJobStage<Record<string, BatchItemOutcome>>(job.id, 'cv-1', outcome);
+
+    await run(job.id);
+
+    expect(parseCvStructure).toHaveBeenCalledTimes(1);
+    expect(parseCvStructure).toHaveBeenCalledWith(expect.objectContaining({ document: expect.objectContaining({ fileName: 'kari.txt' }) }));
+    expect((await getJob<BatchAnalysisJob>(job.id))?.stages['cv-1']).toEqual(outcome);
+  });
+
+  it('reports a job that does not exist', async () => {
+    expect(await run('missing')).toEqual([{ step: 'error', status: 'error', message: 'Job not found: missing' }]);
+  });
+});
+
+describe('buildBatchSummary', () => {
+  it('has a row for every CV, leaving out the placeholder improvement area', async () => {
+    const job = await createdBatch([
+      textFile('ola.txt', 'Ola Nordmann, developer'),
+      textFile('kari.txt', 'Kari Nordmann, architect'),
+      textFile('per.txt', 'Per Hansen, tester')
+    ]);
+    await run(job.id);
+    const analyzed = (await getJob<BatchAnalysisJob>(job.id))!;
+    const olaResult = analyzed.stages['cv-1']!.result!;
+    const criteria = getEnabledCriteria();
+
+    const summary = buildBatchSummary({
+      ...analyzed,
+      stages: {
+        'cv-1': { status: 'completed', result: { ...olaResult, key_improvement_areas: ['No specific improvement areas identified'] } },
+        'cv-2': { status: 'failed', error: 'Rate limited' }
+      }
+    });
+
+    expect(summary.rows.map(row => row.status)).toEqual(['completed', 'failed', 'pending']);
+    expect(summary.rows[0].topImprovementAreas).toEqual([]);
+    expect(summary.rows[0].criterionScores).toEqual(Object.fromEntries(criteria.map(criterion => [criterion.id, 8])));
+    expect(summary.rows[1].error).toBe('Rate limited');
+    expect(summary).toMatchObject({ total: 3, completed: 1, failed: 1, averageScore: 8 });
+  });
+
+  it('limits the improvement areas of a row to the top three', async () => {
+    const job = await createdBatch();
+    await run(job.id);
+    const analyzed = (await getJob<BatchAnalysisJob>(job.id))!;
+    const kariResult = analyzed.stages['cv-2']!.result!;
+
+    const summary = buildBatchSummary({
+      ...analyzed,
+      stages: { 'cv-2': { status: 'completed', result: { ...kariResult, key_improvement_areas: ['First', 'Second', 'Third', 'Fourth'] } } }
+    });
+
+    expect(summary.rows[1].topImprovementAreas).toEqual(['First', 'Second', 'Third']);
+    expect(summary.averageScore).toBe(4);
+  });
+});
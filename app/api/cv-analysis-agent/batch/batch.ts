@@ -0,0 +1,310 @@
+import type { LanguageModel } from 'ai';
+import { config } from '../../config';
+import { checkModelSupport, resolveModel } from '../../models';
+import type { ModelProvider } from '../../../utils/modelOptions';
+import { expandZipArchives, extractDocuments, type ExtractedDocument, type SkippedFile } from '../../../utils/fileParser';
+import { getScoringProfile, type ScoringProfile } from '../../../utils/checklistData';
+import { createJob, getJob, updateJob, saveJobStage, runJob, runWithConcurrency, type Job } from '../../jobs/jobs';
+import { runLanguageDetectionAgent, parseCvStructure, generateOverallSummary } from '../agents';
+import {
+  createLanguageInstruction,
+  createCriterionTasks,
+  runCriterionTask,
+  splitCriterionRuns,
+  buildAnalysisResult,
+  type AnalysisResult
+} from '../pipeline';
+import { getEnabledCriteria, findMissingCriterionInputs, type CriterionDefinition } from '../criteria';
+import { calculateScoreBreakdown } from '../scoring';
+import { logDebug } from '../utils';
+import { createUsageTracker } from '../../usage';
+
+export interface BatchCv {
+  id: string;
+  document: ExtractedDocument;
+}
+
+export interface BatchAnalysisInput {
+  modelProvider: ModelProvider;
+  modelName: string;
+  scoringProfileId: string;
+  summaryChecklistText: string;
+  assignmentsChecklistText: string;
+  cvs: BatchCv[];
+  // Uploaded files that could not be read, reported with the summary
+  skippedFiles: SkippedFile[];
+}
+
+export type BatchItemOutcome =
+  | { status: 'completed'; result: AnalysisResult; error?: undefined }
+  | { status: 'failed'; result?: undefined; error: string };
+
+/**
+ * Each CV is a stage keyed by its id, so a resumed batch only analyzes the CVs without an outcome
+ */
+export type BatchAnalysisJob = Job<BatchAnalysisInput, Record<string, BatchItemOutcome>, BatchSummary>;
+
+export const BATCH_ANALYSIS_JOB_TYPE = 'cv_analysis_batch';
+
+export interface BatchSummaryRow {
+  id: string;
+  fileName: string;
+  candidateName?: string;
+  status: 'pending' | 'completed' | 'failed';
+  overallScore?: number;
+  // null when the criterion could not be evaluated
+  criterionScores: Record<string, number | null>;
+  topImprovementAreas: string[];
+  error?: string;
+}
+
+export interface BatchSummary {
+  criteria: { id: string; name: string }[];
+  rows: BatchSummaryRow[];
+  total: number;
+  completed: number;
+  failed: number;
+  averageScore: number | null;
+  skippedFiles: SkippedFile[];
+}
+
+export type CreateBatchAnalysisJobResult =
+  | { job: BatchAnalysisJob; error?: undefined }
+  | { job?: undefined; error: string; details?: string };
+
+// Placeholders from summarizeKeyFindings are left out of the summary table
+const NO_IMPROVEMENT_AREAS = 'No specific improvement areas identified';
+const TOP_IMPROVEMENT_AREAS = 3;
+
+/**
+ * Validate the batch form data, extract the text of every CV and store it as a new job.
+ * CVs that cannot be read are skipped, the job is created as long as one CV remains.
+ */
+export async function createBatchAnalysisJob(formData: FormData): Promise<CreateBatchAnalysisJobResult> {
+  const uploadedFiles = formData.getAll('files') as File[];
+  const summaryChecklistText = formData.get('summaryChecklistText') as string || '';
+  const assignmentsChecklistText = formData.get('assignmentsChecklistText') as string || '';
+  const modelProvider = formData.get('modelProvider') as ModelProvider;
+  const modelName = formData.get('modelName') as string;
+  const scoringProfileId = formData.get('scoringProfileId') as string | null;
+
+  logDebug('Creating batch analysis job', {
+    filesCount: uploadedFiles.length,
+    modelProvider,
+    modelName,
+    scoringProfileId
+  });
+
+  if (!uploadedFiles.length) {
+    return { error: 'Missing required parameters', details: 'CV files' };
+  }
+
+  const missingInputs = findMissingCriterionInputs(getEnabledCriteria(), { summaryChecklistText, assignmentsChecklistText });
+  if (missingInputs.length > 0) {
+    return { error: 'Missing required parameters', details: missingInputs.join(', ') };
+  }
+
+  const scoringProfile = getScoringProfile(scoringProfileId);
+  if (!scoringProfile) {
+    return { error: `Unknown scoring profile: ${scoringProfileId}` };
+  }
+
+  const modelSupportError = checkModelSupport(modelProvider, modelName, { structuredOutput: true });
+  if (modelSupportError) {
+    return { error: modelSupportError };
+  }
+
+  const expanded = await expandZipArchives(uploadedFiles);
+  if (expanded.files.length > config.batch.maxFiles) {
+    return { error: `Too many CVs: ${expanded.files.length}, the maximum is ${config.batch.maxFiles}` };
+  }
+
+  // Extract the text of every CV once and store it with the job
+  const { documents, skippedFiles: unreadableFiles } = await extractDocuments(expanded.files);
+  const cvs: BatchCv[] = documents.map((document, index) => ({ id: `cv-${index + 1}`, document }));
+  const skippedFiles = [...expanded.skippedFiles, ...unreadableFiles];
+
+  if (cvs.length === 0) {
+    return {
+      error: 'None of the uploaded files could be read',
+      details: skippedFiles.map(file => `${file.fileName}: ${file.error}`).join('; ')
+    };
+  }
+
+  const job = await createJob<BatchAnalysisInput>(BATCH_ANALYSIS_JOB_TYPE, {
+    modelProvider,
+    modelName,
+    scoringProfileId: scoringProfile.id,
+    summaryChecklistText,
+    assignmentsChecklistText,
+    cvs,
+    skippedFiles
+  }) as BatchAnalysisJob;
+
+  logDebug(`Created batch analysis job ${job.id} with ${cvs.length} CVs`, { skippedFiles });
+  return { job };
+}
+
+interface AnalyzeCvOptions {
+  model: LanguageModel;
+  document: ExtractedDocument;
+  input: BatchAnalysisInput;
+  criteria: CriterionDefinition[];
+  scoringProfile: ScoringProfile;
+}
+
+/**
+ * The enhanced agent analysis of one CV, as in the single CV route
+ */
+async function analyzeCv({ model, document, input, criteria, scoringProfile }: AnalyzeCvOptions): Promise<AnalysisResult> {
+  const [languageDetection, cv] = await Promise.all([
+    runLanguageDetectionAgent({ model, document }),
+    parseCvStructure({ model, document })
+  ]);
+  const languageInstruction = createLanguageInstruction(languageDetection.language);
+
+  const criterionRuns = await Promise.all(
+    createCriterionTasks({
+      model,
+      cv,
+      languageInstruction,
+      summaryChecklistText: input.summaryChecklistText,
+      assignmentsChecklistText: input.assignmentsChecklistText
+    }, criteria).map(task => runCriterionTask(task))
+  );
+  const { criterionEvaluations, failedCriteria } = splitCriterionRuns(criterionRuns);
+  if (criterionEvaluations.length === 0) {
+    throw new Error(`All agents failed: ${failedCriteria.map(criterion => `${criterion.criterion_name} (${criterion.status})`).join(', ')}`);
+  }
+
+  const scoreBreakdown = calculateScoreBreakdown(criterionEvaluations, scoringProfile);
+  const summary = await generateOverallSummary(model, criterionEvaluations, scoreBreakdown.overall_score, languageInstruction);
+
+  return buildAnalysisResult({
+    criterionEvaluations,
+    failedCriteria,
+    scoringProfile,
+    scoreBreakdown,
+    summary,
+    cv,
+    language: languageDetection.language
+  });
+}
+
+/**
+ * Summary table of a batch, with a row for every CV including those not analyzed yet
+ */
+export function buildBatchSummary(job: BatchAnalysisJob): BatchSummary {
+  const criteria = getEnabledCriteria().map(criterion => ({ id: criterion.id, name: criterion.name }));
+
+  const rows = job.input.cvs.map(({ id, document }): BatchSummaryRow => {
+    const outcome = job.stages[id];
+    if (!outcome) {
+      return { id, fileName: document.fileName, status: 'pending', criterionScores: {}, topImprovementAreas: [] };
+    }
+    if (outcome.status === 'failed') {
+      return { id, fileName: document.fileName, status: 'failed', criterionScores: {}, topImprovementAreas: [], error: outcome.error };
+    }
+
+    const { result } = outcome;
+    return {
+      id,
+      fileName: document.fileName,
+      candidateName: result.cv.candidate_name || undefined,
+      status: 'completed',
+      overallScore: result.overall_score,
+      criterionScores: Object.fromEntries(criteria.map(criterion => [
+        criterion.id,
+        result.criterion_evaluations.find(evaluation => evaluation.criterion_id === criterion.id)?.score ?? null
+      ])),
+      topImprovementAreas: result.key_improvement_areas
+        .filter(area => area !== NO_IMPROVEMENT_AREAS)
+        .slice(0, TOP_IMPROVEMENT_AREAS)
+    };
+  });
+
+  const scores = rows.filter(row => row.overallScore !== undefined).map(row => row.overallScore!);
+  return {
+    criteria,
+    rows,
+    total: rows.length,
+    completed: rows.filter(row => row.status === 'completed').length,
+    failed: rows.filter(row => row.status === 'failed').length,
+    averageScore: scores.length > 0
+      ? parseFloat((scores.reduce((sum, score) => sum + score, 0) / scores.length).toFixed(1))
+      : null,
+    skippedFiles: job.input.skippedFiles
+  };
+}
+
+/**
+ * Start (or resume) a batch in the background, unless it is already running
+ */
+export function startBatchAnalysisJob(jobId: string) {
+  runJob(jobId, emit => runBatchAnalysis(jobId, emit));
+}
+
+/**
+ * Analyze every CV of the batch that has no outcome yet, config.batch.concurrency at a time.
+ * A failing CV is recorded as failed and does not stop the others.
+ */
+export async function runBatchAnalysis(jobId: string, emit: (event: unknown) => void): Promise<void> {
+  const job = await getJob<BatchAnalysisJob>(jobId);
+  if (!job) {
+    emit({ step: 'error', status: 'error', message: `Job not found: ${jobId}` });
+    return;
+  }
+
+  await updateJob<BatchAnalysisJob>(jobId, current => ({ ...current, status: 'running', error: undefined }));
+
+  try {
+    const { input } = job;
+    const model = resolveModel(input.modelProvider, input.modelName);
+    const scoringProfile = getScoringProfile(input.scoringProfileId);
+    if (!scoringProfile) {
+      throw new Error(`Unknown scoring profile: ${input.scoringProfileId}`);
+    }
+    const criteria = getEnabledCriteria();
+    const remaining = input.cvs.filter(cv => !job.stages[cv.id]);
+
+    logDebug(`Analyzing ${remaining.length} of ${input.cvs.length} CVs in batch ${jobId}`);
+
+    await runWithConcurrency(remaining, config.batch.concurrency, async ({ id, document }) => {
+      emit({ step: 'cv', status: 'starting', message: `Analyzing ${document.fileName}`, data: { id } });
+
+      // The calls of each CV are saved with its outcome, also those made before it failed
+      const usage = createUsageTracker();
+      let outcome: BatchItemOutcome;
+      try {
+        const result = await usage.track(() => analyzeCv({ model, document, input, criteria, scoringProfile }));
+        outcome = { status: 'completed', result };
+      } catch (error) {
+        logDebug(`Error analyzing ${document.fileName} in batch ${jobId}:`, error);
+        outcome = { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+      await saveJobStage<Record<string, BatchItemOutcome>>(jobId, id, outcome, usage.calls);
+
+      emit({
+        step: 'cv',
+        status: outcome.status === 'completed' ? 'completed' : 'error',
+        message: outcome.status === 'completed'
+          ? `Analyzed ${document.fileName}: ${outcome.result.overall_score}/10`
+          : `Failed to analyze ${document.fileName}: ${outcome.error}`,
+        data: { id }
+      });
+    });
+
+    const completed = await updateJob<BatchAnalysisJob>(jobId, current => ({
+      ...current,
+      status: 'completed',
+      result: buildBatchSummary(current)
+    }));
+    emit({ step: 'complete', status: 'completed', message: 'Batch analysis completed', data: completed.result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logDebug(`Batch analysis ${jobId} failed:`, error);
+    await updateJob<BatchAnalysisJob>(jobId, current => ({ ...current, status: 'failed', error: message }))
+      .catch(updateError => logDebug('Failed to record job failure:', updateError));
+    emit({ step: 'error', status: 'error', message });
+  }
+}
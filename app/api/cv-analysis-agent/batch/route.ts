@@ -0,0 +1,48 @@
+// Node.js runtime is needed for server-side PDF/DOCX text extraction and zip archives
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createBatchAnalysisJob, startBatchAnalysisJob } from './batch';
+import { getResponseHeaders, logDebug } from '../utils';
+
+export const maxDuration = 230;
+
+/**
+ * Create a batch analysis from form data with one or more `files` (PDF, DOCX or zip archives),
+ * the checklists, model and scoring profile, and start it in the background.
+ * Poll GET /api/cv-analysis-agent/batch/:id for the summary table.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const created = await createBatchAnalysisJob(formData);
+
+    if (!created.job) {
+      return NextResponse.json(
+        { error: created.error, details: created.details },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    startBatchAnalysisJob(created.job.id);
+
+    return NextResponse.json(
+      {
+        jobId: created.job.id,
+        status: created.job.status,
+        total: created.job.input.cvs.length,
+        skippedFiles: created.job.input.skippedFiles
+      },
+      { status: 201, headers: getResponseHeaders() }
+    );
+  } catch (error) {
+    logDebug('Error creating batch analysis:', error);
+    return NextResponse.json(
+      {
+        error: 'Error processing request form data',
+        details: error instanceof Error ? error.message : 'Unknown form processing error'
+      },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
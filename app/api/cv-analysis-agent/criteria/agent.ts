@@ -0,0 +1,71 @@
+import { generateObject } from 'ai';
+import type { LanguageModel } from 'ai';
+import type { AgentResult } from '../agents';
+import { formatCvForPrompt } from '../agents/cvStructure';
+import { logDebug } from '../utils';
+import { mergeRuleVerdicts } from '../ruleEngine';
+import { withAgentCache, type AgentCacheOptions } from '../../agentCache';
+import type { CriterionContext, CriterionDefinition } from './types';
+import { withUsage } from '../../usage';
+
+export interface CriterionAgentInput extends CriterionContext {
+  model: LanguageModel;
+  abortSignal?: AbortSignal;
+  cache?: AgentCacheOptions;
+}
+
+/**
+ * Criterion Agent - evaluates the CV against one criterion definition
+ */
+export async function runCriterionAgent(
+  criterion: CriterionDefinition,
+  { model, abortSignal, cache, ...context }: CriterionAgentInput
+): Promise<AgentResult> {
+  try {
+    const ruleEngineVerdicts = criterion.checkRules?.(context) ?? [];
+    const prompt = criterion.buildPrompt(context, ruleEngineVerdicts);
+    const system = criterion.requires.includes('language')
+      ? `${prompt}
+
+        ${context.languageInstruction}`
+      : prompt;
+    // The prompt holds the checklist text the criterion uses, so an edited checklist is not served from the cache
+    const output = await withAgentCache(
+      { agent: criterion.id, model, schema: criterion.schema, content: context.cv, prompt: `${system}\n${criterion.instruction}` },
+      cache,
+      async () => (await withUsage(criterion.id, model, () => generateObject({
+        model,
+        abortSignal,
+        schema: criterion.schema,
+        system,
+        messages: [{
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: criterion.instruction,
+            },
+            {
+              type: 'text',
+              text: formatCvForPrompt(context.cv),
+            }
+          ],
+        }]
+      }))).object
+    );
+
+    const evaluation: AgentResult = {
+      ...output,
+      criterion_id: criterion.id,
+      criterion_name: criterion.name
+    };
+
+    const processed = criterion.postProcess ? criterion.postProcess(evaluation, context) : evaluation;
+    return ruleEngineVerdicts.length > 0
+      ? { ...processed, rule_verdicts: mergeRuleVerdicts(processed.rule_verdicts, ruleEngineVerdicts) }
+      : processed;
+  } catch (e) {
+    logDebug(`Error in ${criterion.id} evaluation:`, e);
+    throw new Error(`${criterion.name} agent failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
@@ -0,0 +1,70 @@
+import { parseChecklist, formatRulesForPrompt, type RuleVerdict } from '../../../utils/checklistRules';
+
+/**
+ * Checklist guidelines for a criterion prompt. When the checklist has numbered rules the agent is asked
+ * for a verdict per rule id, otherwise the free text is used as is.
+ * Rules with deterministic checks are replaced by the rule engine results, and text outside the rules,
+ * such as examples, is passed on as guidance.
+ */
+export function formatChecklistForPrompt(
+  checklistText: string,
+  subject: string,
+  ruleEngineVerdicts: RuleVerdict[] = []
+): string {
+  const checklist = parseChecklist(checklistText);
+
+  if (checklist.rules.length === 0) {
+    return `Use these guidelines for ${subject} evaluation:
+        ${checklistText}
+        
+        Return an empty rule_verdicts list.`;
+  }
+
+  const agentRules = checklist.rules.filter(rule => !rule.checks);
+  const checkedNote = ruleEngineVerdicts.length > 0
+    ? `These rules were verified automatically. Take the results into account in your rating but do not return verdicts for them:
+        ${ruleEngineVerdicts.map(verdict => `[${verdict.rule_id}] ${verdict.passed ? 'PASSED' : 'FAILED'} - ${verdict.rule_text} (${verdict.evidence})`).join('\n')}
+        `
+    : '';
+  const notes = checklist.notes
+    ? `The checklist also gives this guidance:
+        ${checklist.notes}
+        `
+    : '';
+
+  if (agentRules.length === 0) {
+    return `${checkedNote}
+        ${notes}
+        Return an empty rule_verdicts list.`;
+  }
+
+  return `Evaluate the ${subject} against each of these checklist rules:
+        ${formatRulesForPrompt(agentRules)}
+        
+        Return one rule verdict for every rule id above, stating whether it passed and quoting the text
+        from the CV that supports the verdict as evidence.
+        ${checkedNote}
+        ${notes}`;
+}
+
+/**
+ * Keep the agent verdicts for known rules without a deterministic check, in checklist order, and add the rule text and severity
+ */
+export function resolveRuleVerdicts(
+  verdicts: { rule_id: string; passed: boolean; evidence: string }[] | undefined,
+  checklistText: string
+): RuleVerdict[] {
+  return parseChecklist(checklistText).rules.filter(rule => !rule.checks).flatMap(rule => {
+    const verdict = (verdicts || []).find(candidate => candidate.rule_id === rule.id);
+    return verdict
+      ? [{
+          rule_id: rule.id,
+          rule_text: rule.text,
+          severity: rule.severity,
+          passed: verdict.passed,
+          evidence: verdict.evidence,
+          source: 'agent' as const
+        }]
+      : [];
+  });
+}
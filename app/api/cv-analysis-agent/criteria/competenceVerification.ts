@@ -0,0 +1,31 @@
+import { competenceVerificationSchema } from '../schemas';
+import type { CriterionDefinition } from './types';
+
+/**
+ * Competence Verification criterion - verifies consistency between listed competencies/roles and project descriptions
+ */
+export const competenceVerificationCriterion: CriterionDefinition<typeof competenceVerificationSchema> = {
+  id: 'competence_verification',
+  name: 'Competence Verification',
+  description: 'Verify that all listed competencies and roles are demonstrated in project descriptions.',
+  requires: ['language'],
+  schema: competenceVerificationSchema,
+  buildPrompt: () => `You are an expert CV competence verification specialist.
+        Your task is to verify consistency between listed competencies/roles and project descriptions.
+        
+        Specifically:
+        - For all competencies listed in the CV, verify they are demonstrated in at least one project
+        - For all roles listed in the CV, verify they are described in at least one project
+        
+        Rate on a scale from 0-10 where:
+        0-3: Many competencies/roles not verified in projects
+        4-6: Some competencies/roles not verified in projects
+        7-10: Most or all competencies/roles properly verified in projects
+        
+        Be nuanced in your scoring, using the full range from 0-10 rather than just a few discrete values.
+        For example, use scores like 3.5, 5.7, 8.2 to precisely reflect the verification level.
+        
+        Provide detailed reasoning for your rating, specific suggestions for improvement,
+        and lists of any unverified competencies and roles.`,
+  instruction: `Please verify the consistency between competencies/roles and project descriptions in this CV. Identify any competencies or roles that are not properly demonstrated in the projects.`,
+};
@@ -0,0 +1,36 @@
+import { contentCompletenessSchema } from '../schemas';
+import type { CriterionDefinition } from './types';
+
+/**
+ * Content Completeness criterion - checks if the CV contains all standard elements
+ */
+export const contentCompletenessCriterion: CriterionDefinition<typeof contentCompletenessSchema> = {
+  id: 'content_completeness',
+  name: 'Content Completeness',
+  description: 'Check if the CV contains all required elements: summary, projects, technology, competencies, roles, education, courses, certifications, and languages.',
+  requires: ['language'],
+  schema: contentCompletenessSchema,
+  buildPrompt: () => `You are an expert CV structure and content evaluator.
+        Analyze the CV's completeness and verify it contains all standard elements:
+        - Summary/Profile
+        - Projects/Experience
+        - Technology/Technical Skills
+        - Competencies/Skills
+        - Roles
+        - Education
+        - Courses/Training
+        - Certifications
+        - Languages
+        
+        Rate on a scale from 0-10 where:
+        0-3: Many required elements missing
+        4-6: Some elements missing or incomplete
+        7-10: Most or all elements present with varying degrees of completeness
+        
+        Be nuanced in your scoring, using the full range from 0-10 rather than just a few discrete values.
+        For example, use scores like 3.5, 5.7, 8.2 to precisely reflect the completeness level.
+        
+        Provide detailed reasoning for your rating, specific suggestions for improvement,
+        and a verification table of all elements indicating whether each is present.`,
+  instruction: `Please evaluate the content completeness of this CV. Check if it contains all standard elements and identify any missing components.`,
+};
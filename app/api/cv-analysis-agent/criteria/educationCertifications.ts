@@ -0,0 +1,30 @@
+import { educationCertificationsSchema } from '../schemas';
+import type { CriterionDefinition } from './types';
+
+/**
+ * Education & Certifications criterion - evaluates how education, courses and certifications are presented
+ */
+export const educationCertificationsCriterion: CriterionDefinition<typeof educationCertificationsSchema> = {
+  id: 'education_certifications',
+  name: 'Education & Certifications',
+  description: 'Evaluate whether education and certifications are complete, current and relevant to the roles in the CV.',
+  requires: ['language'],
+  schema: educationCertificationsSchema,
+  buildPrompt: () => `You are an expert CV evaluator for education and certifications.
+        Analyze the CV's education, courses and certifications:
+        - Every entry names the institution or issuer and has a date
+        - Certifications are current and relevant to the roles and projects in the CV
+        - Important certifications for the listed competencies are not missing
+
+        Rate on a scale from 0-10 where:
+        0-3: Education and certifications missing or mostly incomplete
+        4-6: Present but with incomplete, outdated or irrelevant entries
+        7-10: Complete, current and relevant
+
+        Be nuanced in your scoring, using the full range from 0-10 rather than just a few discrete values.
+
+        Provide detailed reasoning for your rating, specific suggestions for improvement,
+        and list the entries that are missing institution, issuer or dates.`,
+  instruction: `Please evaluate the education, courses and certifications in this CV.`,
+  enabledByDefault: false
+};
@@ -0,0 +1,61 @@
+import { config } from '../../config';
+import { languageQualityCriterion } from './languageQuality';
+import { contentCompletenessCriterion } from './contentCompleteness';
+import { summaryQualityCriterion } from './summaryQuality';
+import { projectDescriptionsCriterion } from './projectDescriptions';
+import { competenceVerificationCriterion } from './competenceVerification';
+import { educationCertificationsCriterion } from './educationCertifications';
+import type { CriterionContext, CriterionDefinition, CriterionInput } from './types';
+
+export { runCriterionAgent, type CriterionAgentInput } from './agent';
+export { fixProjectDescriptionsScore } from './projectDescriptions';
+export type { CriterionContext, CriterionDefinition, CriterionInput } from './types';
+
+/**
+ * All known evaluation criteria, in the order results are shown.
+ * Register a new criterion here to make it available to every analysis route.
+ */
+export const criterionRegistry: CriterionDefinition[] = [
+  languageQualityCriterion,
+  contentCompletenessCriterion,
+  summaryQualityCriterion,
+  projectDescriptionsCriterion,
+  competenceVerificationCriterion,
+  educationCertificationsCriterion
+];
+
+export function getCriterion(id: string): CriterionDefinition | undefined {
+  return criterionRegistry.find(criterion => criterion.id === id);
+}
+
+export function getCriterionName(id: string): string {
+  return getCriterion(id)?.name ?? id;
+}
+
+/**
+ * Criteria to run for an analysis. ANALYSIS_CRITERIA (comma separated ids) overrides enabledByDefault.
+ */
+export function getEnabledCriteria(enabledIds: string[] | undefined = config.analysis.criteria): CriterionDefinition[] {
+  if (enabledIds) {
+    return criterionRegistry.filter(criterion => enabledIds.includes(criterion.id));
+  }
+  return criterionRegistry.filter(criterion => criterion.enabledByDefault !== false);
+}
+
+const inputLabels: Record<Exclude<CriterionInput, 'language'>, string> = {
+  summaryChecklistText: 'summary checklist',
+  assignmentsChecklistText: 'assignments checklist'
+};
+
+/**
+ * Labels of the checklist inputs required by the criteria that are missing or empty
+ */
+export function findMissingCriterionInputs(
+  criteria: CriterionDefinition[],
+  inputs: Partial<Pick<CriterionContext, 'summaryChecklistText' | 'assignmentsChecklistText'>>
+): string[] {
+  const required = new Set(criteria.flatMap(criterion => criterion.requires));
+  return (Object.keys(inputLabels) as (keyof typeof inputLabels)[])
+    .filter(input => required.has(input) && !inputs[input]?.trim())
+    .map(input => inputLabels[input]);
+}
@@ -0,0 +1,32 @@
+import { ratingSchema } from '../schemas';
+import type { CriterionDefinition } from './types';
+
+/**
+ * Language Quality criterion - evaluates grammar, spelling, tone, and writing style
+ */
+export const languageQualityCriterion: CriterionDefinition<typeof ratingSchema> = {
+  id: 'language_quality',
+  name: 'Language Quality',
+  description: 'Evaluate grammar, spelling, flow, and professional tone. Check if it uses third-person perspective and action-oriented language.',
+  requires: ['language'],
+  schema: ratingSchema,
+  buildPrompt: () => `You are an expert language quality evaluator for CVs.
+        Analyze the CV's language quality including:
+        - Grammar and spelling correctness
+        - Professional tone and language
+        - Use of third-person perspective
+        - Action-oriented language and good flow
+        - Conciseness and clarity
+        
+        Rate on a scale from 0-10 where:
+        0-3: Poor quality with many issues
+        4-6: Average quality with some issues
+        7-10: Good to excellent quality with minimal or no issues
+        
+        Be nuanced in your scoring, using the full range from 0-10 rather than just a few discrete values.
+        For example, use scores like 3.5, 5.7, 8.2 to precisely reflect the quality level.
+        
+        Provide detailed reasoning for your rating and specific suggestions for improvement.
+        Where applicable, provide an improved version of problematic text.`,
+  instruction: `Please evaluate the language quality of this CV. Focus on grammar, spelling, flow, professional tone, third-person perspective, and action-oriented language.`,
+};
@@ -1,31 +1,19 @@
-import { generateObject } from 'ai';
-import type { LanguageModel } from 'ai';
 import { projectDescriptionsSchema } from '../schemas';
-import { logDebug } from '../utils';
-
-export interface ProjectDescriptionsAgentInput {
-  model: LanguageModel;
-  fileBuffer: Buffer;
-  fileName: string;
-  languageInstruction: string;
-  assignmentsChecklistText: string;
-}
+import { alignProjectIdentity } from '../agents/cvStructure';
+import { formatChecklistForPrompt, resolveRuleVerdicts } from './checklistRules';
+import { checkProjectRules } from '../ruleEngine';
+import type { CriterionDefinition } from './types';
 
 /**
- * Project Descriptions Agent - evaluates the quality of project/experience descriptions
+ * Project Descriptions criterion - evaluates the quality of project/experience descriptions
  */
-export async function runProjectDescriptionsAgent({
-  model,
-  fileBuffer,
-  fileName,
-  languageInstruction,
-  assignmentsChecklistText,
-}: ProjectDescriptionsAgentInput) {
-  try {
-    const result = await generateObject({
-      model,
-      schema: projectDescriptionsSchema,
-      system: `You are an expert CV project descriptions evaluator.
+export const projectDescriptionsCriterion: CriterionDefinition<typeof projectDescriptionsSchema> = {
+  id: 'project_descriptions',
+  name: 'Project Descriptions',
+  description: 'Evaluate project descriptions for proper structure, action-oriented language, role clarity, value contribution, and PARK methodology compliance.',
+  requires: ['assignmentsChecklistText', 'language'],
+  schema: projectDescriptionsSchema,
+  buildPrompt: ({ assignmentsChecklistText }, ruleEngineVerdicts) => `You are an expert CV project descriptions evaluator.
         Analyze each project/experience description based on these criteria:
         - Proper structure with clear beginning and end
         - Action-oriented language focusing on deliverables, impact, and results
@@ -47,39 +35,19 @@ export async function runProjectDescriptionsAgent({
         
         Provide an overall rating, detailed reasoning, specific suggestions for improvement,
         and individual evaluations for each project including strengths and weaknesses.
+        Evaluate every project in the structured CV and refer to each one by its id (e.g. "project-1") and name.
         For the most problematic project descriptions, provide improved versions.
         
-        Use these guidelines for project description evaluation:
-        ${assignmentsChecklistText}
-        
-        ${languageInstruction}`,
-      messages: [{
-        role: 'user',
-        content: [
-          {
-            type: 'text',
-            text: `Please evaluate all project/experience descriptions in this CV. Analyze their structure, language, and effectiveness.`,
-          },
-          {
-            type: 'file',
-            data: fileBuffer,
-            mimeType: 'application/pdf',
-            filename: fileName,
-          }
-        ],
-      }]
-    });
-
-    return {
-      ...result.object,
-      criterion_id: 'project_descriptions',
-      criterion_name: 'Project Descriptions'
-    };
-  } catch (e) {
-    logDebug('Error in project descriptions evaluation:', e);
-    throw new Error(`Project descriptions agent failed: ${e instanceof Error ? e.message : String(e)}`);
-  }
-}
+        ${formatChecklistForPrompt(assignmentsChecklistText, 'project descriptions', ruleEngineVerdicts)}
+        A rule passes only if every project description follows it, otherwise name the failing project ids in the evidence.`,
+  instruction: `Please evaluate all project/experience descriptions in this CV. Analyze their structure, language, and effectiveness.`,
+  checkRules: ({ cv, assignmentsChecklistText }) => checkProjectRules(cv, assignmentsChecklistText),
+  postProcess: (result, { cv, assignmentsChecklistText }) => fixProjectDescriptionsScore({
+    ...result,
+    rule_verdicts: resolveRuleVerdicts(result.rule_verdicts, assignmentsChecklistText),
+    project_evaluations: alignProjectIdentity(cv, result.project_evaluations)
+  })
+};
 
 /**
  * Fix project descriptions score by calculating the average from individual project evaluations
@@ -101,4 +69,4 @@ export function fixProjectDescriptionsScore(projectDescriptionsResult: any) {
   }
   
   return projectDescriptionsResult;
-} 
\ No newline at end of file
+}
@@ -0,0 +1,42 @@
+import { summaryEvaluationSchema } from '../schemas';
+import { formatChecklistForPrompt, resolveRuleVerdicts } from './checklistRules';
+import { checkSummaryRules } from '../ruleEngine';
+import type { CriterionDefinition } from './types';
+
+/**
+ * Summary Quality criterion - evaluates the CV's summary/profile section
+ */
+export const summaryQualityCriterion: CriterionDefinition<typeof summaryEvaluationSchema> = {
+  id: 'summary_quality',
+  name: 'Summary Quality',
+  description: 'Evaluate the CV summary for strong opening, key skills/experiences, and demonstrated value.',
+  requires: ['summaryChecklistText', 'language'],
+  schema: summaryEvaluationSchema,
+  buildPrompt: ({ summaryChecklistText }, ruleEngineVerdicts) => `You are an expert CV summary evaluator.
+        Analyze the CV's summary/profile section based on these criteria:
+        - Strong opening that clearly describes the person's profession and experience level
+        - Inclusion of key skills and experiences relevant to their field
+        - Demonstration of value using concrete examples where possible
+        - Overall impact and clarity
+        
+        Rate on a scale from 0-10 where:
+        0-3: Poor summary lacking key elements and impact
+        4-6: Average summary with some strengths but room for improvement
+        7-10: Good to excellent summary that effectively showcases the candidate
+        
+        Be nuanced in your scoring, using the full range from 0-10 rather than just a few discrete values.
+        For example, use scores like 3.5, 5.7, 8.2 to precisely reflect the quality level.
+        
+        First, extract and include the exact original summary text from the CV.
+        Then, provide detailed reasoning for your rating, specific suggestions for improvement,
+        and create an improved version of the summary that maintains the person's experience
+        and skills but enhances the presentation.
+        
+        ${formatChecklistForPrompt(summaryChecklistText, 'summary', ruleEngineVerdicts)}`,
+  instruction: `Please evaluate the summary/profile section of this CV and create an improved version.`,
+  checkRules: ({ cv, summaryChecklistText }) => checkSummaryRules(cv, summaryChecklistText),
+  postProcess: (result, { summaryChecklistText }) => ({
+    ...result,
+    rule_verdicts: resolveRuleVerdicts(result.rule_verdicts, summaryChecklistText)
+  })
+};
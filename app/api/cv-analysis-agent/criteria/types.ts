@@ -0,0 +1,39 @@
+import type { z } from 'zod';
+import type { AgentResult } from '../agents';
+import type { CvDocument } from '../schemas';
+import type { RuleVerdict } from '../../../utils/checklistRules';
+
+/**
+ * Inputs a criterion can depend on besides the structured CV
+ */
+export type CriterionInput = 'summaryChecklistText' | 'assignmentsChecklistText' | 'language';
+
+export interface CriterionContext {
+  cv: CvDocument;
+  languageInstruction: string;
+  summaryChecklistText: string;
+  assignmentsChecklistText: string;
+}
+
+/**
+ * A single evaluation criterion. The registry runs every enabled definition with the same agent,
+ * so adding a criterion does not require changes to the routes.
+ */
+export interface CriterionDefinition<TSchema extends z.ZodTypeAny = z.ZodTypeAny> {
+  id: string;
+  name: string;
+  description: string;
+  requires: CriterionInput[];
+  schema: TSchema;
+  // System prompt - the language instruction is appended when the criterion requires 'language'.
+  // Receives the verdicts of checkRules so the agent can take them into account.
+  buildPrompt: (context: CriterionContext, ruleEngineVerdicts: RuleVerdict[]) => string;
+  // User message sent together with the formatted CV
+  instruction: string;
+  // Adjusts the agent result, e.g. to align project ids or fix the score
+  postProcess?: (result: AgentResult, context: CriterionContext) => AgentResult;
+  // Deterministic rule checks that run before the agent, their verdicts replace the agent verdicts for the same rules
+  checkRules?: (context: CriterionContext) => RuleVerdict[];
+  // Criteria are enabled unless set to false, ANALYSIS_CRITERIA overrides this
+  enabledByDefault?: boolean;
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkModelSupport, resolveModel } from '../../models';
+import { ModelProvider } from '../../../components/ModelSelector';
+import { logDebug, getResponseHeaders } from '../utils';
+import { generateOverallSummary } from '../agents';
+import {
+  createLanguageInstruction,
+  createCriterionTask,
+  runCriterionTask,
+  orderByCriteria,
+  buildAnalysisResult,
+  type AnalysisResult
+} from '../pipeline';
+import { getCriterion, findMissingCriterionInputs } from '../criteria';
+import { calculateScoreBreakdown } from '../scoring';
+import { getScoringProfile } from '../../../utils/checklistData';
+import { createUsageTracker } from '../../usage';
+import { traceRequest, type Trace } from '../../tracing';
+
+export const maxDuration = 230;
+
+interface RetryCriterionRequest {
+  criterionId: string;
+  result: AnalysisResult;
+  summaryChecklistText: string;
+  assignmentsChecklistText: string;
+  modelProvider: ModelProvider;
+  modelName: string;
+  // Defaults to the scoring profile of the previous result
+  scoringProfileId?: string;
+  // Run the agent even when the cache has an output for the same inputs
+  bypassCache?: boolean;
+}
+
+/**
+ * Re-run a single criterion of an earlier enhanced agent analysis and return the updated result.
+ * The structured CV and language stored in the result are reused, so the CV is not parsed again.
+ */
+export async function POST(req: NextRequest) {
+  return traceRequest('cv_analysis_criterion', trace => retryCriterion(req, trace));
+}
+
+async function retryCriterion(req: NextRequest, trace: Trace) {
+  const logs: string[] = [];
+  const startTime = Date.now();
+  const usage = createUsageTracker();
+
+  try {
+    const {
+      criterionId,
+      result: previous,
+      summaryChecklistText,
+      assignmentsChecklistText,
+      modelProvider,
+      modelName,
+      scoringProfileId,
+      bypassCache
+    } = await req.json() as RetryCriterionRequest;
+
+    logs.push(logDebug(`Retrying criterion ${criterionId} with ${modelProvider}/${modelName}`));
+
+    if (!criterionId || !previous?.cv || !previous.language) {
+      return NextResponse.json(
+        { error: 'Missing required parameters (criterion id or previous analysis result)', logs },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    const profileId = scoringProfileId ?? previous.score_breakdown?.profile_id;
+    const scoringProfile = getScoringProfile(profileId);
+    if (!scoringProfile) {
+      return NextResponse.json(
+        { error: `Unknown scoring profile: ${profileId}`, logs },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    const modelSupportError = checkModelSupport(modelProvider, modelName, { structuredOutput: true });
+    if (modelSupportError) {
+      return NextResponse.json(
+        { error: modelSupportError, logs },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    const model = resolveModel(modelProvider, modelName);
+    const languageInstruction = createLanguageInstruction(previous.language);
+
+    const criterion = getCriterion(criterionId);
+    if (!criterion) {
+      return NextResponse.json(
+        { error: `Unknown criterion: ${criterionId}`, logs },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    const missingInputs = findMissingCriterionInputs([criterion], { summaryChecklistText, assignmentsChecklistText });
+    if (missingInputs.length > 0) {
+      return NextResponse.json(
+        { error: `Missing required parameters: ${missingInputs.join(', ')}`, logs },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    const task = createCriterionTask(criterion, {
+      model,
+      cv: previous.cv,
+      languageInstruction,
+      summaryChecklistText,
+      assignmentsChecklistText,
+      cache: { bypass: bypassCache, logs }
+    });
+
+    const { result: evaluation, ...run } = await usage.track(() => runCriterionTask(task));
+    logs.push(logDebug(`Criterion ${criterionId} retry finished with status ${run.status} after ${run.attempts} attempts`));
+
+    const criterionEvaluations = orderByCriteria([
+      ...previous.criterion_evaluations.filter(criterion => criterion.criterion_id !== criterionId),
+      ...(evaluation ? [evaluation] : [])
+    ]);
+    const failedCriteria = orderByCriteria([
+      ...(previous.failed_criteria || []).filter(criterion => criterion.criterion_id !== criterionId),
+      ...(evaluation ? [] : [run])
+    ]);
+
+    // Only regenerate the summary when the set of evaluated criteria changed
+    const scoreBreakdown = calculateScoreBreakdown(criterionEvaluations, scoringProfile);
+    const summary = evaluation
+      ? await usage.track(() => generateOverallSummary(model, criterionEvaluations, scoreBreakdown.overall_score, languageInstruction))
+      : previous.summary;
+
+    const result = buildAnalysisResult({
+      criterionEvaluations,
+      failedCriteria,
+      scoringProfile,
+      scoreBreakdown,
+      summary,
+      cv: previous.cv,
+      language: previous.language
+    });
+
+    const timeTaken = (Date.now() - startTime) / 1000;
+    return NextResponse.json({
+      result,
+      retried: run,
+      debug: { logs, trace: trace.end() },
+      timeTaken: `${timeTaken}s`,
+      usage: usage.summary()
+    }, { headers: getResponseHeaders() });
+  } catch (error) {
+    logs.push(logDebug('Error retrying criterion:', error));
+    return NextResponse.json(
+      {
+        error: 'Error retrying criterion',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        logs,
+        trace: trace.end(error),
+        timeTaken: `${(Date.now() - startTime) / 1000}s`
+      },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
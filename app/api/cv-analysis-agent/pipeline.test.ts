@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import type { AgentResult } from './agents';
+import { runCriterionTask, splitCriterionRuns, type CriterionTask } from './pipeline';
+
+const options = { timeoutMs: 50, maxRetries: 2, retryBackoffMs: 1 };
+
+const result = (criterion_id: string): AgentResult => ({
+  criterion_id,
+  criterion_name: 'Summary Quality',
+  score: 7,
+  reasoning: 'Clear and relevant',
+  suggestions: []
+});
+
+// A task that runs the given attempts in order, and records the abort signal of each attempt
+function taskOf(...attempts: Array<(signal?: AbortSignal) => Promise<AgentResult>>) {
+  const signals: Array<AbortSignal | undefined> = [];
+  const task: CriterionTask = {
+    id: 'summary_quality',
+    name: 'Summary Quality',
+    run: signal => {
+      signals.push(signal);
+      return attempts[Math.min(signals.length, attempts.length) - 1](signal);
+    }
+  };
+  return { task, signals };
+}
+
+const succeed = async () => result('summary_quality');
+const fail = async (): Promise<AgentResult> => {
+  throw new Error('Rate limited');
+};
+const hang = () => new Promise<AgentResult>(() => undefined);
+
+describe('runCriterionTask', () => {
+  it('returns the result of the first attempt that succeeds', async () => {
+    const { task, signals } = taskOf(fail, succeed);
+    const run = await runCriterionTask(task, options);
+
+    expect(run).toEqual({
+      criterion_id: 'summary_quality',
+      criterion_name: 'Summary Quality',
+      status: 'ok',
+      result: result('summary_quality'),
+      attempts: 2
+    });
+    expect(signals).toHaveLength(2);
+  });
+
+  it('reports a failure after the last retry without throwing', async () => {
+    const { task, signals } = taskOf(fail);
+    const run = await runCriterionTask(task, options);
+
+    expect(run).toMatchObject({ status: 'failed', error: 'Rate limited', attempts: 3 });
+    expect(run.result).toBeUndefined();
+    expect(signals).toHaveLength(3);
+  });
+
+  it('times out an attempt and aborts its agent call', async () => {
+    const { task, signals } = taskOf(hang);
+    const run = await runCriterionTask(task, { ...options, maxRetries: 0 });
+
+    expect(run).toMatchObject({ status: 'timed_out', error: 'Timed out after 0.05s', attempts: 1 });
+    expect(signals[0]?.aborted).toBe(true);
+  });
+
+  it('retries an attempt that timed out', async () => {
+    const { task } = taskOf(hang, succeed);
+    const run = await runCriterionTask(task, options);
+
+    expect(run).toMatchObject({ status: 'ok', attempts: 2 });
+  });
+
+  it('runs a single attempt when retries are negative', async () => {
+    const { task, signals } = taskOf(fail);
+    const run = await runCriterionTask(task, { ...options, maxRetries: -1 });
+
+    expect(run.attempts).toBe(1);
+    expect(signals).toHaveLength(1);
+  });
+});
+
+describe('splitCriterionRuns', () => {
+  it('separates evaluations from failures in the order of the runs', () => {
+    const { criterionEvaluations, failedCriteria } = splitCriterionRuns([
+      { criterion_id: 'language_quality', criterion_name: 'Language Quality', status: 'timed_out', error: 'Timed out after 60s', attempts: 2 },
+      { criterion_id: 'summary_quality', criterion_name: 'Summary Quality', status: 'ok', result: result('summary_quality'), attempts: 1 },
+      { criterion_id: 'project_descriptions', criterion_name: 'Project Descriptions', status: 'failed', error: 'Rate limited', attempts: 2 }
+    ]);
+
+    expect(criterionEvaluations).toEqual([result('summary_quality')]);
+    expect(failedCriteria.map(failure => failure.criterion_id)).toEqual(['language_quality', 'project_descriptions']);
+    expect(failedCriteria[0]).not.toHaveProperty('result');
+  });
+});
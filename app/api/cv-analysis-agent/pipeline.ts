@@ -0,0 +1,248 @@
+import type { LanguageModel } from 'ai';
+import { config } from '../config';
+import {
+  extractStrengths,
+  extractImprovementAreas,
+  type AgentResult
+} from './agents';
+import {
+  criterionRegistry,
+  getEnabledCriteria,
+  runCriterionAgent,
+  type CriterionDefinition
+} from './criteria';
+import type { CvDocument } from './schemas';
+import { logDebug } from './utils';
+import { withSpan } from '../tracing';
+import type { ScoreBreakdown } from './scoring';
+import type { ScoringProfile } from '../../utils/checklistData';
+import type { AgentCacheOptions } from '../agentCache';
+
+// Shared by the JSON route, the streaming route and the criterion retry route so all produce the same result shape
+
+export interface CriterionPipelineInput {
+  model: LanguageModel;
+  cv: CvDocument;
+  languageInstruction: string;
+  summaryChecklistText: string;
+  assignmentsChecklistText: string;
+  cache?: AgentCacheOptions;
+}
+
+export interface CriterionTask {
+  id: string;
+  name: string;
+  run: (abortSignal?: AbortSignal) => Promise<AgentResult>;
+}
+
+export type CriterionRunStatus = 'ok' | 'failed' | 'timed_out';
+
+/**
+ * Outcome of running one criterion agent, including retries
+ */
+export interface CriterionRunEnvelope {
+  criterion_id: string;
+  criterion_name: string;
+  status: CriterionRunStatus;
+  result?: AgentResult;
+  error?: string;
+  attempts: number;
+}
+
+export type FailedCriterion = Omit<CriterionRunEnvelope, 'result'>;
+
+export interface RetryOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  retryBackoffMs: number;
+}
+
+/**
+ * Instruction added to all system prompts so feedback is written in the language of the CV
+ */
+export function createLanguageInstruction(language: string): string {
+  return `IMPORTANT: Provide all analysis, feedback, and suggestions in ${language} language to match the language of the CV.`;
+}
+
+/**
+ * Create a task that runs the agent for one criterion definition
+ */
+export function createCriterionTask(criterion: CriterionDefinition, input: CriterionPipelineInput): CriterionTask {
+  return {
+    id: criterion.id,
+    name: criterion.name,
+    run: abortSignal => runCriterionAgent(criterion, { ...input, abortSignal })
+  };
+}
+
+/**
+ * Create one task per enabled criterion, in the order of the criterion registry
+ */
+export function createCriterionTasks(
+  input: CriterionPipelineInput,
+  criteria: CriterionDefinition[] = getEnabledCriteria()
+): CriterionTask[] {
+  return criteria.map(criterion => createCriterionTask(criterion, input));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run a criterion task with a timeout per attempt and retries with exponential backoff.
+ * Never throws - failures are reported in the envelope so the other criteria are kept.
+ */
+export function runCriterionTask(
+  task: CriterionTask,
+  options: RetryOptions = config.agents
+): Promise<CriterionRunEnvelope> {
+  // The span covers every attempt, the agent call of each attempt is a child span
+  return withSpan(task.id, 'stage', async span => {
+    const run = await runCriterionAttempts(task, options);
+    if (span) {
+      span.attributes = { ...span.attributes, status: run.status, attempts: run.attempts };
+      span.error = run.error;
+    }
+    return run;
+  });
+}
+
+async function runCriterionAttempts(task: CriterionTask, options: RetryOptions): Promise<CriterionRunEnvelope> {
+  const maxAttempts = Math.max(0, options.maxRetries) + 1;
+  let status: CriterionRunStatus = 'failed';
+  let error = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (attempt > 1) {
+      await sleep(options.retryBackoffMs * 2 ** (attempt - 2));
+    }
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Timed out after ${options.timeoutMs / 1000}s`));
+      }, options.timeoutMs);
+    });
+
+    const run = task.run(controller.signal);
+    // The agent may still reject after the timeout has won the race
+    run.catch(() => undefined);
+
+    try {
+      const result = await Promise.race([run, timeout]);
+      return {
+        criterion_id: task.id,
+        criterion_name: task.name,
+        status: 'ok',
+        result,
+        attempts: attempt
+      };
+    } catch (e) {
+      status = controller.signal.aborted ? 'timed_out' : 'failed';
+      error = e instanceof Error ? e.message : String(e);
+      logDebug(`Criterion ${task.id} attempt ${attempt}/${maxAttempts} ${status}: ${error}`);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  return {
+    criterion_id: task.id,
+    criterion_name: task.name,
+    status,
+    error,
+    attempts: maxAttempts
+  };
+}
+
+/**
+ * Split criterion runs into successful evaluations and failures, keeping the criteria order
+ */
+export function splitCriterionRuns(runs: CriterionRunEnvelope[]) {
+  const criterionEvaluations: AgentResult[] = [];
+  const failedCriteria: FailedCriterion[] = [];
+
+  runs.forEach(({ result, ...failure }) => {
+    if (failure.status === 'ok' && result) {
+      criterionEvaluations.push(result);
+    } else {
+      failedCriteria.push(failure);
+    }
+  });
+
+  return { criterionEvaluations, failedCriteria };
+}
+
+/**
+ * Sort criterion results in the order of the criterion registry
+ */
+export function orderByCriteria<T extends { criterion_id: string }>(items: T[]): T[] {
+  const position = (id: string) => criterionRegistry.findIndex(criterion => criterion.id === id);
+  return [...items].sort((a, b) => position(a.criterion_id) - position(b.criterion_id));
+}
+
+/**
+ * Strengths and improvement areas using the thresholds of the scoring profile, with placeholders when none were found.
+ * Must-pass criteria below their minimum are listed first.
+ */
+export function summarizeKeyFindings(
+  criterionEvaluations: AgentResult[],
+  scoringProfile: ScoringProfile,
+  scoreBreakdown: ScoreBreakdown
+) {
+  const strengths = extractStrengths(criterionEvaluations, scoringProfile.strengthThreshold);
+  const improvementAreas = [
+    ...scoreBreakdown.must_pass
+      .filter(criterion => !criterion.passed)
+      .map(criterion => criterion.score === null
+        ? `${criterion.criterion_name} must pass but could not be evaluated`
+        : `${criterion.criterion_name} is below the required minimum (scored ${criterion.score.toFixed(1)}/10, minimum ${criterion.minimum_score})`),
+    ...extractImprovementAreas(criterionEvaluations, scoringProfile.improvementThreshold)
+  ];
+
+  return {
+    key_strengths: strengths.length > 0 ? strengths : ["No specific strengths identified"],
+    key_improvement_areas: improvementAreas.length > 0 ? improvementAreas : ["No specific improvement areas identified"]
+  };
+}
+
+export interface AnalysisResultInput {
+  criterionEvaluations: AgentResult[];
+  failedCriteria: FailedCriterion[];
+  scoringProfile: ScoringProfile;
+  scoreBreakdown: ScoreBreakdown;
+  summary: string;
+  cv: CvDocument;
+  language: string;
+}
+
+/**
+ * Combine the criterion results into the final evaluation structure.
+ * The structured CV and language are included so a single criterion can be retried later.
+ */
+export function buildAnalysisResult({
+  criterionEvaluations,
+  failedCriteria,
+  scoringProfile,
+  scoreBreakdown,
+  summary,
+  cv,
+  language
+}: AnalysisResultInput) {
+  return {
+    overall_score: parseFloat(scoreBreakdown.overall_score.toFixed(1)),
+    summary,
+    ...summarizeKeyFindings(criterionEvaluations, scoringProfile, scoreBreakdown),
+    score_breakdown: scoreBreakdown,
+    criterion_evaluations: criterionEvaluations,
+    failed_criteria: failedCriteria,
+    detailed_analysis: Object.fromEntries(
+      criterionEvaluations.map(criterion => [criterion.criterion_id, criterion])
+    ),
+    cv,
+    language
+  };
+}
+
+export type AnalysisResult = ReturnType<typeof buildAnalysisResult>;
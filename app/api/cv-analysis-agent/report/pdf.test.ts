@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { PDFArray, PDFDocument, PDFRawStream, decodePDFRawStream } from 'pdf-lib';
+import type { AnalysisResult } from '../pipeline';
+import { createAnalysisReportPdf } from './pdf';
+
+// The text drawn on each page, one entry per drawn line.
+// The standard fonts write WinAnsi hex strings, which match Latin-1 for the characters used here.
+async function pagesOf(pdf: Uint8Array): Promise<string[][]> {
+  const document = await PDFDocument.load(pdf);
+  const decoder = new TextDecoder('latin1');
+  return document.getPages().map(page => {
+    const contents = page.node.Contents();
+    const streams = contents instanceof PDFArray ? contents.asArray().map(ref => document.context.lookup(ref)) : [contents];
+    const operators = streams.map(stream => decoder.decode(decodePDFRawStream(stream as PDFRawStream).decode())).join('\n');
+    return Array.from(operators.matchAll(/<([0-9A-F]*)> Tj/g), ([, hex]) =>
+      decoder.decode(Uint8Array.from(hex.match(/../g) ?? [], byte => parseInt(byte, 16))));
+  });
+}
+
+const result = {
+  overall_score: 6.5,
+  summary: 'A solid CV with room for clearer project descriptions.',
+  key_strengths: ['Relevant cloud experience'],
+  key_improvement_areas: ['Quantify the project results'],
+  score_breakdown: {
+    profile_id: 'default',
+    profile_name: 'Default',
+    overall_score: 6.5,
+    total_weight: 2,
+    contributions: [
+      { criterion_id: 'summary_quality', criterion_name: 'Summary Quality', score: 8, weight: 1, normalized_weight: 0.5, contribution: 4 },
+      { criterion_id: 'project_descriptions', criterion_name: 'Project Descriptions', score: 5, weight: 1, normalized_weight: 0.5, contribution: 2.5 }
+    ],
+    must_pass: [
+      { criterion_id: 'project_descriptions', criterion_name: 'Project Descriptions', minimum_score: 6, score: 5, passed: false }
+    ],
+    passed: false
+  },
+  criterion_evaluations: [
+    { criterion_id: 'summary_quality', criterion_name: 'Summary Quality', score: 8, reasoning: 'Clear and relevant', suggestions: [] },
+    {
+      criterion_id: 'project_descriptions',
+      criterion_name: 'Project Descriptions',
+      score: 5,
+      reasoning: 'The descriptions list tasks without results',
+      suggestions: ['Name the result of each project'],
+      rule_verdicts: [
+        { rule_text: 'Write in the third person', passed: false, evidence: 'Uses "I"' },
+        { rule_text: 'Name the customer', passed: true, evidence: 'Names the bank' }
+      ]
+    }
+  ],
+  failed_criteria: [{ criterion_id: 'language_quality', criterion_name: 'Language Quality', error: 'Timed out' }],
+  detailed_analysis: {},
+  cv: { candidate_name: 'Øyvind Ås', summary: 'Developer' }
+} as unknown as AnalysisResult;
+
+const generatedAt = new Date('2026-03-02T10:00:00.000Z');
+
+describe('createAnalysisReportPdf', () => {
+  it('writes the scores, findings and criterion details', async () => {
+    const pdf = await createAnalysisReportPdf(result, { generatedAt });
+    const [page] = await pagesOf(pdf);
+
+    expect((await PDFDocument.load(pdf)).getTitle()).toBe('CV analysis - Øyvind Ås');
+    expect(page.slice(0, 5)).toEqual([
+      'CV Analysis Report - Øyvind Ås',
+      'Generated 2026-03-02',
+      'Overall score: 6.5/10',
+      'Scoring profile: Default',
+      'A solid CV with room for clearer project descriptions.'
+    ]);
+    expect(page).toEqual(expect.arrayContaining([
+      'Project Descriptions', '5.0/10', '50%', '2.50',
+      'Not evaluated: Language Quality',
+      'Must-pass criteria not met: Project Descriptions (minimum 6)',
+      'Relevant cloud experience',
+      'Quantify the project results',
+      'Project Descriptions - 5.0/10',
+      'Name the result of each project',
+      'Write in the third person - Uses "I"'
+    ]));
+    // Only the rules that were not met are listed
+    expect(page.join('\n')).not.toContain('Name the customer');
+    expect(page.at(-1)).toBe('CV analysis - Øyvind Ås - page 1 of 1');
+  });
+
+  it('compares the original and improved summary and lists the project evaluations', async () => {
+    const [page] = await pagesOf(await createAnalysisReportPdf({
+      ...result,
+      detailed_analysis: {
+        summary_quality: { improved_version: 'Cloud developer with ten years of experience' },
+        project_descriptions: {
+          project_evaluations: [{ project_name: 'Payments', score: 4, weaknesses: ['No results'], improved_version: 'Cut the payment time by half' }]
+        }
+      }
+    } as unknown as AnalysisResult, { generatedAt }));
+
+    expect(page).toEqual(expect.arrayContaining([
+      'Original', 'Improved', 'Developer', 'Cloud developer with ten years of experience',
+      'Payments - 4.0/10', 'Weaknesses', 'No results', 'Cut the payment time by half'
+    ]));
+  });
+
+  it('continues on new pages, wraps long text and numbers the pages', async () => {
+    const suggestions = Array.from({ length: 80 }, (_, index) => `Suggestion ${index + 1}: ${'describe the result '.repeat(6)}`);
+    const pages = await pagesOf(await createAnalysisReportPdf({
+      ...result,
+      criterion_evaluations: [{ ...result.criterion_evaluations[0], suggestions }]
+    }, { generatedAt }));
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages.map(page => page.at(-1))).toEqual(pages.map((_, index) => `CV analysis - Øyvind Ås - page ${index + 1} of ${pages.length}`));
+    const lines = pages.flat();
+    const last = lines.findIndex(line => line.startsWith('Suggestion 80:'));
+    expect(lines.slice(last, last + 2)).toEqual([
+      `Suggestion 80: ${'describe the result '.repeat(5)}describe`,
+      'the result'
+    ]);
+  });
+
+  it('replaces characters the standard fonts cannot draw', async () => {
+    const [page] = await pagesOf(await createAnalysisReportPdf({ ...result, summary: 'Ferdig ✓ på tid' }, { generatedAt }));
+
+    expect(page).toContain('Ferdig ? på tid');
+  });
+});
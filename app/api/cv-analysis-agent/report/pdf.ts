@@ -0,0 +1,361 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb, type RGB } from 'pdf-lib';
+import type { AnalysisResult } from '../pipeline';
+
+const PAGE_WIDTH = 595.28; // A4 in points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const COLORS = {
+  text: rgb(0.13, 0.13, 0.13),
+  muted: rgb(0.4, 0.4, 0.4),
+  heading: rgb(0.12, 0.22, 0.39),
+  rule: rgb(0.8, 0.8, 0.8),
+  success: rgb(0.1, 0.5, 0.2),
+  warning: rgb(0.7, 0.45, 0),
+  danger: rgb(0.75, 0.1, 0.1)
+};
+
+export interface AnalysisReportOptions {
+  generatedAt?: Date;
+}
+
+interface TextOptions {
+  size?: number;
+  font?: PDFFont;
+  color?: RGB;
+  x?: number;
+  width?: number;
+  lineGap?: number;
+}
+
+const scoreColor = (score: number) => score >= 8 ? COLORS.success : score >= 5 ? COLORS.warning : COLORS.danger;
+
+/**
+ * Minimal flowing layout on top of pdf-lib: keeps a cursor and adds pages when content does not fit
+ */
+class ReportWriter {
+  private page: PDFPage;
+  private y: number;
+  private readonly supported: Set<number>;
+
+  constructor(
+    private readonly document: PDFDocument,
+    readonly regular: PDFFont,
+    readonly bold: PDFFont
+  ) {
+    this.page = this.addPage();
+    this.y = PAGE_HEIGHT - MARGIN;
+    // The standard fonts only cover WinAnsi, other characters are replaced when drawing
+    this.supported = new Set(regular.getCharacterSet());
+  }
+
+  private addPage() {
+    return this.document.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height < MARGIN) {
+      this.page = this.addPage();
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  private sanitize(text: string) {
+    return Array.from(text.replace(/\t/g, ' '), char => {
+      const code = char.codePointAt(0) as number;
+      if (this.supported.has(code)) return char;
+      if (char === '–' || char === '—') return '-';
+      return '?';
+    }).join('');
+  }
+
+  /**
+   * Split text into lines that fit the width, keeping explicit line breaks
+   */
+  wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of this.sanitize(text).split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, size) <= width) {
+          line = candidate;
+          continue;
+        }
+        if (line) lines.push(line);
+        // Break words that are longer than a full line
+        line = word;
+        while (font.widthOfTextAtSize(line, size) > width && line.length > 1) {
+          let cut = line.length - 1;
+          while (cut > 1 && font.widthOfTextAtSize(line.slice(0, cut), size) > width) cut--;
+          lines.push(line.slice(0, cut));
+          line = line.slice(cut);
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  text(text: string, { size = 10, font = this.regular, color = COLORS.text, x = MARGIN, width = CONTENT_WIDTH, lineGap = 3 }: TextOptions = {}) {
+    for (const line of this.wrap(text, font, size, width)) {
+      this.ensureSpace(size + lineGap);
+      this.y -= size;
+      this.page.drawText(line, { x, y: this.y, size, font, color });
+      this.y -= lineGap;
+    }
+  }
+
+  heading(text: string, size = 14) {
+    this.space(size * 0.8);
+    this.ensureSpace(size * 3);
+    this.text(text, { size, font: this.bold, color: COLORS.heading });
+    this.space(4);
+  }
+
+  space(height: number) {
+    this.y -= height;
+  }
+
+  rule() {
+    this.ensureSpace(10);
+    this.y -= 5;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.5,
+      color: COLORS.rule
+    });
+    this.y -= 5;
+  }
+
+  bullets(items: string[], options: TextOptions = {}) {
+    const size = options.size ?? 10;
+    for (const item of items) {
+      const lines = this.wrap(item, this.regular, size, CONTENT_WIDTH - 12);
+      lines.forEach((line, index) => {
+        this.ensureSpace(size + 3);
+        this.y -= size;
+        if (index === 0) {
+          this.page.drawText('•', { x: MARGIN, y: this.y, size, font: this.regular, color: options.color ?? COLORS.text });
+        }
+        this.page.drawText(line, { x: MARGIN + 12, y: this.y, size, font: this.regular, color: options.color ?? COLORS.text });
+        this.y -= 3;
+      });
+    }
+  }
+
+  /**
+   * Table with wrapped cells. Column widths are fractions of the content width.
+   */
+  table(columns: { title: string; width: number }[], rows: { cells: string[]; colors?: (RGB | undefined)[] }[], size = 9) {
+    const widths = columns.map(column => column.width * CONTENT_WIDTH);
+    const drawRow = (cells: string[], font: PDFFont, colors: (RGB | undefined)[] = []) => {
+      const wrapped = cells.map((cell, index) => this.wrap(cell, font, size, widths[index] - 6));
+      const height = Math.max(...wrapped.map(lines => lines.length)) * (size + 3) + 4;
+      this.ensureSpace(height);
+      let x = MARGIN;
+      wrapped.forEach((lines, index) => {
+        lines.forEach((line, lineIndex) => {
+          this.page.drawText(line, {
+            x: x + 3,
+            y: this.y - size - lineIndex * (size + 3) - 2,
+            size,
+            font,
+            color: colors[index] ?? COLORS.text
+          });
+        });
+        x += widths[index];
+      });
+      this.y -= height;
+      this.page.drawLine({
+        start: { x: MARGIN, y: this.y },
+        end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+        thickness: 0.5,
+        color: COLORS.rule
+      });
+    };
+
+    drawRow(columns.map(column => column.title), this.bold);
+    rows.forEach(row => drawRow(row.cells, this.regular, row.colors));
+    this.space(6);
+  }
+
+  /**
+   * Two texts next to each other, continuing on new pages as needed
+   */
+  sideBySide(left: { title: string; text: string }, right: { title: string; text: string }, size = 9) {
+    const columnWidth = (CONTENT_WIDTH - 16) / 2;
+    const rightX = MARGIN + columnWidth + 16;
+    const leftLines = this.wrap(left.text, this.regular, size, columnWidth);
+    const rightLines = this.wrap(right.text, this.regular, size, columnWidth);
+
+    this.ensureSpace(size * 4);
+    this.y -= size + 1;
+    this.page.drawText(this.sanitize(left.title), { x: MARGIN, y: this.y, size: size + 1, font: this.bold, color: COLORS.heading });
+    this.page.drawText(this.sanitize(right.title), { x: rightX, y: this.y, size: size + 1, font: this.bold, color: COLORS.heading });
+    this.y -= 6;
+
+    for (let i = 0; i < Math.max(leftLines.length, rightLines.length); i++) {
+      this.ensureSpace(size + 3);
+      this.y -= size;
+      if (leftLines[i]) this.page.drawText(leftLines[i], { x: MARGIN, y: this.y, size, font: this.regular, color: COLORS.text });
+      if (rightLines[i]) this.page.drawText(rightLines[i], { x: rightX, y: this.y, size, font: this.regular, color: COLORS.text });
+      this.y -= 3;
+    }
+    this.space(6);
+  }
+
+  /**
+   * Page numbers in the footer, added when all content is written
+   */
+  addFooters(label: string) {
+    const pages = this.document.getPages();
+    pages.forEach((page, index) => {
+      page.drawText(this.sanitize(`${label} - page ${index + 1} of ${pages.length}`), {
+        x: MARGIN,
+        y: MARGIN / 2,
+        size: 8,
+        font: this.regular,
+        color: COLORS.muted
+      });
+    });
+  }
+}
+
+/**
+ * Create a PDF report of an enhanced agent analysis for consultants and their managers
+ */
+export async function createAnalysisReportPdf(
+  result: AnalysisResult,
+  { generatedAt = new Date() }: AnalysisReportOptions = {}
+): Promise<Uint8Array> {
+  const document = await PDFDocument.create();
+  const writer = new ReportWriter(
+    document,
+    await document.embedFont(StandardFonts.Helvetica),
+    await document.embedFont(StandardFonts.HelveticaBold)
+  );
+
+  const candidateName = result.cv?.candidate_name;
+  document.setTitle(candidateName ? `CV analysis - ${candidateName}` : 'CV analysis');
+
+  // Overall score and summary
+  writer.text(candidateName ? `CV Analysis Report - ${candidateName}` : 'CV Analysis Report', {
+    size: 20,
+    font: writer.bold,
+    color: COLORS.heading
+  });
+  writer.text(`Generated ${generatedAt.toISOString().slice(0, 10)}`, { size: 9, color: COLORS.muted });
+  writer.space(10);
+  writer.text(`Overall score: ${result.overall_score.toFixed(1)}/10`, {
+    size: 16,
+    font: writer.bold,
+    color: scoreColor(result.overall_score)
+  });
+  if (result.score_breakdown) {
+    writer.text(`Scoring profile: ${result.score_breakdown.profile_name}`, { size: 9, color: COLORS.muted });
+  }
+  writer.space(6);
+  writer.text(result.summary);
+
+  // Per-criterion scores, with the weight from the scoring profile
+  writer.heading('Criterion Scores');
+  const contributions = result.score_breakdown?.contributions || [];
+  writer.table(
+    [
+      { title: 'Criterion', width: 0.5 },
+      { title: 'Score', width: 0.15 },
+      { title: 'Weight', width: 0.15 },
+      { title: 'Contribution', width: 0.2 }
+    ],
+    result.criterion_evaluations.map(criterion => {
+      const contribution = contributions.find(item => item.criterion_id === criterion.criterion_id);
+      return {
+        cells: [
+          criterion.criterion_name,
+          `${criterion.score.toFixed(1)}/10`,
+          contribution ? `${Math.round(contribution.normalized_weight * 100)}%` : '-',
+          contribution ? contribution.contribution.toFixed(2) : '-'
+        ],
+        colors: [undefined, scoreColor(criterion.score)]
+      };
+    })
+  );
+  if (result.failed_criteria?.length > 0) {
+    writer.text(
+      `Not evaluated: ${result.failed_criteria.map(criterion => criterion.criterion_name).join(', ')}`,
+      { size: 9, color: COLORS.danger }
+    );
+  }
+  const failedMustPass = result.score_breakdown?.must_pass.filter(criterion => !criterion.passed) || [];
+  if (failedMustPass.length > 0) {
+    writer.text(
+      `Must-pass criteria not met: ${failedMustPass.map(criterion => `${criterion.criterion_name} (minimum ${criterion.minimum_score})`).join(', ')}`,
+      { size: 9, color: COLORS.danger }
+    );
+  }
+
+  writer.heading('Key Strengths');
+  writer.bullets(result.key_strengths);
+
+  writer.heading('Areas for Improvement');
+  writer.bullets(result.key_improvement_areas);
+
+  // Reasoning and suggestions per criterion
+  writer.heading('Criterion Details');
+  result.criterion_evaluations.forEach((criterion, index) => {
+    if (index > 0) writer.rule();
+    writer.text(`${criterion.criterion_name} - ${criterion.score.toFixed(1)}/10`, { size: 11, font: writer.bold });
+    writer.space(2);
+    writer.text(criterion.reasoning, { size: 9 });
+    if (criterion.suggestions.length > 0) {
+      writer.space(4);
+      writer.text('Suggestions', { size: 9, font: writer.bold });
+      writer.bullets(criterion.suggestions, { size: 9 });
+    }
+    const failedRules = (criterion.rule_verdicts || []).filter((verdict: any) => !verdict.passed);
+    if (failedRules.length > 0) {
+      writer.space(4);
+      writer.text('Checklist rules not met', { size: 9, font: writer.bold });
+      writer.bullets(failedRules.map((verdict: any) => `${verdict.rule_text} - ${verdict.evidence}`), { size: 9 });
+    }
+  });
+
+  // Original and improved summary side by side
+  const summaryQuality = result.detailed_analysis?.summary_quality;
+  if (summaryQuality?.improved_version) {
+    writer.heading('Summary');
+    writer.sideBySide(
+      { title: 'Original', text: summaryQuality.original_summary || result.cv?.summary || '' },
+      { title: 'Improved', text: summaryQuality.improved_version }
+    );
+  }
+
+  // Individual project evaluations
+  const projectEvaluations: any[] = result.detailed_analysis?.project_descriptions?.project_evaluations || [];
+  if (projectEvaluations.length > 0) {
+    writer.heading('Project Evaluations');
+    projectEvaluations.forEach((project, index) => {
+      if (index > 0) writer.rule();
+      writer.text(`${project.project_name} - ${project.score.toFixed(1)}/10`, { size: 11, font: writer.bold });
+      if (project.strengths?.length > 0) {
+        writer.text('Strengths', { size: 9, font: writer.bold, color: COLORS.success });
+        writer.bullets(project.strengths, { size: 9 });
+      }
+      if (project.weaknesses?.length > 0) {
+        writer.text('Weaknesses', { size: 9, font: writer.bold, color: COLORS.warning });
+        writer.bullets(project.weaknesses, { size: 9 });
+      }
+      if (project.improved_version) {
+        writer.space(2);
+        writer.text('Improved version', { size: 9, font: writer.bold });
+        writer.text(project.improved_version, { size: 9 });
+      }
+    });
+  }
+
+  writer.addFooters(candidateName ? `CV analysis - ${candidateName}` : 'CV analysis');
+  return document.save();
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { PDFDocument } from 'pdf-lib';
+import { POST } from './route';
+
+const reportRequest = (body: unknown) => POST(new NextRequest('http://localhost/api/cv-analysis-agent/report', {
+  method: 'POST',
+  body: JSON.stringify(body),
+  headers: { 'Content-Type': 'application/json' }
+}));
+
+const result = {
+  overall_score: 7,
+  summary: 'A solid CV',
+  key_strengths: [],
+  key_improvement_areas: [],
+  criterion_evaluations: [{ criterion_id: 'summary_quality', criterion_name: 'Summary Quality', score: 7, reasoning: 'Clear', suggestions: [] }],
+  failed_criteria: [],
+  detailed_analysis: {},
+  cv: { candidate_name: 'Øyvind Ås' }
+};
+
+describe('POST /api/cv-analysis-agent/report', () => {
+  it('returns the report as a PDF named after the candidate', async () => {
+    const response = await reportRequest({ result });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/pdf');
+    expect(response.headers.get('Content-Disposition')).toContain(`filename*=UTF-8''${encodeURIComponent('Øyvind_Ås_analysis.pdf')}`);
+    expect((await PDFDocument.load(await response.arrayBuffer())).getTitle()).toBe('CV analysis - Øyvind Ås');
+  });
+
+  it('rejects a missing or invalid result', async () => {
+    expect((await reportRequest({})).status).toBe(400);
+    expect((await reportRequest({ result: { ...result, criterion_evaluations: undefined } })).status).toBe(400);
+  });
+});
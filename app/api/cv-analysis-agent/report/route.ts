@@ -0,0 +1,45 @@
+// Node.js runtime is needed to build the PDF document
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logDebug, getResponseHeaders } from '../utils';
+import type { AnalysisResult } from '../pipeline';
+import { createAnalysisReportPdf } from './pdf';
+
+/**
+ * Create a PDF report from an enhanced agent analysis result posted as JSON { result }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { result } = await req.json() as { result: AnalysisResult };
+
+    if (!result || typeof result.overall_score !== 'number' || !Array.isArray(result.criterion_evaluations)) {
+      return NextResponse.json(
+        { error: 'Missing or invalid analysis result' },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    const pdf = await createAnalysisReportPdf(result);
+    const candidateName = result.cv?.candidate_name;
+    const fileName = `${(candidateName || 'cv').replace(/[^\p{L}\p{N}]+/gu, '_')}_analysis.pdf`;
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        ...getResponseHeaders(),
+        'Content-Type': 'application/pdf',
+        // The plain filename is a fallback for clients without RFC 5987 support
+        'Content-Disposition': `attachment; filename="cv_analysis.pdf"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+      }
+    });
+  } catch (error) {
+    logDebug('Error creating analysis report:', error);
+    return NextResponse.json(
+      {
+        error: 'Error creating analysis report',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
@@ -1,10 +1,10 @@
-// Set to Edge runtime for better performance
-export const runtime = 'edge';
+// Node.js runtime is needed for server-side PDF/DOCX text extraction
+export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { openai } from '@ai-sdk/openai';
-import { config, isProviderAvailable } from '../config';
+import { checkModelSupport, resolveModel } from '../models';
 import { ModelProvider } from '../../components/ModelSelector';
+import { extractDocumentText, type ExtractedDocument } from '../../utils/fileParser';
 
 // Import utility functions
 import { 
@@ -15,27 +15,42 @@ import {
 
 // Import agents
 import {
-  runLanguageQualityAgent,
-  runContentCompletenessAgent,
-  runSummaryQualityAgent,
-  runProjectDescriptionsAgent,
-  runCompetenceVerificationAgent,
   runLanguageDetectionAgent,
-  fixProjectDescriptionsScore,
-  generateOverallSummary,
-  extractStrengths,
-  extractImprovementAreas
+  parseCvStructure,
+  generateOverallSummary
 } from './agents';
+import {
+  createLanguageInstruction,
+  createCriterionTasks,
+  runCriterionTask,
+  splitCriterionRuns,
+  buildAnalysisResult
+} from './pipeline';
+import { getEnabledCriteria, findMissingCriterionInputs } from './criteria';
+import { calculateScoreBreakdown } from './scoring';
+import { recordAnalysisRun } from '../history/history';
+import { getConsultantCvFromForm } from '../consultants/consultants';
+import { getAgentCacheOptions } from '../agentCache';
+import { createUsageTracker } from '../usage';
+import { traceRequest, type Trace } from '../tracing';
+import { getScoringProfile } from '../../utils/checklistData';
 
 // Import schemas
-import { evaluationCriteria } from './schemas';
+import type { CvDocument } from './schemas';
 
 // Azure Static Web Apps has a 30-second limit for function execution
 export const maxDuration = 230; // We set to 230 but Azure might enforce a lower limit
 
 export async function POST(req: NextRequest) {
+  // The spans of the agents are returned with the debug logs
+  return traceRequest('cv_analysis', trace => analyzeCv(req, trace));
+}
+
+async function analyzeCv(req: NextRequest, trace: Trace) {
   const logs: string[] = [];
   const startTime = Date.now();
+  // Token usage of the agents, reported with the result
+  const usage = createUsageTracker();
   
   try {
     logs.push(logDebug('Starting enhanced CV analysis agent'));
@@ -43,111 +58,124 @@ export async function POST(req: NextRequest) {
     
     try {
       const formData = await req.formData();
-      const pdfFile = formData.get('file') as File;
+      const cvFile = formData.get('file') as File;
       const summaryChecklistText = formData.get('summaryChecklistText') as string;
       const assignmentsChecklistText = formData.get('assignmentsChecklistText') as string;
       const modelProvider = formData.get('modelProvider') as ModelProvider;
       const modelName = formData.get('modelName') as string;
+      const scoringProfileId = formData.get('scoringProfileId') as string | null;
+      // Ids of the selected stored checklists, recorded with the run in the history
+      const summaryChecklistId = formData.get('summaryChecklistId') as string | null;
+      const assignmentsChecklistId = formData.get('assignmentsChecklistId') as string | null;
+      // A registered consultant can be analyzed instead of an uploaded file
+      const storedCv = await getConsultantCvFromForm(formData);
+      // Agent outputs for the same CV, checklists and model are reused unless bypassCache is set
+      const cache = getAgentCacheOptions(formData, logs);
 
       logs.push(logDebug(`Request parameters received`, { 
-        fileSize: pdfFile ? pdfFile.size : 'No file',
-        fileName: pdfFile ? pdfFile.name : 'No file',
+        fileSize: cvFile ? cvFile.size : 'No file',
+        fileName: cvFile ? cvFile.name : 'No file',
         modelProvider, 
         modelName,
         summaryChecklistLength: summaryChecklistText ? summaryChecklistText.length : 0,
-        assignmentsChecklistLength: assignmentsChecklistText ? assignmentsChecklistText.length : 0
+        assignmentsChecklistLength: assignmentsChecklistText ? assignmentsChecklistText.length : 0,
+        bypassCache: !!cache.bypass
       }));
 
-      if (!pdfFile || !summaryChecklistText || !assignmentsChecklistText) {
-        logs.push(logDebug('Missing required parameters'));
+      // Checklists are only required when an enabled criterion uses them
+      const criteria = getEnabledCriteria();
+      const missingInputs = findMissingCriterionInputs(criteria, { summaryChecklistText, assignmentsChecklistText });
+      if ((!cvFile && !storedCv) || missingInputs.length > 0) {
+        logs.push(logDebug('Missing required parameters', { cvFile: !!cvFile, missingInputs }));
         return NextResponse.json(
-          { error: 'Missing required parameters', logs },
+          { error: 'Missing required parameters', details: [...(cvFile || storedCv ? [] : ['CV file']), ...missingInputs].join(', '), logs },
           { status: 400, headers: getResponseHeaders() }
         );
       }
 
-      // Check if the requested provider is available
-      logs.push(logDebug(`Checking if provider is available: ${modelProvider}`));
-      if (!isProviderAvailable(modelProvider)) {
-        logs.push(logDebug(`API key not configured for provider: ${modelProvider}`));
+      if (storedCv && !storedCv.consultant) {
         return NextResponse.json(
-          { 
-            error: `${modelProvider} API key is not configured`, 
-            logs,
-            environment: getEnvironmentInfo() 
-          },
-          { status: 400, headers: getResponseHeaders() }
+          { error: storedCv.error, logs },
+          { status: storedCv.status, headers: getResponseHeaders() }
         );
       }
-      logs.push(logDebug(`Provider ${modelProvider} is available`));
 
-      // Currently only supporting OpenAI models for agent-based analysis
-      if (modelProvider !== 'openai') {
-        logs.push(logDebug(`Unsupported provider for enhanced agent-based analysis: ${modelProvider}`));
+      const scoringProfile = getScoringProfile(scoringProfileId);
+      if (!scoringProfile) {
+        logs.push(logDebug(`Unknown scoring profile: ${scoringProfileId}`));
         return NextResponse.json(
-          { error: 'Enhanced agent-based analysis currently only supports OpenAI models', logs },
+          { error: `Unknown scoring profile: ${scoringProfileId}`, logs },
           { status: 400, headers: getResponseHeaders() }
         );
       }
 
-      // Read the file as ArrayBuffer
-      logs.push(logDebug('Reading PDF file'));
-      let fileBuffer;
-      try {
-        const fileArrayBuffer = await pdfFile.arrayBuffer();
-        fileBuffer = Buffer.from(fileArrayBuffer);
-        logs.push(logDebug(`PDF file converted to buffer, size: ${fileBuffer.length} bytes`));
-      } catch (fileError) {
-        logs.push(logDebug('Error processing PDF file:', fileError));
+      // Agents work on extracted text, so any configured model with structured output can be used
+      logs.push(logDebug(`Checking model support: ${modelProvider}/${modelName}`));
+      const modelSupportError = checkModelSupport(modelProvider, modelName, { structuredOutput: true });
+      if (modelSupportError) {
+        logs.push(logDebug(`Model not supported for enhanced agent-based analysis: ${modelSupportError}`));
         return NextResponse.json(
           { 
-            error: 'Failed to process PDF file', 
-            details: fileError instanceof Error ? fileError.message : 'Unknown file processing error',
-            logs 
+            error: modelSupportError, 
+            logs,
+            environment: getEnvironmentInfo() 
           },
-          { status: 500, headers: getResponseHeaders() }
+          { status: 400, headers: getResponseHeaders() }
         );
       }
+      logs.push(logDebug(`Model ${modelProvider}/${modelName} is supported`));
 
-      // Configure the provider
-      logs.push(logDebug(`Setting OpenAI API key from config`));
-      const openaiKeyBefore = !!process.env.OPENAI_API_KEY;
-      process.env.OPENAI_API_KEY = config.openai.apiKey;
-      const openaiKeyAfter = !!process.env.OPENAI_API_KEY;
-      logs.push(logDebug(`OpenAI key status: before=${openaiKeyBefore}, after=${openaiKeyAfter}, key_length=${config.openai.apiKey?.length || 0}`));
-      
-      if (!process.env.OPENAI_API_KEY) {
-        logs.push(logDebug('OpenAI API key is not set after configuration attempt'));
+      // Extract the CV text once and share it between all agents
+      logs.push(logDebug('Extracting CV text'));
+      let extractedCv: ExtractedDocument;
+      try {
+        extractedCv = storedCv ? storedCv.revision.document : await extractDocumentText(cvFile);
+        logs.push(logDebug(`Extracted ${extractedCv.text.length} characters from ${extractedCv.format.toUpperCase()} file`, {
+          pageCount: extractedCv.pageCount
+        }));
+      } catch (fileError) {
+        logs.push(logDebug('Error extracting CV text:', fileError));
         return NextResponse.json(
           { 
-            error: 'OpenAI API key is not available', 
-            logs, 
-            environment: getEnvironmentInfo() 
+            error: 'Failed to extract text from CV file', 
+            details: fileError instanceof Error ? fileError.message : 'Unknown file processing error',
+            logs 
           },
-          { status: 500, headers: getResponseHeaders() }
+          { status: 400, headers: getResponseHeaders() }
         );
       }
+
+      const model = resolveModel(modelProvider, modelName);
+      logs.push(logDebug(`Configured ${modelProvider} model: ${modelName}`));
       
-      const model = openai(modelName);
-      logs.push(logDebug(`Configured OpenAI model: ${modelName}`));
-      
-      // Detect the language of the CV
-      logs.push(logDebug('Detecting language of the CV'));
+      // Detect the language of the CV and parse its structure once for all agents
+      logs.push(logDebug('Detecting language and parsing CV structure'));
       let languageDetection;
+      let cv: CvDocument;
       try {
-        languageDetection = await runLanguageDetectionAgent({
-          model,
-          fileBuffer,
-          fileName: pdfFile.name
-        });
+        [languageDetection, cv] = await usage.track(() => Promise.all([
+          runLanguageDetectionAgent({
+            model,
+            document: extractedCv,
+            cache
+          }),
+          // The structured CV of a registered consultant was parsed when it was uploaded
+          storedCv ? storedCv.revision.cv : parseCvStructure({
+            model,
+            document: extractedCv,
+            cache
+          })
+        ]));
         logs.push(logDebug(`Language detected: ${languageDetection.language} (${languageDetection.languageCode}) with ${languageDetection.confidence * 100}% confidence`));
+        logs.push(logDebug(`CV structure parsed: ${cv.projects.length} projects, ${cv.competencies.length} competencies`));
       } catch (langError) {
-        logs.push(logDebug('Error detecting language:', langError));
+        logs.push(logDebug('Error detecting language or parsing CV structure:', langError));
         return NextResponse.json(
           { 
-            error: 'Failed to detect document language, possible API connection issue', 
-            details: langError instanceof Error ? langError.message : 'Unknown language detection error',
+            error: 'Failed to prepare CV for analysis, possible API connection issue', 
+            details: langError instanceof Error ? langError.message : 'Unknown CV preparation error',
             logs,
+            trace: trace.end(langError),
             timeTaken: `${(Date.now() - startTime) / 1000}s` 
           },
           { status: 500, headers: getResponseHeaders() }
@@ -155,7 +183,7 @@ export async function POST(req: NextRequest) {
       }
       
       // Create language instruction to add to all system prompts
-      const languageInstruction = `IMPORTANT: Provide all analysis, feedback, and suggestions in ${languageDetection.language} language to match the language of the CV.`;
+      const languageInstruction = createLanguageInstruction(languageDetection.language);
       
       try {
         logs.push(logDebug('Starting parallel agent-based CV analysis'));
@@ -163,122 +191,71 @@ export async function POST(req: NextRequest) {
         // Run specialized agents in parallel
         logs.push(logDebug('Launching specialized agents for CV analysis'));
         
-        const [
-          languageQualityResult,
-          contentCompletenessResult,
-          summaryQualityResult,
-          projectDescriptionsResult,
-          competenceVerificationResult
-        ] = await Promise.all([
-          // Language Quality Agent
-          runLanguageQualityAgent({
-            model,
-            fileBuffer,
-            fileName: pdfFile.name,
-            languageInstruction
-          }),
-          
-          // Content Completeness Agent
-          runContentCompletenessAgent({
+        // Each agent run is wrapped with timeout and retries, so one failing agent does not discard the others
+        const criterionRuns = await usage.track(() => Promise.all(
+          createCriterionTasks({
             model,
-            fileBuffer,
-            fileName: pdfFile.name,
-            languageInstruction
-          }),
-          
-          // Summary Quality Agent
-          runSummaryQualityAgent({
-            model,
-            fileBuffer,
-            fileName: pdfFile.name,
-            languageInstruction,
-            summaryChecklistText
-          }),
-          
-          // Project Descriptions Agent
-          runProjectDescriptionsAgent({
-            model,
-            fileBuffer,
-            fileName: pdfFile.name,
+            cv,
             languageInstruction,
-            assignmentsChecklistText
-          }),
-          
-          // Competence Verification Agent
-          runCompetenceVerificationAgent({
-            model,
-            fileBuffer,
-            fileName: pdfFile.name,
-            languageInstruction
-          })
-        ]);
-        
-        logs.push(logDebug('All specialized agents completed successfully'));
+            summaryChecklistText,
+            assignmentsChecklistText,
+            cache
+          }, criteria).map(task => runCriterionTask(task))
+        ));
+        const { criterionEvaluations, failedCriteria } = splitCriterionRuns(criterionRuns);
         
-        // Add a debug log for project descriptions
-        logs.push(logDebug('Project descriptions result details', {
-          overall_score: projectDescriptionsResult.score,
-          has_evaluations: Array.isArray(projectDescriptionsResult.project_evaluations),
-          num_evaluations: Array.isArray(projectDescriptionsResult.project_evaluations) ? projectDescriptionsResult.project_evaluations.length : 0
-        }));
-        
-        // Fix for project descriptions scoring issues
-        const fixedProjectDescriptionsResult = fixProjectDescriptionsScore(projectDescriptionsResult);
-        if (fixedProjectDescriptionsResult.score !== projectDescriptionsResult.score) {
-          logs.push(logDebug(`Fixed project descriptions score to ${fixedProjectDescriptionsResult.score} based on ${fixedProjectDescriptionsResult.project_evaluations.length} project evaluations`));
+        if (failedCriteria.length > 0) {
+          logs.push(logDebug(`${failedCriteria.length} criteria could not be evaluated`, failedCriteria));
+        }
+        if (criterionEvaluations.length === 0) {
+          throw new Error(`All agents failed: ${failedCriteria.map(criterion => `${criterion.criterion_name} (${criterion.status})`).join(', ')}`);
         }
         
-        logs.push(logDebug('Evaluation scores', { 
-          languageQuality: languageQualityResult.score,
-          contentCompleteness: contentCompletenessResult.score,
-          summaryQuality: summaryQualityResult.score,
-          projectDescriptions: fixedProjectDescriptionsResult.score,
-          competenceVerification: competenceVerificationResult.score
-        }));
+        logs.push(logDebug(`${criterionEvaluations.length} specialized agents completed successfully`));
         
-        // Combine all agent results
-        const criterionEvaluations = [
-          languageQualityResult,
-          contentCompletenessResult,
-          summaryQualityResult,
-          fixedProjectDescriptionsResult,
-          competenceVerificationResult
-        ];
+        logs.push(logDebug('Evaluation scores', Object.fromEntries(
+          criterionEvaluations.map(criterion => [criterion.criterion_id, criterion.score])
+        )));
         
-        // Calculate overall rating
-        const overallScore = criterionEvaluations.reduce((sum, criterion) => sum + criterion.score, 0) / criterionEvaluations.length;
+        // Calculate the weighted overall rating with the selected scoring profile
+        const scoreBreakdown = calculateScoreBreakdown(criterionEvaluations, scoringProfile);
+        const overallScore = scoreBreakdown.overall_score;
         
-        logs.push(logDebug(`Calculated overall score: ${overallScore}`));
+        logs.push(logDebug(`Calculated overall score with scoring profile ${scoringProfile.id}: ${overallScore}`, scoreBreakdown));
         
         // Generate summary 
         logs.push(logDebug('Generating overall summary from specialized agent results'));
-        const overallSummary = await generateOverallSummary(
+        const overallSummary = await usage.track(() => generateOverallSummary(
           model, 
           criterionEvaluations, 
           overallScore, 
           languageInstruction
-        );
+        ));
         logs.push(logDebug('Overall summary generation completed'));
         
-        // Prepare strengths and improvement areas
-        const strengths = extractStrengths(criterionEvaluations);
-        const improvementAreas = extractImprovementAreas(criterionEvaluations);
-        
-        // Combine the results into the final evaluation structure
-        const result = {
-          overall_score: parseFloat(overallScore.toFixed(1)),
+        const result = buildAnalysisResult({
+          criterionEvaluations,
+          failedCriteria,
+          scoringProfile,
+          scoreBreakdown,
           summary: overallSummary,
-          key_strengths: strengths.length > 0 ? strengths : ["No specific strengths identified"],
-          key_improvement_areas: improvementAreas.length > 0 ? improvementAreas : ["No specific improvement areas identified"],
-          criterion_evaluations: criterionEvaluations,
-          detailed_analysis: {
-            language_quality: languageQualityResult,
-            content_completeness: contentCompletenessResult,
-            summary_quality: summaryQualityResult,
-            project_descriptions: fixedProjectDescriptionsResult,
-            competence_verification: competenceVerificationResult
+          cv,
+          language: languageDetection.language
+        });
+
+        // Keep the run so the CV can be compared with earlier and later analyses
+        await recordAnalysisRun({
+          document: extractedCv,
+          modelProvider,
+          modelName,
+          result,
+          scoringProfileId: scoringProfile.id,
+          usage: usage.calls,
+          checklists: {
+            summary: { id: summaryChecklistId || undefined, content: summaryChecklistText || '' },
+            assignments: { id: assignmentsChecklistId || undefined, content: assignmentsChecklistText || '' }
           }
-        };
+        }).catch(error => logs.push(logDebug('Failed to record analysis run:', error)));
         
         const timeTaken = (Date.now() - startTime) / 1000;
         logs.push(logDebug(`Completed processing in ${timeTaken}s, returning successful response`));
@@ -286,8 +263,9 @@ export async function POST(req: NextRequest) {
         return NextResponse.json({ 
           result,
           isStructured: true,
-          debug: { logs },
-          timeTaken: `${timeTaken}s`
+          debug: { logs, trace: trace.end() },
+          timeTaken: `${timeTaken}s`,
+          usage: usage.summary()
         }, { headers: getResponseHeaders() });
       } catch (error) {
         logs.push(logDebug('Error during agent-based CV analysis:', error));
@@ -298,6 +276,7 @@ export async function POST(req: NextRequest) {
             timestamp: new Date().toISOString(),
             environment: getEnvironmentInfo(),
             logs,
+            trace: trace.end(error),
             timeTaken: `${(Date.now() - startTime) / 1000}s`
           },
           { status: 500, headers: getResponseHeaders() }
@@ -310,6 +289,7 @@ export async function POST(req: NextRequest) {
           error: 'Error processing request form data',
           details: formError instanceof Error ? formError.message : 'Unknown form processing error',
           logs,
+          trace: trace.end(formError),
           environment: getEnvironmentInfo(),
           timeTaken: `${(Date.now() - startTime) / 1000}s` 
         },
@@ -332,6 +312,7 @@ export async function POST(req: NextRequest) {
         timestamp: new Date().toISOString(),
         environment: getEnvironmentInfo(),
         logs,
+        trace: trace.end(error),
         timeTaken: `${errorTime}s`
       },
       { status: 500, headers: getResponseHeaders() }
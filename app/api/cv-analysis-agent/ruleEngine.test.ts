@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { checkProjectRules, checkSummaryRules, mergeRuleVerdicts, runRuleCheck } from './ruleEngine';
+import type { RuleVerdict } from '../../utils/checklistRules';
+import type { CvDocument, CvProject } from './schemas';
+
+const project = (id: string, description: string): CvProject => ({
+  id,
+  name: `Project ${id}`,
+  customer: 'Customer',
+  role: 'Developer',
+  start_date: '2023',
+  end_date: '2024',
+  description,
+  technologies: []
+});
+
+const cvOf = (summary: string, projects: CvProject[] = []): CvDocument => ({
+  candidate_name: 'Ola Nordmann',
+  summary,
+  roles: [],
+  projects,
+  competencies: [],
+  education: [],
+  certifications: [],
+  languages: []
+});
+
+const firstPerson = (text: string) => runRuleCheck({ type: 'no_first_person' }, text).spans.map(span => span.text);
+
+describe('runRuleCheck', () => {
+  it('counts words and marks the words beyond the maximum', () => {
+    const result = runRuleCheck({ type: 'word_count', min: 2, max: 4 }, 'one two three four five six');
+
+    expect(result.passed).toBe(false);
+    expect(result.evidence).toBe('6 words (required 2-4)');
+    expect(result.spans).toEqual([{ start: 19, end: 27, text: 'five six' }]);
+  });
+
+  it('marks the whole text when it is too short', () => {
+    const result = runRuleCheck({ type: 'word_count', min: 5 }, 'Too short');
+
+    expect(result).toMatchObject({ passed: false, evidence: '2 words (required at least 5)' });
+    expect(result.spans).toEqual([{ start: 0, end: 9, text: 'Too short' }]);
+  });
+
+  it('marks the paragraphs beyond the maximum', () => {
+    const result = runRuleCheck({ type: 'paragraph_count', max: 1 }, 'First paragraph.\n\nSecond paragraph.');
+
+    expect(result.passed).toBe(false);
+    expect(result.spans.map(span => span.text)).toEqual(['Second paragraph.']);
+  });
+
+  it('finds bullet points', () => {
+    const result = runRuleCheck({ type: 'no_bullet_points' }, 'Delivered:\n- an API\n2. a frontend');
+
+    expect(result.passed).toBe(false);
+    expect(result.spans.map(span => span.text)).toEqual(['- an API', '2. a frontend']);
+  });
+
+  it('finds English and Norwegian first-person pronouns', () => {
+    expect(firstPerson("I led the team. I'm certified and my focus is quality. Jeg har ledet teamet.")).toEqual([
+      'I', "I'm", 'my', 'Jeg'
+    ]);
+  });
+
+  it('does not count a roman numeral I as a pronoun', () => {
+    expect(firstPerson('Delivered Phase I of the platform, then phase II.')).toEqual([]);
+    expect(firstPerson('Migrated tier I and II services.')).toEqual([]);
+    expect(firstPerson('Ledet fase I av prosjektet.')).toEqual([]);
+    expect(firstPerson('After Phase I, I led the rollout.')).toEqual(['I']);
+  });
+
+  it('does not count pronouns inside words with non-ASCII letters', () => {
+    expect(firstPerson('Jobbet med Øjeg-prosjektet og åmy-tjenesten.')).toEqual([]);
+    expect(firstPerson('Ledet nivå I av prosjektet, så ledet jeg teamet.')).toEqual(['jeg']);
+  });
+
+  it('finds each part of the candidate name', () => {
+    const result = runRuleCheck({ type: 'no_candidate_name' }, 'Ola is a developer. Nordmann has led teams.', {
+      candidateName: 'Ola Nordmann'
+    });
+
+    expect(result).toMatchObject({ passed: false, evidence: 'Candidate name used 2 times' });
+  });
+
+  it('finds names with non-ASCII letters as whole words only', () => {
+    const result = runRuleCheck({ type: 'no_candidate_name' }, 'Øyvind Ås har ledet teamet. Åsmund og Øyvindsen har testet.', {
+      candidateName: 'Øyvind Ås'
+    });
+
+    expect(result.spans.map(span => span.text)).toEqual(['Øyvind', 'Ås']);
+  });
+
+  it('passes the name check when the name is unknown', () => {
+    expect(runRuleCheck({ type: 'no_candidate_name' }, 'Ola is a developer.')).toMatchObject({
+      passed: true,
+      evidence: 'Candidate name unknown, not checked'
+    });
+  });
+});
+
+describe('checkSummaryRules', () => {
+  const checklist = 'Summary checklist:\n1) The summary should be 5-50 words\n2) Write in third person\n3) Highlight the most relevant experience';
+
+  it('checks only the rules with a deterministic check', () => {
+    const verdicts = checkSummaryRules(cvOf('Experienced developer who has led several teams.'), checklist);
+
+    expect(verdicts.map(verdict => [verdict.rule_id, verdict.passed, verdict.source])).toEqual([
+      ['rule-1', true, 'rule_engine'],
+      ['rule-2', true, 'rule_engine']
+    ]);
+  });
+
+  it('fails every checked rule when the CV has no summary', () => {
+    const verdicts = checkSummaryRules(cvOf(' '), checklist);
+
+    expect(verdicts.every(verdict => !verdict.passed && verdict.evidence === 'No summary found in the CV')).toBe(true);
+  });
+
+  it('passes a rule with several checks only if every check passes', () => {
+    const [verdict] = checkSummaryRules(
+      cvOf('Experienced developer.\n\nLed several teams.'),
+      '1) Keep the summary between 2-10 words in a single paragraph'
+    );
+
+    expect(verdict.passed).toBe(false);
+    expect(verdict.evidence).toBe('5 words (required 2-10), 2 paragraphs (required at most 1)');
+    expect(verdict.findings?.map(span => span.text)).toEqual(['Led several teams.']);
+  });
+});
+
+describe('checkProjectRules', () => {
+  it('fails a rule when any project fails it, with the findings of each project', () => {
+    const cv = cvOf('', [
+      project('p1', 'Built the payment platform for the customer.'),
+      project('p2', 'I built the search service and my team ran it.')
+    ]);
+    const [verdict] = checkProjectRules(cv, '1) Avoid first-person language');
+
+    expect(verdict.passed).toBe(false);
+    expect(verdict.evidence).toBe('p2 (Project p2): First-person pronouns found: I, my');
+    expect(verdict.findings?.map(span => span.project_id)).toEqual(['p2', 'p2']);
+  });
+});
+
+describe('mergeRuleVerdicts', () => {
+  const verdict = (rule_id: string, source: RuleVerdict['source']): RuleVerdict => ({
+    rule_id,
+    rule_text: '',
+    severity: 'required',
+    passed: true,
+    evidence: '',
+    source
+  });
+
+  it('replaces agent verdicts with rule engine verdicts for the same rules, in rule order', () => {
+    const merged = mergeRuleVerdicts(
+      [verdict('rule-1', 'agent'), verdict('rule-2', 'agent'), verdict('rule-10', 'agent')],
+      [verdict('rule-2', 'rule_engine')]
+    );
+
+    expect(merged.map(v => [v.rule_id, v.source])).toEqual([
+      ['rule-1', 'agent'],
+      ['rule-2', 'rule_engine'],
+      ['rule-10', 'agent']
+    ]);
+  });
+});
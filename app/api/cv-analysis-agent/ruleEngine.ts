@@ -0,0 +1,198 @@
+import {
+  parseChecklist,
+  type ChecklistRule,
+  type DeterministicCheck,
+  type RuleVerdict,
+  type TextSpan
+} from '../../utils/checklistRules';
+import type { CvDocument } from './schemas';
+
+// Deterministic checks for mechanical checklist rules. They run locally before the agents,
+// and their verdicts replace the agent verdicts for the same rules.
+
+export interface RuleCheckOptions {
+  candidateName?: string;
+}
+
+export interface RuleCheckResult {
+  passed: boolean;
+  evidence: string;
+  spans: TextSpan[];
+}
+
+const WORD_PATTERN = /\S+/g;
+const BULLET_PATTERN = /^[ \t]*(?:[-*•●▪◦‣]|\d+[.)])[ \t]+.*$/gm;
+// Words a roman numeral I follows, as in "Phase I" or "nivå I", in either case of their first letter
+const NUMBERED_WORDS = ['phase', 'part', 'level', 'stage', 'step', 'tier', 'type', 'grade', 'class', 'chapter', 'section',
+  'volume', 'appendix', 'war', 'fase', 'del', 'nivå', 'trinn', 'kapittel', 'vedlegg']
+  .map(word => `[${word[0].toUpperCase()}${word[0]}]${word.slice(1)}`)
+  .join('|');
+// Word boundaries that, unlike \b, treat non-ASCII letters such as æ, ø and å as part of a word
+const WORD_START = '(?<![\\p{L}\\p{N}_])';
+const WORD_END = '(?![\\p{L}\\p{N}_])';
+// English and Norwegian first-person pronouns. A lone "I" counts only when a lowercase word follows it, as in "I led",
+// and not when it numbers something, as in "Phase I of the project" or "I and II".
+const FIRST_PERSON_PATTERN = new RegExp(
+  `${WORD_START}(?:I'm|I've|I'd|I'll|(?<!${WORD_START}(?:${NUMBERED_WORDS})\\s+)I(?=\\s+\\p{Ll})(?!\\s+(?:and|or|to|og|eller|til)\\s+[IVX]+${WORD_END})` +
+  `|[Mm]e|[Mm]y|[Mm]ine|[Mm]yself|[Jj]eg|[Mm]eg)${WORD_END}`,
+  'gu'
+);
+
+function matchSpans(text: string, pattern: RegExp): TextSpan[] {
+  return Array.from(text.matchAll(pattern), match => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    text: match[0]
+  }));
+}
+
+function paragraphSpans(text: string): TextSpan[] {
+  return matchSpans(text, /\S(?:[\s\S]*?\S)?(?=\s*\n\s*\n|\s*$)/g);
+}
+
+const describeRange = (min?: number, max?: number) =>
+  min !== undefined && max !== undefined ? `${min}-${max}` : min !== undefined ? `at least ${min}` : `at most ${max}`;
+
+/**
+ * Run one deterministic check on a text
+ */
+export function runRuleCheck(check: DeterministicCheck, text: string, options: RuleCheckOptions = {}): RuleCheckResult {
+  switch (check.type) {
+    case 'word_count': {
+      const words = matchSpans(text, WORD_PATTERN);
+      const tooShort = check.min !== undefined && words.length < check.min;
+      const tooLong = check.max !== undefined && words.length > check.max;
+      const evidence = `${words.length} words (required ${describeRange(check.min, check.max)})`;
+
+      if (tooLong) {
+        // Mark the words beyond the maximum
+        const start = words[check.max as number].start;
+        return { passed: false, evidence, spans: [{ start, end: text.length, text: text.slice(start) }] };
+      }
+      return { passed: !tooShort, evidence, spans: tooShort && text ? [{ start: 0, end: text.length, text }] : [] };
+    }
+
+    case 'paragraph_count': {
+      const paragraphs = paragraphSpans(text);
+      const tooFew = check.min !== undefined && paragraphs.length < check.min;
+      const tooMany = check.max !== undefined && paragraphs.length > check.max;
+      return {
+        passed: !tooFew && !tooMany,
+        evidence: `${paragraphs.length} ${paragraphs.length === 1 ? 'paragraph' : 'paragraphs'} (required ${describeRange(check.min, check.max)})`,
+        spans: tooMany ? paragraphs.slice(check.max) : []
+      };
+    }
+
+    case 'no_bullet_points': {
+      const bullets = matchSpans(text, BULLET_PATTERN);
+      return {
+        passed: bullets.length === 0,
+        evidence: bullets.length === 0 ? 'No bullet points found' : `${bullets.length} bullet ${bullets.length === 1 ? 'point' : 'points'} found`,
+        spans: bullets
+      };
+    }
+
+    case 'no_first_person': {
+      const pronouns = matchSpans(text, FIRST_PERSON_PATTERN);
+      return {
+        passed: pronouns.length === 0,
+        evidence: pronouns.length === 0
+          ? 'No first-person pronouns found'
+          : `First-person pronouns found: ${Array.from(new Set(pronouns.map(span => span.text))).join(', ')}`,
+        spans: pronouns
+      };
+    }
+
+    case 'no_candidate_name': {
+      // Match each part of the name, so "Ola" and "Nordmann" are found on their own
+      const nameParts = (options.candidateName || '')
+        .split(/\s+/)
+        .filter(part => part.length >= 2)
+        .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+      if (nameParts.length === 0) {
+        return { passed: true, evidence: 'Candidate name unknown, not checked', spans: [] };
+      }
+
+      const mentions = matchSpans(text, new RegExp(`${WORD_START}(?:${nameParts.join('|')})${WORD_END}`, 'giu'));
+      return {
+        passed: mentions.length === 0,
+        evidence: mentions.length === 0 ? 'Candidate name not used' : `Candidate name used ${mentions.length} ${mentions.length === 1 ? 'time' : 'times'}`,
+        spans: mentions
+      };
+    }
+  }
+}
+
+/**
+ * Run all checks of a rule on a text. The rule passes only if every check passes.
+ */
+function runRuleChecks(checks: DeterministicCheck[], text: string, options: RuleCheckOptions): RuleCheckResult {
+  const results = checks.map(check => runRuleCheck(check, text, options));
+  return {
+    passed: results.every(result => result.passed),
+    evidence: results.map(result => result.evidence).join(', '),
+    spans: results.flatMap(result => result.spans)
+  };
+}
+
+const checkedRules = (checklistText: string) =>
+  parseChecklist(checklistText).rules.filter((rule): rule is ChecklistRule & { checks: DeterministicCheck[] } => !!rule.checks);
+
+const toVerdict = (rule: ChecklistRule, result: RuleCheckResult): RuleVerdict => ({
+  rule_id: rule.id,
+  rule_text: rule.text,
+  severity: rule.severity,
+  passed: result.passed,
+  evidence: result.evidence,
+  source: 'rule_engine',
+  findings: result.spans
+});
+
+/**
+ * Check the deterministic rules of a summary checklist against the summary of the CV
+ */
+export function checkSummaryRules(cv: CvDocument, checklistText: string): RuleVerdict[] {
+  return checkedRules(checklistText).map(rule => {
+    if (!cv.summary.trim()) {
+      return toVerdict(rule, { passed: false, evidence: 'No summary found in the CV', spans: [] });
+    }
+    return toVerdict(rule, runRuleChecks(rule.checks, cv.summary, { candidateName: cv.candidate_name }));
+  });
+}
+
+/**
+ * Check the deterministic rules of an assignments checklist against every project description.
+ * A rule passes only if all projects pass.
+ */
+export function checkProjectRules(cv: CvDocument, checklistText: string): RuleVerdict[] {
+  return checkedRules(checklistText).map(rule => {
+    const failures = cv.projects
+      .map(project => ({
+        project,
+        result: runRuleChecks(rule.checks, project.description, { candidateName: cv.candidate_name })
+      }))
+      .filter(({ result }) => !result.passed);
+
+    return toVerdict(rule, {
+      passed: failures.length === 0,
+      evidence: failures.length === 0
+        ? `All ${cv.projects.length} project descriptions pass`
+        : failures.map(({ project, result }) => `${project.id} (${project.name}): ${result.evidence}`).join('; '),
+      spans: failures.flatMap(({ project, result }) =>
+        result.spans.map(span => ({ ...span, project_id: project.id }))
+      )
+    });
+  });
+}
+
+/**
+ * Replace agent verdicts with the deterministic verdicts for the same rules, in rule id order
+ */
+export function mergeRuleVerdicts(agentVerdicts: RuleVerdict[] | undefined, ruleEngineVerdicts: RuleVerdict[]): RuleVerdict[] {
+  const checkedIds = new Set(ruleEngineVerdicts.map(verdict => verdict.rule_id));
+  return [
+    ...(agentVerdicts || []).filter(verdict => !checkedIds.has(verdict.rule_id)),
+    ...ruleEngineVerdicts
+  ].sort((a, b) => a.rule_id.localeCompare(b.rule_id, undefined, { numeric: true }));
+}
@@ -1,35 +1,65 @@
 import { z } from 'zod';
 
 /**
- * Specialized evaluation criteria based on CV hjelper MVP
+ * Structured CV schema - the parsed representation of a CV shared by all agents.
+ * Text fields are copied verbatim from the CV, missing values are empty strings.
  */
-export const evaluationCriteria = [
-  {
-    id: 'language_quality',
-    name: 'Language Quality',
-    description: 'Evaluate grammar, spelling, flow, and professional tone. Check if it uses third-person perspective and action-oriented language.'
-  },
-  {
-    id: 'content_completeness',
-    name: 'Content Completeness',
-    description: 'Check if the CV contains all required elements: summary, projects, technology, competencies, roles, education, courses, certifications, and languages.'
-  },
-  {
-    id: 'summary_quality',
-    name: 'Summary Quality',
-    description: 'Evaluate the CV summary for strong opening, key skills/experiences, and demonstrated value.'
-  },
-  {
-    id: 'project_descriptions',
-    name: 'Project Descriptions',
-    description: 'Evaluate project descriptions for proper structure, action-oriented language, role clarity, value contribution, and PARK methodology compliance.'
-  },
-  {
-    id: 'competence_verification',
-    name: 'Competence Verification',
-    description: 'Verify that all listed competencies and roles are demonstrated in project descriptions.'
-  }
-];
+export const cvDocumentSchema = z.object({
+  candidate_name: z.string(),
+  summary: z.string().describe('The complete profile/summary section, word for word'),
+  roles: z.array(
+    z.object({
+      title: z.string(),
+      description: z.string()
+    })
+  ),
+  projects: z.array(
+    z.object({
+      name: z.string(),
+      customer: z.string(),
+      role: z.string(),
+      start_date: z.string(),
+      end_date: z.string(),
+      description: z.string().describe('The complete project description, word for word'),
+      technologies: z.array(z.string())
+    })
+  ),
+  competencies: z.array(z.string()),
+  education: z.array(
+    z.object({
+      institution: z.string(),
+      degree: z.string(),
+      start_date: z.string(),
+      end_date: z.string()
+    })
+  ),
+  certifications: z.array(
+    z.object({
+      name: z.string(),
+      issuer: z.string(),
+      date: z.string()
+    })
+  ),
+  languages: z.array(
+    z.object({
+      language: z.string(),
+      proficiency: z.string()
+    })
+  )
+});
+
+export type ParsedCv = z.infer<typeof cvDocumentSchema>;
+export type CvProject = ParsedCv['projects'][number] & { id: string };
+export type CvDocument = Omit<ParsedCv, 'projects'> & { projects: CvProject[] };
+
+/**
+ * Verdict for one checklist rule, referenced by the rule id from the prompt
+ */
+export const ruleVerdictSchema = z.object({
+  rule_id: z.string().describe('The id of the checklist rule, e.g. "rule-3"'),
+  passed: z.boolean(),
+  evidence: z.string().describe('Quote or observation from the CV that supports the verdict')
+});
 
 /**
  * Rating schema - using 0 to 10 scale
@@ -64,8 +94,10 @@ export const projectDescriptionsSchema = z.object({
   score: z.number().min(0).max(10),
   reasoning: z.string(),
   suggestions: z.array(z.string()),
+  rule_verdicts: z.array(ruleVerdictSchema).describe('One verdict per checklist rule, across all projects'),
   project_evaluations: z.array(
     z.object({
+      project_id: z.string().describe('The id of the project in the structured CV, e.g. "project-1"'),
       project_name: z.string(),
       score: z.number().min(0).max(10),
       strengths: z.array(z.string()),
@@ -94,5 +126,16 @@ export const summaryEvaluationSchema = z.object({
   reasoning: z.string(),
   suggestions: z.array(z.string()),
   improved_version: z.string(),
-  original_summary: z.string().optional()
-}); 
\ No newline at end of file
+  original_summary: z.string().optional(),
+  rule_verdicts: z.array(ruleVerdictSchema).describe('One verdict per checklist rule')
+});
+
+/**
+ * Education and certifications schema
+ */
+export const educationCertificationsSchema = z.object({
+  score: z.number().min(0).max(10),
+  reasoning: z.string(),
+  suggestions: z.array(z.string()),
+  incomplete_entries: z.array(z.string()).describe('Education or certification entries missing institution, issuer or dates')
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import type { AgentResult } from './agents';
+import { calculateScoreBreakdown } from './scoring';
+import { defaultScoringProfile, getScoringProfile, type ScoringProfile } from '../../utils/checklistData';
+
+const evaluation = (criterion_id: string, score: number): AgentResult => ({
+  criterion_id,
+  criterion_name: criterion_id,
+  score,
+  reasoning: '',
+  suggestions: []
+});
+
+const evaluations = [
+  evaluation('language_quality', 9),
+  evaluation('summary_quality', 6),
+  evaluation('project_descriptions', 4),
+  evaluation('competence_verification', 8)
+];
+
+const delivery = getScoringProfile('delivery')!;
+
+describe('calculateScoreBreakdown', () => {
+  it('averages the scores with the balanced profile', () => {
+    const breakdown = calculateScoreBreakdown(evaluations, defaultScoringProfile);
+
+    expect(breakdown.overall_score).toBe(6.75);
+    expect(breakdown.total_weight).toBe(4);
+    expect(breakdown.contributions.every(contribution => contribution.normalized_weight === 0.25)).toBe(true);
+    expect(breakdown.passed).toBe(true);
+  });
+
+  it('weighs the scores by the profile weights', () => {
+    const breakdown = calculateScoreBreakdown(evaluations, delivery);
+
+    // (9 * 0.5 + 6 * 1 + 4 * 3 + 8 * 3) / 7.5
+    expect(breakdown.overall_score).toBeCloseTo(6.2);
+    expect(breakdown.total_weight).toBe(7.5);
+    expect(breakdown.contributions.find(c => c.criterion_id === 'project_descriptions')).toMatchObject({
+      weight: 3,
+      normalized_weight: 0.4,
+      contribution: 1.6
+    });
+  });
+
+  it('renormalizes the weights when a criterion could not be evaluated', () => {
+    const breakdown = calculateScoreBreakdown(
+      evaluations.filter(e => e.criterion_id !== 'competence_verification'),
+      delivery
+    );
+
+    // (9 * 0.5 + 6 * 1 + 4 * 3) / 4.5
+    expect(breakdown.overall_score).toBeCloseTo(5);
+    expect(breakdown.contributions.reduce((sum, c) => sum + c.normalized_weight, 0)).toBeCloseTo(1, 2);
+  });
+
+  it('fails a must-pass criterion that scores too low or was not evaluated', () => {
+    const breakdown = calculateScoreBreakdown(
+      evaluations.filter(e => e.criterion_id !== 'competence_verification'),
+      delivery
+    );
+
+    expect(breakdown.must_pass).toEqual([
+      { criterion_id: 'project_descriptions', criterion_name: 'project_descriptions', minimum_score: 5, score: 4, passed: false },
+      expect.objectContaining({ criterion_id: 'competence_verification', score: null, passed: false })
+    ]);
+    expect(breakdown.passed).toBe(false);
+  });
+
+  it('falls back to a plain mean when every evaluated criterion has a zero weight', () => {
+    const profile: ScoringProfile = { ...defaultScoringProfile, weights: { language_quality: 0, summary_quality: 0 } };
+    const breakdown = calculateScoreBreakdown(evaluations.slice(0, 2), profile);
+
+    expect(breakdown.overall_score).toBe(7.5);
+    expect(breakdown.contributions.map(c => c.weight)).toEqual([1, 1]);
+  });
+
+  it('scores zero without evaluations', () => {
+    const breakdown = calculateScoreBreakdown([], defaultScoringProfile);
+
+    expect(breakdown.overall_score).toBe(0);
+    expect(breakdown.contributions).toEqual([]);
+  });
+});
+
+describe('getScoringProfile', () => {
+  it('returns the balanced profile when no id is given', () => {
+    expect(getScoringProfile(undefined)).toBe(defaultScoringProfile);
+    expect(getScoringProfile('')).toBe(defaultScoringProfile);
+  });
+
+  it('returns undefined for an unknown id', () => {
+    expect(getScoringProfile('unknown')).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+import type { AgentResult } from './agents';
+import { getCriterionName } from './criteria';
+import type { ScoringProfile } from '../../utils/checklistData';
+
+export interface ScoreContribution {
+  criterion_id: string;
+  criterion_name: string;
+  score: number;
+  weight: number;
+  // Share of the overall score, weight divided by the total weight of the evaluated criteria
+  normalized_weight: number;
+  // Points this criterion adds to the overall score
+  contribution: number;
+}
+
+export interface MustPassResult {
+  criterion_id: string;
+  criterion_name: string;
+  minimum_score: number;
+  // null when the criterion could not be evaluated
+  score: number | null;
+  passed: boolean;
+}
+
+export interface ScoreBreakdown {
+  profile_id: string;
+  profile_name: string;
+  overall_score: number;
+  total_weight: number;
+  contributions: ScoreContribution[];
+  must_pass: MustPassResult[];
+  passed: boolean;
+}
+
+/**
+ * Calculate the weighted overall score for the evaluated criteria and explain each weighted contribution.
+ * Criteria that could not be evaluated are left out, so the weights of the remaining criteria are renormalized.
+ */
+export function calculateScoreBreakdown(criterionEvaluations: AgentResult[], profile: ScoringProfile): ScoreBreakdown {
+  const weightOf = (criterionId: string) => Math.max(0, profile.weights[criterionId] ?? 1);
+  let totalWeight = criterionEvaluations.reduce((sum, criterion) => sum + weightOf(criterion.criterion_id), 0);
+
+  // If the profile gives every evaluated criterion a zero weight, fall back to a plain mean
+  const useEqualWeights = totalWeight === 0;
+  if (useEqualWeights) {
+    totalWeight = criterionEvaluations.length;
+  }
+
+  const contributions = criterionEvaluations.map(criterion => {
+    const weight = useEqualWeights ? 1 : weightOf(criterion.criterion_id);
+    const normalizedWeight = totalWeight > 0 ? weight / totalWeight : 0;
+    return {
+      criterion_id: criterion.criterion_id,
+      criterion_name: criterion.criterion_name,
+      score: criterion.score,
+      weight,
+      normalized_weight: parseFloat(normalizedWeight.toFixed(3)),
+      contribution: parseFloat((criterion.score * normalizedWeight).toFixed(2))
+    };
+  });
+
+  const overallScore = totalWeight > 0
+    ? criterionEvaluations.reduce((sum, criterion) =>
+        sum + criterion.score * (useEqualWeights ? 1 : weightOf(criterion.criterion_id)), 0) / totalWeight
+    : 0;
+
+  const mustPass = (profile.mustPass || []).map(({ criterionId, minimumScore }) => {
+    const evaluation = criterionEvaluations.find(criterion => criterion.criterion_id === criterionId);
+    return {
+      criterion_id: criterionId,
+      criterion_name: evaluation?.criterion_name ?? getCriterionName(criterionId),
+      minimum_score: minimumScore,
+      score: evaluation ? evaluation.score : null,
+      passed: !!evaluation && evaluation.score >= minimumScore
+    };
+  });
+
+  return {
+    profile_id: profile.id,
+    profile_name: profile.name,
+    overall_score: overallScore,
+    total_weight: totalWeight,
+    contributions,
+    must_pass: mustPass,
+    passed: mustPass.every(criterion => criterion.passed)
+  };
+}
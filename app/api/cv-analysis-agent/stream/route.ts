@@ -0,0 +1,405 @@
+// Node.js runtime is needed for server-side PDF/DOCX text extraction
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { checkModelSupport, resolveModel } from '../../models';
+import { ModelProvider } from '../../../components/ModelSelector';
+import { extractDocumentText, type ExtractedDocument } from '../../../utils/fileParser';
+
+// Import utility functions
+import {
+  logDebug,
+  getEnvironmentInfo
+} from '../utils';
+
+// Import agents
+import {
+  runLanguageDetectionAgent,
+  parseCvStructure,
+  streamOverallSummary
+} from '../agents';
+import {
+  createLanguageInstruction,
+  createCriterionTasks,
+  runCriterionTask,
+  splitCriterionRuns,
+  summarizeKeyFindings,
+  buildAnalysisResult
+} from '../pipeline';
+import { getEnabledCriteria, findMissingCriterionInputs } from '../criteria';
+import { calculateScoreBreakdown } from '../scoring';
+import { getScoringProfile } from '../../../utils/checklistData';
+import type { CvDocument } from '../schemas';
+import { recordAnalysisRun } from '../../history/history';
+import { getConsultantCvFromForm } from '../../consultants/consultants';
+import { getAgentCacheOptions } from '../../agentCache';
+import { createUsageTracker } from '../../usage';
+import { createTrace, withSpan } from '../../tracing';
+
+// Azure Static Web Apps has a 30-second limit for function execution
+export const maxDuration = 230;
+
+interface ProgressUpdate {
+  step: string;
+  status: 'starting' | 'completed' | 'error' | 'running';
+  message: string;
+  data?: any;
+  progress: number; // 0-100
+}
+
+function createProgressUpdate(step: string, status: ProgressUpdate['status'], message: string, data?: any, progress: number = 0): string {
+  const update: ProgressUpdate = { step, status, message, data, progress };
+  return `data: ${JSON.stringify(update)}\n\n`;
+}
+
+export async function POST(req: NextRequest) {
+  const logs: string[] = [];
+  const startTime = Date.now();
+  // Token usage of the agents, sent with the final result
+  const usage = createUsageTracker();
+  // Span per agent, sent with the final result so slow agents can be found
+  const trace = createTrace('cv_analysis_stream');
+
+  // Create a readable stream for Server-Sent Events
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    start(controller) {
+      // Send initial connection message
+      controller.enqueue(encoder.encode('data: {"type":"connected","message":"Starting enhanced CV analysis"}\n\n'));
+    },
+
+    async pull(controller) {
+      // Logs and agent spans of the analysis belong to this request
+      await trace.run(async () => {
+        try {
+          logs.push(logDebug('Starting streaming enhanced CV analysis agent'));
+          logs.push(logDebug('Environment info', getEnvironmentInfo()));
+
+          try {
+            const formData = await req.formData();
+            const cvFile = formData.get('file') as File;
+            const summaryChecklistText = formData.get('summaryChecklistText') as string;
+            const assignmentsChecklistText = formData.get('assignmentsChecklistText') as string;
+            const modelProvider = formData.get('modelProvider') as ModelProvider;
+            const modelName = formData.get('modelName') as string;
+            const scoringProfileId = formData.get('scoringProfileId') as string | null;
+            // Ids of the selected stored checklists, recorded with the run in the history
+            const summaryChecklistId = formData.get('summaryChecklistId') as string | null;
+            const assignmentsChecklistId = formData.get('assignmentsChecklistId') as string | null;
+            // A registered consultant can be analyzed instead of an uploaded file
+            const storedCv = await getConsultantCvFromForm(formData);
+            // Agent outputs for the same CV, checklists and model are reused unless bypassCache is set
+            const cache = getAgentCacheOptions(formData, logs);
+
+            logs.push(logDebug(`Request parameters received`, {
+              fileSize: cvFile ? cvFile.size : 'No file',
+              fileName: cvFile ? cvFile.name : 'No file',
+              modelProvider,
+              modelName,
+              summaryChecklistLength: summaryChecklistText ? summaryChecklistText.length : 0,
+              assignmentsChecklistLength: assignmentsChecklistText ? assignmentsChecklistText.length : 0,
+              bypassCache: !!cache.bypass
+            }));
+
+            controller.enqueue(encoder.encode(createProgressUpdate(
+              'validation', 'starting', 'Validating input parameters...', null, 5
+            )));
+
+            // Checklists are only required when an enabled criterion uses them
+            const criteria = getEnabledCriteria();
+            const missingInputs = findMissingCriterionInputs(criteria, { summaryChecklistText, assignmentsChecklistText });
+            if ((!cvFile && !storedCv) || missingInputs.length > 0) {
+              controller.enqueue(encoder.encode(createProgressUpdate(
+                'validation', 'error',
+                `Missing required parameters (${[...(cvFile || storedCv ? [] : ['CV file']), ...missingInputs].join(', ')})`,
+                null, 0
+              )));
+              controller.close();
+              return;
+            }
+
+            if (storedCv && !storedCv.consultant) {
+              controller.enqueue(encoder.encode(createProgressUpdate(
+                'validation', 'error', storedCv.error, null, 0
+              )));
+              controller.close();
+              return;
+            }
+
+            const scoringProfile = getScoringProfile(scoringProfileId);
+            if (!scoringProfile) {
+              controller.enqueue(encoder.encode(createProgressUpdate(
+                'validation', 'error', `Unknown scoring profile: ${scoringProfileId}`, null, 0
+              )));
+              controller.close();
+              return;
+            }
+
+            // Agents work on extracted text, so any configured model with structured output can be used
+            const modelSupportError = checkModelSupport(modelProvider, modelName, { structuredOutput: true });
+            if (modelSupportError) {
+              controller.enqueue(encoder.encode(createProgressUpdate(
+                'validation', 'error', modelSupportError, null, 0
+              )));
+              controller.close();
+              return;
+            }
+
+            controller.enqueue(encoder.encode(createProgressUpdate(
+              'validation', 'completed', 'Input validation completed successfully', null, 10
+            )));
+
+            // Extract the CV text once and share it between all agents
+            controller.enqueue(encoder.encode(createProgressUpdate(
+              'file_processing', 'starting', 'Extracting text from CV...', null, 12
+            )));
+
+            let extractedCv: ExtractedDocument;
+            try {
+              extractedCv = storedCv ? storedCv.revision.document : await extractDocumentText(cvFile);
+            } catch (fileError) {
+              controller.enqueue(encoder.encode(createProgressUpdate(
+                'file_processing', 'error', fileError instanceof Error ? fileError.message : 'Failed to extract text from CV file', null, 0
+              )));
+              controller.close();
+              return;
+            }
+
+            controller.enqueue(encoder.encode(createProgressUpdate(
+              'file_processing', 'completed', `Extracted ${extractedCv.text.length} characters from CV`, null, 15
+            )));
+
+            const model = resolveModel(modelProvider, modelName);
+
+            // Detect the language of the CV and parse its structure in parallel
+            controller.enqueue(encoder.encode(createProgressUpdate(
+              'language_detection', 'starting', 'Detecting document language...', null, 18
+            )));
+            controller.enqueue(encoder.encode(createProgressUpdate(
+              'cv_structure', 'starting', 'Parsing CV structure...', null, 18
+            )));
+
+            let languageDetection;
+            let cv: CvDocument;
+            try {
+              [languageDetection, cv] = await usage.track(() => Promise.all([
+                (async () => {
+                  const result = await runLanguageDetectionAgent({
+                    model,
+                    document: extractedCv,
+                    cache
+                  });
+
+                  controller.enqueue(encoder.encode(createProgressUpdate(
+                    'language_detection', 'completed',
+                    `Detected language: ${result.language} (${result.confidence * 100}% confidence)`,
+                    { language: result.language, confidence: result.confidence },
+                    22
+                  )));
+
+                  return result;
+                })(),
+                (async () => {
+                  // The structured CV of a registered consultant was parsed when it was uploaded
+                  const result = storedCv ? storedCv.revision.cv : await parseCvStructure({
+                    model,
+                    document: extractedCv,
+                    cache
+                  });
+
+                  controller.enqueue(encoder.encode(createProgressUpdate(
+                    'cv_structure', 'completed',
+                    `Parsed ${result.projects.length} projects and ${result.competencies.length} competencies`,
+                    { projectsCount: result.projects.length, competenciesCount: result.competencies.length },
+                    25
+                  )));
+
+                  return result;
+                })()
+              ]));
+            } catch (langError) {
+              logs.push(logDebug('Error detecting language or parsing CV structure:', langError));
+              controller.enqueue(encoder.encode(createProgressUpdate(
+                'cv_structure', 'error', 'Failed to prepare CV for analysis', { trace: trace.end(langError) }, 0
+              )));
+              controller.close();
+              return;
+            }
+
+            // Create language instruction to add to all system prompts
+            const languageInstruction = createLanguageInstruction(languageDetection.language);
+
+            try {
+              // Run specialized agents in parallel and emit each criterion as soon as its agent resolves
+              const tasks = createCriterionTasks({
+                model,
+                cv,
+                languageInstruction,
+                summaryChecklistText,
+                assignmentsChecklistText,
+                cache
+              }, criteria);
+
+              controller.enqueue(encoder.encode(createProgressUpdate(
+                'criteria', 'starting', `Evaluating ${tasks.length} criteria in parallel...`, { total: tasks.length }, 30
+              )));
+
+              // Each agent run is wrapped with timeout and retries, failed criteria are reported and skipped
+              let completedCount = 0;
+              const criterionRuns = await Promise.all(tasks.map(async task => {
+                const run = await usage.track(() => runCriterionTask(task));
+                completedCount++;
+                const progress = 30 + Math.round((completedCount / tasks.length) * 50);
+
+                if (run.status === 'ok' && run.result) {
+                  logs.push(logDebug(`Criterion ${task.id} completed with score ${run.result.score}`));
+                  controller.enqueue(encoder.encode(createProgressUpdate(
+                    'criterion', 'completed',
+                    `${run.criterion_name} evaluated (${completedCount}/${tasks.length})`,
+                    { ...run.result, completed: completedCount, total: tasks.length },
+                    progress
+                  )));
+                } else {
+                  const { result, ...failure } = run;
+                  logs.push(logDebug(`Criterion ${task.id} ${run.status} after ${run.attempts} attempts: ${run.error}`));
+                  controller.enqueue(encoder.encode(createProgressUpdate(
+                    'criterion', 'error',
+                    `${run.criterion_name} could not be evaluated (${completedCount}/${tasks.length})`,
+                    { ...failure, completed: completedCount, total: tasks.length },
+                    progress
+                  )));
+                }
+
+                return run;
+              }));
+              const { criterionEvaluations, failedCriteria } = splitCriterionRuns(criterionRuns);
+
+              if (criterionEvaluations.length === 0) {
+                throw new Error(`All agents failed: ${failedCriteria.map(criterion => `${criterion.criterion_name} (${criterion.status})`).join(', ')}`);
+              }
+
+              controller.enqueue(encoder.encode(createProgressUpdate(
+                'criteria', 'completed',
+                failedCriteria.length > 0
+                  ? `${criterionEvaluations.length} of ${tasks.length} criteria evaluated`
+                  : 'All criteria evaluated',
+                null,
+                80
+              )));
+
+              // Calculate the weighted overall rating with the selected scoring profile
+              const scoreBreakdown = calculateScoreBreakdown(criterionEvaluations, scoringProfile);
+              const overallScore = scoreBreakdown.overall_score;
+              logs.push(logDebug(`Calculated overall score with scoring profile ${scoringProfile.id}: ${overallScore}`));
+
+              controller.enqueue(encoder.encode(createProgressUpdate(
+                'scoring', 'completed',
+                `Overall score: ${overallScore.toFixed(1)}/10`,
+                {
+                  overall_score: parseFloat(overallScore.toFixed(1)),
+                  score_breakdown: scoreBreakdown,
+                  ...summarizeKeyFindings(criterionEvaluations, scoringProfile, scoreBreakdown)
+                },
+                82
+              )));
+
+              // Stream the overall summary as it is generated
+              controller.enqueue(encoder.encode(createProgressUpdate(
+                'summary', 'starting', 'Generating overall summary...', null, 85
+              )));
+
+              let overallSummary = '';
+              await usage.track(() => withSpan('overall_summary', 'agent', async () => {
+                for await (const delta of streamOverallSummary(model, criterionEvaluations, overallScore, languageInstruction)) {
+                  overallSummary += delta;
+                  controller.enqueue(encoder.encode(createProgressUpdate(
+                    'summary', 'running', 'Generating overall summary...', { delta }, 90
+                  )));
+                }
+              }, { model: `${modelProvider}/${modelName}` }));
+
+              controller.enqueue(encoder.encode(createProgressUpdate(
+                'summary', 'completed', 'Overall summary generated', null, 95
+              )));
+
+              const result = buildAnalysisResult({
+                criterionEvaluations,
+                failedCriteria,
+                scoringProfile,
+                scoreBreakdown,
+                summary: overallSummary,
+                cv,
+                language: languageDetection.language
+              });
+
+              // Keep the run so the CV can be compared with earlier and later analyses
+              await recordAnalysisRun({
+                document: extractedCv,
+                modelProvider,
+                modelName,
+                result,
+                scoringProfileId: scoringProfile.id,
+                usage: usage.calls,
+                checklists: {
+                  summary: { id: summaryChecklistId || undefined, content: summaryChecklistText || '' },
+                  assignments: { id: assignmentsChecklistId || undefined, content: assignmentsChecklistText || '' }
+                }
+              }).catch(error => logs.push(logDebug('Failed to record analysis run:', error)));
+
+              const timeTaken = (Date.now() - startTime) / 1000;
+              logs.push(logDebug(`Completed streaming analysis in ${timeTaken}s`));
+
+              // Send final result
+              controller.enqueue(encoder.encode(createProgressUpdate(
+                'complete', 'completed',
+                'CV analysis completed successfully!',
+                { result, timeTaken: `${timeTaken}s`, usage: usage.summary(), trace: trace.end() },
+                100
+              )));
+
+              controller.close();
+            } catch (error) {
+              logs.push(logDebug('Error during agent-based CV analysis:', error));
+              controller.enqueue(encoder.encode(createProgressUpdate(
+                'error', 'error',
+                error instanceof Error ? error.message : 'Unknown error during analysis',
+                { logs, trace: trace.end(error), timeTaken: `${(Date.now() - startTime) / 1000}s` },
+                0
+              )));
+              controller.close();
+            }
+          } catch (formDataError) {
+            controller.enqueue(encoder.encode(createProgressUpdate(
+              'error', 'error',
+              'Failed to process request data',
+              null,
+              0
+            )));
+            controller.close();
+          }
+        } catch (error) {
+          controller.enqueue(encoder.encode(createProgressUpdate(
+            'error', 'error',
+            'Unhandled server error',
+            null,
+            0
+          )));
+          controller.close();
+        }
+      });
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'X-Request-Id': trace.requestId,
+    },
+  });
+}
@@ -1,19 +1,7 @@
 // Utility functions for CV analysis agent
 
-/**
- * Enhanced logging function
- */
-export function logDebug(message: string, data?: any) {
-  const timestamp = new Date().toISOString();
-  const logMessage = `[${timestamp}] ${message}`;
-  
-  console.log(logMessage);
-  if (data) {
-    console.log(JSON.stringify(data, null, 2));
-  }
-  
-  return logMessage;
-}
+// Shared logger, see app/api/tracing.ts
+export { logDebug } from '../tracing';
 
 /**
  * Environment diagnostics function
@@ -25,6 +13,8 @@ export function getEnvironmentInfo() {
     openaiKeyExists: !!process.env.OPENAI_API_KEY,
     openaiKeyLength: process.env.OPENAI_API_KEY ? process.env.OPENAI_API_KEY.length : 0,
     anthropicKeyExists: !!process.env.ANTHROPIC_API_KEY,
+    googleKeyExists: !!process.env.GOOGLE_API_KEY,
+    mistralKeyExists: !!process.env.MISTRAL_API_KEY,
     maxDuration: 230, // We set to 230 seconds (Azure might enforce a lower limit)
   };
 }
@@ -1,6 +1,10 @@
 import { LanguageModelV1 } from 'ai';
 import { generateObject } from 'ai';
 import { z } from 'zod';
+import type { CvDocument } from '../../cv-analysis-agent/schemas';
+import { formatCvForPrompt } from '../../cv-analysis-agent/agents/cvStructure';
+import { withUsage } from '../../usage';
+import { logger } from '../../tracing';
 
 // Define a content item type
 type ContentItem = {
@@ -13,8 +17,7 @@ type ContentItem = {
 
 interface CompetenciesCorrectionParams {
   model: LanguageModelV1;
-  cvBuffer: Buffer;
-  cvFileName: string;
+  cv: CvDocument;
   originalCompetencies: string[];
   customizedCompetencies: string[];
   competenciesValidation: any;
@@ -36,8 +39,7 @@ const competenciesCorrectionSchema = z.object({
  */
 export async function runCompetenciesCorrectionAgent({
   model,
-  cvBuffer,
-  cvFileName,
+  cv,
   originalCompetencies,
   customizedCompetencies,
   competenciesValidation,
@@ -92,14 +94,12 @@ INSTRUCTIONS:
 4. Maintain a good balance of relevant competencies`
       },
       {
-        type: 'file',
-        data: cvBuffer,
-        mimeType: 'application/pdf',
-        filename: cvFileName
+        type: 'text',
+        text: formatCvForPrompt(cv)
       }
     ];
     
-    const { object: correction } = await generateObject({
+    const { object: correction } = await withUsage('competencies_correction', model, () => generateObject({
       model,
       schema: competenciesCorrectionSchema,
       system: systemPrompt,
@@ -109,11 +109,11 @@ INSTRUCTIONS:
           content: messageContent as any
         }
       ]
-    });
+    }));
     
     return correction;
   } catch (error) {
-    console.error('Error in competencies correction:', error);
+    logger.error('Error in competencies correction', error);
     throw new Error('Failed to correct competencies content');
   }
 } 
\ No newline at end of file
@@ -1,6 +1,10 @@
 import { LanguageModelV1 } from 'ai';
 import { generateObject } from 'ai';
 import { keyCompetenciesSchema } from '../schemas';
+import type { CvDocument } from '../../cv-analysis-agent/schemas';
+import { formatCvForPrompt } from '../../cv-analysis-agent/agents/cvStructure';
+import { withUsage } from '../../usage';
+import { logger } from '../../tracing';
 
 // Define a content item type
 type ContentItem = {
@@ -13,8 +17,7 @@ type ContentItem = {
 
 interface CompetenciesCustomizationParams {
   model: LanguageModelV1;
-  cvBuffer: Buffer;
-  cvFileName: string;
+  cv: CvDocument;
   customerRequirements: any;
   languageInstruction?: string;
 }
@@ -24,8 +27,7 @@ interface CompetenciesCustomizationParams {
  */
 export async function runCompetenciesCustomizationAgent({
   model,
-  cvBuffer,
-  cvFileName,
+  cv,
   customerRequirements,
   languageInstruction = ''
 }: CompetenciesCustomizationParams) {
@@ -72,14 +74,12 @@ customer requirements, and suggest any additional competencies that should be hi
 based on the CV content. Provide your reasoning for the selections.`
       },
       {
-        type: 'file',
-        data: cvBuffer,
-        mimeType: 'application/pdf',
-        filename: cvFileName
+        type: 'text',
+        text: formatCvForPrompt(cv)
       }
     ];
     
-    const { object: competenciesCustomization } = await generateObject({
+    const { object: competenciesCustomization } = await withUsage('competencies_customization', model, () => generateObject({
       model,
       schema: keyCompetenciesSchema,
       system: systemPrompt,
@@ -89,11 +89,11 @@ based on the CV content. Provide your reasoning for the selections.`
           content: messageContent as any
         }
       ]
-    });
+    }));
     
     return competenciesCustomization;
   } catch (error) {
-    console.error('Error in competencies customization:', error);
+    logger.error('Error in competencies customization', error);
     throw new Error('Failed to customize competencies');
   }
 } 
\ No newline at end of file
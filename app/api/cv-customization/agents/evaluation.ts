@@ -1,6 +1,8 @@
 import { LanguageModelV1 } from 'ai';
 import { generateObject } from 'ai';
 import { z } from 'zod';
+import { withUsage } from '../../usage';
+import { logger } from '../../tracing';
 
 interface EvaluationParams {
   model: LanguageModelV1;
@@ -16,8 +18,15 @@ const evaluationSchema = z.object({
   requirement_coverage: z.array(
     z.object({
       requirement: z.string(),
+      requirement_type: z.enum(['must_have', 'should_have']),
       covered: z.boolean(),
       coverage_details: z.string(),
+      // References into the customized CV, for the traceability matrix
+      evidence: z.array(z.object({
+        source: z.enum(['profile', 'competency', 'project']),
+        project_id: z.string().describe('The project id in brackets, e.g. "project-2", for project evidence, otherwise an empty string'),
+        quote: z.string().describe('The sentence or competency copied exactly from the customized CV')
+      })),
       improvement_suggestions: z.string()
     })
   ),
@@ -50,7 +59,7 @@ export async function runEvaluationAgent({
   
   // Format customized projects
   const projectsSummary = customizedProjects.map(project => `
-    PROJECT: ${project.project_name}
+    PROJECT [${project.project_id}]: ${project.project_name}
     RELEVANCE SCORE: ${project.relevance_score}/10
     CUSTOMIZED DESCRIPTION:
     ${project.customized_description}
@@ -71,15 +80,18 @@ export async function runEvaluationAgent({
     Follow these steps:
     1. Assess how well each customer requirement is covered in the customized CV
     2. For each requirement, provide details on where and how it is covered
+       and list the evidence: each profile sentence, competency or project sentence that proves it,
+       copied exactly from the customized CV, with the project id in brackets for project evidence
     3. Suggest improvements for requirements that are not well covered
     4. Provide an overall score (0-10) for how well the CV matches the requirements
     5. Provide overall comments and improvement suggestions
     
     Be thorough but fair in your assessment. Focus on concrete evidence in the CV.
+    Only mark a requirement as covered when there is evidence for it, and never paraphrase the quotes.
   `;
   
   try {
-    const { object: evaluation } = await generateObject({
+    const { object: evaluation } = await withUsage('evaluation', model, () => generateObject({
       model,
       schema: evaluationSchema,
       system: systemPrompt,
@@ -98,14 +110,15 @@ export async function runEvaluationAgent({
         CUSTOMIZED PROJECTS:
         ${projectsSummary}
         
-        For each requirement, evaluate if it is covered in the CV, provide details on the coverage,
-        and suggest improvements if needed. Then provide an overall score and comments.
+        For each requirement, evaluate if it is covered in the CV, provide details on the coverage
+        with the exact passages that prove it, and suggest improvements if needed.
+        Then provide an overall score and comments.
       `
-    });
+    }));
     
     return evaluation;
   } catch (error) {
-    console.error('Error in CV evaluation:', error);
+    logger.error('Error in CV evaluation', error);
     throw new Error('Failed to evaluate customized CV');
   }
 } 
\ No newline at end of file
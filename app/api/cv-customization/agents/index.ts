@@ -3,8 +3,10 @@ export { runProfileCustomizationAgent } from './profileCustomization';
 export { runCompetenciesCustomizationAgent } from './competenciesCustomization';
 export { runProjectsCustomizationAgent } from './projectsCustomization';
 export { runEvaluationAgent } from './evaluation';
-export { runValidationAgent } from './validation';
+export { runValidationAgent, runProfileValidationAgent, runProjectsValidationAgent } from './validation';
 export { runProfileCorrectionAgent } from './profileCorrection';
 export { runCompetenciesCorrectionAgent } from './competenciesCorrection';
 export { runProjectsCorrectionAgent } from './projectsCorrection';
-export { runLanguageDetectionAgent } from '../../cv-analysis-agent/agents/languageDetection'; 
\ No newline at end of file
+export { runRequirementCoverageAgent } from './requirementCoverage';
+export { runLanguageDetectionAgent } from '../../cv-analysis-agent/agents/languageDetection';
+export { parseCvStructure } from '../../cv-analysis-agent/agents/cvStructure'; 
\ No newline at end of file
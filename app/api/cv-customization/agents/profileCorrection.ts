@@ -1,6 +1,10 @@
 import { LanguageModelV1 } from 'ai';
 import { generateObject } from 'ai';
 import { z } from 'zod';
+import type { CvDocument } from '../../cv-analysis-agent/schemas';
+import { formatCvForPrompt } from '../../cv-analysis-agent/agents/cvStructure';
+import { withUsage } from '../../usage';
+import { logger } from '../../tracing';
 
 // Define a content item type
 type ContentItem = {
@@ -13,8 +17,7 @@ type ContentItem = {
 
 interface ProfileCorrectionParams {
   model: LanguageModelV1;
-  cvBuffer: Buffer;
-  cvFileName: string;
+  cv: CvDocument;
   originalProfile: string;
   customizedProfile: string;
   profileValidation: any;
@@ -36,8 +39,7 @@ const profileCorrectionSchema = z.object({
  */
 export async function runProfileCorrectionAgent({
   model,
-  cvBuffer,
-  cvFileName,
+  cv,
   originalProfile,
   customizedProfile,
   profileValidation,
@@ -111,14 +113,12 @@ INSTRUCTIONS:
 The corrected profile should be an improved version of the customized profile with validation issues fixed.`
       },
       {
-        type: 'file',
-        data: cvBuffer,
-        mimeType: 'application/pdf',
-        filename: cvFileName
+        type: 'text',
+        text: formatCvForPrompt(cv)
       }
     ];
     
-    const { object: correction } = await generateObject({
+    const { object: correction } = await withUsage('profile_correction', model, () => generateObject({
       model,
       schema: profileCorrectionSchema,
       system: systemPrompt,
@@ -128,11 +128,11 @@ The corrected profile should be an improved version of the customized profile wi
           content: messageContent as any
         }
       ]
-    });
+    }));
     
     return correction;
   } catch (error) {
-    console.error('Error in profile correction:', error);
+    logger.error('Error in profile correction', error);
     throw new Error('Failed to correct profile content');
   }
 } 
\ No newline at end of file
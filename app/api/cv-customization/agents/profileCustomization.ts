@@ -1,6 +1,10 @@
 import { LanguageModelV1 } from 'ai';
 import { generateObject } from 'ai';
 import { customerRequirementsSchema, cvCustomizationSummarySchema } from '../schemas';
+import type { CvDocument } from '../../cv-analysis-agent/schemas';
+import { formatCvForPrompt } from '../../cv-analysis-agent/agents/cvStructure';
+import { withUsage } from '../../usage';
+import { logger } from '../../tracing';
 
 // Define a content item type
 type ContentItem = {
@@ -13,10 +17,11 @@ type ContentItem = {
 
 interface ProfileCustomizationParams {
   model: LanguageModelV1;
-  cvBuffer: Buffer;
-  cvFileName: string;
+  cv: CvDocument;
   customerRequirements: any;
   languageInstruction?: string;
+  // Extra instructions from the user when the profile is regenerated, e.g. "emphasize Azure"
+  guidance?: string;
 }
 
 /**
@@ -24,10 +29,10 @@ interface ProfileCustomizationParams {
  */
 export async function runProfileCustomizationAgent({
   model,
-  cvBuffer,
-  cvFileName,
+  cv,
   customerRequirements,
-  languageInstruction = ''
+  languageInstruction = '',
+  guidance
 }: ProfileCustomizationParams) {
   
   // Create a list of requirements for the prompt
@@ -87,17 +92,18 @@ INSTRUCTIONS:
 2. Create a customized version that better aligns with these customer requirements
 3. Provide detailed reasoning for your changes
 
-CRITICAL: The original_profile field must contain the ENTIRE original profile summary text from the CV, word-for-word, without any modifications, abbreviations, or summarization.`
+CRITICAL: The original_profile field must contain the ENTIRE original profile summary text from the CV, word-for-word, without any modifications, abbreviations, or summarization.${guidance ? `
+
+ADDITIONAL GUIDANCE FROM THE CONSULTANT (follow it as long as the profile stays factually grounded in the CV):
+${guidance}` : ''}`
       },
       {
-        type: 'file',
-        data: cvBuffer,
-        mimeType: 'application/pdf',
-        filename: cvFileName
+        type: 'text',
+        text: formatCvForPrompt(cv)
       }
     ];
     
-    const { object: profileCustomization } = await generateObject({
+    const { object: profileCustomization } = await withUsage('profile_customization', model, () => generateObject({
       model,
       schema: cvCustomizationSummarySchema,
       system: systemPrompt,
@@ -107,11 +113,15 @@ CRITICAL: The original_profile field must contain the ENTIRE original profile su
           content: messageContent as any
         }
       ]
-    });
+    }));
     
-    return profileCustomization;
+    // The parsed CV summary is the canonical original, so all agents compare against the same text
+    return {
+      ...profileCustomization,
+      original_profile: cv.summary || profileCustomization.original_profile
+    };
   } catch (error) {
-    console.error('Error in profile customization:', error);
+    logger.error('Error in profile customization', error);
     throw new Error('Failed to customize CV profile');
   }
 } 
\ No newline at end of file
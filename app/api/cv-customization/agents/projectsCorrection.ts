@@ -1,6 +1,10 @@
 import { LanguageModelV1 } from 'ai';
 import { generateObject } from 'ai';
 import { z } from 'zod';
+import type { CvDocument } from '../../cv-analysis-agent/schemas';
+import { formatCvForPrompt, alignProjectIdentity } from '../../cv-analysis-agent/agents/cvStructure';
+import { withUsage } from '../../usage';
+import { logger } from '../../tracing';
 
 // Define a content item type
 type ContentItem = {
@@ -13,8 +17,7 @@ type ContentItem = {
 
 interface ProjectsCorrectionParams {
   model: LanguageModelV1;
-  cvBuffer: Buffer;
-  cvFileName: string;
+  cv: CvDocument;
   customizedProjects: any[];
   projectsValidation: any[];
   customerRequirements: any;
@@ -24,6 +27,7 @@ interface ProjectsCorrectionParams {
 // Define the projects correction schema
 const projectsCorrectionSchema = z.object({
   corrected_projects: z.array(z.object({
+    project_id: z.string(),
     project_name: z.string(),
     corrected_description: z.string(),
     parc_analysis: z.object({
@@ -48,8 +52,7 @@ const projectsCorrectionSchema = z.object({
  */
 export async function runProjectsCorrectionAgent({
   model,
-  cvBuffer,
-  cvFileName,
+  cv,
   customizedProjects,
   projectsValidation,
   customerRequirements,
@@ -107,7 +110,9 @@ ${customerRequirements.should_have_requirements.map((req: any) => `- ${req.requi
   `;
   
   const projectsWithValidation = customizedProjects.map((project, index) => {
-    const validation = projectsValidation.find(v => v.project_name === project.project_name) || projectsValidation[index];
+    const validation = projectsValidation.find(v => v.project_id === project.project_id) ||
+      projectsValidation.find(v => v.project_name === project.project_name) ||
+      projectsValidation[index];
     return {
       ...project,
       validation: validation || {
@@ -120,7 +125,7 @@ ${customerRequirements.should_have_requirements.map((req: any) => `- ${req.requi
   });
   
   const projectsText = projectsWithValidation.map((project, index) => `
-PROJECT ${index + 1}: ${project.project_name}
+PROJECT ${index + 1} [${project.project_id}]: ${project.project_name}
 ORIGINAL DESCRIPTION: ${project.original_description}
 CUSTOMIZED DESCRIPTION: ${project.customized_description}
 PARC ANALYSIS:
@@ -148,7 +153,7 @@ PROJECTS TO CORRECT:
 ${projectsText}
 
 INSTRUCTIONS:
-1. Provide corrections for ALL ${customizedProjects.length} projects in the same order
+1. Provide corrections for ALL ${customizedProjects.length} projects in the same order, keeping each project's id shown in brackets
 2. ONLY fix specific fabricated or unsupported claims that are identified with exact quotes in the validation
 3. If validation does not provide exact quotes of problematic text, DO NOT change the description
 4. Preserve all valid customizations that improve relevance to customer requirements
@@ -166,14 +171,12 @@ Each corrected project should be an improved version of the customized project w
 `
       },
       {
-        type: 'file',
-        data: cvBuffer,
-        mimeType: 'application/pdf',
-        filename: cvFileName
+        type: 'text',
+        text: formatCvForPrompt(cv)
       }
     ];
     
-    const { object: correction } = await generateObject({
+    const { object: correction } = await withUsage('projects_correction', model, () => generateObject({
       model,
       schema: projectsCorrectionSchema,
       system: systemPrompt,
@@ -183,11 +186,14 @@ Each corrected project should be an improved version of the customized project w
           content: messageContent as any
         }
       ]
-    });
+    }));
     
-    return correction;
+    return {
+      ...correction,
+      corrected_projects: alignProjectIdentity(cv, correction.corrected_projects)
+    };
   } catch (error) {
-    console.error('Error in projects correction:', error);
+    logger.error('Error in projects correction', error);
     throw new Error('Failed to correct projects content');
   }
 }
\ No newline at end of file
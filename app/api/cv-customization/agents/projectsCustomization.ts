@@ -2,6 +2,10 @@ import { LanguageModelV1 } from 'ai';
 import { generateObject } from 'ai';
 import { projectCustomizationSchema } from '../schemas';
 import { z } from 'zod';
+import type { CvDocument } from '../../cv-analysis-agent/schemas';
+import { formatCvForPrompt, alignProjectIdentity, findCvProject } from '../../cv-analysis-agent/agents/cvStructure';
+import { withUsage } from '../../usage';
+import { logger } from '../../tracing';
 
 // Define a content item type
 type ContentItem = {
@@ -14,10 +18,13 @@ type ContentItem = {
 
 interface ProjectsCustomizationParams {
   model: LanguageModelV1;
-  cvBuffer: Buffer;
-  cvFileName: string;
+  cv: CvDocument;
   customerRequirements: any;
   languageInstruction?: string;
+  // Only customize these projects (ids from the structured CV), used to regenerate a single project
+  projectIds?: string[];
+  // Extra instructions from the user when projects are regenerated, e.g. "emphasize Azure"
+  guidance?: string;
 }
 
 /**
@@ -25,11 +32,15 @@ interface ProjectsCustomizationParams {
  */
 export async function runProjectsCustomizationAgent({
   model,
-  cvBuffer,
-  cvFileName,
+  cv,
   customerRequirements,
-  languageInstruction = ''
+  languageInstruction = '',
+  projectIds,
+  guidance
 }: ProjectsCustomizationParams) {
+  const selectedProjects = projectIds
+    ? cv.projects.filter(project => projectIds.includes(project.id))
+    : undefined;
   
   // Create a list of requirements for the prompt
   const allRequirements = [
@@ -91,6 +102,7 @@ export async function runProjectsCustomizationAgent({
     8. Keep descriptions between 75-150 words as a single, flowing paragraph that emphasizes measurable results
     
     For each project, provide:
+    - Project id exactly as shown in brackets in the structured CV (e.g. "project-1")
     - Project name
     - Original description
     - Customized description as natural narrative incorporating PARC principles with measurable results
@@ -122,13 +134,17 @@ For each project:
 
 CRITICAL: Emphasize quantifiable outcomes in the Result component wherever possible - look for metrics, percentages, cost savings, time improvements, performance gains, and other measurable impacts.
 
-Return the projects sorted by relevance score (highest first).`
+Return the projects sorted by relevance score (highest first).${selectedProjects ? `
+
+ONLY customize the following projects and return exactly one entry for each of them, regardless of the usual number of projects:
+${selectedProjects.map(project => `- [${project.id}] ${project.name}`).join('\n')}` : ''}${guidance ? `
+
+ADDITIONAL GUIDANCE FROM THE CONSULTANT (follow it as long as the descriptions stay factually grounded in the CV):
+${guidance}` : ''}`
       },
       {
-        type: 'file',
-        data: cvBuffer,
-        mimeType: 'application/pdf',
-        filename: cvFileName
+        type: 'text',
+        text: formatCvForPrompt(cv)
       }
     ];
     
@@ -137,7 +153,7 @@ Return the projects sorted by relevance score (highest first).`
       projects: z.array(projectCustomizationSchema)
     });
     
-    const { object: projectsResponse } = await generateObject({
+    const { object: projectsResponse } = await withUsage('projects_customization', model, () => generateObject({
       model,
       schema: projectsResponseSchema,
       system: systemPrompt,
@@ -147,15 +163,22 @@ Return the projects sorted by relevance score (highest first).`
           content: messageContent as any
         }
       ]
-    });
+    }));
     
-    // Extract the projects array from the response
-    const customizedProjects = projectsResponse.projects;
+    // Extract the projects array from the response, keeping project identity and original text from the parsed CV
+    const customizedProjects = alignProjectIdentity(cv, projectsResponse.projects)
+      .filter(project => !projectIds || projectIds.includes(project.project_id))
+      .map(project => {
+        const cvProject = findCvProject(cv, project.project_id);
+        return cvProject?.description
+          ? { ...project, original_description: cvProject.description }
+          : project;
+      });
     
     // Sort projects by relevance score (descending)
     return customizedProjects.sort((a, b) => b.relevance_score - a.relevance_score);
   } catch (error) {
-    console.error('Error in projects customization:', error);
+    logger.error('Error in projects customization', error);
     throw new Error('Failed to customize project descriptions');
   }
 } 
\ No newline at end of file
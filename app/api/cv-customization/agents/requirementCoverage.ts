@@ -0,0 +1,82 @@
+import { LanguageModelV1 } from 'ai';
+import { generateObject } from 'ai';
+import { requirementCoverageSchema } from '../schemas';
+import type { CvDocument } from '../../cv-analysis-agent/schemas';
+import { formatCvForPrompt } from '../../cv-analysis-agent/agents/cvStructure';
+import { withUsage } from '../../usage';
+import { logger } from '../../tracing';
+
+interface RequirementCoverageParams {
+  model: LanguageModelV1;
+  cv: CvDocument;
+  customerRequirements: any;
+  languageInstruction?: string;
+}
+
+/**
+ * Assesses how well an unmodified CV covers each customer requirement, with evidence and gaps
+ */
+export async function runRequirementCoverageAgent({
+  model,
+  cv,
+  customerRequirements,
+  languageInstruction = ''
+}: RequirementCoverageParams) {
+
+  // Create a list of requirements for the prompt
+  const allRequirements = [
+    ...customerRequirements.must_have_requirements.map((req: any) =>
+      `- ${req.requirement}: ${req.description} (Must-have, Priority: ${req.priority})`
+    ),
+    ...customerRequirements.should_have_requirements.map((req: any) =>
+      `- ${req.requirement}: ${req.description} (Should-have, Priority: ${req.priority})`
+    )
+  ].join('\n');
+
+  const systemPrompt = `
+    You are an expert staffing consultant assessing whether a consultant matches a customer request.
+    Your task is to assess how well the CV covers each of the customer requirements.
+    
+    ${languageInstruction}
+    
+    For each requirement, in the order listed:
+    1. Copy the requirement name exactly as listed, without the description after the colon.
+       Requirements are matched by name, and a requirement with another name counts as not covered
+    2. Set coverage to "full" when the CV clearly shows the requirement is met,
+       "partial" when it is met in part (e.g. less experience than asked for, or a related technology),
+       and "none" when the CV shows nothing relevant
+    3. List the evidence from the CV: short, specific facts such as roles, projects, technologies,
+       certifications or years of experience. Add the project id in brackets for facts from a project
+    4. Describe the gap: what is missing or weak compared with the requirement
+    
+    Then write a short summary of the candidate's fit for the request.
+    
+    CRITICAL: Only use information that is in the CV. Do not assume skills that are not stated,
+    and do not give credit for a requirement without evidence.
+  `;
+
+  try {
+    const { object: coverage } = await withUsage('requirement_coverage', model, () => generateObject({
+      model,
+      schema: requirementCoverageSchema,
+      system: systemPrompt,
+      messages: [
+        {
+          role: 'user',
+          content: `CUSTOMER CONTEXT:
+${customerRequirements.context_summary}
+
+REQUIREMENTS:
+${allRequirements}
+
+${formatCvForPrompt(cv)}`
+        }
+      ]
+    }));
+
+    return coverage;
+  } catch (error) {
+    logger.error('Error in requirement coverage assessment', error);
+    throw new Error('Failed to assess requirement coverage');
+  }
+}
@@ -1,6 +1,8 @@
 import { LanguageModelV1 } from 'ai';
 import { generateObject } from 'ai';
 import { customerRequirementsSchema } from '../schemas';
+import { withUsage } from '../../usage';
+import { logger } from '../../tracing';
 
 // Define a content item type
 type ContentItem = {
@@ -44,7 +46,7 @@ export async function runRequirementsAnalysisAgent({
   `;
   
   try {
-    const { object: requirements } = await generateObject({
+    const { object: requirements } = await withUsage('requirements_analysis', model, () => generateObject({
       model,
       schema: customerRequirementsSchema,
       system: systemPrompt,
@@ -52,11 +54,11 @@ export async function runRequirementsAnalysisAgent({
         role: 'user',
         content: customerDocsContent as any
       }]
-    });
+    }));
     
     return requirements;
   } catch (error) {
-    console.error('Error in requirements analysis:', error);
+    logger.error('Error in requirements analysis', error);
     throw new Error('Failed to analyze customer requirements');
   }
 } 
\ No newline at end of file
@@ -1,6 +1,10 @@
 import { LanguageModelV1 } from 'ai';
 import { generateObject } from 'ai';
 import { z } from 'zod';
+import type { CvDocument } from '../../cv-analysis-agent/schemas';
+import { formatCvForPrompt, alignProjectIdentity } from '../../cv-analysis-agent/agents/cvStructure';
+import { withUsage } from '../../usage';
+import { logger } from '../../tracing';
 
 // Define a content item type
 type ContentItem = {
@@ -13,8 +17,7 @@ type ContentItem = {
 
 interface ValidationParams {
   model: LanguageModelV1;
-  cvBuffer: Buffer;
-  cvFileName: string;
+  cv: CvDocument;
   originalProfile: string;
   customizedProfile: string;
   originalCompetencies: string[];
@@ -23,27 +26,32 @@ interface ValidationParams {
   languageInstruction?: string;
 }
 
+const profileValidationSchema = z.object({
+  is_factually_accurate: z.boolean(),
+  fabricated_claims: z.array(z.string()),
+  unsupported_claims: z.array(z.string()),
+  reasoning: z.string(),
+  corrected_profile: z.string()
+});
+
+const projectValidationSchema = z.object({
+  project_id: z.string(),
+  project_name: z.string(),
+  is_factually_accurate: z.boolean(),
+  fabricated_details: z.array(z.string()),
+  unsupported_claims: z.array(z.string()),
+  reasoning: z.string(),
+  corrected_description: z.string()
+});
+
 // Define the validation schema
 const validationSchema = z.object({
-  profile_validation: z.object({
-    is_factually_accurate: z.boolean(),
-    fabricated_claims: z.array(z.string()),
-    unsupported_claims: z.array(z.string()),
-    reasoning: z.string(),
-    corrected_profile: z.string()
-  }),
+  profile_validation: profileValidationSchema,
   competencies_validation: z.object({
     unsupported_competencies: z.array(z.string()),
     reasoning: z.string()
   }),
-  projects_validation: z.array(z.object({
-    project_name: z.string(),
-    is_factually_accurate: z.boolean(),
-    fabricated_details: z.array(z.string()),
-    unsupported_claims: z.array(z.string()),
-    reasoning: z.string(),
-    corrected_description: z.string()
-  })),
+  projects_validation: z.array(projectValidationSchema),
   overall_validation: z.object({
     passes_validation: z.boolean(),
     confidence_score: z.number().min(0).max(10),
@@ -52,22 +60,7 @@ const validationSchema = z.object({
   })
 });
 
-/**
- * Validates that customized CV content is grounded in the original CV and doesn't contain fabricated information
- */
-export async function runValidationAgent({
-  model,
-  cvBuffer,
-  cvFileName,
-  originalProfile,
-  customizedProfile,
-  originalCompetencies,
-  customizedCompetencies,
-  customizedProjects,
-  languageInstruction = ''
-}: ValidationParams): Promise<z.infer<typeof validationSchema>> {
-  
-  const systemPrompt = `
+const buildSystemPrompt = (languageInstruction: string) => `
     You are an expert fact-checker specializing in CV content validation.
     Your critical task is to ensure that all customized CV content is FACTUALLY ACCURATE and GROUNDED in the original CV.
     
@@ -110,10 +103,10 @@ export async function runValidationAgent({
     
     Your validation should be thorough but fair - don't penalize good customization that stays within factual bounds.
   `;
-  
-  // Format the customized projects for analysis
-  const projectsText = customizedProjects.map(project => `
-    PROJECT: ${project.project_name}
+
+// Format the customized projects for analysis
+const formatProjectsForValidation = (customizedProjects: any[]) => customizedProjects.map(project => `
+    PROJECT [${project.project_id}]: ${project.project_name}
     ORIGINAL DESCRIPTION: ${project.original_description}
     CUSTOMIZED DESCRIPTION: ${project.customized_description}
     PARC ANALYSIS:
@@ -122,6 +115,24 @@ export async function runValidationAgent({
     - Role: ${project.parc_analysis.role}
     - Result: ${project.parc_analysis.result}
   `).join('\n\n');
+
+/**
+ * Validates that customized CV content is grounded in the original CV and doesn't contain fabricated information
+ */
+export async function runValidationAgent({
+  model,
+  cv,
+  originalProfile,
+  customizedProfile,
+  originalCompetencies,
+  customizedCompetencies,
+  customizedProjects,
+  languageInstruction = ''
+}: ValidationParams): Promise<z.infer<typeof validationSchema>> {
+  
+  const systemPrompt = buildSystemPrompt(languageInstruction);
+  
+  const projectsText = formatProjectsForValidation(customizedProjects);
   
   try {
     const messageContent: ContentItem[] = [
@@ -148,7 +159,7 @@ VALIDATION INSTRUCTIONS:
 1. Read through the ENTIRE attached CV document to understand all available information
 2. Compare each piece of customized content against the complete original CV
 3. Focus on identifying genuinely fabricated information (not just reorganized or rephrased content)
-4. Remember that the original profile provided above may be extracted/parsed, so check against the full PDF document
+4. Remember that the original profile provided above may be extracted/parsed, so check against the full CV document
 5. Only flag content as fabricated if you cannot find supporting information anywhere in the original CV
 6. Distinguish between:
    - ACCEPTABLE: Reorganizing, emphasizing, or rephrasing existing information
@@ -159,18 +170,17 @@ Please analyze each section and identify:
 2. Any claims that significantly exaggerate beyond what's supported in the original
 3. Any technologies, skills, or experiences completely absent from the original CV
 4. Provide corrected versions only if actual fabrication is found
+5. Return one projects_validation entry per customized project, using the project id shown in brackets
 
 Be thorough but fair - good customization that reorganizes existing information should not be penalized.`
       },
       {
-        type: 'file',
-        data: cvBuffer,
-        mimeType: 'application/pdf',
-        filename: cvFileName
+        type: 'text',
+        text: formatCvForPrompt(cv)
       }
     ];
     
-    const { object: validation } = await generateObject({
+    const { object: validation } = await withUsage('validation', model, () => generateObject({
       model,
       schema: validationSchema,
       system: systemPrompt,
@@ -180,11 +190,94 @@ Be thorough but fair - good customization that reorganizes existing information
           content: messageContent as any
         }
       ]
-    });
+    }));
     
-    return validation;
+    return {
+      ...validation,
+      projects_validation: alignProjectIdentity(cv, validation.projects_validation)
+    };
   } catch (error) {
-    console.error('Error in CV validation:', error);
+    logger.error('Error in CV validation', error);
     throw new Error('Failed to validate customized CV content');
   }
-} 
\ No newline at end of file
+} 
+
+interface SectionValidationParams {
+  model: LanguageModelV1;
+  cv: CvDocument;
+  languageInstruction?: string;
+}
+
+/**
+ * Validates a single section with the same rules as the full validation
+ */
+async function validateSection<T extends z.ZodTypeAny>(
+  { model, cv, languageInstruction = '' }: SectionValidationParams,
+  schema: T,
+  contentText: string
+): Promise<z.infer<T>> {
+  const { object } = await withUsage('validation', model, () => generateObject({
+    model,
+    schema,
+    system: buildSystemPrompt(languageInstruction),
+    messages: [
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'text',
+            text: `${contentText}
+
+Read through the ENTIRE attached CV document, and only flag content as fabricated if you cannot find supporting information anywhere in the original CV. Reorganizing, emphasizing or rephrasing existing information is acceptable. Provide a corrected version only if actual fabrication is found.`
+          },
+          {
+            type: 'text',
+            text: formatCvForPrompt(cv)
+          }
+        ]
+      }
+    ]
+  }));
+  return object;
+}
+
+/**
+ * Validates only the customized profile, used when the profile is regenerated
+ */
+export async function runProfileValidationAgent({
+  originalProfile,
+  customizedProfile,
+  ...params
+}: SectionValidationParams & { originalProfile: string; customizedProfile: string }): Promise<z.infer<typeof profileValidationSchema>> {
+  try {
+    return await validateSection(params, profileValidationSchema, `Please validate the following customized profile against the original CV to ensure no fabrication or unsupported claims:
+
+ORIGINAL PROFILE:
+${originalProfile}
+
+CUSTOMIZED PROFILE:
+${customizedProfile}`);
+  } catch (error) {
+    logger.error('Error in profile validation', error);
+    throw new Error('Failed to validate customized profile');
+  }
+}
+
+/**
+ * Validates only the given customized projects, used when projects are regenerated
+ */
+export async function runProjectsValidationAgent({
+  customizedProjects,
+  ...params
+}: SectionValidationParams & { customizedProjects: any[] }): Promise<z.infer<typeof projectValidationSchema>[]> {
+  const schema = z.object({ projects_validation: z.array(projectValidationSchema) });
+  try {
+    const { projects_validation } = await validateSection(params, schema, `Please validate the following customized projects against the original CV to ensure no fabrication or unsupported claims. Return one projects_validation entry per project, using the project id shown in brackets:
+
+${formatProjectsForValidation(customizedProjects)}`);
+    return alignProjectIdentity(params.cv, projects_validation);
+  } catch (error) {
+    logger.error('Error in projects validation', error);
+    throw new Error('Failed to validate customized projects');
+  }
+}
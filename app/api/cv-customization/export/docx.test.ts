@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { createCvDocx } from './docx';
+import { docxTemplates, getDocxTemplate } from './templates';
+
+// The text of each paragraph in the main document part
+async function paragraphsOf(docx: Buffer | ArrayBuffer): Promise<string[]> {
+  const xml = await (await JSZip.loadAsync(docx)).file('word/document.xml')!.async('string');
+  return Array.from(xml.matchAll(/<w:p[ >][\s\S]*?<\/w:p>/g), ([paragraph]) =>
+    Array.from(paragraph.matchAll(/<w:t(?: [^>]*)?>([^<]*)<\/w:t>/g), match => match[1]).join('')
+  ).filter(Boolean);
+}
+
+describe('createCvDocx', () => {
+  it('writes the name, profile, competencies and projects under the template headings', async () => {
+    const docx = await createCvDocx({
+      profile: 'Cloud developer.\n\nLeads teams.',
+      competencies: ['Azure', 'Java'],
+      projects: [{ project_name: 'Payments', description: 'Built the payment API' }]
+    }, getDocxTemplate('norwegian')!, { candidateName: 'Ola Nordmann' });
+
+    expect(await paragraphsOf(docx)).toEqual([
+      'Ola Nordmann',
+      'Profil',
+      'Cloud developer.',
+      'Leads teams.',
+      'Nøkkelkompetanse',
+      'Azure',
+      'Java',
+      'Utvalgte prosjekter',
+      'Payments',
+      'Built the payment API'
+    ]);
+  });
+});
+
+describe('getDocxTemplate', () => {
+  it('uses the first template by default and returns undefined for unknown ids', () => {
+    expect(getDocxTemplate(undefined)).toBe(docxTemplates[0]);
+    expect(getDocxTemplate('unknown')).toBeUndefined();
+  });
+});
@@ -0,0 +1,129 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  AlignmentType,
+  Document,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  Paragraph,
+  TextRun
+} from 'docx';
+import type { FinalCustomization } from '../../../utils/customizationOutput';
+import type { DocxTemplate } from './templates';
+
+export interface CvDocxOptions {
+  candidateName?: string;
+}
+
+// docx measures font sizes in half-points
+const halfPoints = (points: number) => points * 2;
+
+const LOGO_TYPES: Record<string, 'png' | 'jpg'> = {
+  '.png': 'png',
+  '.jpg': 'jpg',
+  '.jpeg': 'jpg'
+};
+
+async function createHeader(template: DocxTemplate): Promise<Header | undefined> {
+  const children: (ImageRun | TextRun)[] = [];
+
+  if (template.logo) {
+    const type = LOGO_TYPES[path.extname(template.logo.path).toLowerCase()];
+    if (!type) {
+      throw new Error(`Unsupported logo format: ${template.logo.path} (use png or jpg)`);
+    }
+    children.push(new ImageRun({
+      type,
+      data: await fs.readFile(path.resolve(process.cwd(), template.logo.path)),
+      transformation: { width: template.logo.width, height: template.logo.height }
+    }));
+  } else if (template.companyName) {
+    children.push(new TextRun({ text: template.companyName, bold: true, color: template.headingColor }));
+  }
+
+  if (children.length === 0) {
+    return undefined;
+  }
+  return new Header({ children: [new Paragraph({ alignment: AlignmentType.RIGHT, children })] });
+}
+
+// Texts from the agents use blank lines between paragraphs
+const toParagraphs = (text: string) =>
+  text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => new Paragraph({ text: paragraph.replace(/\s*\n\s*/g, ' '), spacing: { after: 120 } }));
+
+/**
+ * Assemble the final profile, competencies and projects into a Word document using the template
+ */
+export async function createCvDocx(
+  content: FinalCustomization,
+  template: DocxTemplate,
+  { candidateName }: CvDocxOptions = {}
+): Promise<Buffer> {
+  const header = await createHeader(template);
+
+  const document = new Document({
+    creator: template.companyName || 'CV Copilot',
+    title: candidateName ? `CV - ${candidateName}` : 'CV',
+    styles: {
+      default: {
+        document: { run: { font: template.font, size: halfPoints(template.bodySize) } }
+      },
+      paragraphStyles: [
+        {
+          id: 'Title',
+          name: 'Title',
+          basedOn: 'Normal',
+          next: 'Normal',
+          run: { size: halfPoints(template.headingSize + 8), bold: true, color: template.headingColor },
+          paragraph: { spacing: { after: 240 } }
+        },
+        {
+          id: 'Heading1',
+          name: 'Heading 1',
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: { size: halfPoints(template.headingSize), bold: true, color: template.headingColor },
+          paragraph: { spacing: { before: 360, after: 120 } }
+        },
+        {
+          id: 'Heading2',
+          name: 'Heading 2',
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: { size: halfPoints(template.bodySize + 1), bold: true },
+          paragraph: { spacing: { before: 240, after: 80 } }
+        }
+      ]
+    },
+    sections: [
+      {
+        headers: header ? { default: header } : undefined,
+        children: [
+          ...(candidateName ? [new Paragraph({ text: candidateName, heading: HeadingLevel.TITLE })] : []),
+
+          new Paragraph({ text: template.headings.profile, heading: HeadingLevel.HEADING_1 }),
+          ...toParagraphs(content.profile),
+
+          new Paragraph({ text: template.headings.competencies, heading: HeadingLevel.HEADING_1 }),
+          ...content.competencies.map(competency => new Paragraph({ text: competency, bullet: { level: 0 } })),
+
+          new Paragraph({ text: template.headings.projects, heading: HeadingLevel.HEADING_1 }),
+          ...content.projects.flatMap(project => [
+            new Paragraph({ text: project.project_name, heading: HeadingLevel.HEADING_2 }),
+            ...toParagraphs(project.description)
+          ])
+        ]
+      }
+    ]
+  });
+
+  return Packer.toBuffer(document);
+}
@@ -0,0 +1,86 @@
+// Node.js runtime is needed to build the workbook
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob } from '../../../jobs/jobs';
+import { getResponseHeaders, logDebug } from '../../utils';
+import { getAssembledCustomization, getFinalCustomization, type CvAssembly } from '../../../../utils/customizationOutput';
+import { buildTraceabilityMatrix, getMatrixTableRows, MATRIX_COLUMNS, toCsv } from '../../../../utils/traceabilityMatrix';
+import { createXlsx } from '../xlsx';
+
+interface MatrixExportRequest {
+  // Either a customization result or the id of a completed customization job
+  result?: any;
+  jobId?: string;
+  // Accepted, rejected and edited sections. Evidence is checked against the assembled CV when given.
+  assembly?: CvAssembly;
+  format?: 'csv' | 'xlsx';
+}
+
+const COLUMN_WIDTHS = [40, 12, 10, 10, 50, 30, 60, 12];
+
+/**
+ * Export the requirement-to-evidence traceability matrix of a customization as CSV or XLSX
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { result: requestResult, jobId, assembly, format = 'xlsx' } = await req.json() as MatrixExportRequest;
+
+    if (format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json(
+        { error: `Unknown format: ${format}` },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    let result = requestResult;
+    if (jobId) {
+      const job = await getJob(jobId);
+      if (!job || job.status !== 'completed') {
+        return NextResponse.json(
+          { error: job ? `Job ${jobId} is ${job.status}` : `Job not found: ${jobId}` },
+          { status: job ? 409 : 404, headers: getResponseHeaders() }
+        );
+      }
+      result = job.result;
+    }
+
+    if (!result?.evaluation?.requirement_coverage) {
+      return NextResponse.json(
+        { error: 'Missing evaluation in customization result' },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    const content = assembly ? getAssembledCustomization(result, assembly) : getFinalCustomization(result);
+    const rows = getMatrixTableRows(buildTraceabilityMatrix(result, content));
+    const candidateName: string | undefined = result.candidate_name || undefined;
+    const fileName = `${(candidateName || 'cv').replace(/[^\p{L}\p{N}]+/gu, '_')}_traceability.${format}`;
+
+    const { body, contentType } = format === 'csv'
+      // The byte order mark makes Excel read the file as UTF-8
+      ? { body: `\ufeff${toCsv([MATRIX_COLUMNS, ...rows])}`, contentType: 'text/csv; charset=utf-8' }
+      : {
+        body: new Uint8Array(await createXlsx({ name: 'Traceability', columns: MATRIX_COLUMNS, rows, widths: COLUMN_WIDTHS })),
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      };
+
+    return new NextResponse(body, {
+      headers: {
+        ...getResponseHeaders(),
+        'Content-Type': contentType,
+        // The plain filename is a fallback for clients without RFC 5987 support
+        'Content-Disposition': `attachment; filename="cv_traceability.${format}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+      }
+    });
+  } catch (error) {
+    logDebug('Error exporting traceability matrix:', error);
+    return NextResponse.json(
+      {
+        error: 'Error exporting traceability matrix',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
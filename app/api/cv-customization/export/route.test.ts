@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { NextRequest } from 'next/server';
+import { POST } from './route';
+import { createJob, updateJob } from '../../jobs/jobs';
+import { CUSTOMIZATION_JOB_TYPE } from '../pipeline';
+
+// The text of each paragraph in the main document part
+async function paragraphsOf(docx: Buffer | ArrayBuffer): Promise<string[]> {
+  const xml = await (await JSZip.loadAsync(docx)).file('word/document.xml')!.async('string');
+  return Array.from(xml.matchAll(/<w:p[ >][\s\S]*?<\/w:p>/g), ([paragraph]) =>
+    Array.from(paragraph.matchAll(/<w:t(?: [^>]*)?>([^<]*)<\/w:t>/g), match => match[1]).join('')
+  ).filter(Boolean);
+}
+
+const result = {
+  candidate_name: 'Øyvind Ås',
+  language_code: 'en',
+  profile_customization: { original_profile: 'Developer', customized_profile: 'Cloud developer' },
+  key_competencies: { original_competencies: ['Java'], relevant_competencies: ['Azure', 'Java'] },
+  customized_projects: [
+    { project_id: 'project-1', project_name: 'Payments', original_description: 'Built it', customized_description: 'Built the payment API' }
+  ],
+  correction: {
+    corrected_profile: { profile: 'Experienced cloud developer' },
+    corrected_projects: [{ project_id: 'project-1', corrected_description: 'Built the payment API on Azure' }]
+  }
+};
+
+const exportRequest = (body: unknown) => POST(new NextRequest('http://localhost/api/cv-customization/export', {
+  method: 'POST',
+  body: JSON.stringify(body),
+  headers: { 'Content-Type': 'application/json' }
+}));
+
+describe('POST /api/cv-customization/export', () => {
+  it('exports the corrected texts of a completed job', async () => {
+    const job = await createJob(CUSTOMIZATION_JOB_TYPE, {});
+    await updateJob(job.id, current => ({ ...current, status: 'completed', result }));
+
+    const response = await exportRequest({ jobId: job.id });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Disposition')).toContain(`filename*=UTF-8''${encodeURIComponent('Øyvind_Ås_customized.docx')}`);
+    expect(await paragraphsOf(await response.arrayBuffer())).toEqual([
+      'Øyvind Ås',
+      'Profile',
+      'Experienced cloud developer',
+      'Key Competencies',
+      'Azure',
+      'Java',
+      'Selected Projects',
+      'Payments',
+      'Built the payment API on Azure'
+    ]);
+  });
+
+  it('uses the Norwegian headings for a Norwegian CV', async () => {
+    const response = await exportRequest({ result: { ...result, language_code: 'nb' } });
+
+    expect(await paragraphsOf(await response.arrayBuffer())).toContain('Profil');
+  });
+
+  it('rejects a missing result, an unknown template and a job that has not completed', async () => {
+    const pending = await createJob(CUSTOMIZATION_JOB_TYPE, {});
+
+    expect((await exportRequest({})).status).toBe(400);
+    expect((await exportRequest({ result, templateId: 'unknown' })).status).toBe(400);
+    expect((await exportRequest({ jobId: pending.id })).status).toBe(409);
+    expect((await exportRequest({ jobId: 'missing' })).status).toBe(404);
+  });
+});
@@ -0,0 +1,92 @@
+// Node.js runtime is needed to build the document and read the logo file
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob } from '../../jobs/jobs';
+import { getResponseHeaders, logDebug } from '../utils';
+import { getAssembledCustomization, getFinalCustomization, type CvAssembly } from '../../../utils/customizationOutput';
+import { createCvDocx } from './docx';
+import { docxTemplates, getDocxTemplate } from './templates';
+
+interface ExportRequest {
+  // Either a customization result or the id of a completed customization job
+  result?: any;
+  jobId?: string;
+  templateId?: string;
+  // Accepted, rejected and edited sections. Without it all suggestions are used.
+  assembly?: CvAssembly;
+}
+
+const NORWEGIAN_LANGUAGE_CODES = ['no', 'nb', 'nn'];
+
+/**
+ * List the available DOCX templates
+ */
+export async function GET() {
+  return NextResponse.json(
+    { templates: docxTemplates.map(({ id, name }) => ({ id, name })) },
+    { headers: getResponseHeaders() }
+  );
+}
+
+/**
+ * Export the assembled (or by default the corrected where available) profile, competencies and projects of a customization as a .docx file
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { result: requestResult, jobId, templateId, assembly } = await req.json() as ExportRequest;
+
+    let result = requestResult;
+    if (jobId) {
+      const job = await getJob(jobId);
+      if (!job || job.status !== 'completed') {
+        return NextResponse.json(
+          { error: job ? `Job ${jobId} is ${job.status}` : `Job not found: ${jobId}` },
+          { status: job ? 409 : 404, headers: getResponseHeaders() }
+        );
+      }
+      result = job.result;
+    }
+
+    if (!result?.profile_customization && !result?.customized_projects) {
+      return NextResponse.json(
+        { error: 'Missing customization result' },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    // Without an explicit template, pick the headings that match the language of the CV
+    const template = getDocxTemplate(
+      templateId || (NORWEGIAN_LANGUAGE_CODES.includes(result.language_code) ? 'norwegian' : undefined)
+    );
+    if (!template) {
+      return NextResponse.json(
+        { error: `Unknown template: ${templateId}` },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    const candidateName: string | undefined = result.candidate_name || undefined;
+    const content = assembly ? getAssembledCustomization(result, assembly) : getFinalCustomization(result);
+    const buffer = await createCvDocx(content, template, { candidateName });
+    const fileName = `${(candidateName || 'cv').replace(/[^\p{L}\p{N}]+/gu, '_')}_customized.docx`;
+
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        ...getResponseHeaders(),
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        // The plain filename is a fallback for clients without RFC 5987 support
+        'Content-Disposition': `attachment; filename="cv_customized.docx"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+      }
+    });
+  } catch (error) {
+    logDebug('Error exporting DOCX:', error);
+    return NextResponse.json(
+      {
+        error: 'Error exporting DOCX',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
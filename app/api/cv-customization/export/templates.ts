@@ -0,0 +1,73 @@
+import { config } from '../../config';
+
+/**
+ * Layout of an exported CV document
+ */
+export interface DocxTemplate {
+  id: string;
+  name: string;
+  font: string;
+  // Font sizes in points
+  bodySize: number;
+  headingSize: number;
+  // Hex color without '#'
+  headingColor: string;
+  headings: {
+    profile: string;
+    competencies: string;
+    projects: string;
+  };
+  companyName?: string;
+  // Logo in the page header, png or jpg with the path relative to the project root. Size in pixels.
+  logo?: {
+    path: string;
+    width: number;
+    height: number;
+  };
+}
+
+// Branding shared by all templates, configured with EXPORT_COMPANY_NAME and EXPORT_LOGO_PATH
+const branding: Pick<DocxTemplate, 'companyName' | 'logo'> = {
+  companyName: config.export.companyName || undefined,
+  logo: config.export.logoPath
+    ? { path: config.export.logoPath, width: 160, height: 48 }
+    : undefined
+};
+
+export const docxTemplates: DocxTemplate[] = [
+  {
+    id: 'default',
+    name: 'Company Standard',
+    font: 'Calibri',
+    bodySize: 11,
+    headingSize: 14,
+    headingColor: '1F3864',
+    headings: {
+      profile: 'Profile',
+      competencies: 'Key Competencies',
+      projects: 'Selected Projects'
+    },
+    ...branding
+  },
+  {
+    id: 'norwegian',
+    name: 'Company Standard (Norwegian headings)',
+    font: 'Calibri',
+    bodySize: 11,
+    headingSize: 14,
+    headingColor: '1F3864',
+    headings: {
+      profile: 'Profil',
+      competencies: 'Nøkkelkompetanse',
+      projects: 'Utvalgte prosjekter'
+    },
+    ...branding
+  }
+];
+
+export function getDocxTemplate(id: string | null | undefined): DocxTemplate | undefined {
+  if (!id) {
+    return docxTemplates[0];
+  }
+  return docxTemplates.find(template => template.id === id);
+}
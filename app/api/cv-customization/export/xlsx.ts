@@ -0,0 +1,99 @@
+import JSZip from 'jszip';
+
+interface XlsxSheet {
+  name: string;
+  columns: string[];
+  rows: string[][];
+  // Column widths in characters, in column order
+  widths?: number[];
+}
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Characters that are not allowed in XML 1.0 documents
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g;
+
+const escapeXml = (text: string) => text
+  .replace(INVALID_XML_CHARS, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Column letters for a zero-based index: 0 is A, 26 is AA
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Style 0 wraps text at the top of the cell, style 1 is the bold header
+const STYLES = `${XML_HEADER}<styleSheet xmlns="${MAIN_NS}">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="2">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+function createWorksheet({ columns, rows, widths = [] }: XlsxSheet): string {
+  const row = (cells: string[], rowNumber: number, style: number) =>
+    `<row r="${rowNumber}">${cells.map((cell, index) =>
+      `<c r="${columnName(index)}${rowNumber}" t="inlineStr" s="${style}"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`
+    ).join('')}</row>`;
+
+  const cols = widths.length > 0
+    ? `<cols>${widths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+
+  // The header row stays visible when scrolling
+  return `${XML_HEADER}<worksheet xmlns="${MAIN_NS}">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+${cols}
+<sheetData>${[row(columns, 1, 1), ...rows.map((cells, index) => row(cells, index + 2, 0))].join('')}</sheetData>
+<autoFilter ref="A1:${columnName(columns.length - 1)}${rows.length + 1}"/>
+</worksheet>`;
+}
+
+/**
+ * Build a single-sheet .xlsx workbook with a header row and text cells
+ */
+export async function createXlsx(sheet: XlsxSheet): Promise<Buffer> {
+  // Sheet names are limited to 31 characters and cannot contain []:*?/\
+  const sheetName = escapeXml(sheet.name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1');
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`);
+  zip.file('_rels/.rels', `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">
+<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`);
+  zip.file('xl/workbook.xml', `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${RELATIONSHIPS_NS}">
+<sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets>
+<definedNames><definedName name="_xlnm._FilterDatabase" localSheetId="0" hidden="1">'${sheetName.replace(/'/g, "''")}'!$A$1:$${columnName(sheet.columns.length - 1)}$${sheet.rows.length + 1}</definedName></definedNames>
+</workbook>`);
+  zip.file('xl/_rels/workbook.xml.rels', `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">
+<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="${RELATIONSHIPS_NS}/styles" Target="styles.xml"/>
+</Relationships>`);
+  zip.file('xl/styles.xml', STYLES);
+  zip.file('xl/worksheets/sheet1.xml', createWorksheet(sheet));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -0,0 +1,221 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createJob, getJob, updateJob } from '../jobs/jobs';
+import type { CvDocument } from '../cv-analysis-agent/schemas';
+import { createUsageTracker } from '../usage';
+import {
+  runCompetenciesCustomizationAgent,
+  runEvaluationAgent,
+  runLanguageDetectionAgent,
+  runProfileCorrectionAgent,
+  runProfileCustomizationAgent,
+  runProfileValidationAgent,
+  runProjectsCustomizationAgent,
+  runProjectsValidationAgent,
+  runRequirementsAnalysisAgent,
+  runValidationAgent,
+  parseCvStructure
+} from './agents';
+import {
+  CUSTOMIZATION_JOB_TYPE,
+  regenerateSection,
+  runCustomizationPipeline,
+  type CustomizationJob,
+  type CustomizationJobInput,
+  type ProgressUpdate
+} from './pipeline';
+
+vi.mock('./agents', () => ({
+  runLanguageDetectionAgent: vi.fn(),
+  parseCvStructure: vi.fn(),
+  runRequirementsAnalysisAgent: vi.fn(),
+  runProfileCustomizationAgent: vi.fn(),
+  runCompetenciesCustomizationAgent: vi.fn(),
+  runProjectsCustomizationAgent: vi.fn(),
+  runEvaluationAgent: vi.fn(),
+  runValidationAgent: vi.fn(),
+  runProfileValidationAgent: vi.fn(),
+  runProjectsValidationAgent: vi.fn(),
+  runProfileCorrectionAgent: vi.fn(),
+  runCompetenciesCorrectionAgent: vi.fn(),
+  runProjectsCorrectionAgent: vi.fn()
+}));
+
+const cv: CvDocument = {
+  candidate_name: 'Ola Nordmann',
+  summary: 'Developer',
+  roles: [],
+  projects: [],
+  competencies: ['TypeScript'],
+  education: [],
+  certifications: [],
+  languages: []
+};
+
+const input: CustomizationJobInput = {
+  modelProvider: 'openai',
+  modelName: 'gpt-4o',
+  cv: { fileName: 'ola.pdf', format: 'pdf', text: 'Ola Nordmann, developer' },
+  customerDocuments: [{ fileName: 'request.pdf', format: 'pdf', text: 'We need a TypeScript developer' }]
+};
+
+const passingValidation = {
+  overall_validation: { passes_validation: true, confidence_score: 9 },
+  profile_validation: { is_factually_accurate: true },
+  competencies_validation: { unsupported_competencies: [] },
+  projects_validation: []
+};
+
+beforeEach(() => {
+  vi.mocked(runLanguageDetectionAgent).mockReset().mockResolvedValue({ language: 'English', languageCode: 'en', confidence: 0.9 } as any);
+  vi.mocked(parseCvStructure).mockReset().mockResolvedValue(cv);
+  vi.mocked(runRequirementsAnalysisAgent).mockReset().mockResolvedValue({
+    must_have_requirements: [],
+    should_have_requirements: [],
+    context_summary: 'TypeScript team'
+  } as any);
+  vi.mocked(runProfileCustomizationAgent).mockReset().mockResolvedValue({
+    original_profile: 'Developer',
+    customized_profile: 'TypeScript developer',
+    reasoning: 'Matches the request'
+  } as any);
+  vi.mocked(runCompetenciesCustomizationAgent).mockReset().mockResolvedValue({
+    original_competencies: ['TypeScript'],
+    relevant_competencies: ['TypeScript'],
+    additional_suggested_competencies: []
+  } as any);
+  vi.mocked(runProjectsCustomizationAgent).mockReset().mockResolvedValue([]);
+  vi.mocked(runEvaluationAgent).mockReset().mockResolvedValue({
+    overall_score: 8,
+    requirement_coverage: [],
+    improvement_suggestions: []
+  } as any);
+  vi.mocked(runValidationAgent).mockReset().mockResolvedValue(passingValidation as any);
+});
+
+async function run(jobId: string) {
+  const updates: ProgressUpdate[] = [];
+  await runCustomizationPipeline(jobId, update => updates.push(update));
+  return updates;
+}
+
+describe('runCustomizationPipeline', () => {
+  it('resumes a failed job from its completed stages', async () => {
+    vi.mocked(runEvaluationAgent).mockRejectedValueOnce(new Error('Timed out'));
+    const job = await createJob(CUSTOMIZATION_JOB_TYPE, input);
+
+    const failedRun = await run(job.id);
+    const failed = await getJob<CustomizationJob>(job.id);
+    expect(failedRun.at(-1)).toMatchObject({ step: 'error', message: 'Timed out' });
+    expect(failed?.status).toBe('failed');
+    expect(Object.keys(failed?.stages ?? {})).not.toContain('evaluation');
+
+    const resumedRun = await run(job.id);
+    const resumed = await getJob<CustomizationJob>(job.id);
+    expect(resumedRun.at(-1)).toMatchObject({ step: 'complete', status: 'completed' });
+    expect(resumed?.status).toBe('completed');
+    expect(resumed?.result.evaluation.overall_score).toBe(8);
+
+    // Stages completed before the failure are replayed, not run again
+    expect(resumedRun.find(update => update.step === 'requirements_analysis')?.status).toBe('completed');
+    expect(runRequirementsAnalysisAgent).toHaveBeenCalledTimes(1);
+    expect(runProfileCustomizationAgent).toHaveBeenCalledTimes(1);
+    expect(runEvaluationAgent).toHaveBeenCalledTimes(2);
+  });
+
+  it('replays a completed job without running it again', async () => {
+    const job = await createJob(CUSTOMIZATION_JOB_TYPE, input);
+    await run(job.id);
+
+    const replay = await run(job.id);
+    expect(replay.at(-1)).toMatchObject({ step: 'complete', status: 'completed' });
+    expect(replay.some(update => update.status === 'starting')).toBe(false);
+    expect(runLanguageDetectionAgent).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('regenerateSection', () => {
+  const project = {
+    id: 'project-1',
+    name: 'Payments',
+    customer: 'Bank',
+    role: 'Developer',
+    start_date: '2023',
+    end_date: '2024',
+    description: 'Built the payment API',
+    technologies: ['TypeScript']
+  };
+
+  const customizedProject = (description: string) => ({
+    project_id: 'project-1',
+    project_name: 'Payments',
+    original_description: 'Built the payment API',
+    customized_description: description,
+    relevance_score: 8
+  });
+
+  async function completedJob() {
+    vi.mocked(parseCvStructure).mockResolvedValue({ ...cv, projects: [project] });
+    vi.mocked(runProjectsCustomizationAgent).mockResolvedValueOnce([customizedProject('Built the payment API in TypeScript')] as any);
+    const job = await createJob(CUSTOMIZATION_JOB_TYPE, input);
+    await run(job.id);
+    return job.id;
+  }
+
+  it('corrects a regenerated profile that fails validation and recalculates the overall validation', async () => {
+    const jobId = await completedJob();
+    vi.mocked(runProfileCustomizationAgent).mockResolvedValueOnce({
+      original_profile: 'Developer',
+      customized_profile: 'Azure architect',
+      reasoning: 'Emphasizes Azure'
+    } as any);
+    vi.mocked(runProfileValidationAgent).mockReset().mockResolvedValue({ is_factually_accurate: false } as any);
+    vi.mocked(runProfileCorrectionAgent).mockReset().mockResolvedValue({
+      corrected_profile: 'TypeScript developer with some Azure',
+      changes_made: ['Removed the architect title'],
+      reasoning: 'Not supported by the CV'
+    } as any);
+
+    const regenerated = await regenerateSection(jobId, { section: 'profile', guidance: 'emphasize Azure' });
+
+    expect(runProfileCustomizationAgent).toHaveBeenLastCalledWith(expect.objectContaining({ guidance: 'emphasize Azure' }));
+    expect(regenerated.result.profile_customization.customized_profile).toBe('TypeScript developer with some Azure');
+    expect(regenerated.result.correction.corrected_profile.changes_made).toEqual(['Removed the architect title']);
+    expect(regenerated.result.validation.overall_validation.passes_validation).toBe(false);
+    // Only the regenerated section is customized and validated again
+    expect(runValidationAgent).toHaveBeenCalledTimes(1);
+    expect(runEvaluationAgent).toHaveBeenCalledTimes(1);
+    expect((await getJob<CustomizationJob>(jobId))?.result).toEqual(regenerated.result);
+  });
+
+  it('replaces a regenerated project and keeps changes saved on the job while it ran', async () => {
+    const jobId = await completedJob();
+    vi.mocked(runProjectsCustomizationAgent).mockImplementationOnce(async () => {
+      // A chat edit to the profile is saved while the project is regenerated
+      await updateJob<CustomizationJob>(jobId, current => ({
+        ...current,
+        result: { ...current.result, profile_customization: { ...current.result.profile_customization, customized_profile: 'Edited profile' } }
+      }));
+      return [customizedProject('Led the payment API team')] as any;
+    });
+    vi.mocked(runProjectsValidationAgent).mockReset().mockResolvedValue([{ project_id: 'project-1', is_factually_accurate: true }] as any);
+
+    const call = { agent: 'projects_customization', provider: 'openai', model: 'gpt-4o', promptTokens: 900, completionTokens: 300, latencyMs: 2000 };
+    const regenerated = await regenerateSection(jobId, { section: 'project', projectName: 'payments' }, createUsageTracker([call]));
+
+    expect(runProjectsCustomizationAgent).toHaveBeenLastCalledWith(expect.objectContaining({ projectIds: ['project-1'] }));
+    expect(regenerated.result.customized_projects.map((p: any) => p.customized_description)).toEqual(['Led the payment API team']);
+    expect(regenerated.result.profile_customization.customized_profile).toBe('Edited profile');
+    expect(regenerated.result.validation.projects_validation).toEqual([{ project_id: 'project-1', is_factually_accurate: true }]);
+    expect(regenerated.result.validation.overall_validation.passes_validation).toBe(true);
+    expect((await getJob<CustomizationJob>(jobId))?.usage).toEqual([call]);
+  });
+
+  it('rejects unknown projects and jobs that have not completed', async () => {
+    const jobId = await completedJob();
+    expect(await regenerateSection(jobId, { section: 'project', projectId: 'project-9' }))
+      .toEqual({ error: 'Project not found: project-9', status: 404 });
+
+    const pending = await createJob(CUSTOMIZATION_JOB_TYPE, input);
+    expect(await regenerateSection(pending.id, { section: 'profile' })).toEqual({ error: `Job ${pending.id} is pending`, status: 409 });
+  });
+});
@@ -0,0 +1,893 @@
+import { checkModelSupport, resolveModel } from '../models';
+import type { ModelProvider } from '../../utils/modelOptions';
+import { extractDocumentText, formatDocumentForPrompt, type ExtractedDocument } from '../../utils/fileParser';
+import { createJob, getJob, updateJob, saveJobStage, runJob, type Job } from '../jobs/jobs';
+import { logDebug } from './utils';
+import {
+  runRequirementsAnalysisAgent,
+  runProfileCustomizationAgent,
+  runCompetenciesCustomizationAgent,
+  runProjectsCustomizationAgent,
+  runEvaluationAgent,
+  runValidationAgent,
+  runProfileValidationAgent,
+  runProjectsValidationAgent,
+  runProfileCorrectionAgent,
+  runCompetenciesCorrectionAgent,
+  runProjectsCorrectionAgent,
+  runLanguageDetectionAgent,
+  parseCvStructure
+} from './agents';
+import type { CvDocument } from '../cv-analysis-agent/schemas';
+import { createLanguageInstruction } from '../cv-analysis-agent/pipeline';
+import { findCvProject } from '../cv-analysis-agent/agents/cvStructure';
+import { recordCustomizationRun } from '../history/history';
+import { getConsultantCvFromForm } from '../consultants/consultants';
+import { createUsageTracker, summarizeCalls, type UsageTracker } from '../usage';
+import { logger, createTrace, withSpan, type Trace } from '../tracing';
+
+type AgentOutput<F extends (...args: any) => any> = Awaited<ReturnType<F>>;
+
+/**
+ * Output of each pipeline stage, keyed by the progress step that produces it
+ */
+export interface CustomizationStages {
+  language_detection: AgentOutput<typeof runLanguageDetectionAgent>;
+  cv_structure: CvDocument;
+  requirements_analysis: AgentOutput<typeof runRequirementsAnalysisAgent>;
+  profile_customization: AgentOutput<typeof runProfileCustomizationAgent>;
+  competencies_customization: AgentOutput<typeof runCompetenciesCustomizationAgent>;
+  projects_customization: AgentOutput<typeof runProjectsCustomizationAgent>;
+  evaluation: AgentOutput<typeof runEvaluationAgent>;
+  content_validation: AgentOutput<typeof runValidationAgent>;
+  profile_correction: AgentOutput<typeof runProfileCorrectionAgent>;
+  competencies_correction: AgentOutput<typeof runCompetenciesCorrectionAgent>;
+  projects_correction: AgentOutput<typeof runProjectsCorrectionAgent>;
+}
+
+export interface CustomizationJobInput {
+  modelProvider: ModelProvider;
+  modelName: string;
+  cv: ExtractedDocument;
+  customerDocuments: ExtractedDocument[];
+  // The registered consultant revision the CV was taken from
+  consultant?: { id: string; revision: number };
+}
+
+export type CustomizationJob = Job<CustomizationJobInput, CustomizationStages, any>;
+
+export const CUSTOMIZATION_JOB_TYPE = 'cv_customization';
+
+export interface ProgressUpdate {
+  step: string;
+  status: 'starting' | 'completed' | 'error' | 'running';
+  message: string;
+  data?: any;
+  progress: number; // 0-100
+}
+
+type StageCompletion = { message: string; data?: any; progress: number };
+
+export type CreateCustomizationJobResult =
+  | { job: CustomizationJob; error?: undefined }
+  | { job?: undefined; error: string; step: 'validation' | 'file_processing' };
+
+/**
+ * Validate the customization form data, extract the document text and store it as a new job
+ */
+export async function createCustomizationJob(formData: FormData): Promise<CreateCustomizationJobResult> {
+  const cvFile = formData.get('cvFile') as File;
+  const customerFiles = formData.getAll('customerFiles') as File[];
+  const modelProvider = formData.get('modelProvider') as ModelProvider;
+  const modelName = formData.get('modelName') as string;
+  // A registered consultant can be customized instead of an uploaded file
+  const storedCv = await getConsultantCvFromForm(formData);
+
+  logDebug('Creating CV customization job', {
+    cvFileSize: cvFile ? cvFile.size : 'No file',
+    cvFileName: cvFile ? cvFile.name : 'No file',
+    customerFilesCount: customerFiles?.length || 0,
+    modelProvider,
+    modelName
+  });
+
+  if ((!cvFile && !storedCv) || !customerFiles.length) {
+    return { error: 'Missing required parameters (CV file or customer files)', step: 'validation' };
+  }
+
+  if (storedCv && !storedCv.consultant) {
+    return { error: storedCv.error, step: 'validation' };
+  }
+
+  // Agents work on extracted text, so any configured model with structured output can be used
+  const modelSupportError = checkModelSupport(modelProvider, modelName, { structuredOutput: true });
+  if (modelSupportError) {
+    return { error: modelSupportError, step: 'validation' };
+  }
+
+  // Extract the CV and customer document text once and store it with the job
+  let cv: ExtractedDocument;
+  let customerDocuments: ExtractedDocument[];
+  try {
+    cv = storedCv ? storedCv.revision.document : await extractDocumentText(cvFile);
+  } catch (fileError) {
+    return { error: fileError instanceof Error ? fileError.message : 'Failed to extract text from CV file', step: 'file_processing' };
+  }
+  try {
+    customerDocuments = await Promise.all(customerFiles.map(file => extractDocumentText(file)));
+  } catch (fileError) {
+    return { error: fileError instanceof Error ? fileError.message : 'Failed to extract text from customer files', step: 'file_processing' };
+  }
+
+  const job = await createJob<CustomizationJobInput>(CUSTOMIZATION_JOB_TYPE, {
+    modelProvider,
+    modelName,
+    cv,
+    customerDocuments,
+    ...(storedCv ? { consultant: { id: storedCv.consultant.id, revision: storedCv.revision.revision } } : {})
+  }) as CustomizationJob;
+
+  // The structured CV of a registered consultant was parsed when it was uploaded, so that stage is done
+  if (storedCv) {
+    await saveJobStage<CustomizationStages>(job.id, 'cv_structure', storedCv.revision.cv);
+  }
+
+  logDebug(`Created CV customization job ${job.id}`);
+  return { job };
+}
+
+/**
+ * Start (or resume) a customization job in the background, unless it is already running
+ */
+export function startCustomizationJob(jobId: string) {
+  runJob(jobId, emit => runCustomizationPipeline(jobId, emit));
+}
+
+/**
+ * Run the CV customization pipeline for a job.
+ * Stages that were completed by an earlier run are not run again - their stored output is
+ * replayed as a completed progress update, so a reconnecting client sees the full history.
+ */
+export async function runCustomizationPipeline(jobId: string, emit: (update: ProgressUpdate) => void): Promise<void> {
+  // Every run of the job has its own trace, a resumed run only has spans for the stages it ran
+  const trace = createTrace('cv_customization_job', { jobId });
+  await trace.run(() => runPipeline(jobId, emit, trace));
+  trace.end();
+}
+
+async function runPipeline(jobId: string, emit: (update: ProgressUpdate) => void, trace: Trace): Promise<void> {
+  const startTime = Date.now();
+  const progressUpdate = (step: string, status: ProgressUpdate['status'], message: string, data?: any, progress: number = 0) =>
+    emit({ step, status, message, data, progress });
+
+  const job = await getJob<CustomizationJob>(jobId);
+  if (!job) {
+    progressUpdate('error', 'error', `Job not found: ${jobId}`, null, 0);
+    return;
+  }
+
+  // A completed job is replayed, not run again: that would record the run twice and rebuild the
+  // result from the stages, dropping regenerated sections and applied chat edits.
+  // A failed job is resumed from its stored stages below.
+  if (job.status === 'completed') {
+    replayCompletedJob(job, progressUpdate);
+    return;
+  }
+
+  await updateJob<CustomizationJob>(jobId, current => ({ ...current, status: 'running', error: undefined }));
+
+  const runStage = async <K extends keyof CustomizationStages>(
+    stage: K,
+    start: { message: string; progress: number },
+    run: () => Promise<CustomizationStages[K]>,
+    completed: (output: CustomizationStages[K]) => StageCompletion
+  ): Promise<CustomizationStages[K]> => {
+    const stored = job.stages[stage];
+    if (stored !== undefined) {
+      const completion = completed(stored as CustomizationStages[K]);
+      progressUpdate(stage, 'completed', completion.message, completion.data, completion.progress);
+      return stored as CustomizationStages[K];
+    }
+
+    progressUpdate(stage, 'starting', start.message, null, start.progress);
+    // Usage is saved with the stage, so a resumed job still reports the tokens of earlier runs
+    const usage = createUsageTracker();
+    const output = await withSpan(stage, 'stage', () => usage.track(run));
+    await saveJobStage<CustomizationStages>(jobId, stage, output, usage.calls);
+
+    const completion = completed(output);
+    progressUpdate(stage, 'completed', completion.message, completion.data, completion.progress);
+    return output;
+  };
+
+  try {
+    const { input } = job;
+    const model = resolveModel(input.modelProvider, input.modelName);
+
+    // Detect the language of the CV and parse its structure in parallel
+    const [languageDetection, cv] = await Promise.all([
+      runStage(
+        'language_detection',
+        { message: 'Detecting document language...', progress: 25 },
+        () => runLanguageDetectionAgent({ model, document: input.cv }),
+        result => ({
+          message: `Detected language: ${result.language} (${result.confidence * 100}% confidence)`,
+          data: { language: result.language, confidence: result.confidence },
+          progress: 28
+        })
+      ),
+      runStage(
+        'cv_structure',
+        { message: 'Parsing CV structure...', progress: 25 },
+        () => parseCvStructure({ model, document: input.cv }),
+        result => ({
+          message: `Parsed ${result.projects.length} projects and ${result.competencies.length} competencies`,
+          data: { projectsCount: result.projects.length, competenciesCount: result.competencies.length },
+          progress: 30
+        })
+      )
+    ]);
+
+    // Create language instruction to add to all system prompts
+    const languageInstruction = createLanguageInstruction(languageDetection.language);
+
+    // Step 1: Analyze customer requirements
+    const customerRequirements = await runStage(
+      'requirements_analysis',
+      { message: 'Analyzing customer requirements...', progress: 35 },
+      async () => {
+        const customerDocsContent = [
+          {
+            type: 'text' as const,
+            text: 'Please analyze these customer documents and extract all requirements:'
+          } as const,
+          ...input.customerDocuments.map(document => ({
+            type: 'text' as const,
+            text: formatDocumentForPrompt(document, 'Customer document')
+          }))
+        ];
+
+        const result = await runRequirementsAnalysisAgent({
+          model,
+          customerDocsContent,
+          languageInstruction
+        });
+
+        logger.info('📋 Customer Requirements Analysis Results', {
+          mustHaveCount: result.must_have_requirements.length,
+          shouldHaveCount: result.should_have_requirements.length,
+          mustHaveRequirements: result.must_have_requirements.map(r => r.requirement),
+          shouldHaveRequirements: result.should_have_requirements.map(r => r.requirement),
+          contextSummary: result.context_summary
+        });
+
+        return result;
+      },
+      result => ({
+        message: `Found ${result.must_have_requirements.length} must-have and ${result.should_have_requirements.length} should-have requirements`,
+        data: {
+          mustHaveCount: result.must_have_requirements.length,
+          shouldHaveCount: result.should_have_requirements.length
+        },
+        progress: 45
+      })
+    );
+
+    // Steps 2-4: Run customizations in parallel
+    progressUpdate('customization', 'starting', 'Starting parallel customization of profile, competencies, and projects...', null, 50);
+
+    const [customizedProfile, customizedCompetencies, customizedProjects] = await Promise.all([
+      runStage(
+        'profile_customization',
+        { message: 'Customizing CV profile summary...', progress: 52 },
+        async () => {
+          logger.info('👤 Starting profile customization...');
+          const result = await runProfileCustomizationAgent({
+            model,
+            cv,
+            customerRequirements,
+            languageInstruction
+          });
+
+          logger.info('👤 Profile Customization Results', {
+            originalLength: result.original_profile.length,
+            customizedLength: result.customized_profile.length,
+            reasoning: result.reasoning.substring(0, 200) + '...'
+          });
+
+          return result;
+        },
+        () => ({ message: 'CV profile customization completed successfully', progress: 60 })
+      ),
+      runStage(
+        'competencies_customization',
+        { message: 'Analyzing and selecting relevant competencies...', progress: 54 },
+        async () => {
+          logger.info('🎯 Starting competencies customization...');
+          const result = await runCompetenciesCustomizationAgent({
+            model,
+            cv,
+            customerRequirements,
+            languageInstruction
+          });
+
+          logger.info('🎯 Competencies Customization Results', {
+            originalCount: result.original_competencies.length,
+            relevantCount: result.relevant_competencies.length,
+            additionalSuggestionsCount: result.additional_suggested_competencies.length
+          });
+
+          return result;
+        },
+        result => ({
+          message: `Identified ${result.relevant_competencies.length} relevant competencies`,
+          data: { relevantCount: result.relevant_competencies.length },
+          progress: 65
+        })
+      ),
+      runStage(
+        'projects_customization',
+        { message: 'Customizing project descriptions using PARC method...', progress: 56 },
+        async () => {
+          logger.info('📁 Starting projects customization...');
+          const result = await runProjectsCustomizationAgent({
+            model,
+            cv,
+            customerRequirements,
+            languageInstruction
+          });
+
+          logger.info('📁 Projects Customization Results', {
+            projectsCount: result.length,
+            projects: result.map(p => ({
+              name: p.project_name,
+              relevanceScore: p.relevance_score,
+              originalDescLength: p.original_description.length,
+              customizedDescLength: p.customized_description.length
+            }))
+          });
+
+          return result;
+        },
+        result => ({
+          message: `Customized ${result.length} project descriptions with PARC analysis`,
+          data: { projectsCount: result.length },
+          progress: 70
+        })
+      )
+    ]);
+
+    progressUpdate('customization', 'completed', 'All customization tasks completed successfully', null, 75);
+
+    // Step 5: Evaluate the customized CV
+    const evaluation = await runStage(
+      'evaluation',
+      { message: 'Evaluating customized CV against requirements...', progress: 80 },
+      async () => {
+        const result = await runEvaluationAgent({
+          model,
+          customizedProfile,
+          keyCompetencies: customizedCompetencies,
+          customizedProjects,
+          customerRequirements,
+          languageInstruction
+        });
+
+        logger.info('📊 Evaluation Results', {
+          overallScore: result.overall_score,
+          requirementCoverageCount: result.requirement_coverage.length,
+          improvementSuggestions: result.improvement_suggestions
+        });
+
+        return result;
+      },
+      result => ({
+        message: `Evaluation completed with overall score: ${result.overall_score}/10`,
+        data: { overallScore: result.overall_score },
+        progress: 85
+      })
+    );
+
+    // Step 6: Validate the customized content
+    const validation = await runStage(
+      'content_validation',
+      { message: 'Validating content for factual accuracy...', progress: 90 },
+      async () => {
+        const result = await runValidationAgent({
+          model,
+          cv,
+          originalProfile: customizedProfile.original_profile,
+          customizedProfile: customizedProfile.customized_profile,
+          originalCompetencies: customizedCompetencies.original_competencies,
+          customizedCompetencies: customizedCompetencies.relevant_competencies,
+          customizedProjects,
+          languageInstruction
+        });
+
+        logger.info('🔍 Validation Results', {
+          passesValidation: result.overall_validation.passes_validation,
+          confidenceScore: result.overall_validation.confidence_score,
+          profileValid: result.profile_validation.is_factually_accurate,
+          competenciesUnsupported: result.competencies_validation.unsupported_competencies,
+          projectsWithIssues: result.projects_validation.filter(p => !p.is_factually_accurate).map(p => ({
+            name: p.project_name,
+            fabricatedDetails: p.fabricated_details,
+            unsupportedClaims: p.unsupported_claims,
+            validationReasoning: p.reasoning
+          }))
+        });
+
+        return result;
+      },
+      result => ({
+        message: `Content validation ${result.overall_validation.passes_validation ? 'passed' : 'failed'} (confidence: ${result.overall_validation.confidence_score}/10)`,
+        data: {
+          passes: result.overall_validation.passes_validation,
+          confidence: result.overall_validation.confidence_score
+        },
+        progress: 90
+      })
+    );
+
+    // Step 7: Correct the content if validation fails
+    let finalResult = {
+      customer_requirements: customerRequirements,
+      profile_customization: customizedProfile,
+      key_competencies: customizedCompetencies,
+      customized_projects: customizedProjects,
+      evaluation: evaluation,
+      validation: validation,
+      language_code: languageDetection.languageCode,
+      candidate_name: cv.candidate_name,
+      job_id: jobId,
+      correction: null as any
+    };
+
+    if (!validation.overall_validation.passes_validation) {
+      logger.info('⚠️ Validation failed - starting correction process...');
+
+      // Run correction agents in parallel, only for the sections that have issues
+      const [profileCorrection, competenciesCorrection, projectsCorrection] = await Promise.all([
+        !validation.profile_validation.is_factually_accurate
+          ? runStage(
+              'profile_correction',
+              { message: 'Correcting profile validation issues...', progress: 92 },
+              () => runProfileCorrectionAgent({
+                model,
+                cv,
+                originalProfile: customizedProfile.original_profile,
+                customizedProfile: customizedProfile.customized_profile,
+                profileValidation: validation.profile_validation,
+                customerRequirements,
+                languageInstruction
+              }),
+              result => ({
+                message: `Profile corrected - ${result.changes_made.length} changes made`,
+                data: { changesMade: result.changes_made.length, confidence: result.confidence_score },
+                progress: 94
+              })
+            )
+          : null,
+        validation.competencies_validation.unsupported_competencies.length > 0
+          ? runStage(
+              'competencies_correction',
+              { message: 'Correcting competencies validation issues...', progress: 93 },
+              () => runCompetenciesCorrectionAgent({
+                model,
+                cv,
+                originalCompetencies: customizedCompetencies.original_competencies,
+                customizedCompetencies: customizedCompetencies.relevant_competencies,
+                competenciesValidation: validation.competencies_validation,
+                customerRequirements,
+                languageInstruction
+              }),
+              result => ({
+                message: `Competencies corrected - ${result.removed_competencies.length} unsupported items removed`,
+                data: { removedCount: result.removed_competencies.length, confidence: result.confidence_score },
+                progress: 95
+              })
+            )
+          : null,
+        validation.projects_validation.some(p => !p.is_factually_accurate)
+          ? runStage(
+              'projects_correction',
+              { message: 'Correcting projects validation issues...', progress: 94 },
+              () => runProjectsCorrectionAgent({
+                model,
+                cv,
+                customizedProjects,
+                projectsValidation: validation.projects_validation,
+                customerRequirements,
+                languageInstruction
+              }),
+              result => ({
+                message: `Projects corrected - ${result.correction_summary.total_projects_corrected} projects updated`,
+                data: { projectsCorrected: result.correction_summary.total_projects_corrected, confidence: result.correction_summary.confidence_score },
+                progress: 96
+              })
+            )
+          : null
+      ]);
+
+      const correction = buildCorrection(customizedProfile, customizedCompetencies, customizedProjects, {
+        profileCorrection,
+        competenciesCorrection,
+        projectsCorrection
+      });
+
+      progressUpdate(
+        'content_correction', 'completed',
+        `Content correction completed - ${correction.correction_summary.total_issues_fixed} issues fixed`,
+        {
+          issuesFixed: correction.correction_summary.total_issues_fixed,
+          confidence: correction.correction_summary.confidence_score
+        },
+        95
+      );
+
+      // Update the final result with corrected content
+      finalResult.profile_customization = {
+        ...customizedProfile,
+        customized_profile: correction.corrected_profile.profile
+      };
+
+      finalResult.key_competencies = {
+        ...customizedCompetencies,
+        relevant_competencies: correction.corrected_competencies.competencies
+      };
+
+      // Match corrections to projects by id, since the correction agent may reorder or skip projects
+      finalResult.customized_projects = customizedProjects.map(project => {
+        const correctedProject = correction.corrected_projects.find(cp => cp.project_id === project.project_id);
+        return correctedProject ? {
+          ...project,
+          customized_description: correctedProject.corrected_description,
+          parc_analysis: correctedProject.parc_analysis
+        } : project;
+      });
+
+      finalResult.correction = correction;
+    } else {
+      logger.info('✅ Validation passed - no correction needed');
+      progressUpdate('correction_check', 'completed', 'No correction needed - validation passed', null, 97);
+    }
+
+    logger.info('🎉 CV Customization Completed Successfully!', {
+      jobId,
+      timeTaken: `${(Date.now() - startTime) / 1000}s`,
+      resumedStages: Object.keys(job.stages),
+      hasCorrection: !!finalResult.correction,
+      finalOverallScore: finalResult.evaluation.overall_score,
+      languageDetected: finalResult.language_code
+    });
+
+    const completedJob = await updateJob<CustomizationJob>(jobId, current => ({ ...current, status: 'completed', result: finalResult }));
+
+    // Keep the run so the CV can be compared with earlier and later customizations
+    await recordCustomizationRun(completedJob)
+      .catch(recordError => logDebug('Failed to record customization run:', recordError));
+
+    progressUpdate('usage', 'completed', 'Token usage', {
+      usage: summarizeCalls(completedJob.usage ?? []),
+      timeTaken: `${(Date.now() - startTime) / 1000}s`
+    }, 100);
+
+    progressUpdate('trace', 'completed', 'Trace', { trace: trace.end() }, 100);
+
+    // Send final result
+    progressUpdate('complete', 'completed', 'CV customization completed successfully!', finalResult, 100);
+  } catch (error) {
+    logDebug('Error during CV customization:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error during customization';
+
+    await updateJob<CustomizationJob>(jobId, current => ({ ...current, status: 'failed', error: message }))
+      .catch(updateError => logDebug('Failed to record job failure:', updateError));
+
+    progressUpdate('error', 'error', message, {
+      jobId,
+      timeTaken: `${(Date.now() - startTime) / 1000}s`,
+      trace: trace.end(error)
+    }, 0);
+  }
+}
+
+/**
+ * Send the stored stages and the stored result of a completed job to a reconnecting client
+ */
+function replayCompletedJob(
+  job: CustomizationJob,
+  progressUpdate: (step: string, status: ProgressUpdate['status'], message: string, data?: any, progress?: number) => void
+) {
+  Object.keys(job.stages).forEach(stage => progressUpdate(stage, 'completed', 'Completed in an earlier run', null, 95));
+  progressUpdate('usage', 'completed', 'Token usage', { usage: summarizeCalls(job.usage ?? []) }, 100);
+  progressUpdate('complete', 'completed', 'CV customization completed successfully!', job.result, 100);
+}
+
+export type RegenerationSection = 'profile' | 'project';
+
+export interface RegenerationRequest {
+  section: RegenerationSection;
+  // The project to regenerate, by id from the structured CV or by name
+  projectId?: string;
+  projectName?: string;
+  // Extra instructions for the agent, e.g. "emphasize Azure"
+  guidance?: string;
+}
+
+export type RegenerationResult =
+  | { result: any; error?: undefined }
+  | { result?: undefined; error: string; status: number };
+
+// Replace the entry for the same project, or add it
+const upsertProject = <T extends { project_id: string }>(items: T[], item: T): T[] =>
+  items.some(existing => existing.project_id === item.project_id)
+    ? items.map(existing => existing.project_id === item.project_id ? item : existing)
+    : [...items, item];
+
+const passesValidation = (validation: CustomizationStages['content_validation']) =>
+  validation.profile_validation.is_factually_accurate &&
+  validation.competencies_validation.unsupported_competencies.length === 0 &&
+  validation.projects_validation.every(project => project.is_factually_accurate);
+
+/**
+ * Regenerate the profile or a single project of a completed customization job.
+ * The stored CV structure, language and requirements analysis are reused, only the regenerated
+ * section is validated (and corrected if validation fails), and the evaluation is not re-run.
+ * The updated result is stored on the job and returned, and the calls recorded by usage are added to the usage of the job.
+ */
+export async function regenerateSection(
+  jobId: string,
+  request: RegenerationRequest,
+  usage?: UsageTracker
+): Promise<RegenerationResult> {
+  const job = await getJob<CustomizationJob>(jobId);
+  if (!job) {
+    return { error: `Job not found: ${jobId}`, status: 404 };
+  }
+
+  const {
+    language_detection: languageDetection,
+    cv_structure: cv,
+    requirements_analysis: customerRequirements
+  } = job.stages;
+  if (job.status !== 'completed' || !job.result || !languageDetection || !cv || !customerRequirements) {
+    return { error: `Job ${jobId} is ${job.status}`, status: 409 };
+  }
+
+  const model = resolveModel(job.input.modelProvider, job.input.modelName);
+  const languageInstruction = createLanguageInstruction(languageDetection.language);
+  const guidance = request.guidance?.trim() || undefined;
+
+  // A correction without changes for every section, used when the first correction is needed
+  const baseCorrection = (result: any) => result.correction || buildCorrection(
+    result.profile_customization,
+    result.key_competencies,
+    result.customized_projects,
+    { profileCorrection: null, competenciesCorrection: null, projectsCorrection: null }
+  );
+
+  // The regenerated section is merged into the result as stored when the update is written,
+  // so chat edits and other regenerations made in the meantime are kept
+  let merge: (result: any) => any;
+  if (request.section === 'profile') {
+    logDebug(`Regenerating profile for job ${jobId}`, { guidance });
+
+    const profile = await runProfileCustomizationAgent({ model, cv, customerRequirements, languageInstruction, guidance });
+    const profileValidation = await runProfileValidationAgent({
+      model,
+      cv,
+      originalProfile: profile.original_profile,
+      customizedProfile: profile.customized_profile,
+      languageInstruction
+    });
+    const profileCorrection = profileValidation.is_factually_accurate
+      ? null
+      : await runProfileCorrectionAgent({
+          model,
+          cv,
+          originalProfile: profile.original_profile,
+          customizedProfile: profile.customized_profile,
+          profileValidation,
+          customerRequirements,
+          languageInstruction
+        });
+
+    merge = result => {
+      const correction = result.correction || profileCorrection
+        ? {
+            ...baseCorrection(result),
+            corrected_profile: profileCorrection ? {
+              profile: profileCorrection.corrected_profile,
+              changes_made: profileCorrection.changes_made,
+              reasoning: profileCorrection.reasoning
+            } : {
+              profile: profile.customized_profile,
+              changes_made: [] as string[],
+              reasoning: 'No profile correction needed'
+            }
+          }
+        : null;
+
+      return {
+        ...result,
+        // Like the full pipeline, the customized profile holds the corrected text when there is a correction
+        profile_customization: correction
+          ? { ...profile, customized_profile: correction.corrected_profile.profile }
+          : profile,
+        validation: { ...result.validation, profile_validation: profileValidation },
+        correction
+      };
+    };
+  } else {
+    const project = findCvProject(cv, request.projectId, request.projectName);
+    if (!project) {
+      return { error: `Project not found: ${request.projectId || request.projectName}`, status: 404 };
+    }
+    logDebug(`Regenerating project ${project.id} for job ${jobId}`, { guidance });
+
+    const [customizedProject] = await runProjectsCustomizationAgent({
+      model,
+      cv,
+      customerRequirements,
+      languageInstruction,
+      projectIds: [project.id],
+      guidance
+    });
+    if (!customizedProject) {
+      throw new Error(`Failed to regenerate project ${project.name}`);
+    }
+
+    const [projectValidation] = await runProjectsValidationAgent({
+      model,
+      cv,
+      customizedProjects: [customizedProject],
+      languageInstruction
+    });
+    const projectsCorrection = projectValidation && !projectValidation.is_factually_accurate
+      ? await runProjectsCorrectionAgent({
+          model,
+          cv,
+          customizedProjects: [customizedProject],
+          projectsValidation: [projectValidation],
+          customerRequirements,
+          languageInstruction
+        })
+      : null;
+    const correctedProject = projectsCorrection?.corrected_projects.find(p => p.project_id === project.id);
+
+    const finalProject = correctedProject
+      ? { ...customizedProject, customized_description: correctedProject.corrected_description, parc_analysis: correctedProject.parc_analysis }
+      : customizedProject;
+
+    merge = result => {
+      const correction = result.correction || correctedProject
+        ? {
+            ...baseCorrection(result),
+            corrected_projects: upsertProject(baseCorrection(result).corrected_projects, correctedProject ? {
+              project_id: correctedProject.project_id,
+              project_name: correctedProject.project_name,
+              corrected_description: correctedProject.corrected_description,
+              parc_analysis: correctedProject.parc_analysis,
+              changes_made: correctedProject.changes_made,
+              reasoning: correctedProject.reasoning
+            } : {
+              project_id: customizedProject.project_id,
+              project_name: customizedProject.project_name,
+              corrected_description: customizedProject.customized_description,
+              parc_analysis: customizedProject.parc_analysis,
+              changes_made: [] as string[],
+              reasoning: 'No project correction needed'
+            })
+          }
+        : null;
+
+      return {
+        ...result,
+        customized_projects: upsertProject(result.customized_projects, finalProject)
+          .sort((a: any, b: any) => b.relevance_score - a.relevance_score),
+        validation: projectValidation
+          ? { ...result.validation, projects_validation: upsertProject(result.validation.projects_validation, projectValidation) }
+          : result.validation,
+        correction
+      };
+    };
+  }
+
+  const updated = await updateJob<CustomizationJob>(jobId, current => {
+    const merged = merge(current.result);
+    merged.validation = {
+      ...merged.validation,
+      overall_validation: { ...merged.validation.overall_validation, passes_validation: passesValidation(merged.validation) }
+    };
+    return {
+      ...current,
+      result: merged,
+      ...(usage?.calls.length ? { usage: [...(current.usage ?? []), ...usage.calls] } : {})
+    };
+  });
+  return { result: updated.result };
+}
+
+/**
+ * Combine the section corrections into one correction result,
+ * falling back to the customized content for sections that needed no correction
+ */
+function buildCorrection(
+  customizedProfile: CustomizationStages['profile_customization'],
+  customizedCompetencies: CustomizationStages['competencies_customization'],
+  customizedProjects: CustomizationStages['projects_customization'],
+  {
+    profileCorrection,
+    competenciesCorrection,
+    projectsCorrection
+  }: {
+    profileCorrection: CustomizationStages['profile_correction'] | null;
+    competenciesCorrection: CustomizationStages['competencies_correction'] | null;
+    projectsCorrection: CustomizationStages['projects_correction'] | null;
+  }
+) {
+  const totalIssuesFixed =
+    (profileCorrection ? 1 : 0) +
+    (competenciesCorrection ? competenciesCorrection.removed_competencies.length : 0) +
+    (projectsCorrection ? projectsCorrection.correction_summary.total_projects_corrected : 0);
+
+  const majorChanges = [
+    ...(profileCorrection ? profileCorrection.changes_made : []),
+    ...(competenciesCorrection ? [`Removed ${competenciesCorrection.removed_competencies.length} unsupported competencies`] : []),
+    ...(projectsCorrection ? projectsCorrection.correction_summary.major_corrections : [])
+  ];
+
+  const qualityImprovements = [
+    ...(profileCorrection ? profileCorrection.preserved_customizations : []),
+    ...(competenciesCorrection ? competenciesCorrection.preserved_competencies.map(c => `Preserved relevant competency: ${c}`) : []),
+    ...(projectsCorrection ? projectsCorrection.corrected_projects.flatMap(p => p.preserved_elements.map(e => `Preserved in ${p.project_name}: ${e}`)) : [])
+  ];
+
+  return {
+    corrected_profile: profileCorrection ? {
+      profile: profileCorrection.corrected_profile,
+      changes_made: profileCorrection.changes_made,
+      reasoning: profileCorrection.reasoning
+    } : {
+      profile: customizedProfile.customized_profile,
+      changes_made: [] as string[],
+      reasoning: 'No profile correction needed'
+    },
+    corrected_competencies: competenciesCorrection ? {
+      competencies: competenciesCorrection.corrected_competencies,
+      removed_competencies: competenciesCorrection.removed_competencies,
+      reasoning: competenciesCorrection.reasoning
+    } : {
+      competencies: customizedCompetencies.relevant_competencies,
+      removed_competencies: [] as string[],
+      reasoning: 'No competencies correction needed'
+    },
+    corrected_projects: projectsCorrection ?
+      projectsCorrection.corrected_projects.map(correctedProject => ({
+        project_id: correctedProject.project_id,
+        project_name: correctedProject.project_name,
+        corrected_description: correctedProject.corrected_description,
+        parc_analysis: correctedProject.parc_analysis,
+        changes_made: correctedProject.changes_made,
+        reasoning: correctedProject.reasoning
+      })) :
+      customizedProjects.map(project => ({
+        project_id: project.project_id,
+        project_name: project.project_name,
+        corrected_description: project.customized_description,
+        parc_analysis: project.parc_analysis,
+        changes_made: [] as string[],
+        reasoning: 'No project correction needed'
+      })),
+    correction_summary: {
+      total_issues_fixed: totalIssuesFixed,
+      major_changes: majorChanges,
+      quality_improvements: qualityImprovements,
+      confidence_score: Math.min(
+        profileCorrection?.confidence_score || 10,
+        competenciesCorrection?.confidence_score || 10,
+        projectsCorrection?.correction_summary.confidence_score || 10
+      )
+    }
+  };
+}
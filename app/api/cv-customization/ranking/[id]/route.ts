@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, isJobRunning } from '../../../jobs/jobs';
+import { RANKING_JOB_TYPE, buildRanking, startRankingJob, type RankingJob } from '../ranking';
+import { getResponseHeaders } from '../../utils';
+
+/**
+ * Status and shortlist of a candidate ranking, including the candidates assessed so far.
+ * A ranking that is no longer running, e.g. after a server restart, resumes with the CVs not assessed yet.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = await getJob<RankingJob>(id);
+
+  if (!job || job.type !== RANKING_JOB_TYPE) {
+    return NextResponse.json(
+      { error: `Candidate ranking not found: ${id}` },
+      { status: 404, headers: getResponseHeaders() }
+    );
+  }
+
+  if ((job.status === 'pending' || job.status === 'running') && !isJobRunning(id)) {
+    startRankingJob(id);
+  }
+
+  return NextResponse.json(
+    {
+      id: job.id,
+      status: job.status,
+      error: job.error,
+      ranking: job.result ?? buildRanking(job),
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt
+    },
+    { headers: getResponseHeaders() }
+  );
+}
@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createJob, getJob } from '../../jobs/jobs';
+import type { CvDocument } from '../../cv-analysis-agent/schemas';
+import type { ExtractedDocument } from '../../../utils/fileParser';
+import { parseCvStructure, runLanguageDetectionAgent, runRequirementCoverageAgent, runRequirementsAnalysisAgent } from '../agents';
+import {
+  RANKING_JOB_TYPE,
+  buildRanking,
+  runRanking,
+  scoreCandidate,
+  type CandidateAssessment,
+  type RankingJob,
+  type RankingJobInput
+} from './ranking';
+
+vi.mock('../agents', () => ({
+  runLanguageDetectionAgent: vi.fn(),
+  runRequirementsAnalysisAgent: vi.fn(),
+  runRequirementCoverageAgent: vi.fn(),
+  parseCvStructure: vi.fn()
+}));
+
+type Assessment = Awaited<ReturnType<typeof runRequirementCoverageAgent>>;
+
+const requirements = {
+  must_have_requirements: [
+    { requirement: 'Java', description: '5+ years', priority: 'high' },
+    { requirement: 'Kubernetes', description: 'Production clusters', priority: 'high' }
+  ],
+  should_have_requirements: [{ requirement: 'Norwegian', description: 'Spoken', priority: 'medium' }],
+  context_summary: 'Platform team'
+} as any;
+
+const covered = (requirement: string, coverage: 'full' | 'partial' | 'none') => ({
+  requirement,
+  coverage,
+  evidence: coverage === 'none' ? [] : [`${requirement} in project-1`],
+  gap: coverage === 'full' ? '' : `Little ${requirement}`
+});
+
+const assessmentOf = (...items: ReturnType<typeof covered>[]): Assessment => ({ requirements: items, summary: 'Good fit' } as Assessment);
+
+const document = (fileName: string): ExtractedDocument => ({ fileName, format: 'pdf', text: `CV of ${fileName}` });
+
+const cvOf = (name: string): CvDocument => ({
+  candidate_name: name,
+  summary: '',
+  roles: [],
+  projects: [],
+  competencies: [],
+  education: [],
+  certifications: [],
+  languages: []
+});
+
+describe('scoreCandidate', () => {
+  it('matches the assessed requirements by name, ignoring case and whitespace', () => {
+    const assessment = scoreCandidate(requirements, 'Ola', assessmentOf(
+      covered('norwegian', 'full'),
+      covered(' kubernetes ', 'partial'),
+      covered('JAVA', 'full')
+    ));
+
+    expect(assessment.coverage.map(item => [item.requirement, item.type, item.coverage])).toEqual([
+      ['Java', 'must_have', 'full'],
+      ['Kubernetes', 'must_have', 'partial'],
+      ['Norwegian', 'should_have', 'full']
+    ]);
+    // (2 * 1 + 2 * 0.5 + 1 * 1) of 5
+    expect(assessment.score).toBe(80);
+    expect(assessment).toMatchObject({ must_have_covered: 1, must_have_missing: 0, should_have_covered: 1 });
+  });
+
+  it('counts a requirement the agent renamed or left out as not covered', () => {
+    const assessment = scoreCandidate(requirements, 'Ola', assessmentOf(
+      covered('Java', 'full'),
+      covered('Container orchestration', 'full')
+    ));
+
+    expect(assessment.coverage.slice(1).map(item => [item.requirement, item.coverage, item.gap])).toEqual([
+      ['Kubernetes', 'none', 'Not assessed'],
+      ['Norwegian', 'none', 'Not assessed']
+    ]);
+    expect(assessment.must_have_missing).toBe(1);
+  });
+});
+
+describe('buildRanking', () => {
+  const assessment = (score: number, must_have_missing: number): CandidateAssessment => ({
+    candidate_name: `Candidate ${score}`,
+    score,
+    must_have_covered: 0,
+    must_have_missing,
+    should_have_covered: 0,
+    coverage: [],
+    summary: ''
+  });
+
+  it('ranks fewer missing must-haves first, then the higher score, and lists pending and failed CVs', () => {
+    const job = {
+      input: {
+        cvs: ['a', 'b', 'c', 'd', 'e'].map(id => ({ id, document: document(`${id}.pdf`) })),
+        skippedFiles: []
+      },
+      stages: {
+        candidates: {
+          a: { status: 'completed', assessment: assessment(90, 1) },
+          b: { status: 'completed', assessment: assessment(60, 0) },
+          c: { status: 'completed', assessment: assessment(70, 0) },
+          d: { status: 'failed', error: 'Unreadable' }
+        }
+      }
+    } as unknown as RankingJob;
+
+    const ranking = buildRanking(job);
+    expect(ranking.shortlist.map(candidate => [candidate.rank, candidate.id])).toEqual([[1, 'c'], [2, 'b'], [3, 'a']]);
+    expect(ranking.pending).toEqual([{ id: 'e', fileName: 'e.pdf' }]);
+    expect(ranking.failed).toEqual([{ id: 'd', fileName: 'd.pdf', error: 'Unreadable' }]);
+  });
+});
+
+describe('runRanking', () => {
+  beforeEach(() => {
+    vi.mocked(runLanguageDetectionAgent).mockReset().mockResolvedValue({ language: 'English', languageCode: 'en', confidence: 0.9 } as any);
+    vi.mocked(runRequirementsAnalysisAgent).mockReset().mockResolvedValue(requirements);
+    vi.mocked(parseCvStructure).mockReset().mockImplementation(async ({ document }) => cvOf(document.fileName.replace('.pdf', '')));
+    vi.mocked(runRequirementCoverageAgent).mockReset().mockResolvedValue(assessmentOf(covered('Java', 'full')));
+  });
+
+  it('assesses every CV and reports a failed CV without stopping the others', async () => {
+    vi.mocked(runRequirementCoverageAgent).mockImplementation(async ({ cv }) => {
+      if (cv.candidate_name === 'kari') {
+        throw new Error('Failed to assess requirement coverage');
+      }
+      return assessmentOf(covered('Java', 'full'), covered('Kubernetes', 'full'));
+    });
+    const job = await createJob<RankingJobInput>(RANKING_JOB_TYPE, {
+      modelProvider: 'openai',
+      modelName: 'gpt-4o',
+      customerDocuments: [document('request.pdf')],
+      cvs: [
+        { id: 'cv-1', document: document('ola.pdf') },
+        { id: 'cv-2', document: document('kari.pdf') },
+        { id: 'cv-3', document: document('per.pdf'), cv: cvOf('Per') }
+      ],
+      skippedFiles: []
+    });
+
+    const events: any[] = [];
+    await runRanking(job.id, event => events.push(event));
+
+    const ranking = (await getJob<RankingJob>(job.id))?.result;
+    expect(events.at(-1)).toMatchObject({ step: 'complete', status: 'completed' });
+    expect(ranking?.shortlist.map(candidate => candidate.candidate_name)).toEqual(['ola', 'Per']);
+    expect(ranking?.failed).toEqual([{ id: 'cv-2', fileName: 'kari.pdf', error: 'Failed to assess requirement coverage' }]);
+    // Registered consultants bring their structured CV
+    expect(parseCvStructure).toHaveBeenCalledTimes(2);
+    expect(runRequirementsAnalysisAgent).toHaveBeenCalledTimes(1);
+  });
+});
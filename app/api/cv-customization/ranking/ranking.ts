@@ -0,0 +1,347 @@
+import { config } from '../../config';
+import { checkModelSupport, resolveModel } from '../../models';
+import type { ModelProvider } from '../../../utils/modelOptions';
+import {
+  expandZipArchives,
+  extractDocuments,
+  formatDocumentForPrompt,
+  type ExtractedDocument,
+  type SkippedFile
+} from '../../../utils/fileParser';
+import { createJob, getJob, updateJob, saveJobStage, runJob, runWithConcurrency, type Job } from '../../jobs/jobs';
+import { logDebug } from '../utils';
+import { createUsageTracker } from '../../usage';
+import {
+  runRequirementsAnalysisAgent,
+  runRequirementCoverageAgent,
+  runLanguageDetectionAgent,
+  parseCvStructure
+} from '../agents';
+import { createLanguageInstruction } from '../../cv-analysis-agent/pipeline';
+import { getConsultantCv } from '../../consultants/consultants';
+import type { CvDocument } from '../../cv-analysis-agent/schemas';
+
+type CustomerRequirements = Awaited<ReturnType<typeof runRequirementsAnalysisAgent>>;
+
+export type RequirementType = 'must_have' | 'should_have';
+export type Coverage = 'full' | 'partial' | 'none';
+
+export interface RequirementCoverage {
+  requirement: string;
+  type: RequirementType;
+  priority: string;
+  coverage: Coverage;
+  evidence: string[];
+  gap: string;
+}
+
+export interface CandidateAssessment {
+  candidate_name: string;
+  // Weighted share of the requirements covered, 0-100
+  score: number;
+  must_have_covered: number;
+  must_have_missing: number;
+  should_have_covered: number;
+  coverage: RequirementCoverage[];
+  summary: string;
+}
+
+export type CandidateOutcome =
+  | { status: 'completed'; assessment: CandidateAssessment; error?: undefined }
+  | { status: 'failed'; assessment?: undefined; error: string };
+
+export interface RankingCv {
+  id: string;
+  document: ExtractedDocument;
+  // Registered consultants bring their structured CV, uploaded CVs are parsed when assessed
+  consultantId?: string;
+  cv?: CvDocument;
+}
+
+export interface RankingJobInput {
+  modelProvider: ModelProvider;
+  modelName: string;
+  customerDocuments: ExtractedDocument[];
+  cvs: RankingCv[];
+  // Uploaded CVs that could not be read, reported with the ranking
+  skippedFiles: SkippedFile[];
+}
+
+export interface RankingStages {
+  language_detection: Awaited<ReturnType<typeof runLanguageDetectionAgent>>;
+  requirements_analysis: CustomerRequirements;
+  // Keyed by CV id, so a resumed ranking only assesses the CVs without an outcome
+  candidates: Record<string, CandidateOutcome>;
+}
+
+export interface RankedCandidate extends CandidateAssessment {
+  rank: number;
+  id: string;
+  fileName: string;
+}
+
+export interface Ranking {
+  requirements?: CustomerRequirements;
+  shortlist: RankedCandidate[];
+  pending: { id: string; fileName: string }[];
+  failed: { id: string; fileName: string; error: string }[];
+  skippedFiles: SkippedFile[];
+}
+
+export type RankingJob = Job<RankingJobInput, RankingStages, Ranking>;
+
+export const RANKING_JOB_TYPE = 'cv_ranking';
+
+export type CreateRankingJobResult =
+  | { job: RankingJob; error?: undefined }
+  | { job?: undefined; error: string; details?: string };
+
+// Must-have requirements count twice as much as should-have requirements, partial coverage counts half
+const REQUIREMENT_WEIGHTS: Record<RequirementType, number> = { must_have: 2, should_have: 1 };
+const COVERAGE_CREDIT: Record<Coverage, number> = { full: 1, partial: 0.5, none: 0 };
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Validate the ranking form data, extract the text of the customer documents and CVs and store it as a new job
+ */
+export async function createRankingJob(formData: FormData): Promise<CreateRankingJobResult> {
+  const customerFiles = formData.getAll('customerFiles') as File[];
+  const cvFiles = formData.getAll('cvFiles') as File[];
+  // Registered consultants can be ranked together with or instead of uploaded CVs
+  const consultantIds = formData.getAll('consultantIds') as string[];
+  const modelProvider = formData.get('modelProvider') as ModelProvider;
+  const modelName = formData.get('modelName') as string;
+
+  logDebug('Creating candidate ranking job', {
+    customerFilesCount: customerFiles.length,
+    cvFilesCount: cvFiles.length,
+    consultantsCount: consultantIds.length,
+    modelProvider,
+    modelName
+  });
+
+  if (!customerFiles.length || (!cvFiles.length && !consultantIds.length)) {
+    return { error: 'Missing required parameters (customer files or CV files)' };
+  }
+
+  const modelSupportError = checkModelSupport(modelProvider, modelName, { structuredOutput: true });
+  if (modelSupportError) {
+    return { error: modelSupportError };
+  }
+
+  const customer = await extractDocuments(customerFiles);
+  if (customer.skippedFiles.length > 0) {
+    return {
+      error: 'Failed to extract text from customer files',
+      details: customer.skippedFiles.map(file => `${file.fileName}: ${file.error}`).join('; ')
+    };
+  }
+
+  const consultants = await Promise.all([...new Set(consultantIds)].map(id => getConsultantCv(id)));
+  const missingConsultant = consultants.find(stored => !stored.consultant);
+  if (missingConsultant) {
+    return { error: missingConsultant.error! };
+  }
+
+  const expanded = await expandZipArchives(cvFiles);
+  if (expanded.files.length + consultants.length > config.batch.maxFiles) {
+    return { error: `Too many CVs: ${expanded.files.length + consultants.length}, the maximum is ${config.batch.maxFiles}` };
+  }
+
+  const { documents, skippedFiles: unreadableFiles } = await extractDocuments(expanded.files);
+  const skippedFiles = [...expanded.skippedFiles, ...unreadableFiles];
+  if (documents.length === 0 && consultants.length === 0) {
+    return {
+      error: 'None of the uploaded CVs could be read',
+      details: skippedFiles.map(file => `${file.fileName}: ${file.error}`).join('; ')
+    };
+  }
+
+  const job = await createJob<RankingJobInput>(RANKING_JOB_TYPE, {
+    modelProvider,
+    modelName,
+    customerDocuments: customer.documents,
+    cvs: [
+      ...consultants.map(({ consultant, revision }) => ({ consultantId: consultant!.id, document: revision!.document, cv: revision!.cv })),
+      ...documents.map(document => ({ document }))
+    ].map((cv, index) => ({ id: `cv-${index + 1}`, ...cv })),
+    skippedFiles
+  }) as RankingJob;
+
+  logDebug(`Created candidate ranking job ${job.id} with ${job.input.cvs.length} CVs`, { skippedFiles });
+  return { job };
+}
+
+/**
+ * Combine the agent's assessment with the requirement list. Requirements are matched by name,
+ * and any the agent left out count as not covered.
+ */
+export function scoreCandidate(
+  requirements: CustomerRequirements,
+  candidateName: string,
+  assessment: Awaited<ReturnType<typeof runRequirementCoverageAgent>>
+): CandidateAssessment {
+  const listed = [
+    ...requirements.must_have_requirements.map(req => ({ ...req, type: 'must_have' as const })),
+    ...requirements.should_have_requirements.map(req => ({ ...req, type: 'should_have' as const }))
+  ];
+
+  const coverage = listed.map((req): RequirementCoverage => {
+    const assessed = assessment.requirements.find(item => normalize(item.requirement) === normalize(req.requirement));
+    return {
+      requirement: req.requirement,
+      type: req.type,
+      priority: req.priority,
+      coverage: assessed?.coverage ?? 'none',
+      evidence: assessed?.evidence ?? [],
+      gap: assessed ? assessed.gap : 'Not assessed'
+    };
+  });
+
+  const maximum = coverage.reduce((sum, item) => sum + REQUIREMENT_WEIGHTS[item.type], 0);
+  const achieved = coverage.reduce((sum, item) => sum + REQUIREMENT_WEIGHTS[item.type] * COVERAGE_CREDIT[item.coverage], 0);
+  const count = (type: RequirementType, covered: (item: RequirementCoverage) => boolean) =>
+    coverage.filter(item => item.type === type && covered(item)).length;
+
+  return {
+    candidate_name: candidateName,
+    score: maximum > 0 ? Math.round((achieved / maximum) * 100) : 0,
+    must_have_covered: count('must_have', item => item.coverage === 'full'),
+    must_have_missing: count('must_have', item => item.coverage === 'none'),
+    should_have_covered: count('should_have', item => item.coverage === 'full'),
+    coverage,
+    summary: assessment.summary
+  };
+}
+
+/**
+ * Shortlist of the assessed candidates. Candidates with fewer missing must-have requirements
+ * rank first, then those with the higher coverage score.
+ */
+export function buildRanking(job: RankingJob): Ranking {
+  const candidates = job.stages.candidates ?? {};
+  const assessed = job.input.cvs
+    .filter(cv => candidates[cv.id]?.status === 'completed')
+    .map(cv => ({ id: cv.id, fileName: cv.document.fileName, ...candidates[cv.id].assessment! }))
+    .sort((a, b) => a.must_have_missing - b.must_have_missing || b.score - a.score);
+
+  return {
+    requirements: job.stages.requirements_analysis,
+    shortlist: assessed.map((candidate, index) => ({ rank: index + 1, ...candidate })),
+    pending: job.input.cvs
+      .filter(cv => !candidates[cv.id])
+      .map(cv => ({ id: cv.id, fileName: cv.document.fileName })),
+    failed: job.input.cvs
+      .filter(cv => candidates[cv.id]?.status === 'failed')
+      .map(cv => ({ id: cv.id, fileName: cv.document.fileName, error: candidates[cv.id].error! })),
+    skippedFiles: job.input.skippedFiles
+  };
+}
+
+/**
+ * Start (or resume) a ranking in the background, unless it is already running
+ */
+export function startRankingJob(jobId: string) {
+  runJob(jobId, emit => runRanking(jobId, emit));
+}
+
+/**
+ * Analyze the customer requirements once, then assess every CV against them, config.batch.concurrency at a time.
+ * A CV that fails is reported as failed and does not stop the others.
+ */
+export async function runRanking(jobId: string, emit: (event: unknown) => void): Promise<void> {
+  const job = await getJob<RankingJob>(jobId);
+  if (!job) {
+    emit({ step: 'error', status: 'error', message: `Job not found: ${jobId}` });
+    return;
+  }
+
+  await updateJob<RankingJob>(jobId, current => ({ ...current, status: 'running', error: undefined }));
+
+  try {
+    const { input } = job;
+    const model = resolveModel(input.modelProvider, input.modelName);
+
+    // The shortlist is written in the language of the customer request
+    let languageDetection = job.stages.language_detection;
+    if (!languageDetection) {
+      emit({ step: 'language_detection', status: 'starting', message: 'Detecting document language...' });
+      const usage = createUsageTracker();
+      languageDetection = await usage.track(() => runLanguageDetectionAgent({ model, document: input.customerDocuments[0] }));
+      await saveJobStage<RankingStages>(jobId, 'language_detection', languageDetection, usage.calls);
+    }
+    const languageInstruction = createLanguageInstruction(languageDetection.language);
+
+    let requirements = job.stages.requirements_analysis;
+    if (!requirements) {
+      emit({ step: 'requirements_analysis', status: 'starting', message: 'Analyzing customer requirements...' });
+      const usage = createUsageTracker();
+      requirements = await usage.track(() => runRequirementsAnalysisAgent({
+        model,
+        customerDocsContent: [
+          { type: 'text', text: 'Please analyze these customer documents and extract all requirements:' },
+          ...input.customerDocuments.map(document => ({
+            type: 'text' as const,
+            text: formatDocumentForPrompt(document, 'Customer document')
+          }))
+        ],
+        languageInstruction
+      }));
+      await saveJobStage<RankingStages>(jobId, 'requirements_analysis', requirements, usage.calls);
+    }
+    emit({
+      step: 'requirements_analysis',
+      status: 'completed',
+      message: `Found ${requirements.must_have_requirements.length} must-have and ${requirements.should_have_requirements.length} should-have requirements`
+    });
+
+    const remaining = input.cvs.filter(cv => !job.stages.candidates?.[cv.id]);
+    logDebug(`Assessing ${remaining.length} of ${input.cvs.length} CVs in ranking ${jobId}`);
+
+    await runWithConcurrency(remaining, config.batch.concurrency, async ({ id, document, cv: storedCv }) => {
+      emit({ step: 'candidate', status: 'starting', message: `Assessing ${document.fileName}`, data: { id } });
+
+      // The calls of each CV are saved with its outcome, also those made before it failed
+      const usage = createUsageTracker();
+      let outcome: CandidateOutcome;
+      try {
+        const { cv, coverage } = await usage.track(async () => {
+          const cv = storedCv ?? await parseCvStructure({ model, document });
+          return { cv, coverage: await runRequirementCoverageAgent({ model, cv, customerRequirements: requirements, languageInstruction }) };
+        });
+        outcome = { status: 'completed', assessment: scoreCandidate(requirements!, cv.candidate_name, coverage) };
+      } catch (error) {
+        logDebug(`Error assessing ${document.fileName} in ranking ${jobId}:`, error);
+        outcome = { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+
+      await updateJob<RankingJob>(jobId, current => ({
+        ...current,
+        stages: { ...current.stages, candidates: { ...current.stages.candidates, [id]: outcome } },
+        ...(usage.calls.length > 0 ? { usage: [...(current.usage ?? []), ...usage.calls] } : {})
+      }));
+      emit({
+        step: 'candidate',
+        status: outcome.status === 'completed' ? 'completed' : 'error',
+        message: outcome.status === 'completed'
+          ? `Assessed ${document.fileName}: ${outcome.assessment.score}% coverage`
+          : `Failed to assess ${document.fileName}: ${outcome.error}`,
+        data: { id }
+      });
+    });
+
+    const completed = await updateJob<RankingJob>(jobId, current => ({
+      ...current,
+      status: 'completed',
+      result: buildRanking(current)
+    }));
+    emit({ step: 'complete', status: 'completed', message: 'Candidate ranking completed', data: completed.result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logDebug(`Candidate ranking ${jobId} failed:`, error);
+    await updateJob<RankingJob>(jobId, current => ({ ...current, status: 'failed', error: message }))
+      .catch(updateError => logDebug('Failed to record job failure:', updateError));
+    emit({ step: 'error', status: 'error', message });
+  }
+}
@@ -0,0 +1,48 @@
+// Node.js runtime is needed for server-side PDF/DOCX text extraction and zip archives
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createRankingJob, startRankingJob } from './ranking';
+import { getResponseHeaders, logDebug } from '../utils';
+
+export const maxDuration = 230;
+
+/**
+ * Rank consultant CVs against a customer request. Takes form data with `customerFiles`,
+ * one or more `cvFiles` (PDF, DOCX or zip archives) and/or `consultantIds` of registered consultants,
+ * `modelProvider` and `modelName`, and starts the ranking in the background. Poll GET /api/cv-customization/ranking/:id for the shortlist.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const created = await createRankingJob(formData);
+
+    if (!created.job) {
+      return NextResponse.json(
+        { error: created.error, details: created.details },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    startRankingJob(created.job.id);
+
+    return NextResponse.json(
+      {
+        jobId: created.job.id,
+        status: created.job.status,
+        total: created.job.input.cvs.length,
+        skippedFiles: created.job.input.skippedFiles
+      },
+      { status: 201, headers: getResponseHeaders() }
+    );
+  } catch (error) {
+    logDebug('Error creating candidate ranking:', error);
+    return NextResponse.json(
+      {
+        error: 'Error processing request form data',
+        details: error instanceof Error ? error.message : 'Unknown form processing error'
+      },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logDebug, getResponseHeaders } from '../utils';
+import { regenerateSection, type RegenerationRequest } from '../pipeline';
+import { createUsageTracker, type UsageTracker } from '../../usage';
+import { traceRequest, type Trace } from '../../tracing';
+
+export const maxDuration = 230;
+
+interface RegenerateRequest extends RegenerationRequest {
+  jobId: string;
+}
+
+const SECTIONS = ['profile', 'project'];
+
+/**
+ * Regenerate the profile or a single project of a completed customization job, optionally with guidance
+ */
+export async function POST(req: NextRequest) {
+  const usage = createUsageTracker();
+  return traceRequest('cv_regeneration', trace => usage.track(() => regenerate(req, usage, trace)));
+}
+
+async function regenerate(req: NextRequest, usage: UsageTracker, trace: Trace) {
+  const startTime = Date.now();
+
+  try {
+    const { jobId, section, projectId, projectName, guidance } = await req.json() as RegenerateRequest;
+
+    if (!jobId || !SECTIONS.includes(section)) {
+      return NextResponse.json(
+        { error: `Missing required parameters (jobId and section, one of: ${SECTIONS.join(', ')})` },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+    if (section === 'project' && !projectId && !projectName) {
+      return NextResponse.json(
+        { error: 'Missing projectId or projectName' },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    const regenerated = await regenerateSection(jobId, { section, projectId, projectName, guidance }, usage);
+    if (regenerated.error !== undefined) {
+      return NextResponse.json(
+        { error: regenerated.error },
+        { status: regenerated.status, headers: getResponseHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        result: regenerated.result,
+        trace: trace.end(),
+        timeTaken: `${(Date.now() - startTime) / 1000}s`,
+        usage: usage.summary()
+      },
+      { headers: getResponseHeaders() }
+    );
+  } catch (error) {
+    logDebug('Error regenerating section:', error);
+    return NextResponse.json(
+      {
+        error: 'Error regenerating section',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        trace: trace.end(error)
+      },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
@@ -1,10 +1,10 @@
-// Set to Edge runtime for better performance
-export const runtime = 'edge';
+// Node.js runtime is needed for server-side PDF/DOCX text extraction
+export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { openai } from '@ai-sdk/openai';
-import { config, isProviderAvailable } from '../config';
+import { checkModelSupport, resolveModel } from '../models';
 import { ModelProvider } from '../../components/ModelSelector';
+import { extractDocumentText, formatDocumentForPrompt, type ExtractedDocument } from '../../utils/fileParser';
 import { cvCustomizationResultSchema } from './schemas';
 
 // Import utility functions
@@ -25,13 +25,24 @@ import {
   runProfileCorrectionAgent,
   runCompetenciesCorrectionAgent,
   runProjectsCorrectionAgent,
-  runLanguageDetectionAgent
+  runLanguageDetectionAgent,
+  parseCvStructure
 } from './agents';
+import type { CvDocument } from '../cv-analysis-agent/schemas';
+import { getConsultantCvFromForm } from '../consultants/consultants';
+import { createUsageTracker, type UsageTracker } from '../usage';
+import { logger, traceRequest, type Trace } from '../tracing';
 
 // Azure Static Web Apps has a 30-second limit for function execution
 export const maxDuration = 230; // We set to 230 but Azure might enforce a lower limit
 
 export async function POST(req: NextRequest) {
+  // Every agent call of the request is counted and traced, and the totals and the trace are returned with the result
+  const usage = createUsageTracker();
+  return traceRequest('cv_customization', trace => usage.track(() => customizeCv(req, usage, trace)));
+}
+
+async function customizeCv(req: NextRequest, usage: UsageTracker, trace: Trace) {
   const logs: string[] = [];
   const startTime = Date.now();
   
@@ -45,6 +56,8 @@ export async function POST(req: NextRequest) {
       const customerFiles = formData.getAll('customerFiles') as File[];
       const modelProvider = formData.get('modelProvider') as ModelProvider;
       const modelName = formData.get('modelName') as string;
+      // A registered consultant can be customized instead of an uploaded file
+      const storedCv = await getConsultantCvFromForm(formData);
 
       logs.push(logDebug(`Request parameters received`, { 
         cvFileSize: cvFile ? cvFile.size : 'No file',
@@ -54,7 +67,7 @@ export async function POST(req: NextRequest) {
         modelName
       }));
 
-      if (!cvFile || !customerFiles.length) {
+      if ((!cvFile && !storedCv) || !customerFiles.length) {
         logs.push(logDebug('Missing required parameters'));
         return NextResponse.json(
           { error: 'Missing required parameters (CV file or customer files)', logs },
@@ -62,114 +75,94 @@ export async function POST(req: NextRequest) {
         );
       }
 
-      // Check if the requested provider is available
-      logs.push(logDebug(`Checking if provider is available: ${modelProvider}`));
-      if (!isProviderAvailable(modelProvider)) {
-        logs.push(logDebug(`API key not configured for provider: ${modelProvider}`));
+      if (storedCv && !storedCv.consultant) {
         return NextResponse.json(
-          { 
-            error: `${modelProvider} API key is not configured`, 
-            logs,
-            environment: getEnvironmentInfo() 
-          },
-          { status: 400, headers: getResponseHeaders() }
+          { error: storedCv.error, logs },
+          { status: storedCv.status, headers: getResponseHeaders() }
         );
       }
-      logs.push(logDebug(`Provider ${modelProvider} is available`));
 
-      // Currently only supporting OpenAI models for agent-based analysis
-      if (modelProvider !== 'openai') {
-        logs.push(logDebug(`Unsupported provider for CV customization: ${modelProvider}`));
+      // Agents work on extracted text, so any configured model with structured output can be used
+      logs.push(logDebug(`Checking model support: ${modelProvider}/${modelName}`));
+      const modelSupportError = checkModelSupport(modelProvider, modelName, { structuredOutput: true });
+      if (modelSupportError) {
+        logs.push(logDebug(`Model not supported for CV customization: ${modelSupportError}`));
         return NextResponse.json(
-          { error: 'CV customization currently only supports OpenAI models', logs },
+          { 
+            error: modelSupportError, 
+            logs,
+            environment: getEnvironmentInfo() 
+          },
           { status: 400, headers: getResponseHeaders() }
         );
       }
+      logs.push(logDebug(`Model ${modelProvider}/${modelName} is supported`));
 
-      // Read the CV file as ArrayBuffer
-      logs.push(logDebug('Reading CV PDF file'));
-      let cvBuffer;
+      // Extract the CV text once and share it between all agents
+      logs.push(logDebug('Extracting CV text'));
+      let extractedCv: ExtractedDocument;
       try {
-        const cvArrayBuffer = await cvFile.arrayBuffer();
-        cvBuffer = Buffer.from(cvArrayBuffer);
-        logs.push(logDebug(`CV PDF file converted to buffer, size: ${cvBuffer.length} bytes`));
+        extractedCv = storedCv ? storedCv.revision.document : await extractDocumentText(cvFile);
+        logs.push(logDebug(`Extracted ${extractedCv.text.length} characters from CV ${extractedCv.format.toUpperCase()} file`));
       } catch (fileError) {
-        logs.push(logDebug('Error processing CV PDF file:', fileError));
+        logs.push(logDebug('Error extracting CV text:', fileError));
         return NextResponse.json(
           { 
-            error: 'Failed to process CV PDF file', 
+            error: 'Failed to extract text from CV file', 
             details: fileError instanceof Error ? fileError.message : 'Unknown file processing error',
             logs 
           },
-          { status: 500, headers: getResponseHeaders() }
+          { status: 400, headers: getResponseHeaders() }
         );
       }
       
-      // Read the customer files as ArrayBuffer
-      logs.push(logDebug('Reading customer PDF files'));
-      let customerBuffers = [];
+      // Extract the customer documents
+      logs.push(logDebug('Extracting customer document text'));
+      let customerDocuments: ExtractedDocument[];
       try {
-        for (const file of customerFiles) {
-          const arrayBuffer = await file.arrayBuffer();
-          const buffer = Buffer.from(arrayBuffer);
-          customerBuffers.push({
-            name: file.name,
-            buffer: buffer
-          });
-        }
-        logs.push(logDebug(`Processed ${customerBuffers.length} customer files`));
+        customerDocuments = await Promise.all(customerFiles.map(file => extractDocumentText(file)));
+        logs.push(logDebug(`Extracted text from ${customerDocuments.length} customer files`));
       } catch (fileError) {
-        logs.push(logDebug('Error processing customer PDF files:', fileError));
+        logs.push(logDebug('Error extracting customer document text:', fileError));
         return NextResponse.json(
           { 
-            error: 'Failed to process customer PDF files', 
+            error: 'Failed to extract text from customer files', 
             details: fileError instanceof Error ? fileError.message : 'Unknown file processing error',
             logs 
           },
-          { status: 500, headers: getResponseHeaders() }
+          { status: 400, headers: getResponseHeaders() }
         );
       }
 
-      // Configure the provider
-      logs.push(logDebug(`Setting OpenAI API key from config`));
-      const openaiKeyBefore = !!process.env.OPENAI_API_KEY;
-      process.env.OPENAI_API_KEY = config.openai.apiKey;
-      const openaiKeyAfter = !!process.env.OPENAI_API_KEY;
-      logs.push(logDebug(`OpenAI key status: before=${openaiKeyBefore}, after=${openaiKeyAfter}, key_length=${config.openai.apiKey?.length || 0}`));
+      const model = resolveModel(modelProvider, modelName);
+      logs.push(logDebug(`Configured ${modelProvider} model: ${modelName}`));
       
-      if (!process.env.OPENAI_API_KEY) {
-        logs.push(logDebug('OpenAI API key is not set after configuration attempt'));
-        return NextResponse.json(
-          { 
-            error: 'OpenAI API key is not available', 
-            logs, 
-            environment: getEnvironmentInfo() 
-          },
-          { status: 500, headers: getResponseHeaders() }
-        );
-      }
-      
-      // Use OpenAI responses API for PDF support
-      const model = openai.responses(modelName);
-      logs.push(logDebug(`Configured OpenAI model with responses API: ${modelName}`));
-      
-      // Detect the language of the CV
-      logs.push(logDebug('Detecting language of the CV'));
+      // Detect the language of the CV and parse its structure once for all agents
+      logs.push(logDebug('Detecting language and parsing CV structure'));
       let languageDetection;
+      let cv: CvDocument;
       try {
-        languageDetection = await runLanguageDetectionAgent({
-          model: openai(modelName), // Using standard model for language detection
-          fileBuffer: cvBuffer,
-          fileName: cvFile.name
-        });
+        [languageDetection, cv] = await Promise.all([
+          runLanguageDetectionAgent({
+            model,
+            document: extractedCv
+          }),
+          // The structured CV of a registered consultant was parsed when it was uploaded
+          storedCv ? storedCv.revision.cv : parseCvStructure({
+            model,
+            document: extractedCv
+          })
+        ]);
         logs.push(logDebug(`Language detected: ${languageDetection.language} (${languageDetection.languageCode}) with ${languageDetection.confidence * 100}% confidence`));
+        logs.push(logDebug(`CV structure parsed: ${cv.projects.length} projects, ${cv.competencies.length} competencies`));
       } catch (langError) {
-        logs.push(logDebug('Error detecting language:', langError));
+        logs.push(logDebug('Error detecting language or parsing CV structure:', langError));
         return NextResponse.json(
           { 
-            error: 'Failed to detect document language, possible API connection issue', 
-            details: langError instanceof Error ? langError.message : 'Unknown language detection error',
+            error: 'Failed to prepare CV for customization, possible API connection issue', 
+            details: langError instanceof Error ? langError.message : 'Unknown CV preparation error',
             logs,
+            trace: trace.end(langError),
             timeTaken: `${(Date.now() - startTime) / 1000}s` 
           },
           { status: 500, headers: getResponseHeaders() }
@@ -182,8 +175,8 @@ export async function POST(req: NextRequest) {
       try {
         logs.push(logDebug('Starting CV customization process'));
         
-        // Step 1: Analyze customer requirements using direct PDF processing
-        logs.push(logDebug('Analyzing customer requirements with native PDF processing'));
+        // Step 1: Analyze customer requirements from the extracted document text
+        logs.push(logDebug('Analyzing customer requirements'));
         
         // Prepare customer documents as message content with proper typing
         const customerDocsContent = [
@@ -191,11 +184,9 @@ export async function POST(req: NextRequest) {
             type: 'text' as const,
             text: 'Please analyze these customer documents and extract all requirements:'
           } as const,
-          ...customerBuffers.map(file => ({
-            type: 'file' as const,
-            data: file.buffer,
-            mimeType: 'application/pdf',
-            filename: file.name
+          ...customerDocuments.map(document => ({
+            type: 'text' as const,
+            text: formatDocumentForPrompt(document, 'Customer document')
           }))
         ];
         
@@ -205,7 +196,7 @@ export async function POST(req: NextRequest) {
           languageInstruction
         });
         
-        console.log('📋 Customer Requirements Analysis Results:', {
+        logger.info('📋 Customer Requirements Analysis Results', {
           mustHaveCount: customerRequirements.must_have_requirements.length,
           shouldHaveCount: customerRequirements.should_have_requirements.length,
           mustHaveRequirements: customerRequirements.must_have_requirements.map(r => r.requirement),
@@ -218,17 +209,16 @@ export async function POST(req: NextRequest) {
           shouldHaveCount: customerRequirements.should_have_requirements.length
         }));
         
-        // Step 2: Customize the CV profile using direct PDF processing  
+        // Step 2: Customize the CV profile from the extracted CV text  
         logs.push(logDebug('Customizing CV profile'));
         const customizedProfile = await runProfileCustomizationAgent({
           model,
-          cvBuffer,
-          cvFileName: cvFile.name,
+          cv,
           customerRequirements,
           languageInstruction
         });
         
-        console.log('👤 Profile Customization Results:', {
+        logger.info('👤 Profile Customization Results', {
           originalLength: customizedProfile.original_profile.length,
           customizedLength: customizedProfile.customized_profile.length,
           lengthRatio: (customizedProfile.customized_profile.length / customizedProfile.original_profile.length).toFixed(2),
@@ -249,17 +239,16 @@ export async function POST(req: NextRequest) {
         const [customizedCompetencies, customizedProjects] = await Promise.all([
           // Competencies customization
           (async () => {
-            console.log('🎯 Starting competencies customization...');
-            logs.push(logDebug('Customizing competencies with native PDF processing'));
+            logger.info('🎯 Starting competencies customization...');
+            logs.push(logDebug('Customizing competencies'));
             const result = await runCompetenciesCustomizationAgent({
               model,
-              cvBuffer,
-              cvFileName: cvFile.name,
+              cv,
               customerRequirements,
               languageInstruction
             });
             
-            console.log('🎯 Competencies Customization Results:', {
+            logger.info('🎯 Competencies Customization Results', {
               originalCount: result.original_competencies.length,
               relevantCount: result.relevant_competencies.length,
               additionalSuggestionsCount: result.additional_suggested_competencies.length,
@@ -276,17 +265,16 @@ export async function POST(req: NextRequest) {
           
           // Projects customization
           (async () => {
-            console.log('📁 Starting projects customization...');
-            logs.push(logDebug('Customizing project descriptions with native PDF processing'));
+            logger.info('📁 Starting projects customization...');
+            logs.push(logDebug('Customizing project descriptions'));
             const result = await runProjectsCustomizationAgent({
               model,
-              cvBuffer,
-              cvFileName: cvFile.name,
+              cv,
               customerRequirements,
               languageInstruction
             });
             
-            console.log('📁 Projects Customization Results:', {
+            logger.info('📁 Projects Customization Results', {
               projectsCount: result.length,
               projects: result.map(p => ({
                 name: p.project_name,
@@ -316,7 +304,7 @@ export async function POST(req: NextRequest) {
           languageInstruction
         });
         
-        console.log('📊 Evaluation Results:', {
+        logger.info('📊 Evaluation Results', {
           overallScore: evaluation.overall_score,
           requirementCoverageCount: evaluation.requirement_coverage.length,
           requirementCoverage: evaluation.requirement_coverage.map(r => ({
@@ -337,8 +325,7 @@ export async function POST(req: NextRequest) {
         logs.push(logDebug('Validating customized content for factual accuracy'));
         const validation = await runValidationAgent({
           model,
-          cvBuffer,
-          cvFileName: cvFile.name,
+          cv,
           originalProfile: customizedProfile.original_profile,
           customizedProfile: customizedProfile.customized_profile,
           originalCompetencies: customizedCompetencies.original_competencies,
@@ -347,7 +334,7 @@ export async function POST(req: NextRequest) {
           languageInstruction
         });
         
-        console.log('🔍 Validation Results:', {
+        logger.info('🔍 Validation Results', {
           passesValidation: validation.overall_validation.passes_validation,
           confidenceScore: validation.overall_validation.confidence_score,
           profileValid: validation.profile_validation.is_factually_accurate,
@@ -375,11 +362,12 @@ export async function POST(req: NextRequest) {
           evaluation: evaluation,
           validation: validation,
           language_code: languageDetection.languageCode,
+          candidate_name: cv.candidate_name,
           correction: null as any
         };
         
         if (!validation.overall_validation.passes_validation) {
-          console.log('⚠️ Validation failed - starting correction process...');
+          logger.info('⚠️ Validation failed - starting correction process...');
           logs.push(logDebug('Validation failed, running specialized correction agents'));
           
           // Run correction agents in parallel for different sections
@@ -387,11 +375,10 @@ export async function POST(req: NextRequest) {
             // Profile correction (only if profile has issues)
             !validation.profile_validation.is_factually_accurate ? 
               (async () => {
-                console.log('👤🔧 Starting profile correction...');
+                logger.info('👤🔧 Starting profile correction...');
                 const result = await runProfileCorrectionAgent({
                   model,
-                  cvBuffer,
-                  cvFileName: cvFile.name,
+                  cv,
                   originalProfile: customizedProfile.original_profile,
                   customizedProfile: customizedProfile.customized_profile,
                   profileValidation: validation.profile_validation,
@@ -399,7 +386,7 @@ export async function POST(req: NextRequest) {
                   languageInstruction
                 });
                 
-                console.log('👤🔧 Profile Correction Results:', {
+                logger.info('👤🔧 Profile Correction Results', {
                   originalLength: customizedProfile.customized_profile.length,
                   correctedLength: result.corrected_profile.length,
                   changesMade: result.changes_made,
@@ -413,11 +400,10 @@ export async function POST(req: NextRequest) {
             // Competencies correction (only if competencies have issues)
             validation.competencies_validation.unsupported_competencies.length > 0 ?
               (async () => {
-                console.log('🎯🔧 Starting competencies correction...');
+                logger.info('🎯🔧 Starting competencies correction...');
                 const result = await runCompetenciesCorrectionAgent({
                   model,
-                  cvBuffer,
-                  cvFileName: cvFile.name,
+                  cv,
                   originalCompetencies: customizedCompetencies.original_competencies,
                   customizedCompetencies: customizedCompetencies.relevant_competencies,
                   competenciesValidation: validation.competencies_validation,
@@ -425,7 +411,7 @@ export async function POST(req: NextRequest) {
                   languageInstruction
                 });
                 
-                console.log('🎯🔧 Competencies Correction Results:', {
+                logger.info('🎯🔧 Competencies Correction Results', {
                   originalCount: customizedCompetencies.relevant_competencies.length,
                   correctedCount: result.corrected_competencies.length,
                   removedCount: result.removed_competencies.length,
@@ -440,18 +426,17 @@ export async function POST(req: NextRequest) {
             // Projects correction (only if any project has issues)
             validation.projects_validation.some((p: any) => !p.is_factually_accurate) ?
               (async () => {
-                console.log('📁🔧 Starting projects correction...');
+                logger.info('📁🔧 Starting projects correction...');
                 const result = await runProjectsCorrectionAgent({
                   model,
-                  cvBuffer,
-                  cvFileName: cvFile.name,
+                  cv,
                   customizedProjects,
                   projectsValidation: validation.projects_validation,
                   customerRequirements,
                   languageInstruction
                 });
                 
-                console.log('📁🔧 Projects Correction Results:', {
+                logger.info('📁🔧 Projects Correction Results', {
                   totalProjectsCorrected: result.correction_summary.total_projects_corrected,
                   majorCorrections: result.correction_summary.major_corrections,
                   confidenceScore: result.correction_summary.confidence_score,
@@ -466,7 +451,7 @@ export async function POST(req: NextRequest) {
               })() : null
           ]);
           
-          console.log('🔧 Correction Summary:', {
+          logger.info('🔧 Correction Summary', {
             profileCorrected: !!profileCorrection,
             competenciesCorrected: !!competenciesCorrection,
             projectsCorrected: !!projectsCorrection,
@@ -521,6 +506,7 @@ export async function POST(req: NextRequest) {
             },
             corrected_projects: projectsCorrection ? 
               projectsCorrection.corrected_projects.map((correctedProject, index) => ({
+                project_id: correctedProject.project_id,
                 project_name: correctedProject.project_name,
                 corrected_description: correctedProject.corrected_description,
                 parc_analysis: correctedProject.parc_analysis,
@@ -528,6 +514,7 @@ export async function POST(req: NextRequest) {
                 reasoning: correctedProject.reasoning
               })) :
               customizedProjects.map(project => ({
+                project_id: project.project_id,
                 project_name: project.project_name,
                 corrected_description: project.customized_description, // Keep original if no correction needed
                 parc_analysis: project.parc_analysis,
@@ -557,21 +544,25 @@ export async function POST(req: NextRequest) {
             relevant_competencies: correction.corrected_competencies.competencies
           };
           
-          finalResult.customized_projects = correction.corrected_projects.map((correctedProject, index) => ({
-            ...customizedProjects[index],
-            customized_description: correctedProject.corrected_description,
-            parc_analysis: correctedProject.parc_analysis
-          }));
+          // Match corrections to projects by id, since the correction agent may reorder or skip projects
+          finalResult.customized_projects = customizedProjects.map(project => {
+            const correctedProject = correction.corrected_projects.find(cp => cp.project_id === project.project_id);
+            return correctedProject ? {
+              ...project,
+              customized_description: correctedProject.corrected_description,
+              parc_analysis: correctedProject.parc_analysis
+            } : project;
+          });
           
           finalResult.correction = correction;
           
-          console.log('🔧 Final Correction Applied:', {
+          logger.info('🔧 Final Correction Applied', {
             originalProfileLength: customizedProfile.customized_profile.length,
             correctedProfileLength: correction.corrected_profile.profile.length,
             profileChanged: customizedProfile.customized_profile !== correction.corrected_profile.profile,
             profileChangesCount: correction.corrected_profile.changes_made.length,
             competenciesChanged: customizedCompetencies.relevant_competencies.length !== correction.corrected_competencies.competencies.length,
-            projectsChanged: correction.corrected_projects.some((cp, i) => cp.corrected_description !== customizedProjects[i].customized_description)
+            projectsChanged: correction.corrected_projects.some(cp => cp.corrected_description !== customizedProjects.find(p => p.project_id === cp.project_id)?.customized_description)
           });
           
           logs.push(logDebug('Corrections applied to final result', {
@@ -579,14 +570,14 @@ export async function POST(req: NextRequest) {
             competenciesChanged: customizedCompetencies.relevant_competencies.length !== correction.corrected_competencies.competencies.length
           }));
         } else {
-          console.log('✅ Validation passed - no correction needed');
+          logger.info('✅ Validation passed - no correction needed');
           logs.push(logDebug('Validation passed, no correction needed'));
         }
         
         // Prepare the final result
         const result = finalResult;
         
-        console.log('🎉 CV Customization Completed Successfully!', {
+        logger.info('🎉 CV Customization Completed Successfully!', {
           timeTaken: `${(Date.now() - startTime) / 1000}s`,
           hasCorrection: !!result.correction,
           finalOverallScore: result.evaluation.overall_score,
@@ -605,7 +596,9 @@ export async function POST(req: NextRequest) {
           { 
             result: validatedResult,
             logs,
-            timeTaken: `${(Date.now() - startTime) / 1000}s` 
+            trace: trace.end(),
+            timeTaken: `${(Date.now() - startTime) / 1000}s`,
+            usage: usage.summary()
           },
           { headers: getResponseHeaders() }
         );
@@ -616,6 +609,7 @@ export async function POST(req: NextRequest) {
             error: 'Failed to complete CV customization', 
             details: error instanceof Error ? error.message : 'Unknown error during customization',
             logs,
+            trace: trace.end(error),
             timeTaken: `${(Date.now() - startTime) / 1000}s` 
           },
           { status: 500, headers: getResponseHeaders() }
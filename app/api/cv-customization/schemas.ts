@@ -21,6 +21,21 @@ export const customerRequirementsSchema = z.object({
   context_summary: z.string()
 });
 
+/**
+ * Schema for how well one CV covers the customer requirements
+ */
+export const requirementCoverageSchema = z.object({
+  requirements: z.array(
+    z.object({
+      requirement: z.string().describe('The requirement exactly as listed'),
+      coverage: z.enum(['full', 'partial', 'none']),
+      evidence: z.array(z.string()).describe('Short facts from the CV showing the requirement is met, with the project id in brackets when taken from a project'),
+      gap: z.string().describe('What is missing or weak, or an empty string when fully covered')
+    })
+  ),
+  summary: z.string()
+});
+
 /**
  * Schema for CV customization summary
  */
@@ -44,6 +59,7 @@ export const keyCompetenciesSchema = z.object({
  * Schema for project customization
  */
 export const projectCustomizationSchema = z.object({
+  project_id: z.string().describe('The id of the project in the structured CV, e.g. "project-1"'),
   project_name: z.string(),
   original_description: z.string(),
   customized_description: z.string(),
@@ -73,6 +89,7 @@ export const validationResultSchema = z.object({
     reasoning: z.string()
   }),
   projects_validation: z.array(z.object({
+    project_id: z.string(),
     project_name: z.string(),
     is_factually_accurate: z.boolean(),
     fabricated_details: z.array(z.string()),
@@ -103,6 +120,7 @@ export const correctionResultSchema = z.object({
     reasoning: z.string()
   }),
   corrected_projects: z.array(z.object({
+    project_id: z.string(),
     project_name: z.string(),
     corrected_description: z.string(),
     parc_analysis: z.object({
@@ -1,13 +1,7 @@
 import { NextResponse } from 'next/server';
 
-/**
- * Logs a debug message with an optional data object
- */
-export const logDebug = (message: string, data?: any): string => {
-  const logMessage = data ? `${message}: ${JSON.stringify(data)}` : message;
-  console.log(logMessage);
-  return logMessage;
-};
+// Shared logger, see app/api/tracing.ts
+export { logDebug } from '../tracing';
 
 /**
  * Gets environment information for debugging
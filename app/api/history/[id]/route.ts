@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteRun, getRun } from '../history';
+import { getResponseHeaders } from '../../cv-customization/utils';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) => NextResponse.json(
+  { error: `Run not found: ${id}` },
+  { status: 404, headers: getResponseHeaders() }
+);
+
+/**
+ * Get a saved run with its full result
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const run = await getRun(id);
+
+  if (!run) {
+    return notFound(id);
+  }
+
+  return NextResponse.json({ run }, { headers: getResponseHeaders() });
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!(await deleteRun(id))) {
+    return notFound(id);
+  }
+
+  return new NextResponse(null, { status: 204, headers: getResponseHeaders() });
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { compareRuns, getRun, validateComparison } from '../history';
+import { getResponseHeaders } from '../../cv-customization/utils';
+
+/**
+ * Compare two runs of the same consultant with ?from=<runId>&to=<runId>:
+ * score deltas per criterion and which suggestions were resolved, still open or new
+ */
+export async function GET(req: NextRequest) {
+  const fromId = req.nextUrl.searchParams.get('from');
+  const toId = req.nextUrl.searchParams.get('to');
+
+  if (!fromId || !toId) {
+    return NextResponse.json(
+      { error: 'from and to are required' },
+      { status: 400, headers: getResponseHeaders() }
+    );
+  }
+
+  const [from, to] = await Promise.all([getRun(fromId), getRun(toId)]);
+  if (!from || !to) {
+    return NextResponse.json(
+      { error: `Run not found: ${from ? toId : fromId}` },
+      { status: 404, headers: getResponseHeaders() }
+    );
+  }
+
+  const comparisonError = validateComparison(from, to);
+  if (comparisonError) {
+    return NextResponse.json(
+      { error: comparisonError },
+      { status: 400, headers: getResponseHeaders() }
+    );
+  }
+
+  return NextResponse.json({ comparison: compareRuns(from, to) }, { headers: getResponseHeaders() });
+}
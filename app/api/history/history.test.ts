@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { compareRuns, fingerprint, recordAnalysisRun, validateComparison, type HistoryRun, type RunCriterion } from './history';
+import { createChecklist, updateChecklist } from '../checklists/checklists';
+import type { AnalysisResult } from '../cv-analysis-agent/pipeline';
+
+const run = (id: string, createdAt: string, overrides: Partial<HistoryRun> = {}): HistoryRun => ({
+  id,
+  type: 'analysis',
+  consultant: 'Ola Nordmann',
+  consultantKey: 'ola nordmann',
+  fileName: 'ola.pdf',
+  cvFingerprint: fingerprint('CV text'),
+  modelProvider: 'openai',
+  modelName: 'gpt-4o',
+  checklists: { summary: { fingerprint: fingerprint('Summary checklist') } },
+  overallScore: 6,
+  criteria: {},
+  result: {},
+  createdAt,
+  ...overrides
+});
+
+const criterion = (name: string, score: number, suggestions: string[] = []): RunCriterion => ({ name, score, suggestions });
+
+describe('compareRuns', () => {
+  const earlier = run('a', '2026-01-10T10:00:00.000Z', {
+    overallScore: 5.5,
+    criteria: {
+      summary_quality: criterion('Summary Quality', 5, [
+        'Shorten the summary to at most 100 words',
+        'Mention the years of experience'
+      ]),
+      language_quality: criterion('Language Quality', 7)
+    }
+  });
+  const later = run('b', '2026-03-02T10:00:00.000Z', {
+    overallScore: 7.25,
+    cvFingerprint: fingerprint('Updated CV text'),
+    criteria: {
+      summary_quality: criterion('Summary Quality', 8, [
+        'Mention your years of experience.',
+        'Name the most relevant customer'
+      ]),
+      project_descriptions: criterion('Project Descriptions', 6)
+    }
+  });
+
+  it('compares from the earlier to the later run, in either argument order', () => {
+    const comparison = compareRuns(later, earlier);
+
+    expect(comparison.from.id).toBe('a');
+    expect(comparison.to.id).toBe('b');
+    expect(comparison.overallDelta).toBe(1.8);
+    expect(comparison.from).not.toHaveProperty('result');
+  });
+
+  it('reports the score change of each criterion, with null for a criterion missing from a run', () => {
+    expect(compareRuns(earlier, later).criteria).toEqual([
+      { criterion_id: 'summary_quality', criterion_name: 'Summary Quality', from: 5, to: 8, delta: 3 },
+      { criterion_id: 'language_quality', criterion_name: 'Language Quality', from: 7, to: null, delta: null },
+      { criterion_id: 'project_descriptions', criterion_name: 'Project Descriptions', from: null, to: 6, delta: null }
+    ]);
+  });
+
+  it('matches reworded suggestions and splits them into resolved, open and added', () => {
+    expect(compareRuns(earlier, later).suggestions).toEqual([{
+      criterion_id: 'summary_quality',
+      criterion_name: 'Summary Quality',
+      resolved: ['Shorten the summary to at most 100 words'],
+      open: ['Mention the years of experience'],
+      added: ['Name the most relevant customer']
+    }]);
+  });
+
+  it('tells whether the runs used the same CV and checklists', () => {
+    const comparison = compareRuns(earlier, later);
+    expect(comparison.sameCv).toBe(false);
+    expect(comparison.sameChecklists).toBe(true);
+
+    const editedChecklist = run('c', '2026-04-01T10:00:00.000Z', {
+      checklists: { summary: { fingerprint: fingerprint('Edited summary checklist') } }
+    });
+    expect(compareRuns(earlier, editedChecklist).sameChecklists).toBe(false);
+  });
+
+  it('has no overall change when a run has no score', () => {
+    expect(compareRuns(earlier, run('d', '2026-05-01T10:00:00.000Z', { overallScore: null })).overallDelta).toBeNull();
+  });
+});
+
+describe('fingerprint', () => {
+  it('ignores differences in whitespace', () => {
+    expect(fingerprint('Senior  developer\nwith 10 years ')).toBe(fingerprint('Senior developer with 10 years'));
+  });
+});
+
+describe('validateComparison', () => {
+  const first = run('a', '2026-01-10T10:00:00.000Z');
+
+  it('accepts two runs of the same type and consultant', () => {
+    expect(validateComparison(first, run('b', '2026-02-10T10:00:00.000Z'))).toBeNull();
+  });
+
+  it('rejects the same run, runs of different types and runs of different consultants', () => {
+    expect(validateComparison(first, first)).toBe('Select two different runs');
+    expect(validateComparison(first, run('b', '2026-02-10T10:00:00.000Z', { type: 'customization' })))
+      .toMatch(/^Cannot compare/);
+    expect(validateComparison(first, run('b', '2026-02-10T10:00:00.000Z', { consultant: 'Kari', consultantKey: 'kari' })))
+      .toBe('The runs belong to different consultants: Ola Nordmann and Kari');
+  });
+});
+
+describe('recordAnalysisRun', () => {
+  const result = {
+    overall_score: 7,
+    cv: { candidate_name: 'Ola Nordmann' },
+    criterion_evaluations: [{ criterion_id: 'summary_quality', criterion_name: 'Summary Quality', score: 7, suggestions: [] }]
+  } as unknown as AnalysisResult;
+
+  const record = (summary: { id?: string; content: string }) => recordAnalysisRun({
+    document: { fileName: 'ola.pdf', format: 'pdf', text: 'CV text' },
+    modelProvider: 'openai',
+    modelName: 'gpt-4o',
+    result,
+    checklists: { summary, assignments: { id: 'default', content: 'Assignments checklist' } }
+  });
+
+  it('references the version of a stored checklist selected in the checklist selector', async () => {
+    const checklist = await createChecklist({ type: 'summary', name: 'Strict', owner: 'Kari', content: 'Summary checklist' });
+    await updateChecklist(checklist.id, { content: 'Edited summary checklist' });
+
+    const run = await record({ id: `stored:${checklist.id}`, content: 'Summary checklist' });
+    expect(run.checklists?.summary).toEqual({ id: checklist.id, version: 1, fingerprint: fingerprint('Summary checklist') });
+    expect(run.checklists?.assignments).toEqual({ id: 'default', version: undefined, fingerprint: fingerprint('Assignments checklist') });
+  });
+
+  it('has no version when the stored checklist was edited before the run', async () => {
+    const checklist = await createChecklist({ type: 'summary', name: 'Strict', owner: 'Kari', content: 'Summary checklist' });
+
+    const run = await record({ id: `stored:${checklist.id}`, content: 'Summary checklist, edited' });
+    expect(run.checklists?.summary).toMatchObject({ id: checklist.id, version: undefined });
+  });
+});
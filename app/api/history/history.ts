@@ -0,0 +1,344 @@
+import { createHash, randomUUID } from 'crypto';
+import { getStore } from '../storage';
+import { getChecklist } from '../checklists/checklists';
+import type { ModelProvider } from '../../utils/modelOptions';
+import type { ExtractedDocument } from '../../utils/fileParser';
+import type { AnalysisResult } from '../cv-analysis-agent/pipeline';
+import type { CustomizationJob } from '../cv-customization/pipeline';
+import { summarizeCalls, totalsOf, type AgentCall, type UsageSummary, type UsageTotals } from '../usage';
+
+export type RunType = 'analysis' | 'customization';
+
+export const RUN_TYPES: RunType[] = ['analysis', 'customization'];
+
+/**
+ * The checklist a run was scored against. Stored checklists are referenced by id and version,
+ * the fingerprint tells whether two runs used the same checklist text.
+ */
+export interface ChecklistReference {
+  id?: string;
+  // Missing when the text does not match a saved version, e.g. when it was edited before the run
+  version?: number;
+  fingerprint: string;
+}
+
+export interface RunCriterion {
+  name: string;
+  score: number;
+  suggestions: string[];
+}
+
+/**
+ * A completed analysis or customization run, kept so CVs can be compared across review cycles
+ */
+export interface HistoryRun {
+  id: string;
+  type: RunType;
+  // Runs of the same consultant share the key, also when the CV file changed between runs
+  consultant: string;
+  consultantKey: string;
+  fileName: string;
+  // Fingerprint of the CV text, the same for runs on an unchanged CV
+  cvFingerprint: string;
+  modelProvider: ModelProvider;
+  modelName: string;
+  checklists?: { summary?: ChecklistReference; assignments?: ChecklistReference };
+  scoringProfileId?: string;
+  jobId?: string;
+  overallScore: number | null;
+  // Keyed by criterion_id for analyses, customizations have a single requirement coverage entry
+  criteria: Record<string, RunCriterion>;
+  // Agent calls of the run, without those served from the agent cache
+  usage?: AgentCall[];
+  result: any;
+  createdAt: string;
+}
+
+/**
+ * A run without its full result, for listings
+ */
+export type HistoryRunSummary = Omit<HistoryRun, 'result'>;
+
+export interface CriterionDelta {
+  criterion_id: string;
+  criterion_name: string;
+  from: number | null;
+  to: number | null;
+  delta: number | null;
+}
+
+export interface SuggestionChanges {
+  criterion_id: string;
+  criterion_name: string;
+  // Suggestions of the earlier run that the later run no longer makes
+  resolved: string[];
+  open: string[];
+  added: string[];
+}
+
+export interface RunComparison {
+  from: HistoryRunSummary;
+  to: HistoryRunSummary;
+  overallDelta: number | null;
+  criteria: CriterionDelta[];
+  suggestions: SuggestionChanges[];
+  sameCv: boolean;
+  // False when either run was scored against a different checklist text, so score changes may not come from the CV
+  sameChecklists: boolean;
+}
+
+export interface RecordAnalysisRunInput {
+  document: ExtractedDocument;
+  modelProvider: ModelProvider;
+  modelName: string;
+  result: AnalysisResult;
+  scoringProfileId?: string;
+  checklists: {
+    summary: { id?: string; content: string };
+    assignments: { id?: string; content: string };
+  };
+  usage?: AgentCall[];
+}
+
+export interface RunUsageFilter {
+  type?: RunType;
+  consultantKey?: string;
+  // ISO dates, runs created from and before
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Usage over saved runs, with totals per run type and per model besides the per-agent totals
+ */
+export interface RunUsageSummary extends UsageSummary {
+  runs: number;
+  // Runs saved before usage was recorded, or whose agent outputs all came from the cache
+  runsWithoutUsage: number;
+  byType: Partial<Record<RunType, UsageTotals & { runs: number }>>;
+  byModel: (UsageTotals & { provider: string; model: string })[];
+}
+
+const runStore = () => getStore<HistoryRun>('history');
+
+export const fingerprint = (text: string): string =>
+  createHash('sha256').update(text.replace(/\s+/g, ' ').trim()).digest('hex');
+
+const toConsultantKey = (name: string) => name.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// The candidate name from the structured CV, or the file name without extension
+const getConsultant = (candidateName: string | undefined, fileName: string) =>
+  candidateName?.replace(/\s+/g, ' ').trim() || fileName.replace(/\.[^.]+$/, '');
+
+export function toRunSummary({ result, ...run }: HistoryRun): HistoryRunSummary {
+  return run;
+}
+
+// The checklist selector prefixes stored checklist ids to tell them apart from the built-in ones
+const STORED_CHECKLIST_PREFIX = 'stored:';
+
+async function resolveChecklistReference(id: string | undefined, content: string): Promise<ChecklistReference | undefined> {
+  if (!content.trim()) {
+    return undefined;
+  }
+  const storedId = id?.startsWith(STORED_CHECKLIST_PREFIX) ? id.slice(STORED_CHECKLIST_PREFIX.length) : undefined;
+  const checklist = storedId ? await getChecklist(storedId) : null;
+  const version = checklist?.versions.findLast(version => version.content === content)?.version;
+  return { id: storedId || id || undefined, version, fingerprint: fingerprint(content) };
+}
+
+async function saveRun(run: Omit<HistoryRun, 'id' | 'consultantKey' | 'createdAt'>): Promise<HistoryRun> {
+  const stored: HistoryRun = {
+    ...run,
+    id: randomUUID(),
+    consultantKey: toConsultantKey(run.consultant),
+    createdAt: new Date().toISOString()
+  };
+  await runStore().put(stored.id, stored);
+  return stored;
+}
+
+/**
+ * Save a completed enhanced agent analysis
+ */
+export async function recordAnalysisRun(input: RecordAnalysisRunInput): Promise<HistoryRun> {
+  const { document, result } = input;
+  const [summary, assignments] = await Promise.all([
+    resolveChecklistReference(input.checklists.summary.id, input.checklists.summary.content),
+    resolveChecklistReference(input.checklists.assignments.id, input.checklists.assignments.content)
+  ]);
+
+  return saveRun({
+    type: 'analysis',
+    consultant: getConsultant(result.cv?.candidate_name, document.fileName),
+    fileName: document.fileName,
+    cvFingerprint: fingerprint(document.text),
+    modelProvider: input.modelProvider,
+    modelName: input.modelName,
+    checklists: { summary, assignments },
+    scoringProfileId: input.scoringProfileId,
+    usage: input.usage,
+    overallScore: result.overall_score,
+    criteria: Object.fromEntries(result.criterion_evaluations.map(criterion => [
+      criterion.criterion_id,
+      { name: criterion.criterion_name, score: criterion.score, suggestions: criterion.suggestions || [] }
+    ])),
+    result
+  });
+}
+
+/**
+ * Save a completed customization job
+ */
+export async function recordCustomizationRun(job: CustomizationJob): Promise<HistoryRun> {
+  const { input, result } = job;
+  const evaluation = result?.evaluation;
+
+  return saveRun({
+    type: 'customization',
+    consultant: getConsultant(result?.candidate_name, input.cv.fileName),
+    fileName: input.cv.fileName,
+    cvFingerprint: fingerprint(input.cv.text),
+    modelProvider: input.modelProvider,
+    modelName: input.modelName,
+    jobId: job.id,
+    usage: job.usage,
+    overallScore: evaluation?.overall_score ?? null,
+    criteria: evaluation ? {
+      requirement_coverage: {
+        name: 'Requirement coverage',
+        score: evaluation.overall_score,
+        suggestions: evaluation.improvement_suggestions || []
+      }
+    } : {},
+    result
+  });
+}
+
+export async function getRun(id: string): Promise<HistoryRun | null> {
+  return runStore().get(id);
+}
+
+/**
+ * Runs without their results, newest first, optionally for one consultant and type
+ */
+export async function listRuns(filter: { consultantKey?: string; type?: RunType } = {}): Promise<HistoryRunSummary[]> {
+  const runs = await runStore().list();
+  return runs
+    .filter(run => (!filter.consultantKey || run.consultantKey === toConsultantKey(filter.consultantKey))
+      && (!filter.type || run.type === filter.type))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toRunSummary);
+}
+
+export async function deleteRun(id: string): Promise<boolean> {
+  if (!(await getRun(id))) {
+    return false;
+  }
+  await runStore().delete(id);
+  return true;
+}
+
+/**
+ * Token usage and estimated cost over the saved runs. Costs use the current prices, not those at the time of the run.
+ */
+export async function summarizeRunUsage(filter: RunUsageFilter = {}): Promise<RunUsageSummary> {
+  const runs = (await listRuns({ type: filter.type, consultantKey: filter.consultantKey }))
+    .filter(run => (!filter.from || run.createdAt >= filter.from) && (!filter.to || run.createdAt < filter.to));
+  const calls = runs.flatMap(run => run.usage ?? []);
+
+  const byModel = new Map<string, AgentCall[]>();
+  calls.forEach(call => {
+    const key = `${call.provider}/${call.model}`;
+    byModel.set(key, [...(byModel.get(key) ?? []), call]);
+  });
+
+  return {
+    ...summarizeCalls(calls),
+    runs: runs.length,
+    runsWithoutUsage: runs.filter(run => !run.usage?.length).length,
+    byType: Object.fromEntries(RUN_TYPES
+      .map(type => runs.filter(run => run.type === type))
+      .filter(typeRuns => typeRuns.length > 0)
+      .map(typeRuns => [typeRuns[0].type, { runs: typeRuns.length, ...totalsOf(typeRuns.flatMap(run => run.usage ?? [])) }])),
+    byModel: [...byModel.values()].map(group => ({ provider: group[0].provider, model: group[0].model, ...totalsOf(group) }))
+  };
+}
+
+// Words of a suggestion, ignoring case, punctuation and short words
+const suggestionWords = (suggestion: string) =>
+  new Set(suggestion.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 2));
+
+// Suggestions are regenerated on every run, so they match when most of their words are shared
+const SUGGESTION_SIMILARITY = 0.5;
+
+function isSameSuggestion(a: string, b: string): boolean {
+  const wordsA = suggestionWords(a);
+  const wordsB = suggestionWords(b);
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  const total = new Set([...wordsA, ...wordsB]).size;
+  return total > 0 ? shared / total >= SUGGESTION_SIMILARITY : a.trim() === b.trim();
+}
+
+const roundDelta = (from: number | null, to: number | null) =>
+  from === null || to === null ? null : parseFloat((to - from).toFixed(1));
+
+const sameChecklist = (a?: ChecklistReference, b?: ChecklistReference) => a?.fingerprint === b?.fingerprint;
+
+/**
+ * Why two runs cannot be compared, or null when they can
+ */
+export function validateComparison(first: HistoryRun, second: HistoryRun): string | null {
+  if (first.id === second.id) {
+    return 'Select two different runs';
+  }
+  if (first.type !== second.type) {
+    return `Cannot compare a ${first.type} run with a ${second.type} run`;
+  }
+  if (first.consultantKey !== second.consultantKey) {
+    return `The runs belong to different consultants: ${first.consultant} and ${second.consultant}`;
+  }
+  return null;
+}
+
+/**
+ * Compare two runs of the same consultant, from the earlier to the later run
+ */
+export function compareRuns(first: HistoryRun, second: HistoryRun): RunComparison {
+  const [from, to] = first.createdAt <= second.createdAt ? [first, second] : [second, first];
+  const criterionIds = [...new Set([...Object.keys(from.criteria), ...Object.keys(to.criteria)])];
+
+  return {
+    from: toRunSummary(from),
+    to: toRunSummary(to),
+    overallDelta: roundDelta(from.overallScore, to.overallScore),
+    criteria: criterionIds.map(id => {
+      const fromScore = from.criteria[id]?.score ?? null;
+      const toScore = to.criteria[id]?.score ?? null;
+      return {
+        criterion_id: id,
+        criterion_name: (to.criteria[id] || from.criteria[id]).name,
+        from: fromScore,
+        to: toScore,
+        delta: roundDelta(fromScore, toScore)
+      };
+    }),
+    // Criteria that failed in either run have nothing to compare
+    suggestions: criterionIds
+      .filter(id => from.criteria[id] && to.criteria[id])
+      .map(id => {
+        const before = from.criteria[id].suggestions;
+        const after = to.criteria[id].suggestions;
+        return {
+          criterion_id: id,
+          criterion_name: to.criteria[id].name,
+          resolved: before.filter(suggestion => !after.some(other => isSameSuggestion(suggestion, other))),
+          open: before.filter(suggestion => after.some(other => isSameSuggestion(suggestion, other))),
+          added: after.filter(suggestion => !before.some(other => isSameSuggestion(suggestion, other)))
+        };
+      }),
+    sameCv: from.cvFingerprint === to.cvFingerprint,
+    sameChecklists: sameChecklist(from.checklists?.summary, to.checklists?.summary)
+      && sameChecklist(from.checklists?.assignments, to.checklists?.assignments)
+  };
+}
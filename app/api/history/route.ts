@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listRuns, RUN_TYPES, type RunType } from './history';
+import { getResponseHeaders, logDebug } from '../cv-customization/utils';
+
+/**
+ * List saved analysis and customization runs without their results, newest first.
+ * Filter with ?consultant=<name> and ?type=analysis|customization
+ */
+export async function GET(req: NextRequest) {
+  const consultant = req.nextUrl.searchParams.get('consultant');
+  const type = req.nextUrl.searchParams.get('type');
+
+  if (type && !RUN_TYPES.includes(type as RunType)) {
+    return NextResponse.json(
+      { error: `type must be one of: ${RUN_TYPES.join(', ')}` },
+      { status: 400, headers: getResponseHeaders() }
+    );
+  }
+
+  try {
+    const runs = await listRuns({ consultantKey: consultant || undefined, type: (type as RunType) || undefined });
+    return NextResponse.json({ runs }, { headers: getResponseHeaders() });
+  } catch (error) {
+    logDebug('Error listing history:', error);
+    return NextResponse.json(
+      { error: 'Error listing history', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
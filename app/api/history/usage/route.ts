@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { summarizeRunUsage, RUN_TYPES, type RunType } from '../history';
+import { getResponseHeaders, logDebug } from '../../cv-customization/utils';
+
+const toIsoDate = (value: string | null) => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * Token usage and estimated cost over saved runs, per agent, per model and per run type.
+ * Filter with ?type=analysis|customization, ?consultant=<name> and ?from= and ?to= dates
+ */
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const type = params.get('type');
+  const from = toIsoDate(params.get('from'));
+  const to = toIsoDate(params.get('to'));
+
+  if (type && !RUN_TYPES.includes(type as RunType)) {
+    return NextResponse.json(
+      { error: `type must be one of: ${RUN_TYPES.join(', ')}` },
+      { status: 400, headers: getResponseHeaders() }
+    );
+  }
+  if (from === null || to === null) {
+    return NextResponse.json(
+      { error: 'from and to must be dates, e.g. 2025-01-31' },
+      { status: 400, headers: getResponseHeaders() }
+    );
+  }
+
+  try {
+    const usage = await summarizeRunUsage({
+      type: (type as RunType) || undefined,
+      consultantKey: params.get('consultant') || undefined,
+      from,
+      to
+    });
+    return NextResponse.json({ usage }, { headers: getResponseHeaders() });
+  } catch (error) {
+    logDebug('Error summarizing usage:', error);
+    return NextResponse.json(
+      { error: 'Error summarizing usage', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, isJobRunning, toJobStatus } from '../jobs';
+import { getResponseHeaders } from '../../cv-customization/utils';
+
+/**
+ * Poll the status and partial results of a job
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = await getJob(id);
+
+  if (!job) {
+    return NextResponse.json(
+      { error: `Job not found: ${id}` },
+      { status: 404, headers: getResponseHeaders() }
+    );
+  }
+
+  return NextResponse.json(
+    { ...toJobStatus(job), isRunning: isJobRunning(id) },
+    { headers: getResponseHeaders() }
+  );
+}
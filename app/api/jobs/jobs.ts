@@ -0,0 +1,190 @@
+import { randomUUID } from 'crypto';
+import { getStore } from '../storage';
+import { summarizeCalls, type AgentCall } from '../usage';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * A long-running job whose stage outputs are persisted as they complete,
+ * so the job can be resumed from the last completed stage
+ */
+export interface Job<TInput = unknown, TStages extends object = Record<string, unknown>, TResult = unknown> {
+  id: string;
+  type: string;
+  status: JobStatus;
+  input: TInput;
+  stages: Partial<TStages>;
+  result?: TResult;
+  error?: string;
+  // Agent calls made for the completed stages, kept across resumes
+  usage?: AgentCall[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+const jobStore = () => getStore<Job<any, any, any>>('jobs');
+
+export async function createJob<TInput>(type: string, input: TInput): Promise<Job<TInput>> {
+  const now = new Date().toISOString();
+  const job: Job<TInput> = {
+    id: randomUUID(),
+    type,
+    status: 'pending',
+    input,
+    stages: {},
+    createdAt: now,
+    updatedAt: now
+  };
+  await jobStore().put(job.id, job);
+  return job;
+}
+
+export async function getJob<T extends Job<any, any, any> = Job>(id: string): Promise<T | null> {
+  return (await jobStore().get(id)) as T | null;
+}
+
+// Updates to the same job are chained, so parallel stages do not overwrite each other
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+export async function updateJob<T extends Job<any, any, any>>(id: string, update: (job: T) => T): Promise<T> {
+  const previous = pendingUpdates.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(async () => {
+    const job = await getJob<T>(id);
+    if (!job) {
+      throw new Error(`Job not found: ${id}`);
+    }
+    const updated = { ...update(job), updatedAt: new Date().toISOString() };
+    await jobStore().put(id, updated);
+    return updated;
+  });
+
+  pendingUpdates.set(id, next);
+  try {
+    return await next;
+  } finally {
+    if (pendingUpdates.get(id) === next) {
+      pendingUpdates.delete(id);
+    }
+  }
+}
+
+/**
+ * Persist the output of a single stage, with the agent calls it made
+ */
+export function saveJobStage<TStages extends object>(
+  id: string,
+  stage: keyof TStages,
+  output: TStages[keyof TStages],
+  usage: AgentCall[] = []
+) {
+  return updateJob<Job<unknown, TStages>>(id, job => ({
+    ...job,
+    stages: { ...job.stages, [stage]: output },
+    ...(usage.length > 0 ? { usage: [...(job.usage ?? []), ...usage] } : {})
+  }));
+}
+
+/**
+ * Public view of a job for the polling endpoint - the input documents are left out
+ */
+export function toJobStatus(job: Job<any, any, any>) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    completedStages: Object.keys(job.stages),
+    stages: job.stages,
+    result: job.result,
+    error: job.error,
+    usage: job.usage ? summarizeCalls(job.usage) : undefined,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt
+  };
+}
+
+/**
+ * Run a task for each item with at most `limit` tasks at a time, starting them in order
+ */
+export async function runWithConcurrency<T>(items: T[], limit: number, run: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await run(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+}
+
+type JobListener = (event: unknown) => void;
+
+interface RunningJob {
+  events: unknown[];
+  listeners: Set<JobListener>;
+  done: Promise<void>;
+}
+
+// Jobs currently executing in this server process, with the events emitted so far
+const runningJobs: Map<string, RunningJob> =
+  (globalThis as any).__cvCopilotRunningJobs ?? ((globalThis as any).__cvCopilotRunningJobs = new Map());
+
+/**
+ * Execute a job in the background unless it is already running in this process.
+ * Events are fanned out to every watcher, and execution continues when watchers disconnect.
+ */
+export function runJob(id: string, execute: (emit: (event: unknown) => void) => Promise<void>) {
+  if (runningJobs.has(id)) {
+    return;
+  }
+
+  const running: RunningJob = {
+    events: [],
+    listeners: new Set(),
+    done: Promise.resolve()
+  };
+
+  const emit = (event: unknown) => {
+    running.events.push(event);
+    running.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch {
+        // The watcher has gone away (e.g. the client disconnected), keep the job running
+        running.listeners.delete(listener);
+      }
+    });
+  };
+
+  runningJobs.set(id, running);
+  running.done = execute(emit)
+    .catch(() => undefined)
+    .finally(() => {
+      runningJobs.delete(id);
+    });
+}
+
+/**
+ * Receive the events of a running job, starting with those already emitted.
+ * Resolves when the job stops running.
+ */
+export async function watchJob(id: string, listener: JobListener): Promise<void> {
+  const running = runningJobs.get(id);
+  if (!running) {
+    return;
+  }
+
+  try {
+    running.events.forEach(event => listener(event));
+  } catch {
+    return;
+  }
+  running.listeners.add(listener);
+  try {
+    await running.done;
+  } finally {
+    running.listeners.delete(listener);
+  }
+}
+
+export function isJobRunning(id: string): boolean {
+  return runningJobs.has(id);
+}
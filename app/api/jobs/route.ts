@@ -0,0 +1,42 @@
+// Node.js runtime is needed for server-side PDF/DOCX text extraction
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createCustomizationJob, startCustomizationJob } from '../cv-customization/pipeline';
+import { getResponseHeaders, logDebug } from '../cv-customization/utils';
+
+export const maxDuration = 230;
+
+/**
+ * Create a CV customization job and start it in the background.
+ * Follow its progress with GET /api/cv-customization/stream?jobId= or poll GET /api/jobs/:id.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const created = await createCustomizationJob(formData);
+
+    if (!created.job) {
+      return NextResponse.json(
+        { error: created.error, step: created.step },
+        { status: 400, headers: getResponseHeaders() }
+      );
+    }
+
+    startCustomizationJob(created.job.id);
+
+    return NextResponse.json(
+      { jobId: created.job.id, status: created.job.status },
+      { status: 201, headers: getResponseHeaders() }
+    );
+  } catch (error) {
+    logDebug('Error creating job:', error);
+    return NextResponse.json(
+      {
+        error: 'Error processing request form data',
+        details: error instanceof Error ? error.message : 'Unknown form processing error'
+      },
+      { status: 500, headers: getResponseHeaders() }
+    );
+  }
+}
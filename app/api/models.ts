@@ -0,0 +1,91 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createMistral } from '@ai-sdk/mistral';
+import type { LanguageModel } from 'ai';
+import { config, isProviderAvailable } from './config';
+import { modelOptions, type ModelPrice, type ModelProvider } from '../utils/modelOptions';
+
+export interface ModelCapabilities {
+  pdfInput: boolean;
+  structuredOutput: boolean;
+}
+
+// Fallback capabilities for models that are not listed in modelOptions
+const providerDefaults: Record<ModelProvider, ModelCapabilities> = {
+  openai: { pdfInput: true, structuredOutput: true },
+  anthropic: { pdfInput: true, structuredOutput: true },
+  google: { pdfInput: true, structuredOutput: true },
+  mistral: { pdfInput: false, structuredOutput: true },
+};
+
+/**
+ * Get the capabilities of a model, based on the model catalogue with provider defaults as fallback
+ */
+export function getModelCapabilities(provider: ModelProvider, modelName: string): ModelCapabilities {
+  const defaults = providerDefaults[provider];
+  const option = modelOptions.find(o => o.provider === provider && o.model === modelName);
+
+  return {
+    pdfInput: option?.supportsPDF ?? defaults.pdfInput,
+    structuredOutput: option?.supportsStructuredOutput ?? defaults.structuredOutput,
+  };
+}
+
+/**
+ * Price per million tokens of a model, from MODEL_PRICES or the model catalogue, or null when unknown
+ */
+export function getModelPrice(provider: string, modelName: string): ModelPrice | null {
+  return config.usage.prices[`${provider}/${modelName}`]
+    ?? modelOptions.find(o => o.provider === provider && o.model === modelName)?.price
+    ?? null;
+}
+
+/**
+ * Check that a provider is configured and that the model has the capabilities a route needs.
+ * Returns an error message, or null when the model can be used.
+ */
+export function checkModelSupport(
+  provider: ModelProvider,
+  modelName: string,
+  required: Partial<ModelCapabilities> = {}
+): string | null {
+  if (!(provider in providerDefaults)) {
+    return `Unknown model provider: ${provider}`;
+  }
+  if (!modelName) {
+    return 'No model name provided';
+  }
+  if (!isProviderAvailable(provider)) {
+    return `${provider} API key is not configured`;
+  }
+
+  const capabilities = getModelCapabilities(provider, modelName);
+  if (required.pdfInput && !capabilities.pdfInput) {
+    return `${provider}/${modelName} does not support PDF input`;
+  }
+  if (required.structuredOutput && !capabilities.structuredOutput) {
+    return `${provider}/${modelName} does not support structured output`;
+  }
+
+  return null;
+}
+
+/**
+ * Create a language model for the given provider using the API keys from config
+ */
+export function resolveModel(provider: ModelProvider, modelName: string): LanguageModel {
+  switch (provider) {
+    case 'openai':
+      // The Responses API accepts PDF file parts for all OpenAI models
+      return createOpenAI({ apiKey: config.openai.apiKey }).responses(modelName);
+    case 'anthropic':
+      return createAnthropic({ apiKey: config.anthropic.apiKey })(modelName);
+    case 'google':
+      return createGoogleGenerativeAI({ apiKey: config.google.apiKey })(modelName);
+    case 'mistral':
+      return createMistral({ apiKey: config.mistral.apiKey })(modelName);
+    default:
+      throw new Error(`Unsupported model provider: ${provider}`);
+  }
+}
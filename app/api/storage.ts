@@ -0,0 +1,118 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from './config';
+
+/**
+ * A collection of JSON records keyed by id
+ */
+export interface Store<T> {
+  get(id: string): Promise<T | null>;
+  put(id: string, value: T): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<T[]>;
+}
+
+// Ids become file names in the file backend, so only allow a safe character set
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export function isValidStoreId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+function assertValidId(id: string) {
+  if (!isValidStoreId(id)) {
+    throw new Error(`Invalid store id: ${id}`);
+  }
+}
+
+// Keep in-memory data on globalThis so it survives module reloads in development
+const memoryCollections: Map<string, Map<string, unknown>> =
+  (globalThis as any).__cvCopilotMemoryStore ?? ((globalThis as any).__cvCopilotMemoryStore = new Map());
+
+function createMemoryStore<T>(collection: string): Store<T> {
+  if (!memoryCollections.has(collection)) {
+    memoryCollections.set(collection, new Map());
+  }
+  const records = memoryCollections.get(collection) as Map<string, T>;
+
+  // Return copies so callers cannot mutate stored records by accident
+  const clone = (value: T): T => JSON.parse(JSON.stringify(value));
+
+  return {
+    async get(id) {
+      const value = records.get(id);
+      return value === undefined ? null : clone(value);
+    },
+    async put(id, value) {
+      assertValidId(id);
+      records.set(id, clone(value));
+    },
+    async delete(id) {
+      records.delete(id);
+    },
+    async list() {
+      return Array.from(records.values()).map(clone);
+    }
+  };
+}
+
+function createFileStore<T>(collection: string, baseDir: string): Store<T> {
+  const dir = path.resolve(baseDir, collection);
+  const filePath = (id: string) => path.join(dir, `${id}.json`);
+
+  return {
+    async get(id) {
+      if (!isValidStoreId(id)) return null;
+      try {
+        return JSON.parse(await fs.readFile(filePath(id), 'utf8')) as T;
+      } catch (e: any) {
+        if (e?.code === 'ENOENT') return null;
+        throw e;
+      }
+    },
+    async put(id, value) {
+      assertValidId(id);
+      await fs.mkdir(dir, { recursive: true });
+      // Write to a temporary file first so readers never see a partially written record
+      const tempPath = `${filePath(id)}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(value, null, 2), 'utf8');
+      await fs.rename(tempPath, filePath(id));
+    },
+    async delete(id) {
+      if (!isValidStoreId(id)) return;
+      await fs.rm(filePath(id), { force: true });
+    },
+    async list() {
+      let files: string[];
+      try {
+        files = await fs.readdir(dir);
+      } catch (e: any) {
+        if (e?.code === 'ENOENT') return [];
+        throw e;
+      }
+      const records = await Promise.all(
+        files
+          .filter(file => file.endsWith('.json'))
+          .map(async file => JSON.parse(await fs.readFile(path.join(dir, file), 'utf8')) as T)
+      );
+      return records;
+    }
+  };
+}
+
+export type StorageBackend = 'memory' | 'file';
+
+const stores = new Map<string, Store<unknown>>();
+
+/**
+ * Get the store for a collection, using the backend configured with STORAGE_BACKEND unless another is given
+ */
+export function getStore<T>(collection: string, backend: StorageBackend = config.storage.backend): Store<T> {
+  const key = `${backend}:${collection}`;
+  if (!stores.has(key)) {
+    stores.set(key, backend === 'file'
+      ? createFileStore(collection, config.storage.dir)
+      : createMemoryStore(collection));
+  }
+  return stores.get(key) as Store<T>;
+}
@@ -0,0 +1,240 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { config, type LogLevel } from './config';
+
+export type SpanKind = 'request' | 'stage' | 'agent';
+
+export type SpanStatus = 'running' | 'ok' | 'error';
+
+/**
+ * A timed unit of work in a request: the request itself, a pipeline stage or a single agent call
+ */
+export interface Span {
+  id: string;
+  parentId?: string;
+  name: string;
+  kind: SpanKind;
+  startedAt: string;
+  endedAt?: string;
+  durationMs?: number;
+  status: SpanStatus;
+  // Tokens of the agent call, only on agent spans
+  usage?: { promptTokens: number; completionTokens: number };
+  error?: string;
+  attributes: Record<string, string | number | boolean>;
+}
+
+export interface TraceNode extends Span {
+  children: TraceNode[];
+}
+
+/**
+ * The spans of one request, with the request span as the root
+ */
+export interface Trace {
+  requestId: string;
+  spans: Span[];
+  // Run the request in the trace, so the spans and logs of its agents belong to it
+  run<T>(run: () => Promise<T>): Promise<T>;
+  // End the request span and return the tree
+  end(error?: unknown): TraceNode;
+  tree(): TraceNode;
+}
+
+interface TraceContext {
+  trace: Trace;
+  span: Span;
+}
+
+const activeContext = new AsyncLocalStorage<TraceContext>();
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const isEnabled = (level: LogLevel) =>
+  config.logging.level !== 'silent' && LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(config.logging.level);
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// Errors have no enumerable properties, so JSON.stringify would write them as {}
+const serializable = (data: unknown) =>
+  data instanceof Error ? { name: data.name, message: data.message, stack: data.stack } : data;
+
+let sinkWrites: Promise<void> = Promise.resolve();
+let sinkReady: Promise<unknown> | null = null;
+
+/**
+ * Append a record to the JSON-lines file of LOG_FILE, in the order records are written
+ */
+function writeToSink(record: Record<string, unknown>) {
+  const file = config.logging.file;
+  if (!file) return;
+
+  sinkReady ??= mkdir(dirname(file), { recursive: true });
+  const line = `${JSON.stringify(record)}\n`;
+  sinkWrites = sinkWrites
+    .then(() => sinkReady)
+    .then(() => appendFile(file, line))
+    .catch(error => console.error(`Failed to write to ${file}:`, error));
+}
+
+/**
+ * Log a message with the request and span it was logged in. Returns the message as a text line for the debug logs of a response.
+ */
+export function log(level: LogLevel, message: string, data?: unknown): string {
+  const time = new Date().toISOString();
+  const context = activeContext.getStore();
+  // The text line is returned to clients, so errors are written without their stack
+  const details = data instanceof Error ? data.message : JSON.stringify(data);
+  const text = `[${time}] ${message}${data !== undefined ? `: ${details}` : ''}`;
+
+  if (isEnabled(level)) {
+    const record = {
+      type: 'log',
+      time,
+      level,
+      requestId: context?.trace.requestId,
+      spanId: context?.span.id,
+      message,
+      ...(data !== undefined ? { data: serializable(data) } : {})
+    };
+    if (config.logging.format === 'json') {
+      console.log(JSON.stringify(record));
+    } else {
+      (level === 'error' ? console.error : level === 'warn' ? console.warn : console.log)(
+        context ? `[${context.trace.requestId.slice(0, 8)}] ${text}` : text
+      );
+    }
+    writeToSink(record);
+  }
+  return text;
+}
+
+export const logger = {
+  debug: (message: string, data?: unknown) => log('debug', message, data),
+  info: (message: string, data?: unknown) => log('info', message, data),
+  warn: (message: string, data?: unknown) => log('warn', message, data),
+  error: (message: string, data?: unknown) => log('error', message, data)
+};
+
+/**
+ * Log a debug message. Messages with an error as data are logged at error level.
+ */
+export function logDebug(message: string, data?: unknown): string {
+  return log(data instanceof Error ? 'error' : 'debug', message, data);
+}
+
+function startSpan(name: string, kind: SpanKind, parent: Span | undefined, attributes: Span['attributes']): Span {
+  return {
+    id: randomUUID().slice(0, 16),
+    ...(parent ? { parentId: parent.id } : {}),
+    name,
+    kind,
+    startedAt: new Date().toISOString(),
+    status: 'running',
+    attributes
+  };
+}
+
+function endSpan(trace: Trace, span: Span, error?: unknown) {
+  if (span.status !== 'running') return;
+
+  if (error !== undefined) {
+    span.error = errorMessage(error);
+  }
+  span.status = span.error ? 'error' : 'ok';
+  span.endedAt = new Date().toISOString();
+  span.durationMs = Date.parse(span.endedAt) - Date.parse(span.startedAt);
+
+  // Logged in the span, also when a request span is ended after the request has run
+  activeContext.run({ trace, span }, () =>
+    log(span.error ? 'warn' : 'debug', `[span] ${span.kind} ${span.name} ${span.status} in ${span.durationMs}ms`));
+  writeToSink({ type: 'span', requestId: trace.requestId, ...span });
+}
+
+function buildTree(spans: Span[], root: Span): TraceNode {
+  const now = Date.now();
+  const toNode = (span: Span): TraceNode => ({
+    ...span,
+    // Running spans report how long they have been running so far
+    durationMs: span.durationMs ?? now - Date.parse(span.startedAt),
+    children: spans.filter(child => child.parentId === span.id).map(toNode)
+  });
+  return toNode(root);
+}
+
+/**
+ * Start tracing a request. The request id defaults to a new random id.
+ */
+export function createTrace(name: string, attributes: Span['attributes'] = {}, requestId: string = randomUUID()): Trace {
+  const root = startSpan(name, 'request', undefined, attributes);
+  const trace: Trace = {
+    requestId,
+    spans: [root],
+    run: run => activeContext.run({ trace, span: root }, run),
+    end: error => {
+      endSpan(trace, root, error);
+      return trace.tree();
+    },
+    tree: () => buildTree(trace.spans, root)
+  };
+  return trace;
+}
+
+/**
+ * Trace a route handler and return the request id in the X-Request-Id header
+ */
+export async function traceRequest<R extends Response>(name: string, handler: (trace: Trace) => Promise<R>): Promise<R> {
+  const trace = createTrace(name);
+  const response = await trace.run(() => handler(trace));
+  trace.end();
+  response.headers.set('X-Request-Id', trace.requestId);
+  return response;
+}
+
+/**
+ * Run part of a request in a child span of the current span. Outside a trace, run is called without a span.
+ * Set `error` on the span to mark work that reports failures instead of throwing.
+ */
+export async function withSpan<T>(
+  name: string,
+  kind: SpanKind,
+  run: (span?: Span) => Promise<T>,
+  attributes: Span['attributes'] = {}
+): Promise<T> {
+  const context = activeContext.getStore();
+  if (!context) {
+    return run();
+  }
+
+  const span = startSpan(name, kind, context.span, attributes);
+  context.trace.spans.push(span);
+  try {
+    const result = await activeContext.run({ trace: context.trace, span }, () => run(span));
+    endSpan(context.trace, span);
+    return result;
+  } catch (error) {
+    endSpan(context.trace, span, error);
+    throw error;
+  }
+}
+
+/**
+ * Add the tokens of an agent call to the current span
+ */
+export function recordSpanUsage(promptTokens: number, completionTokens: number) {
+  const span = activeContext.getStore()?.span;
+  if (!span) return;
+  span.usage = {
+    promptTokens: (span.usage?.promptTokens ?? 0) + promptTokens,
+    completionTokens: (span.usage?.completionTokens ?? 0) + completionTokens
+  };
+}
+
+/**
+ * Id of the request being traced, to correlate responses with the logs
+ */
+export function getRequestId(): string | undefined {
+  return activeContext.getStore()?.trace.requestId;
+}
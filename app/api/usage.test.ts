@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { generateText } from 'ai';
+import { MockLanguageModelV1 } from 'ai/test';
+import { config } from './config';
+import { createUsageTracker, summarizeCalls, totalsOf, withUsage, type AgentCall } from './usage';
+
+const call = (agent: string, model: string, promptTokens: number, completionTokens: number, provider = 'openai'): AgentCall => ({
+  agent,
+  provider,
+  model,
+  promptTokens,
+  completionTokens,
+  latencyMs: 100
+});
+
+// A model that answers with a fixed text and reports the given token counts
+const modelOf = (promptTokens: number, completionTokens: number) => new MockLanguageModelV1({
+  provider: 'openai.chat',
+  modelId: 'gpt-4o',
+  doGenerate: async () => ({
+    text: 'Done',
+    finishReason: 'stop',
+    usage: { promptTokens, completionTokens },
+    rawCall: { rawPrompt: null, rawSettings: {} }
+  })
+});
+
+const generate = (agent: string, model: MockLanguageModelV1) =>
+  withUsage(agent, model, () => generateText({ model, prompt: 'Evaluate the CV' }));
+
+const prices = config.usage.prices;
+
+afterEach(() => {
+  config.usage.prices = prices;
+});
+
+describe('totalsOf', () => {
+  it('sums the tokens, latency and estimated cost of the calls', () => {
+    expect(totalsOf([call('summary_quality', 'gpt-4o', 1000, 200), call('language_quality', 'o4-mini', 2000, 500)])).toEqual({
+      calls: 2,
+      promptTokens: 3000,
+      completionTokens: 700,
+      totalTokens: 3700,
+      latencyMs: 200,
+      // gpt-4o: 1000 * 2.5 + 200 * 10, o4-mini: 2000 * 1.1 + 500 * 4.4, per million tokens
+      estimatedCost: 0.0089
+    });
+  });
+
+  it('leaves calls to models without a price out of the estimate', () => {
+    expect(totalsOf([call('summary_quality', 'gpt-4o', 1000, 200), call('summary_quality', 'local-model', 5000, 5000)]).estimatedCost)
+      .toBe(0.0045);
+    expect(totalsOf([call('summary_quality', 'local-model', 5000, 5000)]).estimatedCost).toBeNull();
+  });
+
+  it('uses the price overrides before the model catalogue', () => {
+    config.usage.prices = { 'openai/gpt-4o': { input: 5, output: 20 } };
+
+    expect(totalsOf([call('summary_quality', 'gpt-4o', 1000, 200)]).estimatedCost).toBe(0.009);
+  });
+
+  it('is zero without calls', () => {
+    expect(totalsOf([])).toEqual({
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      latencyMs: 0,
+      estimatedCost: null
+    });
+  });
+});
+
+describe('summarizeCalls', () => {
+  it('groups the calls per agent and model, in the order the agents were first called', () => {
+    const summary = summarizeCalls([
+      call('language_detection', 'gpt-4o', 100, 10),
+      call('summary_quality', 'gpt-4o', 1000, 200),
+      call('language_detection', 'gpt-4o', 100, 10),
+      call('summary_quality', 'claude-3-7-sonnet-20250219', 1000, 200, 'anthropic')
+    ]);
+
+    expect(summary.agents.map(agent => [agent.agent, agent.provider, agent.calls, agent.totalTokens])).toEqual([
+      ['language_detection', 'openai', 2, 220],
+      ['summary_quality', 'openai', 1, 1200],
+      ['summary_quality', 'anthropic', 1, 1200]
+    ]);
+    expect(summary.total.calls).toBe(4);
+    expect(summary.currency).toBe(config.usage.currency);
+  });
+});
+
+describe('createUsageTracker', () => {
+  it('records the calls made while tracking, with the provider name and model', async () => {
+    const usage = createUsageTracker();
+    await usage.track(() => generate('summary_quality', modelOf(120, 30)));
+    await generate('untracked', modelOf(1, 1));
+
+    expect(usage.calls).toEqual([
+      { agent: 'summary_quality', provider: 'openai', model: 'gpt-4o', promptTokens: 120, completionTokens: 30, latencyMs: expect.any(Number) }
+    ]);
+  });
+
+  it('records the calls of parallel agents', async () => {
+    const usage = createUsageTracker();
+    await usage.track(() => Promise.all([
+      generate('summary_quality', modelOf(100, 10)),
+      generate('language_quality', modelOf(200, 20))
+    ]));
+
+    expect(usage.summary().total).toMatchObject({ calls: 2, promptTokens: 300, completionTokens: 30 });
+  });
+
+  it('records the calls of a stage tracker in the tracker of its run as well', async () => {
+    const run = createUsageTracker();
+    const stage = createUsageTracker();
+    await run.track(async () => {
+      await generate('language_detection', modelOf(50, 5));
+      await stage.track(() => generate('profile_customization', modelOf(400, 80)));
+    });
+
+    expect(run.calls.map(c => c.agent)).toEqual(['language_detection', 'profile_customization']);
+    expect(stage.calls.map(c => c.agent)).toEqual(['profile_customization']);
+  });
+
+  it('counts tokens a provider does not report as zero', async () => {
+    const usage = createUsageTracker();
+    await usage.track(() => generate('summary_quality', modelOf(NaN, NaN)));
+
+    expect(usage.calls[0]).toMatchObject({ promptTokens: 0, completionTokens: 0 });
+  });
+
+  it('records nothing for a failed call', async () => {
+    const usage = createUsageTracker();
+    const failing = new MockLanguageModelV1({
+      doGenerate: async () => {
+        throw new Error('Rate limited');
+      }
+    });
+
+    await expect(usage.track(() => withUsage('summary_quality', failing, () =>
+      generateText({ model: failing, prompt: 'Evaluate the CV', maxRetries: 0 })))).rejects.toThrow('Rate limited');
+    expect(usage.calls).toEqual([]);
+  });
+});
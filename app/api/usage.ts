@@ -0,0 +1,146 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { LanguageModel, LanguageModelUsage } from 'ai';
+import { config } from './config';
+import { getModelPrice } from './models';
+import { recordSpanUsage, withSpan } from './tracing';
+
+/**
+ * Tokens and latency of a single agent call
+ */
+export interface AgentCall {
+  agent: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Sum of the call latencies, agents running in parallel count separately
+  latencyMs: number;
+  // Null when none of the models has a price, calls to models without a price are left out
+  estimatedCost: number | null;
+}
+
+export interface AgentUsage extends UsageTotals {
+  agent: string;
+  provider: string;
+  model: string;
+}
+
+/**
+ * The `usage` block of a response: totals per agent and model, and for the whole request
+ */
+export interface UsageSummary {
+  agents: AgentUsage[];
+  total: UsageTotals;
+  currency: string;
+}
+
+export interface UsageTracker {
+  calls: AgentCall[];
+  // Record the agent calls made while run is executing, also those of parallel agents it starts
+  track<T>(run: () => Promise<T>): Promise<T>;
+  summary(): UsageSummary;
+}
+
+// Trackers of the current request, the innermost last, so a stage tracker also records into its run's tracker
+const activeTrackers = new AsyncLocalStorage<UsageTracker[]>();
+
+// Providers report missing counts as NaN
+const tokens = (count: number | undefined) => Number.isFinite(count) ? count as number : 0;
+
+// Model providers are named like "openai.responses", the price table uses the provider name only
+const providerName = (model: LanguageModel) => model.provider.split('.')[0];
+
+export function createUsageTracker(calls: AgentCall[] = []): UsageTracker {
+  const tracker: UsageTracker = {
+    calls,
+    track: run => activeTrackers.run([...(activeTrackers.getStore() ?? []), tracker], run),
+    summary: () => summarizeCalls(tracker.calls)
+  };
+  return tracker;
+}
+
+/**
+ * Record an agent call in every tracker of the current request, and its tokens on the current span
+ */
+export function recordUsage(agent: string, model: LanguageModel, usage: LanguageModelUsage, latencyMs: number) {
+  const call: AgentCall = {
+    agent,
+    provider: providerName(model),
+    model: model.modelId,
+    promptTokens: tokens(usage.promptTokens),
+    completionTokens: tokens(usage.completionTokens),
+    latencyMs
+  };
+  activeTrackers.getStore()?.forEach(tracker => tracker.calls.push(call));
+  recordSpanUsage(call.promptTokens, call.completionTokens);
+}
+
+/**
+ * Run an AI SDK call in an agent span and record its token usage and latency for the agent
+ */
+export async function withUsage<T extends { usage: LanguageModelUsage }>(
+  agent: string,
+  model: LanguageModel,
+  call: () => Promise<T>
+): Promise<T> {
+  return withSpan(agent, 'agent', async () => {
+    const startedAt = Date.now();
+    const result = await call();
+    recordUsage(agent, model, result.usage, Date.now() - startedAt);
+    return result;
+  }, { model: `${providerName(model)}/${model.modelId}` });
+}
+
+const callCost = (call: AgentCall): number | null => {
+  const price = getModelPrice(call.provider, call.model);
+  return price ? (call.promptTokens * price.input + call.completionTokens * price.output) / 1_000_000 : null;
+};
+
+const roundCost = (cost: number) => Math.round(cost * 1_000_000) / 1_000_000;
+
+/**
+ * Token, latency and cost totals of agent calls
+ */
+export function totalsOf(calls: AgentCall[]): UsageTotals {
+  const costs = calls.map(callCost).filter((cost): cost is number => cost !== null);
+  const promptTokens = calls.reduce((sum, call) => sum + call.promptTokens, 0);
+  const completionTokens = calls.reduce((sum, call) => sum + call.completionTokens, 0);
+  return {
+    calls: calls.length,
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    latencyMs: calls.reduce((sum, call) => sum + call.latencyMs, 0),
+    estimatedCost: costs.length > 0 ? roundCost(costs.reduce((sum, cost) => sum + cost, 0)) : null
+  };
+}
+
+/**
+ * Totals per agent and model, in the order the agents were first called, and for all calls
+ */
+export function summarizeCalls(calls: AgentCall[]): UsageSummary {
+  const groups = new Map<string, AgentCall[]>();
+  calls.forEach(call => {
+    const key = `${call.agent}|${call.provider}/${call.model}`;
+    groups.set(key, [...(groups.get(key) ?? []), call]);
+  });
+
+  return {
+    agents: [...groups.values()].map(group => ({
+      agent: group[0].agent,
+      provider: group[0].provider,
+      model: group[0].model,
+      ...totalsOf(group)
+    })),
+    total: totalsOf(calls),
+    currency: config.usage.currency
+  };
+}
@@ -0,0 +1,308 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Heading,
+  Paragraph,
+  Table,
+  Tag,
+  ToggleGroup
+} from '@digdir/designsystemet-react';
+import AnalysisResults from './AnalysisResults';
+import CustomizationResults from './CustomizationResults';
+import type {
+  ChecklistReference,
+  HistoryRun,
+  HistoryRunSummary,
+  RunComparison,
+  RunType
+} from '../api/history/history';
+
+const scoreColor = (score: number) => score >= 8 ? 'success' : score >= 5 ? 'warning' : 'danger';
+
+const deltaColor = (delta: number | null) => delta === null || delta === 0 ? 'neutral' : delta > 0 ? 'success' : 'danger';
+
+const formatDelta = (delta: number | null) => delta === null ? '–' : `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`;
+
+const formatChecklist = (checklist?: ChecklistReference) => !checklist
+  ? '–'
+  : checklist.id === 'default' || !checklist.id
+    ? 'Default'
+    : checklist.version ? `v${checklist.version}` : 'Edited';
+
+/**
+ * Past analysis and customization runs per consultant, with a comparison of two runs
+ * showing score changes and resolved suggestions between review cycles
+ */
+export default function AnalysisHistory() {
+  const [type, setType] = useState<RunType>('analysis');
+  const [runs, setRuns] = useState<HistoryRunSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<RunComparison | null>(null);
+  const [openRun, setOpenRun] = useState<HistoryRun | null>(null);
+
+  useEffect(() => {
+    const loadRuns = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/history?type=${type}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || `Failed to load history: ${response.status}`);
+        }
+        setRuns(data.runs);
+      } catch (err) {
+        console.error('Failed to load history:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    setSelectedIds([]);
+    setComparison(null);
+    setOpenRun(null);
+    loadRuns();
+  }, [type]);
+
+  // Runs grouped by consultant, keeping the newest first order
+  const consultants = runs.reduce<{ key: string; name: string; runs: HistoryRunSummary[] }[]>((groups, run) => {
+    const group = groups.find(g => g.key === run.consultantKey);
+    if (group) {
+      group.runs.push(run);
+    } else {
+      groups.push({ key: run.consultantKey, name: run.consultant, runs: [run] });
+    }
+    return groups;
+  }, []);
+
+  const selectedRuns = runs.filter(run => selectedIds.includes(run.id));
+  const canCompare = selectedRuns.length === 2 && selectedRuns[0].consultantKey === selectedRuns[1].consultantKey;
+
+  const toggleSelected = (run: HistoryRunSummary, selected: boolean) => {
+    setComparison(null);
+    setSelectedIds(previous => selected
+      // Only two runs of the same consultant can be compared, so start over when another consultant is picked
+      ? [...previous.filter(id => runs.find(r => r.id === id)?.consultantKey === run.consultantKey).slice(-1), run.id]
+      : previous.filter(id => id !== run.id));
+  };
+
+  const compare = async () => {
+    setError(null);
+    setOpenRun(null);
+    try {
+      const [from, to] = selectedIds;
+      const response = await fetch(`/api/history/compare?from=${from}&to=${to}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to compare runs: ${response.status}`);
+      }
+      setComparison(data.comparison);
+    } catch (err) {
+      console.error('Failed to compare runs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to compare runs');
+    }
+  };
+
+  const showRun = async (run: HistoryRunSummary) => {
+    setError(null);
+    setComparison(null);
+    try {
+      const response = await fetch(`/api/history/${run.id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to load run: ${response.status}`);
+      }
+      setOpenRun(data.run);
+    } catch (err) {
+      console.error('Failed to load run:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load run');
+    }
+  };
+
+  const deleteRun = async (run: HistoryRunSummary) => {
+    if (!window.confirm(`Delete the ${run.type} run of ${run.consultant} from ${new Date(run.createdAt).toLocaleString()}?`)) return;
+
+    setError(null);
+    try {
+      const response = await fetch(`/api/history/${run.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Failed to delete run: ${response.status}`);
+      }
+      setRuns(previous => previous.filter(r => r.id !== run.id));
+      setSelectedIds(previous => previous.filter(id => id !== run.id));
+      setComparison(null);
+      if (openRun?.id === run.id) setOpenRun(null);
+    } catch (err) {
+      console.error('Failed to delete run:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete run');
+    }
+  };
+
+  const renderComparison = (comparison: RunComparison) => (
+    <div className="pt-4 border-t border-gray-200 space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Heading level={3} data-size="xs">
+          {comparison.to.consultant}: {new Date(comparison.from.createdAt).toLocaleDateString()} to {new Date(comparison.to.createdAt).toLocaleDateString()}
+        </Heading>
+        <Tag data-color={deltaColor(comparison.overallDelta)}>Overall {formatDelta(comparison.overallDelta)}</Tag>
+      </div>
+
+      {comparison.sameCv && (
+        <Alert data-color="info">The CV did not change between these runs, so differences come from the model or checklists.</Alert>
+      )}
+      {!comparison.sameChecklists && (
+        <Alert data-color="warning">The runs were scored against different checklists, so score changes may not come from the CV.</Alert>
+      )}
+
+      <Table>
+        <Table.Head>
+          <Table.Row>
+            <Table.Cell>Criterion</Table.Cell>
+            <Table.Cell>Before</Table.Cell>
+            <Table.Cell>After</Table.Cell>
+            <Table.Cell>Change</Table.Cell>
+          </Table.Row>
+        </Table.Head>
+        <Table.Body>
+          {comparison.criteria.map(criterion => (
+            <Table.Row key={criterion.criterion_id}>
+              <Table.Cell>{criterion.criterion_name}</Table.Cell>
+              <Table.Cell>{criterion.from === null ? '–' : criterion.from.toFixed(1)}</Table.Cell>
+              <Table.Cell>{criterion.to === null ? '–' : criterion.to.toFixed(1)}</Table.Cell>
+              <Table.Cell>
+                <Tag data-color={deltaColor(criterion.delta)}>{formatDelta(criterion.delta)}</Tag>
+              </Table.Cell>
+            </Table.Row>
+          ))}
+        </Table.Body>
+      </Table>
+
+      {comparison.suggestions.map(changes => (
+        <div key={changes.criterion_id} className="p-4 bg-gray-50 rounded space-y-2">
+          <Heading level={4} data-size="xs">{changes.criterion_name}</Heading>
+          {[
+            { label: 'Resolved', color: 'success' as const, suggestions: changes.resolved },
+            { label: 'Still open', color: 'warning' as const, suggestions: changes.open },
+            { label: 'New', color: 'info' as const, suggestions: changes.added }
+          ].filter(group => group.suggestions.length > 0).map(group => (
+            <div key={group.label}>
+              <Tag data-color={group.color}>{group.label} ({group.suggestions.length})</Tag>
+              <ul className="list-disc pl-5 mt-1 text-sm">
+                {group.suggestions.map((suggestion, index) => <li key={index}>{suggestion}</li>)}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <ToggleGroup data-size="sm" aria-label="Run type" value={type} onChange={(value) => setType(value as RunType)}>
+          <ToggleGroup.Item value="analysis">Analyses</ToggleGroup.Item>
+          <ToggleGroup.Item value="customization">Customizations</ToggleGroup.Item>
+        </ToggleGroup>
+        <Button variant="primary" data-size='sm' onClick={compare} disabled={!canCompare}>
+          Compare selected runs
+        </Button>
+      </div>
+
+      {error && <Alert data-color="danger">{error}</Alert>}
+
+      {isLoading ? (
+        <Paragraph data-size="sm">Loading history...</Paragraph>
+      ) : consultants.length === 0 ? (
+        <Paragraph data-size="sm">
+          No {type === 'analysis' ? 'advanced agent analyses' : 'customizations'} have been saved yet. Completed runs appear here.
+        </Paragraph>
+      ) : (
+        consultants.map(consultant => (
+          <div key={consultant.key} className="space-y-2">
+            <Heading level={3} data-size="xs">
+              {consultant.name} <span className="text-sm text-gray-500">({consultant.runs.length} run{consultant.runs.length === 1 ? '' : 's'})</span>
+            </Heading>
+            <Table>
+              <Table.Head>
+                <Table.Row>
+                  <Table.Cell></Table.Cell>
+                  <Table.Cell>Date</Table.Cell>
+                  <Table.Cell>File</Table.Cell>
+                  <Table.Cell>Model</Table.Cell>
+                  {type === 'analysis' && <Table.Cell>Checklists</Table.Cell>}
+                  <Table.Cell>Score</Table.Cell>
+                  <Table.Cell></Table.Cell>
+                </Table.Row>
+              </Table.Head>
+              <Table.Body>
+                {consultant.runs.map(run => (
+                  <Table.Row key={run.id} className={openRun?.id === run.id ? 'bg-blue-50' : undefined}>
+                    <Table.Cell>
+                      <Checkbox
+                        aria-label="Select for comparison"
+                        checked={selectedIds.includes(run.id)}
+                        onChange={(e) => toggleSelected(run, e.target.checked)}
+                      />
+                    </Table.Cell>
+                    <Table.Cell>{new Date(run.createdAt).toLocaleString()}</Table.Cell>
+                    <Table.Cell>{run.fileName}</Table.Cell>
+                    <Table.Cell>{run.modelName}</Table.Cell>
+                    {type === 'analysis' && (
+                      <Table.Cell>
+                        Summary {formatChecklist(run.checklists?.summary)}, assignments {formatChecklist(run.checklists?.assignments)}
+                      </Table.Cell>
+                    )}
+                    <Table.Cell>
+                      {run.overallScore === null ? '–' : (
+                        <Tag data-color={scoreColor(run.overallScore)}>{run.overallScore.toFixed(1)}/10</Tag>
+                      )}
+                    </Table.Cell>
+                    <Table.Cell>
+                      <div className="flex gap-2">
+                        <Button variant="secondary" data-size='sm' onClick={() => showRun(run)}>View</Button>
+                        <Button variant="tertiary" data-size='sm' onClick={() => deleteRun(run)}>Delete</Button>
+                      </div>
+                    </Table.Cell>
+                  </Table.Row>
+                ))}
+              </Table.Body>
+            </Table>
+          </div>
+        ))
+      )}
+
+      {comparison && renderComparison(comparison)}
+
+      {openRun && (
+        <div className="pt-4 border-t border-gray-200">
+          <div className="flex justify-between items-center mb-2">
+            <Heading level={3} data-size="xs">
+              {openRun.consultant}, {new Date(openRun.createdAt).toLocaleString()}
+            </Heading>
+            <Button variant="secondary" data-size='sm' onClick={() => setOpenRun(null)}>
+              Close
+            </Button>
+          </div>
+          {openRun.type === 'analysis' ? (
+            <AnalysisResults
+              result={{ enhanced_agent: openRun.result }}
+              isLoading={false}
+              analysisTypes={['enhanced_agent']}
+            />
+          ) : (
+            <CustomizationResults result={openRun.result} isLoading={false} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -73,6 +73,7 @@ interface EnhancedAgentEvaluation {
       reasoning: string;
       suggestions: string[];
       project_evaluations: Array<{
+        project_id?: string;
         project_name: string;
         score: number;
         strengths: string[];
@@ -137,16 +138,22 @@ interface AnalysisResultsProps {
   isLoading: boolean;
   analysisTypes?: AnalysisType[];
   analysisType?: AnalysisType; // Keep for backward compatibility
+  onRetryCriterion?: (criterionId: string) => void;
+  retryingCriteria?: string[];
 }
 
 export default function AnalysisResults({ 
   result, 
   isLoading, 
   analysisTypes = ['combined'], 
-  analysisType 
+  analysisType,
+  onRetryCriterion,
+  retryingCriteria = []
 }: AnalysisResultsProps) {
   const [copiedSection, setCopiedSection] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<TabValue>('summary');
+  const [isExportingReport, setIsExportingReport] = useState<boolean>(false);
+  const [reportError, setReportError] = useState<string | null>(null);
 
   // For backward compatibility
   const effectiveAnalysisTypes = analysisTypes.length > 0 ? analysisTypes : [analysisType || 'combined'];
@@ -158,6 +165,35 @@ export default function AnalysisResults({
     });
   };
 
+  // Download a PDF report of an enhanced agent analysis
+  const exportReport = async (agentResult: any) => {
+    setIsExportingReport(true);
+    setReportError(null);
+    try {
+      const response = await fetch('/api/cv-analysis-agent/report', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ result: agentResult })
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Export failed: ${response.status}`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${agentResult.cv?.candidate_name || 'cv'}_analysis.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to export report: ', err);
+      setReportError(err instanceof Error ? err.message : 'Failed to export report');
+    } finally {
+      setIsExportingReport(false);
+    }
+  };
+
   // Helper function to identify and format improved sections for text results (fallback)
   const renderFormattedTextResult = (textResult: any) => {
     if (!textResult || typeof textResult !== 'string') return null;
@@ -591,6 +627,61 @@ export default function AnalysisResults({
   };
 
   // Render enhanced agent evaluation with specialized agents
+  // Pass/fail verdict per checklist rule for the summary and project descriptions criteria
+  const renderRuleVerdicts = (verdicts: any[] | undefined) => {
+    if (!Array.isArray(verdicts) || verdicts.length === 0) return null;
+
+    const passedCount = verdicts.filter(verdict => verdict.passed).length;
+    return (
+      <div className="mb-3">
+        <Heading level={5} data-size='xs' className="mb-2">
+          Checklist Rules ({passedCount}/{verdicts.length} passed)
+        </Heading>
+        <ul className="space-y-2 text-sm">
+          {verdicts.map((verdict: any) => (
+            <li key={verdict.rule_id} className="flex items-start gap-2">
+              <Tag data-color={verdict.passed ? 'success' : verdict.severity === 'required' ? 'danger' : 'warning'}>
+                {verdict.passed ? 'Passed' : 'Failed'}
+              </Tag>
+              <div>
+                <div>
+                  {verdict.rule_text}
+                  {verdict.source === 'rule_engine' && (
+                    <span className="ml-2 text-xs text-gray-500">(checked automatically)</span>
+                  )}
+                </div>
+                {verdict.evidence && (
+                  <div className="text-xs text-gray-600 mt-1">{verdict.evidence}</div>
+                )}
+                {Array.isArray(verdict.findings) && verdict.findings.length > 0 && (
+                  <ul className="text-xs text-gray-600 mt-1 space-y-1">
+                    {verdict.findings.slice(0, 5).map((finding: any, idx: number) => (
+                      <li key={idx}>
+                        {finding.project_id && <span className="font-medium">{finding.project_id}: </span>}
+                        <span className="bg-red-50">&ldquo;{finding.text.length > 80 ? `${finding.text.slice(0, 80)}...` : finding.text}&rdquo;</span>
+                        {' '}(characters {finding.start}-{finding.end})
+                      </li>
+                    ))}
+                    {verdict.findings.length > 5 && <li>and {verdict.findings.length - 5} more</li>}
+                  </ul>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  // Criteria rendered by their own section in the enhanced agent evaluation
+  const dedicatedCriterionSections = [
+    'language_quality',
+    'content_completeness',
+    'summary_quality',
+    'project_descriptions',
+    'competence_verification'
+  ];
+
   const renderEnhancedAgentEvaluation = (agentResult: any) => {
     console.log('Rendering enhanced agent evaluation with data:', typeof agentResult);
     
@@ -603,11 +694,14 @@ export default function AnalysisResults({
         return null;
       }
       
+      // Partial results from the analysis stream fill in as each criterion completes
+      const streaming = agentResult.streaming;
+      
       // Validate the structure to avoid rendering errors
-      if (!agentResult.overall_score || !agentResult.summary ||
+      if (!streaming && (!agentResult.overall_score || !agentResult.summary ||
           !Array.isArray(agentResult.key_strengths) || 
           !Array.isArray(agentResult.key_improvement_areas) ||
-          !Array.isArray(agentResult.criterion_evaluations)) {
+          !Array.isArray(agentResult.criterion_evaluations))) {
         console.log('Invalid enhanced agent evaluation structure. Available keys:', Object.keys(agentResult));
         
         // If we have a result property, it might be wrapped one level deep
@@ -643,17 +737,35 @@ export default function AnalysisResults({
             <div className="flex justify-between items-center mb-4">
               <Heading level={3} data-size='sm'>Overall Evaluation</Heading>
               <div className="px-3 py-1 rounded-full font-bold bg-blue-100 text-blue-800">
-                Score: {(agentResult.overall_score).toFixed(1)}/10
+                Score: {typeof agentResult.overall_score === 'number' ? agentResult.overall_score.toFixed(1) : '–'}/10
               </div>
             </div>
             
-            <Paragraph className="mb-4">{agentResult.summary}</Paragraph>
+            {streaming && (
+              <div className="mb-4">
+                <Paragraph data-size='sm' className="text-gray-500 mb-1">
+                  {streaming.completed} of {streaming.total} criteria evaluated
+                </Paragraph>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full transition-all duration-500"
+                    style={{ width: `${(streaming.completed / streaming.total) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+            
+            <Paragraph className="mb-4">
+              {agentResult.summary || (streaming
+                ? (typeof agentResult.overall_score === 'number' ? 'Generating overall summary...' : 'Waiting for remaining criteria...')
+                : '')}
+            </Paragraph>
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="bg-green-50 p-3 rounded-lg">
                 <Heading level={4} data-size='xs' className="mb-2 text-green-800">Key Strengths</Heading>
                 <ul className="list-disc pl-5 text-sm space-y-1">
-                  {agentResult.key_strengths.map((strength: string, idx: number) => (
+                  {(agentResult.key_strengths || []).map((strength: string, idx: number) => (
                     <li key={idx}>{strength}</li>
                   ))}
                 </ul>
@@ -662,14 +774,113 @@ export default function AnalysisResults({
               <div className="bg-amber-50 p-3 rounded-lg">
                 <Heading level={4} data-size='xs' className="mb-2 text-amber-800">Areas for Improvement</Heading>
                 <ul className="list-disc pl-5 text-sm space-y-1">
-                  {agentResult.key_improvement_areas.map((area: string, idx: number) => (
+                  {(agentResult.key_improvement_areas || []).map((area: string, idx: number) => (
                     <li key={idx}>{area}</li>
                   ))}
                 </ul>
               </div>
             </div>
+            
+            {/* How the overall score was calculated with the selected scoring profile */}
+            {agentResult.score_breakdown && (
+              <div className="mt-4">
+                <div className="flex justify-between items-center mb-2">
+                  <Heading level={4} data-size='xs'>Score Breakdown - {agentResult.score_breakdown.profile_name}</Heading>
+                  {agentResult.score_breakdown.must_pass.length > 0 && (
+                    <Tag data-color={agentResult.score_breakdown.passed ? 'success' : 'danger'}>
+                      {agentResult.score_breakdown.passed ? 'Must-pass criteria met' : 'Must-pass criteria not met'}
+                    </Tag>
+                  )}
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-1">Criterion</th>
+                      <th className="py-1 text-right">Score</th>
+                      <th className="py-1 text-right">Weight</th>
+                      <th className="py-1 text-right">Contribution</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {agentResult.score_breakdown.contributions.map((contribution: any) => (
+                      <tr key={contribution.criterion_id} className="border-b last:border-b-0">
+                        <td className="py-1">{contribution.criterion_name}</td>
+                        <td className="py-1 text-right">{contribution.score.toFixed(1)}</td>
+                        <td className="py-1 text-right">{Math.round(contribution.normalized_weight * 100)}%</td>
+                        <td className="py-1 text-right">{contribution.contribution.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {agentResult.score_breakdown.must_pass.length > 0 && (
+                  <ul className="mt-3 space-y-1 text-sm">
+                    {agentResult.score_breakdown.must_pass.map((criterion: any) => (
+                      <li key={criterion.criterion_id} className="flex justify-between items-center">
+                        <span>
+                          {criterion.criterion_name} must score at least {criterion.minimum_score}
+                          {criterion.score === null ? ' (not evaluated)' : ` (scored ${criterion.score.toFixed(1)})`}
+                        </span>
+                        <Tag data-color={criterion.passed ? 'success' : 'danger'}>
+                          {criterion.passed ? 'Passed' : 'Failed'}
+                        </Tag>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+            
+            {!streaming && (
+              <div className="mt-4">
+                <Button
+                  variant="secondary"
+                  data-size='sm'
+                  onClick={() => exportReport(agentResult)}
+                  disabled={isExportingReport}
+                >
+                  {isExportingReport ? 'Exporting...' : 'Download PDF report'}
+                </Button>
+                {reportError && (
+                  <Paragraph data-size="sm" className="mt-2 text-red-700">{reportError}</Paragraph>
+                )}
+              </div>
+            )}
           </Card>
           
+          {/* Criteria whose agent failed or timed out - the score is based on the remaining criteria */}
+          {Array.isArray(agentResult.failed_criteria) && agentResult.failed_criteria.length > 0 && (
+            <Alert data-color="warning">
+              <Heading level={4} data-size='xs' className="mb-2">Criteria not evaluated</Heading>
+              <Paragraph data-size='sm' className="mb-3">
+                The overall score is based on the criteria that were evaluated successfully.
+              </Paragraph>
+              <ul className="space-y-2">
+                {agentResult.failed_criteria.map((criterion: any) => (
+                  <li key={criterion.criterion_id} className="flex justify-between items-center gap-4">
+                    <div className="text-sm">
+                      <span className="font-medium">{criterion.criterion_name}</span>
+                      {' - '}
+                      {criterion.status === 'timed_out' ? 'Timed out' : 'Failed'} after {criterion.attempts} {criterion.attempts === 1 ? 'attempt' : 'attempts'}
+                      {criterion.error && (
+                        <div className="text-xs text-gray-600 mt-1">{criterion.error}</div>
+                      )}
+                    </div>
+                    {onRetryCriterion && !streaming && (
+                      <Button
+                        variant="secondary"
+                        data-size='sm'
+                        onClick={() => onRetryCriterion(criterion.criterion_id)}
+                        disabled={retryingCriteria.includes(criterion.criterion_id)}
+                      >
+                        {retryingCriteria.includes(criterion.criterion_id) ? 'Retrying...' : 'Retry'}
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </Alert>
+          )}
+          
           {/* Specialized Analysis Sections */}
           <Heading level={3} data-size='sm' className="mt-6 mb-3">Specialized Analysis</Heading>
           
@@ -842,6 +1053,8 @@ export default function AnalysisResults({
                 </div>
               )}
 
+              {renderRuleVerdicts(detailed_analysis.summary_quality.rule_verdicts)}
+              
               {/* Original Summary */}
               {!isSimplifiedFormat && detailed_analysis.summary_quality.original_summary && (
                 <div className="mb-4">
@@ -936,13 +1149,15 @@ export default function AnalysisResults({
                 </div>
               )}
               
+              {renderRuleVerdicts(detailed_analysis.project_descriptions.rule_verdicts)}
+              
               {/* Project Evaluations - only shown in standard mode */}
               {!isSimplifiedFormat && detailed_analysis.project_descriptions.project_evaluations && (
                 <>
                   <Heading level={5} data-size='xs' className="mt-4 mb-2">Individual Project Evaluations</Heading>
                   
                   {detailed_analysis.project_descriptions.project_evaluations.map((project: any, idx: number) => (
-                    <div key={idx} className="border rounded-lg p-3 mb-3">
+                    <div key={project.project_id || idx} className="border rounded-lg p-3 mb-3">
                       <div className="flex justify-between items-center mb-2">
                         <span className="font-medium">{project.project_name}</span>
                         <Tag data-color={
@@ -1041,6 +1256,44 @@ export default function AnalysisResults({
               </div>
             </Card>
           )}
+          
+          {/* Criteria without a dedicated section, e.g. newly registered criteria */}
+          {Object.values(detailed_analysis)
+            .filter((criterion: any) => criterion?.criterion_id && !dedicatedCriterionSections.includes(criterion.criterion_id))
+            .map((criterion: any) => (
+              <Card key={criterion.criterion_id}>
+                <div className="flex justify-between items-center mb-2">
+                  <Heading level={4} data-size='xs'>{criterion.criterion_name}</Heading>
+                  <Tag data-color={
+                    criterion.score >= 8 ? 'success' : 
+                    criterion.score >= 5 ? 'warning' : 
+                    'danger'
+                  }>
+                    Score: {criterion.score.toFixed(1)}/10
+                  </Tag>
+                </div>
+                
+                <Paragraph className="mb-3">{criterion.reasoning}</Paragraph>
+                
+                {Array.isArray(criterion.suggestions) && criterion.suggestions.length > 0 && (
+                  <div className="bg-blue-50 p-3 rounded-lg mb-3">
+                    <Heading level={5} data-size='xs' className="mb-1 text-blue-800">Suggestions</Heading>
+                    <ul className="list-disc pl-5 text-sm space-y-1">
+                      {criterion.suggestions.map((suggestion: string, idx: number) => (
+                        <li key={idx}>{suggestion}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                
+                {criterion.improved_version && (
+                  <div className="bg-green-50 p-3 rounded-lg">
+                    <Heading level={5} data-size='xs' className="mb-1 text-green-800">Improved Version</Heading>
+                    <Paragraph data-size='sm'>{criterion.improved_version}</Paragraph>
+                  </div>
+                )}
+              </Card>
+            ))}
       </div>
     );
     } catch (err) {
@@ -1049,7 +1302,8 @@ export default function AnalysisResults({
     }
   };
 
-  if (isLoading) {
+  // Keep showing partial results while the enhanced agent analysis streams in
+  if (isLoading && !hasEnhancedAgentData()) {
     return (
       <Card>
         <div className="space-y-4">
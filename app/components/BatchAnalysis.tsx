@@ -0,0 +1,339 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Heading,
+  Label,
+  Paragraph,
+  Select,
+  Table,
+  Tag
+} from '@digdir/designsystemet-react';
+import AnalysisResults from './AnalysisResults';
+import type { ModelOption } from './ModelSelector';
+import { scoringProfiles } from '../utils/checklistData';
+import type { BatchSummary, BatchSummaryRow } from '../api/cv-analysis-agent/batch/batch';
+
+interface BatchAnalysisProps {
+  model: ModelOption;
+  summaryChecklistText: string;
+  assignmentsChecklistText: string;
+  maxFileSize?: number; // in MB
+}
+
+interface BatchStatus {
+  id: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  error?: string;
+  summary: BatchSummary;
+}
+
+// PDF and DOCX CVs, or zip archives containing them
+const isSupportedBatchFile = (file: File) => /\.(pdf|docx|zip)$/i.test(file.name);
+
+const POLL_INTERVAL_MS = 3000;
+
+const scoreColor = (score: number) => score >= 8 ? 'success' : score >= 5 ? 'warning' : 'danger';
+
+/**
+ * Run the advanced agent analysis on many CVs and compare them in a summary table,
+ * with the full analysis of each CV one click away
+ */
+export default function BatchAnalysis({
+  model,
+  summaryChecklistText,
+  assignmentsChecklistText,
+  maxFileSize = 25
+}: BatchAnalysisProps) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [scoringProfileId, setScoringProfileId] = useState<string>('default');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [batch, setBatch] = useState<BatchStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedRow, setSelectedRow] = useState<BatchSummaryRow | null>(null);
+  const [selectedResult, setSelectedResult] = useState<any>(null);
+  const [isLoadingResult, setIsLoadingResult] = useState(false);
+
+  const isRunning = batch?.status === 'pending' || batch?.status === 'running';
+
+  // Poll the batch until every CV has been analyzed
+  useEffect(() => {
+    if (!batch || !isRunning) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/cv-analysis-agent/batch/${batch.id}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || `Failed to get batch status: ${response.status}`);
+        }
+        setBatch(data);
+      } catch (err) {
+        console.error('Failed to poll batch analysis:', err);
+        setError(err instanceof Error ? err.message : 'Failed to get batch status');
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [batch, isRunning]);
+
+  const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    if (!e.target.files) return;
+
+    const selected = Array.from(e.target.files);
+    for (const file of selected) {
+      if (file.size > maxFileSize * 1024 * 1024) {
+        setError(`File "${file.name}" exceeds maximum size of ${maxFileSize}MB`);
+        return;
+      }
+      if (!isSupportedBatchFile(file)) {
+        setError(`File "${file.name}" is not a PDF, DOCX or zip file.`);
+        return;
+      }
+    }
+    setFiles(previous => [...previous, ...selected]);
+    e.target.value = '';
+  };
+
+  const removeFile = (index: number) => {
+    setFiles(previous => previous.filter((_, i) => i !== index));
+  };
+
+  const startBatch = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    setBatch(null);
+    setSelectedRow(null);
+    setSelectedResult(null);
+
+    try {
+      const formData = new FormData();
+      files.forEach(file => formData.append('files', file));
+      formData.append('summaryChecklistText', summaryChecklistText);
+      formData.append('assignmentsChecklistText', assignmentsChecklistText);
+      formData.append('modelProvider', model.provider);
+      formData.append('modelName', model.model);
+      formData.append('scoringProfileId', scoringProfileId);
+
+      const response = await fetch('/api/cv-analysis-agent/batch', { method: 'POST', body: formData });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details ? `${data.error}: ${data.details}` : data.error || `Request failed: ${response.status}`);
+      }
+
+      setBatch({
+        id: data.jobId,
+        status: data.status,
+        summary: {
+          criteria: [],
+          rows: [],
+          total: data.total,
+          completed: 0,
+          failed: 0,
+          averageScore: null,
+          skippedFiles: data.skippedFiles
+        }
+      });
+    } catch (err) {
+      console.error('Failed to start batch analysis:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start batch analysis');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const showResult = async (row: BatchSummaryRow) => {
+    if (!batch) return;
+
+    setSelectedRow(row);
+    setSelectedResult(null);
+    setIsLoadingResult(true);
+    try {
+      const response = await fetch(`/api/cv-analysis-agent/batch/${batch.id}/cvs/${row.id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to load analysis: ${response.status}`);
+      }
+      setSelectedResult(data.result);
+    } catch (err) {
+      console.error('Failed to load CV analysis:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load analysis');
+      setSelectedRow(null);
+    } finally {
+      setIsLoadingResult(false);
+    }
+  };
+
+  const summary = batch?.summary;
+  const canStart = files.length > 0 && !isSubmitting && !isRunning && model.supportsStructuredOutput !== false;
+
+  const renderStatus = (row: BatchSummaryRow) => {
+    if (row.status === 'completed') {
+      return <Tag data-color={scoreColor(row.overallScore!)}>{row.overallScore!.toFixed(1)}/10</Tag>;
+    }
+    if (row.status === 'failed') {
+      return <Tag data-color="danger" title={row.error}>Failed</Tag>;
+    }
+    return <Tag data-color="neutral">{isRunning ? 'Analyzing...' : 'Pending'}</Tag>;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 border border-gray-200 rounded-md space-y-3">
+        <Label htmlFor="batchFiles">CVs (PDF, DOCX or a zip archive)</Label>
+        <input
+          id="batchFiles"
+          type="file"
+          accept=".pdf,.docx,.zip"
+          multiple
+          onChange={handleFilesChange}
+          className="block w-full text-sm"
+        />
+        {files.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {files.map((file, index) => (
+              <Tag key={`${file.name}-${index}`} data-color="info">
+                {file.name}
+                <button
+                  type="button"
+                  className="ml-2"
+                  aria-label={`Remove ${file.name}`}
+                  onClick={() => removeFile(index)}
+                >
+                  ×
+                </button>
+              </Tag>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <Label htmlFor="batchScoringProfile">Scoring Profile:</Label>
+          <Select
+            id="batchScoringProfile"
+            className="w-full"
+            value={scoringProfileId}
+            onChange={(e) => setScoringProfileId(e.target.value)}
+          >
+            {scoringProfiles.map(profile => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+              </option>
+            ))}
+          </Select>
+        </div>
+
+        <Button variant="primary" onClick={startBatch} disabled={!canStart} className="w-full">
+          {isSubmitting ? 'Uploading...' : isRunning ? 'Analyzing...' : `Analyze ${files.length || ''} CV${files.length === 1 ? '' : 's'}`}
+        </Button>
+
+        {error && <Alert data-color="danger">{error}</Alert>}
+      </div>
+
+      {summary && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <Heading level={3} data-size="xs">Team Summary</Heading>
+            <Tag data-color={batch.status === 'failed' ? 'danger' : batch.status === 'completed' ? 'success' : 'info'}>
+              {summary.completed + summary.failed} of {summary.total} analyzed
+              {summary.failed > 0 ? `, ${summary.failed} failed` : ''}
+            </Tag>
+            {summary.averageScore !== null && (
+              <Paragraph data-size="sm">Average score: <strong>{summary.averageScore.toFixed(1)}/10</strong></Paragraph>
+            )}
+          </div>
+
+          {batch.error && <Alert data-color="danger">{batch.error}</Alert>}
+
+          {summary.skippedFiles.length > 0 && (
+            <Alert data-color="warning">
+              <Paragraph data-size="sm">Some files were skipped:</Paragraph>
+              <ul className="list-disc pl-5 text-sm">
+                {summary.skippedFiles.map((file, index) => (
+                  <li key={index}>{file.fileName}: {file.error}</li>
+                ))}
+              </ul>
+            </Alert>
+          )}
+
+          {summary.rows.length > 0 && (
+            <div className="overflow-x-auto">
+              <Table>
+                <Table.Head>
+                  <Table.Row>
+                    <Table.Cell>CV</Table.Cell>
+                    <Table.Cell>Overall</Table.Cell>
+                    {summary.criteria.map(criterion => (
+                      <Table.Cell key={criterion.id}>{criterion.name}</Table.Cell>
+                    ))}
+                    <Table.Cell>Top improvement areas</Table.Cell>
+                    <Table.Cell></Table.Cell>
+                  </Table.Row>
+                </Table.Head>
+                <Table.Body>
+                  {summary.rows.map(row => (
+                    <Table.Row key={row.id} className={selectedRow?.id === row.id ? 'bg-blue-50' : undefined}>
+                      <Table.Cell>
+                        <div className="font-medium">{row.candidateName || row.fileName}</div>
+                        {row.candidateName && <div className="text-xs text-gray-500">{row.fileName}</div>}
+                      </Table.Cell>
+                      <Table.Cell>{renderStatus(row)}</Table.Cell>
+                      {summary.criteria.map(criterion => {
+                        const score = row.criterionScores[criterion.id];
+                        return (
+                          <Table.Cell key={criterion.id}>
+                            {score === undefined ? '' : score === null ? '–' : score.toFixed(1)}
+                          </Table.Cell>
+                        );
+                      })}
+                      <Table.Cell>
+                        {row.status === 'failed' ? (
+                          <span className="text-sm text-red-700">{row.error}</span>
+                        ) : (
+                          <ul className="list-disc pl-4 text-sm">
+                            {row.topImprovementAreas.map((area, index) => <li key={index}>{area}</li>)}
+                          </ul>
+                        )}
+                      </Table.Cell>
+                      <Table.Cell>
+                        {row.status === 'completed' && (
+                          <Button
+                            variant="secondary"
+                            data-size='sm'
+                            onClick={() => showResult(row)}
+                            disabled={isLoadingResult}
+                          >
+                            View
+                          </Button>
+                        )}
+                      </Table.Cell>
+                    </Table.Row>
+                  ))}
+                </Table.Body>
+              </Table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {selectedRow && (
+        <div className="pt-4 border-t border-gray-200">
+          <div className="flex justify-between items-center mb-2">
+            <Heading level={3} data-size="xs">{selectedRow.candidateName || selectedRow.fileName}</Heading>
+            <Button variant="secondary" data-size='sm' onClick={() => { setSelectedRow(null); setSelectedResult(null); }}>
+              Close
+            </Button>
+          </div>
+          <AnalysisResults
+            result={selectedResult ? { enhanced_agent: selectedResult } : {}}
+            isLoading={isLoadingResult}
+            analysisTypes={['enhanced_agent']}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
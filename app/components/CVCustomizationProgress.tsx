@@ -43,15 +43,16 @@ export default function CVCustomizationProgress({
     'validation': 2,                    // Quick input validation
     'file_processing': 2,               // Quick file reading
     'language_detection': 3,            // Quick AI call
+    'cv_structure': 4,                  // Parses the CV once for all agents
     'requirements_analysis': 6,         // Moderate AI processing
-    'profile_customization': 12,        // Complex AI customization
+    'profile_customization': 10,        // Complex AI customization
     'competencies_customization': 10,   // Complex AI customization
     'projects_customization': 16,       // Heaviest - processes multiple projects
     'evaluation': 6,                    // Moderate AI evaluation
     'content_validation': 7,            // Moderate AI validation
     'profile_correction': 11,           // Complex AI correction
     'competencies_correction': 9,       // Complex AI correction
-    'projects_correction': 14,          // Heavy - processes multiple projects
+    'projects_correction': 12,          // Heavy - processes multiple projects
     'correction_check': 1,              // Quick check
     'complete': 1                       // Finalization
   };
@@ -60,6 +61,7 @@ export default function CVCustomizationProgress({
     { id: 'validation', name: 'Input Validation', status: 'pending' },
     { id: 'file_processing', name: 'File Processing', status: 'pending' },
     { id: 'language_detection', name: 'Language Detection', status: 'pending' },
+    { id: 'cv_structure', name: 'CV Structure Parsing', status: 'pending' },
     { id: 'requirements_analysis', name: 'Requirements Analysis', status: 'pending' },
     { id: 'profile_customization', name: 'Profile Customization', status: 'pending' },
     { id: 'competencies_customization', name: 'Competencies Customization', status: 'pending' },
@@ -221,6 +223,9 @@ export default function CVCustomizationProgress({
                     {step.id === 'language_detection' && step.data.language && (
                       `Language: ${step.data.language} (${Math.round(step.data.confidence * 100)}% confidence)`
                     )}
+                    {step.id === 'cv_structure' && step.data.projectsCount !== undefined && (
+                      `${step.data.projectsCount} projects, ${step.data.competenciesCount} competencies`
+                    )}
                     {step.id === 'requirements_analysis' && (
                       `${step.data.mustHaveCount} must-have, ${step.data.shouldHaveCount} should-have requirements`
                     )}
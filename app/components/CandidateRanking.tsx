@@ -0,0 +1,339 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Heading,
+  Label,
+  Paragraph,
+  Table,
+  Tag
+} from '@digdir/designsystemet-react';
+import ConsultantSelector from './ConsultantSelector';
+import type { ModelOption } from './ModelSelector';
+import type { Coverage, RankedCandidate, Ranking } from '../api/cv-customization/ranking/ranking';
+
+interface CandidateRankingProps {
+  model: ModelOption;
+  maxFileSize?: number; // in MB
+}
+
+interface RankingStatus {
+  id: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  error?: string;
+  ranking: Ranking;
+}
+
+const isSupportedDocument = (file: File) => /\.(pdf|docx)$/i.test(file.name);
+// CVs may also be uploaded as a zip archive
+const isSupportedCvFile = (file: File) => /\.(pdf|docx|zip)$/i.test(file.name);
+
+const POLL_INTERVAL_MS = 3000;
+
+const COVERAGE_TAGS: Record<Coverage, { color: 'success' | 'warning' | 'danger'; label: string }> = {
+  full: { color: 'success', label: 'Covered' },
+  partial: { color: 'warning', label: 'Partly covered' },
+  none: { color: 'danger', label: 'Missing' }
+};
+
+const scoreColor = (score: number) => score >= 80 ? 'success' : score >= 50 ? 'warning' : 'danger';
+
+/**
+ * Rank consultant CVs by how well they cover the requirements of a customer request,
+ * with the evidence and gaps for each requirement
+ */
+export default function CandidateRanking({ model, maxFileSize = 25 }: CandidateRankingProps) {
+  const [customerFiles, setCustomerFiles] = useState<File[]>([]);
+  const [cvFiles, setCvFiles] = useState<File[]>([]);
+  const [consultantIds, setConsultantIds] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [ranking, setRanking] = useState<RankingStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedCandidate, setExpandedCandidate] = useState<string | null>(null);
+
+  const isRunning = ranking?.status === 'pending' || ranking?.status === 'running';
+
+  // Poll the ranking until every CV has been assessed
+  useEffect(() => {
+    if (!ranking || !isRunning) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/cv-customization/ranking/${ranking.id}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || `Failed to get ranking status: ${response.status}`);
+        }
+        setRanking(data);
+      } catch (err) {
+        console.error('Failed to poll candidate ranking:', err);
+        setError(err instanceof Error ? err.message : 'Failed to get ranking status');
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [ranking, isRunning]);
+
+  const addFiles = (
+    e: React.ChangeEvent<HTMLInputElement>,
+    isSupported: (file: File) => boolean,
+    setFiles: React.Dispatch<React.SetStateAction<File[]>>
+  ) => {
+    setError(null);
+    if (!e.target.files) return;
+
+    const selected = Array.from(e.target.files);
+    for (const file of selected) {
+      if (file.size > maxFileSize * 1024 * 1024) {
+        setError(`File "${file.name}" exceeds maximum size of ${maxFileSize}MB`);
+        return;
+      }
+      if (!isSupported(file)) {
+        setError(`File "${file.name}" is not a supported file type.`);
+        return;
+      }
+    }
+    setFiles(previous => [...previous, ...selected]);
+    e.target.value = '';
+  };
+
+  const renderFiles = (files: File[], setFiles: React.Dispatch<React.SetStateAction<File[]>>) => files.length > 0 && (
+    <div className="flex flex-wrap gap-2">
+      {files.map((file, index) => (
+        <Tag key={`${file.name}-${index}`} data-color="info">
+          {file.name}
+          <button
+            type="button"
+            className="ml-2"
+            aria-label={`Remove ${file.name}`}
+            onClick={() => setFiles(previous => previous.filter((_, i) => i !== index))}
+          >
+            ×
+          </button>
+        </Tag>
+      ))}
+    </div>
+  );
+
+  const startRanking = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    setRanking(null);
+    setExpandedCandidate(null);
+
+    try {
+      const formData = new FormData();
+      customerFiles.forEach(file => formData.append('customerFiles', file));
+      cvFiles.forEach(file => formData.append('cvFiles', file));
+      consultantIds.forEach(id => formData.append('consultantIds', id));
+      formData.append('modelProvider', model.provider);
+      formData.append('modelName', model.model);
+
+      const response = await fetch('/api/cv-customization/ranking', { method: 'POST', body: formData });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details ? `${data.error}: ${data.details}` : data.error || `Request failed: ${response.status}`);
+      }
+
+      setRanking({
+        id: data.jobId,
+        status: data.status,
+        ranking: { shortlist: [], pending: [], failed: [], skippedFiles: data.skippedFiles }
+      });
+    } catch (err) {
+      console.error('Failed to start candidate ranking:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start candidate ranking');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const current = ranking?.ranking;
+  const requirements = current?.requirements;
+  const mustHaveTotal = requirements?.must_have_requirements.length ?? 0;
+  const shouldHaveTotal = requirements?.should_have_requirements.length ?? 0;
+  const canStart = customerFiles.length > 0 && (cvFiles.length > 0 || consultantIds.length > 0) && !isSubmitting && !isRunning
+    && model.supportsStructuredOutput !== false;
+
+  const renderCoverage = (candidate: RankedCandidate) => (
+    <div className="p-4 bg-gray-50 rounded space-y-3">
+      <Paragraph data-size="sm">{candidate.summary}</Paragraph>
+      <Table>
+        <Table.Head>
+          <Table.Row>
+            <Table.Cell>Requirement</Table.Cell>
+            <Table.Cell>Coverage</Table.Cell>
+            <Table.Cell>Evidence</Table.Cell>
+            <Table.Cell>Gap</Table.Cell>
+          </Table.Row>
+        </Table.Head>
+        <Table.Body>
+          {candidate.coverage.map((item, index) => (
+            <Table.Row key={index}>
+              <Table.Cell>
+                <div className="font-medium">{item.requirement}</div>
+                <div className="text-xs text-gray-500">
+                  {item.type === 'must_have' ? 'Must-have' : 'Should-have'}, {item.priority}
+                </div>
+              </Table.Cell>
+              <Table.Cell>
+                <Tag data-color={COVERAGE_TAGS[item.coverage].color}>{COVERAGE_TAGS[item.coverage].label}</Tag>
+              </Table.Cell>
+              <Table.Cell>
+                {item.evidence.length > 0 ? (
+                  <ul className="list-disc pl-4 text-sm">
+                    {item.evidence.map((evidence, i) => <li key={i}>{evidence}</li>)}
+                  </ul>
+                ) : (
+                  <span className="text-sm text-gray-500">None</span>
+                )}
+              </Table.Cell>
+              <Table.Cell>
+                <span className="text-sm">{item.gap}</span>
+              </Table.Cell>
+            </Table.Row>
+          ))}
+        </Table.Body>
+      </Table>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 border border-gray-200 rounded-md space-y-3">
+        <Label htmlFor="rankingCustomerFiles">Customer request (PDF or DOCX)</Label>
+        <input
+          id="rankingCustomerFiles"
+          type="file"
+          accept=".pdf,.docx"
+          multiple
+          onChange={(e) => addFiles(e, isSupportedDocument, setCustomerFiles)}
+          className="block w-full text-sm"
+        />
+        {renderFiles(customerFiles, setCustomerFiles)}
+
+        <Label htmlFor="rankingCvFiles">Consultant CVs (PDF, DOCX or a zip archive)</Label>
+        <input
+          id="rankingCvFiles"
+          type="file"
+          accept=".pdf,.docx,.zip"
+          multiple
+          onChange={(e) => addFiles(e, isSupportedCvFile, setCvFiles)}
+          className="block w-full text-sm"
+        />
+        {renderFiles(cvFiles, setCvFiles)}
+
+        <ConsultantSelector selectedIds={consultantIds} onChange={setConsultantIds} multiple />
+
+        <Button variant="primary" onClick={startRanking} disabled={!canStart} className="w-full">
+          {isSubmitting ? 'Uploading...' : isRunning ? 'Ranking...' : 'Rank candidates'}
+        </Button>
+
+        {error && <Alert data-color="danger">{error}</Alert>}
+      </div>
+
+      {current && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <Heading level={3} data-size="xs">Shortlist</Heading>
+            <Tag data-color={ranking.status === 'failed' ? 'danger' : ranking.status === 'completed' ? 'success' : 'info'}>
+              {ranking.status === 'completed'
+                ? 'Completed'
+                : requirements
+                  ? `${current.pending.length} CV${current.pending.length === 1 ? '' : 's'} left to assess`
+                  : 'Analyzing customer requirements...'}
+            </Tag>
+          </div>
+
+          {ranking.error && <Alert data-color="danger">{ranking.error}</Alert>}
+
+          {requirements && (
+            <Paragraph data-size="sm">
+              {requirements.context_summary} ({mustHaveTotal} must-have and {shouldHaveTotal} should-have requirements)
+            </Paragraph>
+          )}
+
+          {current.skippedFiles.length > 0 && (
+            <Alert data-color="warning">
+              <Paragraph data-size="sm">Some files were skipped:</Paragraph>
+              <ul className="list-disc pl-5 text-sm">
+                {current.skippedFiles.map((file, index) => (
+                  <li key={index}>{file.fileName}: {file.error}</li>
+                ))}
+              </ul>
+            </Alert>
+          )}
+
+          {current.shortlist.length > 0 && (
+            <Table>
+              <Table.Head>
+                <Table.Row>
+                  <Table.Cell>#</Table.Cell>
+                  <Table.Cell>Candidate</Table.Cell>
+                  <Table.Cell>Coverage</Table.Cell>
+                  <Table.Cell>Must-have</Table.Cell>
+                  <Table.Cell>Should-have</Table.Cell>
+                  <Table.Cell></Table.Cell>
+                </Table.Row>
+              </Table.Head>
+              <Table.Body>
+                {current.shortlist.map(candidate => (
+                  <Table.Row key={candidate.id}>
+                    <Table.Cell>{candidate.rank}</Table.Cell>
+                    <Table.Cell>
+                      <div className="font-medium">{candidate.candidate_name || candidate.fileName}</div>
+                      {candidate.candidate_name && <div className="text-xs text-gray-500">{candidate.fileName}</div>}
+                    </Table.Cell>
+                    <Table.Cell>
+                      <Tag data-color={scoreColor(candidate.score)}>{candidate.score}%</Tag>
+                    </Table.Cell>
+                    <Table.Cell>
+                      {candidate.must_have_covered}/{mustHaveTotal}
+                      {candidate.must_have_missing > 0 && (
+                        <Tag data-color="danger" className="ml-2">{candidate.must_have_missing} missing</Tag>
+                      )}
+                    </Table.Cell>
+                    <Table.Cell>{candidate.should_have_covered}/{shouldHaveTotal}</Table.Cell>
+                    <Table.Cell>
+                      <Button
+                        variant="secondary"
+                        data-size='sm'
+                        onClick={() => setExpandedCandidate(expandedCandidate === candidate.id ? null : candidate.id)}
+                      >
+                        {expandedCandidate === candidate.id ? 'Hide' : 'Evidence'}
+                      </Button>
+                    </Table.Cell>
+                  </Table.Row>
+                ))}
+              </Table.Body>
+            </Table>
+          )}
+
+          {current.shortlist
+            .filter(candidate => candidate.id === expandedCandidate)
+            .map(candidate => (
+              <div key={candidate.id}>
+                <Heading level={4} data-size="xs" className="mb-2">
+                  {candidate.rank}. {candidate.candidate_name || candidate.fileName}
+                </Heading>
+                {renderCoverage(candidate)}
+              </div>
+            ))}
+
+          {current.failed.length > 0 && (
+            <Alert data-color="danger">
+              <Paragraph data-size="sm">These CVs could not be assessed:</Paragraph>
+              <ul className="list-disc pl-5 text-sm">
+                {current.failed.map(candidate => (
+                  <li key={candidate.id}>{candidate.fileName}: {candidate.error}</li>
+                ))}
+              </ul>
+            </Alert>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button, Label, Paragraph, Select, Textfield } from '@digdir/designsystemet-react';
+import { summaryChecklists, assignmentsChecklists } from '../utils/checklistData';
+import type { DiffPart } from '../utils/textDiff';
+
+export type ChecklistType = 'summary' | 'assignments';
+
+// Mirrors ChecklistSummary in app/api/checklists/checklists.ts
+interface StoredChecklistSummary {
+  id: string;
+  type: ChecklistType;
+  name: string;
+  description: string;
+  owner: string;
+  version: number;
+  content: string;
+  updatedAt: string;
+}
+
+interface ChecklistSelectorProps {
+  type: ChecklistType;
+  selectedId: string;
+  // Current (possibly edited) checklist text
+  content: string;
+  onSelect: (id: string, content: string) => void;
+}
+
+// Stored checklists are prefixed so their ids never clash with the built-in ones
+const STORED_PREFIX = 'stored:';
+
+/**
+ * Select a built-in or stored checklist, and save edits as a new checklist or a new version
+ */
+export default function ChecklistSelector({ type, selectedId, content, onSelect }: ChecklistSelectorProps) {
+  const builtInChecklists = type === 'summary' ? summaryChecklists : assignmentsChecklists;
+  const [storedChecklists, setStoredChecklists] = useState<StoredChecklistSummary[]>([]);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showSaveForm, setShowSaveForm] = useState<boolean>(false);
+  const [name, setName] = useState<string>('');
+  const [description, setDescription] = useState<string>('');
+  const [owner, setOwner] = useState<string>('');
+  const [versionNote, setVersionNote] = useState<string>('');
+  const [diff, setDiff] = useState<DiffPart[] | null>(null);
+
+  const selectedStored = selectedId.startsWith(STORED_PREFIX)
+    ? storedChecklists.find(checklist => STORED_PREFIX + checklist.id === selectedId)
+    : undefined;
+  const hasUnsavedChanges = !!selectedStored && selectedStored.content !== content;
+
+  const loadChecklists = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/checklists?type=${type}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to load checklists: ${response.status}`);
+      }
+      setStoredChecklists(data.checklists);
+    } catch (err) {
+      console.error('Error loading checklists:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load saved checklists');
+    }
+  }, [type]);
+
+  useEffect(() => {
+    loadChecklists();
+    setDiff(null);
+    setShowSaveForm(false);
+  }, [loadChecklists]);
+
+  const handleChange = (id: string) => {
+    setDiff(null);
+    const stored = storedChecklists.find(checklist => STORED_PREFIX + checklist.id === id);
+    const builtIn = builtInChecklists.find(checklist => checklist.id === id);
+    if (stored) {
+      onSelect(id, stored.content);
+    } else if (builtIn) {
+      onSelect(id, builtIn.content);
+    }
+  };
+
+  const saveChecklist = async (request: () => Promise<Response>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await request();
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to save checklist: ${response.status}`);
+      }
+      await loadChecklists();
+      return data.checklist as { id: string };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save checklist');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveAsNew = async () => {
+    const saved = await saveChecklist(() => fetch('/api/checklists', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type, name, description, owner, content })
+    }));
+    if (saved) {
+      setShowSaveForm(false);
+      setName('');
+      setDescription('');
+      onSelect(STORED_PREFIX + saved.id, content);
+    }
+  };
+
+  const handleSaveVersion = async () => {
+    if (!selectedStored) return;
+    const saved = await saveChecklist(() => fetch(`/api/checklists/${selectedStored.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content, author: owner || undefined, note: versionNote })
+    }));
+    if (saved) {
+      setVersionNote('');
+      setDiff(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedStored || !window.confirm(`Delete the checklist "${selectedStored.name}" and all its versions?`)) return;
+    const response = await fetch(`/api/checklists/${selectedStored.id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      setError(`Failed to delete checklist: ${response.status}`);
+      return;
+    }
+    await loadChecklists();
+    onSelect(builtInChecklists[0].id, builtInChecklists[0].content);
+  };
+
+  const handleShowChanges = async () => {
+    if (!selectedStored) return;
+    if (diff) {
+      setDiff(null);
+      return;
+    }
+    const response = await fetch(`/api/checklists/${selectedStored.id}/diff`);
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || `Failed to load changes: ${response.status}`);
+      return;
+    }
+    setDiff(data.changes);
+  };
+
+  const selectId = `${type}ChecklistSelect`;
+
+  return (
+    <div className="mb-4 space-y-2">
+      <Label htmlFor={selectId}>
+        Select {type === 'summary' ? 'Summary' : 'Assignments'} Checklist Template:
+      </Label>
+      <Select
+        id={selectId}
+        className="w-full mb-2"
+        value={selectedId}
+        onChange={(e) => handleChange(e.target.value)}
+      >
+        <optgroup label="Built-in">
+          {builtInChecklists.map(checklist => (
+            <option key={checklist.id} value={checklist.id}>
+              {checklist.name}
+            </option>
+          ))}
+        </optgroup>
+        {storedChecklists.length > 0 && (
+          <optgroup label="Saved">
+            {storedChecklists.map(checklist => (
+              <option key={checklist.id} value={STORED_PREFIX + checklist.id}>
+                {checklist.name} (v{checklist.version}, {checklist.owner})
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </Select>
+
+      {selectedStored?.description && (
+        <Paragraph data-size="xs">{selectedStored.description}</Paragraph>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {hasUnsavedChanges && (
+          <Button variant="secondary" data-size="sm" onClick={handleSaveVersion} disabled={isSaving}>
+            {isSaving ? 'Saving...' : `Save as version ${selectedStored.version + 1}`}
+          </Button>
+        )}
+        <Button variant="secondary" data-size="sm" onClick={() => setShowSaveForm(!showSaveForm)}>
+          {showSaveForm ? 'Cancel' : 'Save as new checklist'}
+        </Button>
+        {selectedStored && selectedStored.version > 1 && (
+          <Button variant="secondary" data-size="sm" onClick={handleShowChanges}>
+            {diff ? 'Hide changes' : 'Show latest changes'}
+          </Button>
+        )}
+        {selectedStored && (
+          <Button variant="secondary" data-size="sm" onClick={handleDelete}>
+            Delete
+          </Button>
+        )}
+      </div>
+
+      {hasUnsavedChanges && (
+        <Textfield
+          label="Version note (optional)"
+          value={versionNote}
+          onChange={(e) => setVersionNote(e.target.value)}
+        />
+      )}
+
+      {showSaveForm && (
+        <div className="space-y-2 p-3 border rounded-lg">
+          <Textfield label="Name" value={name} onChange={(e) => setName(e.target.value)} />
+          <Textfield label="Description" value={description} onChange={(e) => setDescription(e.target.value)} />
+          <Textfield label="Owner" value={owner} onChange={(e) => setOwner(e.target.value)} />
+          <Button
+            data-size="sm"
+            onClick={handleSaveAsNew}
+            disabled={isSaving || !name.trim() || !owner.trim() || !content.trim()}
+          >
+            {isSaving ? 'Saving...' : 'Save checklist'}
+          </Button>
+        </div>
+      )}
+
+      {diff && (
+        <pre className="text-xs whitespace-pre-wrap p-3 border rounded-lg bg-gray-50">
+          {diff.map((part, idx) => (
+            <span
+              key={idx}
+              className={
+                part.type === 'added' ? 'bg-green-100 text-green-800' :
+                part.type === 'removed' ? 'bg-red-100 text-red-800 line-through' :
+                ''
+              }
+            >
+              {part.value}
+            </span>
+          ))}
+        </pre>
+      )}
+
+      {error && (
+        <Paragraph data-size="xs" className="text-red-700">{error}</Paragraph>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Heading,
+  Label,
+  Paragraph,
+  Table,
+  Tag,
+  Textfield
+} from '@digdir/designsystemet-react';
+import type { ModelOption } from './ModelSelector';
+import type { ConsultantSummary, ConsultantTags, StoredConsultant } from '../api/consultants/consultants';
+
+interface ConsultantRegistryProps {
+  // Used to parse uploaded CVs into structured CVs
+  model: ModelOption;
+  maxFileSize?: number; // in MB
+}
+
+const isSupportedCvFile = (file: File) => /\.(pdf|docx)$/i.test(file.name);
+
+const EMPTY_TAGS: ConsultantTags = { practice: '', seniority: '', location: '' };
+
+/**
+ * Register consultants once with their CV and tags, and upload newer CVs as revisions.
+ * Registered consultants can be picked in analysis, customization and ranking instead of uploading their CV.
+ */
+export default function ConsultantRegistry({ model, maxFileSize = 25 }: ConsultantRegistryProps) {
+  const [consultants, setConsultants] = useState<ConsultantSummary[]>([]);
+  const [filter, setFilter] = useState<ConsultantTags>(EMPTY_TAGS);
+  const [file, setFile] = useState<File | null>(null);
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState<ConsultantTags>(EMPTY_TAGS);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<StoredConsultant | null>(null);
+
+  const loadConsultants = async (tagFilter: ConsultantTags) => {
+    try {
+      const params = new URLSearchParams(Object.entries(tagFilter).filter(([, value]) => value.trim()));
+      const response = await fetch(`/api/consultants?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to load consultants: ${response.status}`);
+      }
+      setConsultants(data.consultants);
+    } catch (err) {
+      console.error('Failed to load consultants:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load consultants');
+    }
+  };
+
+  useEffect(() => {
+    loadConsultants(filter);
+  }, [filter]);
+
+  const checkFile = (selected: File) => {
+    if (selected.size > maxFileSize * 1024 * 1024) {
+      setError(`File "${selected.name}" exceeds maximum size of ${maxFileSize}MB`);
+      return false;
+    }
+    if (!isSupportedCvFile(selected)) {
+      setError(`File "${selected.name}" is not a PDF or DOCX file.`);
+      return false;
+    }
+    return true;
+  };
+
+  const upload = async (url: string, selected: File, fields: Record<string, string> = {}) => {
+    setIsUploading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', selected);
+      formData.append('modelProvider', model.provider);
+      formData.append('modelName', model.model);
+      Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+
+      const response = await fetch(url, { method: 'POST', body: formData });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details ? `${data.error}: ${data.details}` : data.error || `Upload failed: ${response.status}`);
+      }
+      await loadConsultants(filter);
+      return data.consultant;
+    } catch (err) {
+      console.error('Failed to upload CV:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload CV');
+      return null;
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const register = async () => {
+    if (!file) return;
+    const consultant = await upload('/api/consultants', file, { name, ...tags });
+    if (consultant) {
+      setFile(null);
+      setName('');
+      setTags(EMPTY_TAGS);
+    }
+  };
+
+  const uploadRevision = async (consultant: ConsultantSummary, e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected || !checkFile(selected)) return;
+
+    const updated = await upload(`/api/consultants/${consultant.id}/revisions`, selected);
+    if (updated && expanded?.id === consultant.id) {
+      setExpanded(updated);
+    }
+  };
+
+  const toggleRevisions = async (consultant: ConsultantSummary) => {
+    if (expanded?.id === consultant.id) {
+      setExpanded(null);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/consultants/${consultant.id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to load consultant: ${response.status}`);
+      }
+      setExpanded(data.consultant);
+    } catch (err) {
+      console.error('Failed to load consultant:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load consultant');
+    }
+  };
+
+  const deleteConsultant = async (consultant: ConsultantSummary) => {
+    if (!window.confirm(`Delete ${consultant.name} and all CV revisions?`)) return;
+
+    setError(null);
+    try {
+      const response = await fetch(`/api/consultants/${consultant.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Failed to delete consultant: ${response.status}`);
+      }
+      if (expanded?.id === consultant.id) setExpanded(null);
+      await loadConsultants(filter);
+    } catch (err) {
+      console.error('Failed to delete consultant:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete consultant');
+    }
+  };
+
+  const canRegister = !!file && !isUploading && model.supportsStructuredOutput !== false;
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 border border-gray-200 rounded-md space-y-3">
+        <Heading level={3} data-size="xs">Register a consultant</Heading>
+        <Label htmlFor="consultantFile">CV (PDF or DOCX)</Label>
+        <input
+          id="consultantFile"
+          type="file"
+          accept=".pdf,.docx"
+          onChange={(e) => {
+            setError(null);
+            const selected = e.target.files?.[0];
+            setFile(selected && checkFile(selected) ? selected : null);
+          }}
+          className="block w-full text-sm"
+        />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <Textfield
+            label="Name"
+            description="Defaults to the name in the CV"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Textfield
+            label="Practice"
+            value={tags.practice}
+            onChange={(e) => setTags({ ...tags, practice: e.target.value })}
+          />
+          <Textfield
+            label="Seniority"
+            value={tags.seniority}
+            onChange={(e) => setTags({ ...tags, seniority: e.target.value })}
+          />
+          <Textfield
+            label="Location"
+            value={tags.location}
+            onChange={(e) => setTags({ ...tags, location: e.target.value })}
+          />
+        </div>
+        <Button variant="primary" onClick={register} disabled={!canRegister} className="w-full">
+          {isUploading ? 'Parsing CV...' : 'Register consultant'}
+        </Button>
+      </div>
+
+      {error && <Alert data-color="danger">{error}</Alert>}
+
+      <div className="space-y-3">
+        <Heading level={3} data-size="xs">Consultants</Heading>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {(['practice', 'seniority', 'location'] as const).map(tag => (
+            <Textfield
+              key={tag}
+              label={`Filter by ${tag}`}
+              data-size="sm"
+              value={filter[tag]}
+              onChange={(e) => setFilter({ ...filter, [tag]: e.target.value })}
+            />
+          ))}
+        </div>
+
+        {consultants.length === 0 ? (
+          <Paragraph data-size="sm">No consultants registered{Object.values(filter).some(Boolean) ? ' with these tags' : ''}.</Paragraph>
+        ) : (
+          <Table>
+            <Table.Head>
+              <Table.Row>
+                <Table.Cell>Name</Table.Cell>
+                <Table.Cell>Tags</Table.Cell>
+                <Table.Cell>Latest CV</Table.Cell>
+                <Table.Cell></Table.Cell>
+              </Table.Row>
+            </Table.Head>
+            <Table.Body>
+              {consultants.map(consultant => (
+                <Table.Row key={consultant.id}>
+                  <Table.Cell>{consultant.name}</Table.Cell>
+                  <Table.Cell>
+                    <div className="flex flex-wrap gap-1">
+                      {[consultant.tags.practice, consultant.tags.seniority, consultant.tags.location]
+                        .filter(Boolean)
+                        .map(tag => <Tag key={tag} data-color="info">{tag}</Tag>)}
+                    </div>
+                  </Table.Cell>
+                  <Table.Cell>
+                    <div>{consultant.fileName}</div>
+                    <div className="text-xs text-gray-500">
+                      Revision {consultant.revision}, {new Date(consultant.updatedAt).toLocaleDateString()}
+                    </div>
+                  </Table.Cell>
+                  <Table.Cell>
+                    <div className="flex flex-wrap gap-2">
+                      <label className="cursor-pointer">
+                        <input
+                          type="file"
+                          accept=".pdf,.docx"
+                          className="sr-only"
+                          disabled={isUploading || model.supportsStructuredOutput === false}
+                          onChange={(e) => uploadRevision(consultant, e)}
+                        />
+                        <span className="inline-block px-3 py-1 text-sm border border-gray-300 rounded">New CV version</span>
+                      </label>
+                      <Button variant="secondary" data-size='sm' onClick={() => toggleRevisions(consultant)}>
+                        {expanded?.id === consultant.id ? 'Hide revisions' : 'Revisions'}
+                      </Button>
+                      <Button variant="tertiary" data-size='sm' onClick={() => deleteConsultant(consultant)}>
+                        Delete
+                      </Button>
+                    </div>
+                  </Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        )}
+
+        {expanded && (
+          <div className="p-4 bg-gray-50 rounded space-y-2">
+            <Heading level={4} data-size="xs">{expanded.name}: CV revisions</Heading>
+            <ul className="space-y-1 text-sm">
+              {[...expanded.revisions].reverse().map(revision => (
+                <li key={revision.revision}>
+                  <strong>Revision {revision.revision}</strong>
+                  {revision.previousRevision !== undefined && ` (replaces revision ${revision.previousRevision})`}
+                  {': '}
+                  <a
+                    className="underline"
+                    href={`/api/consultants/${expanded.id}/revisions/${revision.revision}/file`}
+                  >
+                    {revision.fileName}
+                  </a>
+                  {', '}{new Date(revision.createdAt).toLocaleString()}
+                  {', '}{revision.cv.projects.length} projects, {revision.cv.competencies.length} competencies
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Checkbox, Label, Paragraph, Select } from '@digdir/designsystemet-react';
+import type { ConsultantSummary } from '../api/consultants/consultants';
+
+interface ConsultantSelectorProps {
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+  // Pick any number of consultants instead of one
+  multiple?: boolean;
+}
+
+const describe = (consultant: ConsultantSummary) => {
+  const tags = [consultant.tags.practice, consultant.tags.seniority, consultant.tags.location].filter(Boolean);
+  return `${consultant.name}${tags.length > 0 ? ` (${tags.join(', ')})` : ''}, revision ${consultant.revision}`;
+};
+
+/**
+ * Pick registered consultants to use their stored CV instead of uploading a file
+ */
+export default function ConsultantSelector({ selectedIds, onChange, multiple = false }: ConsultantSelectorProps) {
+  const [consultants, setConsultants] = useState<ConsultantSummary[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadConsultants = async () => {
+      try {
+        const response = await fetch('/api/consultants');
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || `Failed to load consultants: ${response.status}`);
+        }
+        setConsultants(data.consultants);
+      } catch (err) {
+        console.error('Failed to load consultants:', err);
+        setLoadError(err instanceof Error ? err.message : 'Failed to load consultants');
+      }
+    };
+    loadConsultants();
+  }, []);
+
+  if (loadError) {
+    return <Paragraph data-size="xs" className="text-red-700">{loadError}</Paragraph>;
+  }
+
+  if (consultants.length === 0) {
+    return null;
+  }
+
+  if (multiple) {
+    return (
+      <div className="space-y-1">
+        <Label>Registered consultants</Label>
+        {consultants.map(consultant => (
+          <Checkbox
+            key={consultant.id}
+            label={describe(consultant)}
+            checked={selectedIds.includes(consultant.id)}
+            onChange={(e) => onChange(e.target.checked
+              ? [...selectedIds, consultant.id]
+              : selectedIds.filter(id => id !== consultant.id))}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <Label htmlFor="consultantSelector">Or use a registered consultant</Label>
+      <Select
+        id="consultantSelector"
+        className="w-full"
+        value={selectedIds[0] || ''}
+        onChange={(e) => onChange(e.target.value ? [e.target.value] : [])}
+      >
+        <option value="">Upload a CV file instead</option>
+        {consultants.map(consultant => (
+          <option key={consultant.id} value={consultant.id}>{describe(consultant)}</option>
+        ))}
+      </Select>
+    </div>
+  );
+}
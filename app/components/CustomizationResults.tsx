@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { 
   Card,
   Heading, 
@@ -10,21 +10,56 @@ import {
   Divider,
   Tabs,
   Textarea,
-  Button
+  Button,
+  Checkbox,
+  Input,
+  Textfield,
+  ToggleGroup
 } from '@digdir/designsystemet-react';
+import {
+  createCvAssembly,
+  getAssembledCustomization,
+  getCorrectedProject as getCorrectedProjectFor,
+  getProfileVersions,
+  getProjectKey,
+  getProjectValidation,
+  getProjectVersions,
+  resolveText,
+  type CompetencySelection,
+  type CvAssembly,
+  type ProjectSelection,
+  type TextSelection,
+  type TextSource
+} from '../utils/customizationOutput';
+import { buildTraceabilityMatrix } from '../utils/traceabilityMatrix';
+import TextDiff, { type DiffClaim } from './TextDiff';
 
-type TabValue = 'requirements' | 'profile' | 'competencies' | 'projects' | 'evaluation' | 'validation' | 'correction' | 'final';
+type TabValue = 'requirements' | 'profile' | 'competencies' | 'projects' | 'evaluation' | 'matrix' | 'validation' | 'correction' | 'final';
+
+// Mirrors RegenerationRequest in app/api/cv-customization/pipeline.ts
+export interface RegenerateSectionRequest {
+  section: 'profile' | 'project';
+  projectId?: string;
+  projectName?: string;
+  guidance?: string;
+}
 
 interface CustomizationResultsProps {
   result: any;
   isLoading: boolean;
+  // Resolves with the updated result, or null when regeneration failed
+  onRegenerate?: (sectionKey: string, request: RegenerateSectionRequest) => Promise<any>;
+  regeneratingSections?: string[];
 }
 
 export default function CustomizationResults({ 
   result, 
-  isLoading 
+  isLoading,
+  onRegenerate,
+  regeneratingSections = []
 }: CustomizationResultsProps) {
   const [copiedStates, setCopiedStates] = useState<{[key: string]: boolean}>({});
+  const [guidance, setGuidance] = useState<{[key: string]: string}>({});
 
   // Copy to clipboard functionality
   const copyToClipboard = async (text: string, key: string) => {
@@ -39,32 +74,173 @@ export default function CustomizationResults({
     }
   };
 
-  // Get final texts (corrected if available, otherwise customized)
-  const getFinalProfile = () => {
-    if (result?.correction?.corrected_profile?.profile) {
-      return result.correction.corrected_profile.profile;
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Accepted, rejected and edited sections, starting with all suggestions accepted
+  const [assembly, setAssembly] = useState<CvAssembly | null>(null);
+  const assemblyJobId = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    const defaults = result ? createCvAssembly(result) : null;
+    const sameJob = !!result?.job_id && result.job_id === assemblyJobId.current;
+    assemblyJobId.current = result?.job_id;
+    // Keep the choices when a regeneration updates the same job, with defaults for new projects
+    setAssembly(previous => sameJob && previous && defaults
+      ? { ...previous, projects: { ...defaults.projects, ...previous.projects } }
+      : defaults);
+  }, [result]);
+  const currentAssembly = assembly || createCvAssembly(result);
+
+  // The assembled CV that is copied and exported
+  const finalCustomization = getAssembledCustomization(result, currentAssembly);
+  // Requirements mapped to their evidence, checked against the assembled CV
+  const traceabilityMatrix = result?.evaluation ? buildTraceabilityMatrix(result, finalCustomization) : [];
+
+  const updateProfile = (selection: Partial<TextSelection>) =>
+    setAssembly({ ...currentAssembly, profile: { ...currentAssembly.profile, ...selection } });
+
+  const updateProject = (key: string, selection: Partial<ProjectSelection>) =>
+    setAssembly({
+      ...currentAssembly,
+      projects: { ...currentAssembly.projects, [key]: { ...currentAssembly.projects[key], ...selection } }
+    });
+
+  const updateCompetency = (index: number, selection: Partial<CompetencySelection>) =>
+    setAssembly({
+      ...currentAssembly,
+      competencies: currentAssembly.competencies.map((competency, i) => i === index ? { ...competency, ...selection } : competency)
+    });
+
+  const addCompetency = () =>
+    setAssembly({
+      ...currentAssembly,
+      competencies: [...currentAssembly.competencies, { text: '', origin: 'added', included: true }]
+    });
+
+  const getFinalProfile = () => finalCustomization.profile;
+
+  const getFinalCompetencies = () => finalCustomization.competencies.join('\n• ');
+
+  const getCorrectedProject = (project: any, index: number) => getCorrectedProjectFor(result, project, index);
+
+  // Download the final content as a Word document built from the company template
+  const exportDocx = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const response = await fetch('/api/cv-customization/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ result, assembly: currentAssembly })
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Export failed: ${response.status}`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${result?.candidate_name || 'cv'}_customized.docx`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to export DOCX: ', err);
+      setExportError(err instanceof Error ? err.message : 'Failed to export DOCX');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const [exportingMatrix, setExportingMatrix] = useState<'csv' | 'xlsx' | null>(null);
+  const [matrixExportError, setMatrixExportError] = useState<string | null>(null);
+
+  // Download the traceability matrix for the assembled CV as a spreadsheet
+  const exportMatrix = async (format: 'csv' | 'xlsx') => {
+    setExportingMatrix(format);
+    setMatrixExportError(null);
+    try {
+      const response = await fetch('/api/cv-customization/export/matrix', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ result, assembly: currentAssembly, format })
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Export failed: ${response.status}`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${result?.candidate_name || 'cv'}_traceability.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to export traceability matrix: ', err);
+      setMatrixExportError(err instanceof Error ? err.message : 'Failed to export traceability matrix');
+    } finally {
+      setExportingMatrix(null);
     }
-    return result?.profile_customization?.customized_profile || '';
   };
 
-  const getFinalCompetencies = () => {
-    if (result?.correction?.corrected_competencies?.competencies) {
-      return result.correction.corrected_competencies.competencies.join('\n• ');
+  // Regenerate a section with optional guidance, and start over with the choices for that section
+  const regenerate = async (request: RegenerateSectionRequest, projectKey?: string) => {
+    const sectionKey = projectKey ? `project:${projectKey}` : 'profile';
+    const updated = await onRegenerate?.(sectionKey, { ...request, guidance: guidance[sectionKey] });
+    if (!updated) {
+      return;
     }
-    return result?.key_competencies?.relevant_competencies?.join('\n• ') || '';
+    const defaults = createCvAssembly(updated);
+    setAssembly(previous => {
+      const base = previous || defaults;
+      return projectKey
+        ? { ...base, projects: { ...base.projects, [projectKey]: defaults.projects[projectKey] } }
+        : { ...base, profile: defaults.profile };
+    });
   };
 
-  const getFinalProjects = () => {
-    if (result?.correction?.corrected_projects) {
-      return result.correction.corrected_projects.map((project: any) => 
-        `${project.project_name}\n${project.corrected_description}`
-      ).join('\n\n---\n\n');
+  const renderRegenerate = (label: string, request: RegenerateSectionRequest, projectKey?: string) => {
+    if (!onRegenerate || !result?.job_id) {
+      return null;
     }
-    return result?.customized_projects?.map((project: any) => 
-      `${project.project_name}\n${project.customized_description}`
-    ).join('\n\n---\n\n') || '';
+    const sectionKey = projectKey ? `project:${projectKey}` : 'profile';
+    const isRegenerating = regeneratingSections.includes(sectionKey);
+    return (
+      <div className="mt-4 flex items-end gap-2">
+        <Textfield
+          className="flex-1"
+          data-size="sm"
+          label="Guidance for regeneration (optional)"
+          placeholder='e.g. "Emphasize Azure"'
+          value={guidance[sectionKey] || ''}
+          onChange={(e) => setGuidance(previous => ({ ...previous, [sectionKey]: e.target.value }))}
+        />
+        <Button variant="secondary" data-size="sm" onClick={() => regenerate(request, projectKey)} disabled={isRegenerating}>
+          {isRegenerating ? 'Regenerating...' : `Regenerate ${label}`}
+        </Button>
+      </div>
+    );
   };
 
+  // Choose which version of a text to use. Projects can also be rejected entirely.
+  const renderSourceToggle = (
+    label: string,
+    value: string,
+    hasCorrected: boolean,
+    hasEdited: boolean,
+    onChange: (value: string) => void,
+    canReject = false
+  ) => (
+    <ToggleGroup data-size="sm" aria-label={label} value={value} onChange={onChange}>
+      <ToggleGroup.Item value="original">Original</ToggleGroup.Item>
+      <ToggleGroup.Item value="customized">Customized</ToggleGroup.Item>
+      {hasCorrected && <ToggleGroup.Item value="corrected">Corrected</ToggleGroup.Item>}
+      {(hasEdited || value === 'edited') && <ToggleGroup.Item value="edited">Edited</ToggleGroup.Item>}
+      {canReject && <ToggleGroup.Item value="rejected">Rejected</ToggleGroup.Item>}
+    </ToggleGroup>
+  );
+
   // Determine the default tab based on validation results
   const getDefaultTab = (): TabValue => {
     // Default to final output tab if we have results
@@ -102,6 +278,17 @@ export default function CustomizationResults({
     validation,
     correction
   } = result;
+
+  // Validation quotes, highlighted in the diffs
+  const toClaims = (fabricated: string[] = [], unsupported: string[] = []): DiffClaim[] => [
+    ...fabricated.map(text => ({ text, kind: 'fabricated' as const })),
+    ...unsupported.map(text => ({ text, kind: 'unsupported' as const }))
+  ];
+  const profileClaims = toClaims(validation?.profile_validation?.fabricated_claims, validation?.profile_validation?.unsupported_claims);
+  const getProjectClaims = (project: any, index: number) => {
+    const projectValidation = getProjectValidation(result, project, index);
+    return toClaims(projectValidation?.fabricated_details, projectValidation?.unsupported_claims);
+  };
   
   return (
     <div>
@@ -151,6 +338,7 @@ export default function CustomizationResults({
           <Tabs.Tab value="competencies">Key Competencies</Tabs.Tab>
           <Tabs.Tab value="projects">Project Highlights</Tabs.Tab>
           <Tabs.Tab value="evaluation">Evaluation</Tabs.Tab>
+          <Tabs.Tab value="matrix">Traceability Matrix</Tabs.Tab>
           <Tabs.Tab value="validation">
             Validation
             {validation && (
@@ -245,16 +433,15 @@ export default function CustomizationResults({
             <Card.Block>
               <Heading level={3} data-size="sm">Profile Customization</Heading>
               
-              <div className="mt-4 p-4 bg-gray-50 rounded">
-                <Heading level={4} data-size="xs">Original Profile</Heading>
-                <Paragraph className="mt-2 whitespace-pre-wrap">{profile_customization.original_profile}</Paragraph>
-              </div>
-              
-              <div className="mt-4 p-4 bg-blue-50 rounded border border-blue-200">
-                <Heading level={4} data-size="xs">
-                  {correction ? 'Initial Customized Profile' : 'Customized Profile'}
-                </Heading>
-                <Paragraph className="mt-2 whitespace-pre-wrap">{profile_customization.customized_profile}</Paragraph>
+              <div className="mt-4">
+                <TextDiff
+                  id="profile"
+                  before={profile_customization.original_profile}
+                  after={profile_customization.customized_profile}
+                  beforeLabel="Original Profile"
+                  afterLabel={correction ? 'Initial Customized Profile' : 'Customized Profile'}
+                  claims={profileClaims}
+                />
               </div>
               
               {correction && (
@@ -287,6 +474,8 @@ export default function CustomizationResults({
                 <Heading level={4} data-size="xs">Reasoning</Heading>
                 <Paragraph className="mt-2 whitespace-pre-wrap">{profile_customization.reasoning}</Paragraph>
               </div>
+              
+              {renderRegenerate('profile', { section: 'profile' })}
             </Card.Block>
           </Card>
         </Tabs.Panel>
@@ -390,33 +579,28 @@ export default function CustomizationResults({
                     
                     <div className="p-4">
                       <div className="space-y-4">
-                        <div>
-                          <Heading level={5} data-size="xs">Original Description</Heading>
-                          <Paragraph className="mt-2 whitespace-pre-wrap">{project.original_description}</Paragraph>
-                        </div>
+                        <TextDiff
+                          id={`project-${index}`}
+                          before={project.original_description}
+                          after={project.customized_description}
+                          beforeLabel="Original Description"
+                          afterLabel={correction ? 'Initial Customized Description' : 'Customized Description'}
+                          claims={getProjectClaims(project, index)}
+                        />
                         
-                        <Divider data-spacing="true" />
-                        
-                        <div>
-                          <Heading level={5} data-size="xs">
-                            {correction ? 'Initial Customized Description' : 'Customized Description'}
-                          </Heading>
-                          <Paragraph className="mt-2 whitespace-pre-wrap">{project.customized_description}</Paragraph>
-                        </div>
-                        
-                        {correction && correction.corrected_projects[index] && (
+                        {correction && getCorrectedProject(project, index) && (
                           <>
                             <Divider data-spacing="true" />
                             
                             <div className="p-4 bg-green-50 rounded border border-green-200">
                               <Heading level={5} data-size="xs" className="text-green-800">Final Corrected Description</Heading>
-                              <Paragraph className="mt-2 whitespace-pre-wrap text-green-700">{correction.corrected_projects[index].corrected_description}</Paragraph>
+                              <Paragraph className="mt-2 whitespace-pre-wrap text-green-700">{getCorrectedProject(project, index).corrected_description}</Paragraph>
                               
-                              {correction.corrected_projects[index].changes_made.length > 0 && (
+                              {getCorrectedProject(project, index).changes_made.length > 0 && (
                                 <div className="mt-4">
                                   <Heading level={6} data-size="xs" className="text-green-800">Changes Made</Heading>
                                   <ul className="mt-2 list-disc pl-6 text-green-700">
-                                    {correction.corrected_projects[index].changes_made.map((change: string, i: number) => (
+                                    {getCorrectedProject(project, index).changes_made.map((change: string, i: number) => (
                                       <li key={`proj-change-${i}`} className="mb-1">{change}</li>
                                     ))}
                                   </ul>
@@ -450,6 +634,12 @@ export default function CustomizationResults({
                           <Heading level={5} data-size="xs">Reasoning</Heading>
                           <Paragraph className="mt-2 whitespace-pre-wrap">{project.reasoning}</Paragraph>
                         </div>
+                        
+                        {renderRegenerate(
+                          'project',
+                          { section: 'project', projectId: project.project_id, projectName: project.project_name },
+                          getProjectKey(project, index)
+                        )}
                       </div>
                     </div>
                   </div>
@@ -514,6 +704,92 @@ export default function CustomizationResults({
             </Card.Block>
           </Card>
         </Tabs.Panel>
+
+        <Tabs.Panel value="matrix">
+          <Card>
+            <Card.Block>
+              <Heading level={3} data-size="sm">Requirement Traceability</Heading>
+              <Paragraph data-size="sm" className="mt-2">
+                Each requirement of the customer request with the passages of the CV that cover it.
+                Passages that are no longer in the final CV after correction or editing are marked.
+              </Paragraph>
+              <div className="mt-3">
+                <Button
+                  variant="secondary"
+                  data-size='sm'
+                  onClick={() => exportMatrix('csv')}
+                  disabled={exportingMatrix !== null || traceabilityMatrix.length === 0}
+                >
+                  {exportingMatrix === 'csv' ? 'Exporting...' : 'Download CSV'}
+                </Button>
+                <Button
+                  variant="secondary"
+                  data-size='sm'
+                  className="ml-2"
+                  onClick={() => exportMatrix('xlsx')}
+                  disabled={exportingMatrix !== null || traceabilityMatrix.length === 0}
+                >
+                  {exportingMatrix === 'xlsx' ? 'Exporting...' : 'Download XLSX'}
+                </Button>
+                {matrixExportError && (
+                  <Paragraph data-size="sm" className="mt-2 text-red-700">{matrixExportError}</Paragraph>
+                )}
+              </div>
+            </Card.Block>
+
+            <Card.Block>
+              {traceabilityMatrix.length === 0 ? (
+                <Paragraph data-size="sm">No requirement coverage has been evaluated.</Paragraph>
+              ) : (
+                <Table>
+                  <Table.Head>
+                    <Table.Row>
+                      <Table.Cell>Requirement</Table.Cell>
+                      <Table.Cell>Coverage</Table.Cell>
+                      <Table.Cell>Evidence</Table.Cell>
+                    </Table.Row>
+                  </Table.Head>
+                  <Table.Body>
+                    {traceabilityMatrix.map((row, index) => (
+                      <Table.Row key={`matrix-${index}`}>
+                        <Table.Cell>
+                          <div className="font-medium">{row.requirement}</div>
+                          <div className="text-xs text-gray-500">
+                            {row.type === 'must_have' ? 'Must-have' : 'Should-have'}{row.priority && `, ${row.priority}`}
+                          </div>
+                        </Table.Cell>
+                        <Table.Cell>
+                          <Tag data-color={row.covered ? 'success' : 'danger'}>
+                            {row.covered ? 'Covered' : 'Not Covered'}
+                          </Tag>
+                        </Table.Cell>
+                        <Table.Cell>
+                          {row.evidence.length > 0 ? (
+                            <ul className="space-y-2">
+                              {row.evidence.map((evidence, evidenceIndex) => (
+                                <li key={`matrix-${index}-${evidenceIndex}`} className="text-sm">
+                                  <div className="text-xs text-gray-500">
+                                    {evidence.location}
+                                    {!evidence.inFinalCv && (
+                                      <Tag data-color="warning" className="ml-2">Not in final CV</Tag>
+                                    )}
+                                  </div>
+                                  <blockquote className="border-l-2 border-gray-300 pl-2 italic">{evidence.quote}</blockquote>
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <span className="text-sm text-gray-500">{row.coverageDetails}</span>
+                          )}
+                        </Table.Cell>
+                      </Table.Row>
+                    ))}
+                  </Table.Body>
+                </Table>
+              )}
+            </Card.Block>
+          </Card>
+        </Tabs.Panel>
         
         <Tabs.Panel value="validation">
           {validation && (
@@ -711,8 +987,15 @@ export default function CustomizationResults({
               {/* Corrected Profile */}
               <Card.Block>
                 <Heading level={4} data-size="xs">Corrected Profile</Heading>
-                <div className="mt-4 p-4 bg-green-50 rounded border border-green-200">
-                  <Paragraph className="whitespace-pre-wrap">{correction.corrected_profile.profile}</Paragraph>
+                <div className="mt-4">
+                  <TextDiff
+                    id="corrected-profile"
+                    before={profile_customization.customized_profile}
+                    after={correction.corrected_profile.profile}
+                    beforeLabel="Customized Profile"
+                    afterLabel="Corrected Profile"
+                    claims={profileClaims}
+                  />
                 </div>
                 
                 <div className="mt-4">
@@ -766,46 +1049,56 @@ export default function CustomizationResults({
               <Card.Block>
                 <Heading level={4} data-size="xs">Corrected Projects</Heading>
                 <div className="space-y-4 mt-4">
-                  {correction.corrected_projects.map((project: any, index: number) => (
-                    <div key={`corr-proj-${index}`} className="border rounded-md overflow-hidden">
-                      <div className="p-4 bg-gray-50 border-b">
-                        <Heading level={5} data-size="xs">{project.project_name}</Heading>
-                      </div>
-                      
-                      <div className="p-4">
-                        <div className="p-4 bg-green-50 rounded border border-green-200 mb-4">
-                          <Heading level={6} data-size="xs">Corrected Description</Heading>
-                          <Paragraph className="mt-2 whitespace-pre-wrap">{project.corrected_description}</Paragraph>
+                  {correction.corrected_projects.map((project: any, index: number) => {
+                    const customizedProject = customized_projects.find((p: any) => p.project_id && p.project_id === project.project_id)
+                      || customized_projects[index];
+                    return (
+                      <div key={`corr-proj-${index}`} className="border rounded-md overflow-hidden">
+                        <div className="p-4 bg-gray-50 border-b">
+                          <Heading level={5} data-size="xs">{project.project_name}</Heading>
                         </div>
                         
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-                          <div>
-                            <Heading level={6} data-size="xs">PARC Analysis</Heading>
-                            <div className="mt-2 space-y-2">
-                              <div><strong>Problem:</strong> {project.parc_analysis.problem}</div>
-                              <div><strong>Accountability:</strong> {project.parc_analysis.accountability}</div>
-                              <div><strong>Role:</strong> {project.parc_analysis.role}</div>
-                              <div><strong>Result:</strong> {project.parc_analysis.result}</div>
+                        <div className="p-4">
+                          <div className="mb-4">
+                            <TextDiff
+                              id={`corrected-project-${index}`}
+                              before={customizedProject?.customized_description || ''}
+                              after={project.corrected_description}
+                              beforeLabel="Customized Description"
+                              afterLabel="Corrected Description"
+                              claims={customizedProject ? getProjectClaims(customizedProject, customized_projects.indexOf(customizedProject)) : []}
+                            />
+                          </div>
+                          
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                            <div>
+                              <Heading level={6} data-size="xs">PARC Analysis</Heading>
+                              <div className="mt-2 space-y-2">
+                                <div><strong>Problem:</strong> {project.parc_analysis.problem}</div>
+                                <div><strong>Accountability:</strong> {project.parc_analysis.accountability}</div>
+                                <div><strong>Role:</strong> {project.parc_analysis.role}</div>
+                                <div><strong>Result:</strong> {project.parc_analysis.result}</div>
+                              </div>
+                            </div>
+                            
+                            <div>
+                              <Heading level={6} data-size="xs">Changes Made</Heading>
+                              <ul className="mt-2 list-disc pl-6">
+                                {project.changes_made.map((change: string, i: number) => (
+                                  <li key={`proj-change-${i}`} className="mb-1">{change}</li>
+                                ))}
+                              </ul>
                             </div>
                           </div>
                           
                           <div>
-                            <Heading level={6} data-size="xs">Changes Made</Heading>
-                            <ul className="mt-2 list-disc pl-6">
-                              {project.changes_made.map((change: string, i: number) => (
-                                <li key={`proj-change-${i}`} className="mb-1">{change}</li>
-                              ))}
-                            </ul>
+                            <Heading level={6} data-size="xs">Reasoning</Heading>
+                            <Paragraph className="mt-2 whitespace-pre-wrap">{project.reasoning}</Paragraph>
                           </div>
                         </div>
-                        
-                        <div>
-                          <Heading level={6} data-size="xs">Reasoning</Heading>
-                          <Paragraph className="mt-2 whitespace-pre-wrap">{project.reasoning}</Paragraph>
-                        </div>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </Card.Block>
             </Card>
@@ -815,9 +1108,15 @@ export default function CustomizationResults({
         <Tabs.Panel value="final">
           <Card>
             <Card.Block>
-              <Heading level={3} data-size="sm">Final Customized Content</Heading>
+              <div className="flex justify-between items-center">
+                <Heading level={3} data-size="sm">Final Customized Content</Heading>
+                <Button variant="secondary" data-size="sm" onClick={() => setAssembly(createCvAssembly(result))}>
+                  Reset choices
+                </Button>
+              </div>
               <Paragraph className="mt-2">
-                Copy and use the finalized content below. This includes all corrections and optimizations.
+                Choose the version of each section to keep, reject projects and competencies you do not want, or edit the texts directly.
+                Copying and the DOCX download use the CV assembled here.
               </Paragraph>
             </Card.Block>
             
@@ -825,8 +1124,14 @@ export default function CustomizationResults({
             <Card.Block>
               <Heading level={4} data-size="xs">Profile Summary</Heading>
               <div className="border rounded-md p-4 mt-4">
-                <div className="flex justify-between items-center mb-2">
-                  <Heading level={5} data-size="xs">Customized Profile</Heading>
+                <div className="flex justify-between items-center mb-2 gap-2 flex-wrap">
+                  {renderSourceToggle(
+                    'Profile version',
+                    currentAssembly.profile.source,
+                    !!getProfileVersions(result).corrected,
+                    currentAssembly.profile.editedText !== undefined,
+                    source => updateProfile({ source: source as TextSource })
+                  )}
                   <Button
                     variant="secondary"
                     onClick={() => copyToClipboard(getFinalProfile(), 'profile')}
@@ -835,9 +1140,10 @@ export default function CustomizationResults({
                   </Button>
                 </div>
                 <Textarea
+                  aria-label="Profile"
                   value={getFinalProfile()}
                   rows={8}
-                  readOnly
+                  onChange={(e) => updateProfile({ source: 'edited', editedText: e.target.value })}
                   className="w-full"
                 />
               </div>
@@ -854,12 +1160,28 @@ export default function CustomizationResults({
                   {copiedStates.competencies ? 'Copied!' : 'Copy Competencies'}
                 </Button>
               </div>
-              <Textarea
-                value={'• ' + getFinalCompetencies()}
-                rows={6}
-                readOnly
-                className="w-full mb-4"
-              />
+              <ul className="space-y-2">
+                {currentAssembly.competencies.map((competency, index) => (
+                  <li key={`final-comp-${index}`} className="flex items-center gap-2">
+                    <Checkbox
+                      aria-label={competency.included ? 'Reject competency' : 'Accept competency'}
+                      checked={competency.included}
+                      onChange={(e) => updateCompetency(index, { included: e.target.checked })}
+                    />
+                    <Input
+                      aria-label="Competency"
+                      data-size="sm"
+                      value={competency.text}
+                      onChange={(e) => updateCompetency(index, { text: e.target.value })}
+                      className={`flex-1 ${competency.included ? '' : 'line-through text-gray-500'}`}
+                    />
+                    {competency.origin === 'original' && <Tag data-color="neutral">Original</Tag>}
+                  </li>
+                ))}
+              </ul>
+              <Button variant="secondary" data-size="sm" className="mt-2" onClick={addCompetency}>
+                Add competency
+              </Button>
             </Card.Block>
             
             {/* Final Projects */}
@@ -867,25 +1189,46 @@ export default function CustomizationResults({
               <Heading level={4} data-size="xs">Project Descriptions</Heading>
               <div className="space-y-4 mt-4">
                 {result?.customized_projects && result.customized_projects.map((project: any, index: number) => {
-                  const finalProjectDescription = result?.correction?.corrected_projects?.[index]?.corrected_description || project.customized_description;
+                  const key = getProjectKey(project, index);
+                  const selection = currentAssembly.projects[key] || { source: 'customized', included: true };
+                  const versions = getProjectVersions(result, project, index);
+                  const description = selection.included ? resolveText(selection, versions) : null;
                   
                   return (
-                    <div key={`final-project-${index}`} className="border rounded-md p-4">
+                    <div key={`final-project-${index}`} className={`border rounded-md p-4 ${!selection.included ? 'bg-gray-50' : ''}`}>
                       <div className="flex justify-between items-center mb-2">
                         <Heading level={5} data-size="xs">{project.project_name}</Heading>
                         <Button
                           variant="secondary"
-                          onClick={() => copyToClipboard(finalProjectDescription, `project-${index}`)}
+                          onClick={() => copyToClipboard(description || '', `project-${index}`)}
+                          disabled={description === null}
                         >
                           {copiedStates[`project-${index}`] ? 'Copied!' : 'Copy Project'}
                         </Button>
                       </div>
-                      <Textarea
-                        value={finalProjectDescription}
-                        rows={6}
-                        readOnly
-                        className="w-full"
-                      />
+                      <div className="mb-2">
+                        {renderSourceToggle(
+                          `${project.project_name} version`,
+                          !selection.included ? 'rejected' : selection.source,
+                          !!versions.corrected,
+                          selection.editedText !== undefined,
+                          value => updateProject(key, value === 'rejected'
+                            ? { included: false }
+                            : { included: true, source: value as TextSource }),
+                          true
+                        )}
+                      </div>
+                      {description !== null ? (
+                        <Textarea
+                          aria-label={project.project_name}
+                          value={description}
+                          rows={6}
+                          onChange={(e) => updateProject(key, { source: 'edited', editedText: e.target.value })}
+                          className="w-full"
+                        />
+                      ) : (
+                        <Paragraph data-size="sm" className="text-gray-500">This project is left out of the CV.</Paragraph>
+                      )}
                     </div>
                   );
                 })}
@@ -900,10 +1243,9 @@ export default function CustomizationResults({
                   onClick={() => {
                     const finalProfile = getFinalProfile();
                     const finalCompetencies = getFinalCompetencies();
-                    const finalProjects = result?.customized_projects?.map((project: any, index: number) => {
-                      const finalProjectDescription = result?.correction?.corrected_projects?.[index]?.corrected_description || project.customized_description;
-                      return `${project.project_name}\n${finalProjectDescription}`;
-                    }).join('\n\n---\n\n') || '';
+                    const finalProjects = finalCustomization.projects
+                      .map(project => `${project.project_name}\n${project.description}`)
+                      .join('\n\n---\n\n');
                     
                     const allContent = `PROFILE SUMMARY:\n${finalProfile}\n\nKEY COMPETENCIES:\n• ${finalCompetencies}\n\nPROJECT DESCRIPTIONS:\n${finalProjects}`;
                     copyToClipboard(allContent, 'all');
@@ -911,6 +1253,17 @@ export default function CustomizationResults({
                 >
                   {copiedStates.all ? 'All Content Copied!' : 'Copy All Content'}
                 </Button>
+                <Button
+                  variant="secondary"
+                  className="ml-2"
+                  onClick={exportDocx}
+                  disabled={isExporting}
+                >
+                  {isExporting ? 'Exporting...' : 'Download DOCX'}
+                </Button>
+                {exportError && (
+                  <Paragraph data-size="sm" className="mt-2 text-red-700">{exportError}</Paragraph>
+                )}
               </div>
             </Card.Block>
           </Card>
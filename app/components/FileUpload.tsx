@@ -6,12 +6,14 @@ interface FileUploadProps {
   onCVUpload: (file: File) => void;
   onChecklistUpload?: (file: File) => void;
   showChecklistUpload?: boolean;
+  allowDocx?: boolean;
 }
 
 export default function FileUpload({ 
   onCVUpload, 
   onChecklistUpload, 
-  showChecklistUpload = true 
+  showChecklistUpload = true,
+  allowDocx = false
 }: FileUploadProps) {
   const [cvFile, setCVFile] = useState<File | null>(null);
   const [checklistFile, setChecklistFile] = useState<File | null>(null);
@@ -36,16 +38,16 @@ export default function FileUpload({
     <div className="space-y-4">
       <div className="space-y-2">
         <label htmlFor="cv-file-input" className="block text-sm font-medium">
-          Upload your CV (PDF)
+          Upload your CV ({allowDocx ? 'PDF or DOCX' : 'PDF'})
         </label>
         <input
           id="cv-file-input"
           type="file"
-          accept=".pdf"
+          accept={allowDocx ? '.pdf,.docx' : '.pdf'}
           onChange={handleCVChange}
           className="w-full p-2 border border-gray-300 rounded-md"
           aria-label="Upload your CV file"
-          title="Choose a CV file in PDF format"
+          title={allowDocx ? 'Choose a CV file in PDF or DOCX format' : 'Choose a CV file in PDF format'}
           placeholder="Select CV file"
         />
         {cvFile && (
@@ -2,25 +2,9 @@
 
 import { Select } from '@digdir/designsystemet-react';
 import { useState, useEffect } from 'react';
+import { modelOptions, type ModelOption, type ModelProvider } from '../utils/modelOptions';
 
-export type ModelProvider = 'openai' | 'anthropic' | 'mistral' | 'google';
-export type ModelOption = {
-  provider: ModelProvider;
-  model: string;
-  displayName: string;
-  supportsPDF?: boolean;
-};
-
-const modelOptions: ModelOption[] = [
-  { provider: 'openai', model: 'gpt-4o', displayName: 'OpenAI GPT-4o', supportsPDF: true },
-  { provider: 'openai', model: 'o4-mini', displayName: 'OpenAI o4-mini Reasoning', supportsPDF: true },
-  { provider: 'anthropic', model: 'claude-3-7-sonnet-20250219', displayName: 'Anthropic Claude 3.7 Sonnet', supportsPDF: true },
-  { provider: 'anthropic', model: 'claude-3-5-sonnet-20241022', displayName: 'Anthropic Claude 3.5 Sonnet', supportsPDF: true },
-  { provider: 'mistral', model: 'mistral-large-latest', displayName: 'Mistral Large', supportsPDF: false },
-  { provider: 'mistral', model: 'mistral-medium-latest', displayName: 'Mistral Medium', supportsPDF: false },
-  { provider: 'mistral', model: 'mistral-small-latest', displayName: 'Mistral Small', supportsPDF: false },
-  { provider: 'google', model: 'gemini-1.5-pro', displayName: 'Google Gemini 1.5 Pro', supportsPDF: false },
-];
+export type { ModelOption, ModelProvider };
 
 // Filter models to include only those that support PDF
 export const pdfSupportedModels = modelOptions.filter(model => model.supportsPDF);
@@ -63,6 +47,17 @@ export default function ModelSelector({
     }
   }, [defaultProvider, availableModels, onModelSelect]);
 
+  // Fall back to the first available model when the current one is filtered out
+  useEffect(() => {
+    const isAvailable = availableModels.some(
+      model => model.provider === selectedModel.provider && model.model === selectedModel.model
+    );
+    if (!isAvailable && availableModels.length > 0) {
+      setSelectedModel(availableModels[0]);
+      onModelSelect(availableModels[0]);
+    }
+  }, [availableModels, selectedModel, onModelSelect]);
+
   const handleModelChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const value = e.target.value;
     const [provider, model] = value.split('|');
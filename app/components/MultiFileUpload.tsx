@@ -3,6 +3,9 @@
 import { useState } from 'react';
 import { Button, Paragraph, Tag, Alert } from '@digdir/designsystemet-react';
 
+// Documents are converted to text server-side, so both PDF and DOCX files can be used
+const isSupportedDocument = (file: File) => /\.(pdf|docx)$/i.test(file.name);
+
 interface FileUploadProps {
   onCVUpload: (file: File) => void;
   onCustomerFilesUpload: (files: File[]) => void;
@@ -32,8 +35,8 @@ export default function MultiFileUpload({
       }
       
       // Check file type
-      if (file.type !== 'application/pdf') {
-        setError('Only PDF files are allowed for CV');
+      if (!isSupportedDocument(file)) {
+        setError('Only PDF and DOCX files are allowed for CV');
         return;
       }
       
@@ -54,8 +57,8 @@ export default function MultiFileUpload({
           return;
         }
         
-        if (file.type !== 'application/pdf') {
-          setError(`File "${file.name}" is not a PDF file. Only PDF files are allowed.`);
+        if (!isSupportedDocument(file)) {
+          setError(`File "${file.name}" is not a PDF or DOCX file. Only PDF and DOCX files are allowed.`);
           return;
         }
       }
@@ -77,12 +80,12 @@ export default function MultiFileUpload({
       <div className="p-4 border border-gray-200 rounded-md space-y-4">
         <div className="space-y-2">
           <label htmlFor="cv-file-upload" className="block text-sm font-medium">
-            Upload your CV (PDF)
+            Upload your CV (PDF or DOCX)
           </label>
           <input
             id="cv-file-upload"
             type="file"
-            accept=".pdf"
+            accept=".pdf,.docx"
             onChange={handleCVChange}
             className="w-full p-2 border border-gray-300 rounded-md"
             aria-label="Upload your CV"
@@ -102,12 +105,12 @@ export default function MultiFileUpload({
       <div className="p-4 border border-gray-200 rounded-md space-y-4">
         <div className="space-y-2">
           <label htmlFor="customer-files-upload" className="block text-sm font-medium">
-            Upload Customer Requirements (PDFs)
+            Upload Customer Requirements (PDF or DOCX)
           </label>
           <input
             id="customer-files-upload"
             type="file"
-            accept=".pdf"
+            accept=".pdf,.docx"
             multiple
             onChange={handleCustomerFilesChange}
             className="w-full p-2 border border-gray-300 rounded-md"
@@ -152,7 +155,7 @@ export default function MultiFileUpload({
       
       <div className="mt-2">
         <Paragraph data-size="xs" data-color="subtle">
-          Maximum file size: {maxFileSize}MB. Only PDF files are supported.
+          Maximum file size: {maxFileSize}MB. PDF and DOCX files are supported.
         </Paragraph>
       </div>
     </div>
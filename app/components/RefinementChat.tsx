@@ -0,0 +1,189 @@
+'use client';
+
+import { useState } from 'react';
+import { Button, Heading, Paragraph, Tag, Textarea } from '@digdir/designsystemet-react';
+import type { ModelOption } from './ModelSelector';
+import type { ChatMessage, ChatSession, ChatSessionType, ProposedEdit } from '../api/chat/sessions';
+
+interface RefinementChatProps {
+  type: ChatSessionType;
+  model: ModelOption;
+  // Completed customization job to discuss
+  jobId?: string;
+  // Latest result, sent along for analysis sessions
+  result?: any;
+  onResultChange: (result: any) => void;
+}
+
+const SECTION_LABELS: Record<ProposedEdit['section'], string> = {
+  profile: 'Profile',
+  competencies: 'Competencies',
+  project: 'Project',
+  summary: 'Summary'
+};
+
+const EXAMPLES: Record<ChatSessionType, string> = {
+  customization: 'e.g. "Why was project 2 flagged?" or "Make the profile more concise"',
+  analysis: 'e.g. "Why did the summary score low?" or "Rewrite the improved summary in a more formal tone"'
+};
+
+async function postJson(url: string, body: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `Request failed: ${response.status}`);
+  }
+  return data;
+}
+
+/**
+ * Chat about an analysis or customization result. The assistant proposes edits,
+ * which change the result only when the user applies them.
+ */
+export default function RefinementChat({ type, model, jobId, result, onResultChange }: RefinementChatProps) {
+  const [session, setSession] = useState<ChatSession | null>(null);
+  const [message, setMessage] = useState('');
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  const [applyingEdit, setApplyingEdit] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Analysis sessions keep their own copy of the result, so send the latest one with each request
+  const latestResult = type === 'analysis' ? result : undefined;
+
+  // The session is created with the first message
+  const getSession = async () => {
+    if (session) return session;
+    const data = await postJson('/api/chat', {
+      type,
+      modelProvider: model.provider,
+      modelName: model.model,
+      jobId,
+      result: latestResult
+    });
+    setSession(data.session);
+    return data.session as ChatSession;
+  };
+
+  const sendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = message.trim();
+    if (!content || pendingMessage) return;
+
+    setPendingMessage(content);
+    setMessage('');
+    setError(null);
+    try {
+      const current = await getSession();
+      const data = await postJson(`/api/chat/${current.id}/messages`, { message: content, result: latestResult });
+      setSession(data.session);
+    } catch (err) {
+      console.error('Failed to send chat message:', err);
+      setError(err instanceof Error ? err.message : 'Failed to send message');
+      setMessage(content);
+    } finally {
+      setPendingMessage(null);
+    }
+  };
+
+  const applyEdit = async (chatMessage: ChatMessage, edit: ProposedEdit) => {
+    if (!session) return;
+
+    setApplyingEdit(edit.id);
+    setError(null);
+    try {
+      const data = await postJson(`/api/chat/${session.id}/apply`, {
+        messageId: chatMessage.id,
+        editId: edit.id,
+        result: latestResult
+      });
+      setSession(data.session);
+      onResultChange(data.result);
+    } catch (err) {
+      console.error('Failed to apply edit:', err);
+      setError(err instanceof Error ? err.message : 'Failed to apply edit');
+    } finally {
+      setApplyingEdit(null);
+    }
+  };
+
+  const renderEdit = (chatMessage: ChatMessage, edit: ProposedEdit) => (
+    <div key={edit.id} className="mt-2 p-3 bg-white rounded border border-gray-200">
+      <div className="flex items-center gap-2 mb-1">
+        <Tag data-color="info">{SECTION_LABELS[edit.section]}{edit.project_id ? ` ${edit.project_id}` : ''}</Tag>
+        <Paragraph data-size="sm">{edit.description}</Paragraph>
+      </div>
+      <Paragraph data-size="sm" className="whitespace-pre-wrap text-gray-700">{edit.new_text}</Paragraph>
+      <div className="mt-2">
+        {edit.applied ? (
+          <Tag data-color="success">Applied</Tag>
+        ) : (
+          <Button
+            variant="secondary"
+            data-size='sm'
+            onClick={() => applyEdit(chatMessage, edit)}
+            disabled={applyingEdit !== null}
+          >
+            {applyingEdit === edit.id ? 'Applying...' : 'Apply'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="mt-6 p-4 border border-gray-200 rounded">
+      <Heading level={4} data-size="sm">Refine with chat</Heading>
+      <Paragraph data-size="sm" className="text-gray-600 mb-3">
+        Ask about the result or request changes. {EXAMPLES[type]}
+      </Paragraph>
+
+      <div className="space-y-3 mb-3">
+        {session?.messages.map(chatMessage => (
+          <div
+            key={chatMessage.id}
+            className={`p-3 rounded ${chatMessage.role === 'user' ? 'bg-blue-50 ml-8' : 'bg-gray-50 mr-8'}`}
+          >
+            <Paragraph data-size="sm" className="whitespace-pre-wrap">{chatMessage.content}</Paragraph>
+            {chatMessage.edits?.map(edit => renderEdit(chatMessage, edit))}
+          </div>
+        ))}
+        {pendingMessage && (
+          <>
+            <div className="p-3 rounded bg-blue-50 ml-8">
+              <Paragraph data-size="sm" className="whitespace-pre-wrap">{pendingMessage}</Paragraph>
+            </div>
+            <Paragraph data-size="sm" className="text-gray-500">Thinking...</Paragraph>
+          </>
+        )}
+      </div>
+
+      {error && (
+        <Paragraph data-size="sm" className="mb-2 text-red-700">{error}</Paragraph>
+      )}
+
+      <form onSubmit={sendMessage}>
+        <Textarea
+          aria-label="Chat message"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              e.currentTarget.form?.requestSubmit();
+            }
+          }}
+          rows={2}
+          className="w-full"
+          placeholder="Ask a question or request a change..."
+        />
+        <Button type="submit" data-size='sm' className="mt-2" disabled={!message.trim() || pendingMessage !== null}>
+          {pendingMessage ? 'Sending...' : 'Send'}
+        </Button>
+      </form>
+    </div>
+  );
+}
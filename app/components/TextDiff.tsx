@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import { Heading, Paragraph, Tag } from '@digdir/designsystemet-react';
+import { diffWords, findQuote, type QuoteSpan } from '../utils/textDiff';
+
+export interface DiffClaim {
+  // Quote from the validation agent
+  text: string;
+  kind: 'fabricated' | 'unsupported';
+}
+
+interface TextDiffProps {
+  // Unique prefix for the claim anchors on the page
+  id: string;
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+  claims?: DiffClaim[];
+}
+
+type Side = 'before' | 'after';
+
+interface Segment {
+  text: string;
+  changed: boolean;
+  claimIndex?: number;
+  // The first segment of a claim is the scroll target
+  claimStart?: boolean;
+}
+
+interface LocatedClaim extends DiffClaim {
+  side?: Side;
+  span?: QuoteSpan;
+}
+
+const CLAIM_STYLES: Record<DiffClaim['kind'], string> = {
+  fabricated: 'underline decoration-wavy decoration-red-600',
+  unsupported: 'underline decoration-wavy decoration-yellow-600'
+};
+
+/**
+ * Split one side of the diff at the diff part and claim boundaries
+ */
+function buildSegments(parts: ReturnType<typeof diffWords>, side: Side, claims: LocatedClaim[]): Segment[] {
+  const changedType = side === 'before' ? 'removed' : 'added';
+  const ranges: { start: number; end: number; changed: boolean }[] = [];
+  let offset = 0;
+  for (const part of parts) {
+    if (part.type === 'equal' || part.type === changedType) {
+      ranges.push({ start: offset, end: offset + part.value.length, changed: part.type !== 'equal' });
+      offset += part.value.length;
+    }
+  }
+  const text = parts
+    .filter(part => part.type === 'equal' || part.type === changedType)
+    .map(part => part.value)
+    .join('');
+
+  const sideClaims = claims
+    .map((claim, index) => ({ ...claim, index }))
+    .filter(claim => claim.side === side && claim.span);
+  const boundaries = new Set<number>([0, text.length]);
+  ranges.forEach(range => boundaries.add(range.start));
+  sideClaims.forEach(claim => {
+    boundaries.add(claim.span!.start);
+    boundaries.add(claim.span!.end);
+  });
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+
+  const segments: Segment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    const range = ranges.find(r => r.start <= start && start < r.end);
+    const claim = sideClaims.find(c => c.span!.start <= start && start < c.span!.end);
+    segments.push({
+      text: text.slice(start, end),
+      changed: !!range?.changed,
+      claimIndex: claim?.index,
+      claimStart: !!claim && claim.span!.start === start
+    });
+  }
+  return segments;
+}
+
+/**
+ * Side-by-side word diff of two texts. Validation claims are underlined where they occur and
+ * listed below, each linking to its span.
+ */
+export default function TextDiff({ id, before, after, beforeLabel, afterLabel, claims = [] }: TextDiffProps) {
+  const [activeClaim, setActiveClaim] = useState<number | null>(null);
+
+  const parts = diffWords(before || '', after || '');
+
+  // Claims refer to the customized text, which is the "after" side for customizations and the "before" side for corrections
+  const locatedClaims: LocatedClaim[] = claims.map(claim => {
+    const afterSpan = findQuote(after || '', claim.text);
+    if (afterSpan) return { ...claim, side: 'after', span: afterSpan };
+    const beforeSpan = findQuote(before || '', claim.text);
+    if (beforeSpan) return { ...claim, side: 'before', span: beforeSpan };
+    return claim;
+  });
+
+  const anchorId = (index: number) => `${id}-claim-${index}`;
+
+  const showClaim = (index: number) => {
+    setActiveClaim(index);
+    document.getElementById(anchorId(index))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const renderSide = (side: Side) => (
+    <Paragraph className="mt-2 whitespace-pre-wrap">
+      {buildSegments(parts, side, locatedClaims).map((segment, index) => {
+        const classes = [
+          segment.changed && (side === 'before' ? 'bg-red-100 text-red-900 line-through' : 'bg-green-100 text-green-900'),
+          segment.claimIndex !== undefined && CLAIM_STYLES[locatedClaims[segment.claimIndex].kind],
+          segment.claimIndex !== undefined && segment.claimIndex === activeClaim && 'outline outline-2 outline-blue-500'
+        ].filter(Boolean).join(' ');
+        return (
+          <span
+            key={index}
+            id={segment.claimStart ? anchorId(segment.claimIndex!) : undefined}
+            className={classes || undefined}
+            onMouseEnter={segment.claimIndex !== undefined ? () => setActiveClaim(segment.claimIndex!) : undefined}
+          >
+            {segment.text}
+          </span>
+        );
+      })}
+    </Paragraph>
+  );
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="p-4 bg-gray-50 rounded">
+          <Heading level={5} data-size="xs">{beforeLabel}</Heading>
+          {renderSide('before')}
+        </div>
+        <div className="p-4 bg-blue-50 rounded border border-blue-200">
+          <Heading level={5} data-size="xs">{afterLabel}</Heading>
+          {renderSide('after')}
+        </div>
+      </div>
+
+      {locatedClaims.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm">
+          {locatedClaims.map((claim, index) => (
+            <li
+              key={index}
+              className={`flex items-start gap-2 ${claim.span ? 'cursor-pointer' : ''} ${index === activeClaim ? 'font-semibold' : ''}`}
+              onClick={claim.span ? () => showClaim(index) : undefined}
+            >
+              <Tag data-color={claim.kind === 'fabricated' ? 'danger' : 'warning'}>
+                {claim.kind === 'fabricated' ? 'Fabricated' : 'Unsupported'}
+              </Tag>
+              <span>
+                {claim.text}
+                {!claim.span && <span className="ml-1 text-gray-500">(not found in text)</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import { Button, Paragraph, Table } from '@digdir/designsystemet-react';
+import type { UsageSummary } from '../api/usage';
+import type { TraceNode } from '../api/tracing';
+
+/**
+ * Time taken, token usage and trace of the last analysis or customization run
+ */
+export interface RunStats {
+  // As reported by the API, e.g. "12.3s"
+  timeTaken?: string;
+  usage?: UsageSummary;
+  trace?: TraceNode;
+}
+
+interface UsageDetailsProps {
+  stats: RunStats;
+}
+
+const formatCost = (cost: number | null, currency: string) =>
+  cost === null ? 'no price' : `${cost.toFixed(4)} ${currency}`;
+
+/**
+ * A span with its duration as a bar on the timeline of the request, and its child spans below it
+ */
+function TraceSpan({ span, root, depth }: { span: TraceNode; root: TraceNode; depth: number }) {
+  const total = Math.max(root.durationMs ?? 0, 1);
+  const offset = Date.parse(span.startedAt) - Date.parse(root.startedAt);
+  const duration = span.durationMs ?? 0;
+
+  return (
+    <>
+      <li className="grid grid-cols-2 gap-2 text-xs items-center">
+        <div style={{ paddingLeft: `${depth}rem` }} className={span.status === 'error' ? 'text-red-700' : undefined}>
+          {span.name} <span className="text-gray-500">{span.kind}</span>
+          {span.usage && <span className="text-gray-500"> {(span.usage.promptTokens + span.usage.completionTokens).toLocaleString()} tokens</span>}
+          {span.status === 'running' && <span className="text-gray-500"> running</span>}
+          {span.error && <span title={span.error}> failed</span>}
+        </div>
+        <div className="relative h-3 bg-gray-100 rounded">
+          <div
+            className={`absolute h-3 rounded ${span.status === 'error' ? 'bg-red-400' : 'bg-blue-400'}`}
+            style={{ left: `${(offset / total) * 100}%`, width: `${Math.max((duration / total) * 100, 0.5)}%` }}
+            title={`${(duration / 1000).toFixed(1)}s`}
+          />
+        </div>
+      </li>
+      {span.children.map(child => <TraceSpan key={child.id} span={child} root={root} depth={depth + 1} />)}
+    </>
+  );
+}
+
+/**
+ * Time taken, tokens and estimated cost of a run, with the tokens of each agent and the trace of the run on request
+ */
+export default function UsageDetails({ stats }: UsageDetailsProps) {
+  const [showAgents, setShowAgents] = useState(false);
+  const [showTrace, setShowTrace] = useState(false);
+  const { timeTaken, usage, trace } = stats;
+
+  if (!timeTaken && !usage && !trace) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-4">
+        <Paragraph data-size="sm">
+          {timeTaken && <>Time taken: <strong>{timeTaken}</strong></>}
+          {usage && (
+            <>
+              {timeTaken && ', '}
+              {usage.total.totalTokens.toLocaleString()} tokens in {usage.total.calls} agent calls,
+              estimated cost <strong>{formatCost(usage.total.estimatedCost, usage.currency)}</strong>
+            </>
+          )}
+        </Paragraph>
+        {usage && usage.agents.length > 0 && (
+          <Button variant="tertiary" data-size='sm' onClick={() => setShowAgents(!showAgents)}>
+            {showAgents ? 'Hide agents' : 'Usage per agent'}
+          </Button>
+        )}
+        {trace && (
+          <Button variant="tertiary" data-size='sm' onClick={() => setShowTrace(!showTrace)}>
+            {showTrace ? 'Hide trace' : 'Trace'}
+          </Button>
+        )}
+      </div>
+
+      {trace && showTrace && (
+        <ul className="space-y-1">
+          <TraceSpan span={trace} root={trace} depth={0} />
+        </ul>
+      )}
+
+      {usage && showAgents && (
+        <Table>
+          <Table.Head>
+            <Table.Row>
+              <Table.Cell>Agent</Table.Cell>
+              <Table.Cell>Model</Table.Cell>
+              <Table.Cell>Calls</Table.Cell>
+              <Table.Cell>Prompt tokens</Table.Cell>
+              <Table.Cell>Completion tokens</Table.Cell>
+              <Table.Cell>Latency</Table.Cell>
+              <Table.Cell>Estimated cost</Table.Cell>
+            </Table.Row>
+          </Table.Head>
+          <Table.Body>
+            {usage.agents.map(agent => (
+              <Table.Row key={`${agent.agent}-${agent.provider}-${agent.model}`}>
+                <Table.Cell>{agent.agent}</Table.Cell>
+                <Table.Cell>{agent.provider}/{agent.model}</Table.Cell>
+                <Table.Cell>{agent.calls}</Table.Cell>
+                <Table.Cell>{agent.promptTokens.toLocaleString()}</Table.Cell>
+                <Table.Cell>{agent.completionTokens.toLocaleString()}</Table.Cell>
+                <Table.Cell>{(agent.latencyMs / 1000).toFixed(1)}s</Table.Cell>
+                <Table.Cell>{formatCost(agent.estimatedCost, usage.currency)}</Table.Cell>
+              </Table.Row>
+            ))}
+          </Table.Body>
+        </Table>
+      )}
+    </div>
+  );
+}
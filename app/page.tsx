@@ -5,12 +5,19 @@ import FileUpload from './components/FileUpload';
 import MultiFileUpload from './components/MultiFileUpload';
 import ModelSelector, { ModelOption } from './components/ModelSelector';
 import AnalysisResults, { AnalysisType } from './components/AnalysisResults';
-import CustomizationResults from './components/CustomizationResults';
+import CustomizationResults, { RegenerateSectionRequest } from './components/CustomizationResults';
 import CVCustomizationProgress from './components/CVCustomizationProgress';
+import RefinementChat from './components/RefinementChat';
+import BatchAnalysis from './components/BatchAnalysis';
+import CandidateRanking from './components/CandidateRanking';
+import AnalysisHistory from './components/AnalysisHistory';
+import ConsultantRegistry from './components/ConsultantRegistry';
+import ConsultantSelector from './components/ConsultantSelector';
+import ChecklistSelector from './components/ChecklistSelector';
+import UsageDetails, { RunStats } from './components/UsageDetails';
+import { readEventStream } from './utils/eventStream';
 import { 
-  summaryChecklists, 
-  assignmentsChecklists, 
-  Checklist,
+  scoringProfiles,
   defaultSummaryChecklist, 
   defaultAssignmentsChecklist 
 } from './utils/checklistData';
@@ -32,22 +39,33 @@ import {
 } from '@digdir/designsystemet-react';
 
 // Define the type for analysis mode
-type AnalysisMode = 'cv_analysis' | 'cv_customization';
+type AnalysisMode = 'cv_analysis' | 'cv_customization' | 'cv_batch' | 'cv_ranking' | 'cv_history' | 'cv_consultants';
 
 // Define the type for analysis type (for CV analysis mode)
 type CVAnalysisType = 'combined' | 'agent_evaluation' | 'enhanced_agent';
 
+// How many times to reconnect to a customization job after the event stream drops
+const MAX_STREAM_RECONNECTS = 3;
+
 export default function Home() {
   // Common state
   const [cvFile, setCvFile] = useState<File | null>(null);
+  // A registered consultant whose stored CV is used instead of an uploaded file
+  const [selectedConsultantIds, setSelectedConsultantIds] = useState<string[]>([]);
   const [selectedModel, setSelectedModel] = useState<ModelOption>({
     provider: 'openai',
     model: 'gpt-4o',
-    displayName: 'OpenAI GPT-4o'
+    displayName: 'OpenAI GPT-4o',
+    supportsPDF: true,
+    supportsStructuredOutput: true
   });
   const [result, setResult] = useState<any>({});
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [retryingCriteria, setRetryingCriteria] = useState<string[]>([]);
+  const [regeneratingSections, setRegeneratingSections] = useState<string[]>([]);
+  // Time taken and token usage of the last run
+  const [runStats, setRunStats] = useState<RunStats>({});
 
   // Analysis mode selection
   const analysisMode = useRadioGroup({
@@ -55,6 +73,7 @@ export default function Home() {
     onChange: (value: string) => {
       // Reset results when switching modes
       setResult({});
+      setRunStats({});
       setError(null);
     }
   });
@@ -66,6 +85,9 @@ export default function Home() {
   const [selectedAssignmentsChecklist, setSelectedAssignmentsChecklist] = useState<string>('default');
   const [editingChecklist, setEditingChecklist] = useState<boolean>(false);
   const [activeChecklist, setActiveChecklist] = useState<'summary' | 'assignments'>('summary');
+  const [selectedScoringProfile, setSelectedScoringProfile] = useState<string>('default');
+  // Run every agent again instead of reusing cached outputs for the same CV, checklists and model
+  const [bypassCache, setBypassCache] = useState<boolean>(false);
 
   // CV Analysis type selection using radio group
   const cvAnalysisType = useRadioGroup({
@@ -73,6 +95,7 @@ export default function Home() {
     onChange: (value: string) => {
       // Reset results when switching analysis types
       setResult({});
+      setRunStats({});
       setError(null);
     }
   });
@@ -95,24 +118,32 @@ export default function Home() {
     setActiveChecklist(type);
   };
 
-  const handleSummaryChecklistChange = (id: string) => {
-    const checklist = summaryChecklists.find(c => c.id === id);
-    if (checklist) {
-      setSelectedSummaryChecklist(id);
-      setSummaryChecklistText(checklist.content);
-    }
+  const handleSummaryChecklistChange = (id: string, content: string) => {
+    setSelectedSummaryChecklist(id);
+    setSummaryChecklistText(content);
+  };
+
+  const handleAssignmentsChecklistChange = (id: string, content: string) => {
+    setSelectedAssignmentsChecklist(id);
+    setAssignmentsChecklistText(content);
   };
 
-  const handleAssignmentsChecklistChange = (id: string) => {
-    const checklist = assignmentsChecklists.find(c => c.id === id);
-    if (checklist) {
-      setSelectedAssignmentsChecklist(id);
-      setAssignmentsChecklistText(checklist.content);
+  // Send the selected consultant instead of the uploaded CV file
+  const appendCv = (formData: FormData, fileField: string) => {
+    if (selectedConsultantIds.length > 0) {
+      formData.append('consultantId', selectedConsultantIds[0]);
+    } else if (cvFile) {
+      formData.append(fileField, cvFile);
     }
   };
 
   // CV Analysis functionality
   const handleAnalyze = async () => {
+    // Enhanced agent analysis streams each criterion as it completes, and can use a registered consultant
+    if (cvAnalysisType.value === 'enhanced_agent' && (cvFile || selectedConsultantIds.length > 0)) {
+      return handleAnalyzeWithStreaming();
+    }
+
     if (!cvFile) {
       setError('Please upload a CV file first.');
       return;
@@ -122,6 +153,7 @@ export default function Home() {
       setIsLoading(true);
       setError(null);
       setResult({});
+      setRunStats({});
 
       const analysisType = cvAnalysisType.value as CVAnalysisType;
       
@@ -133,13 +165,7 @@ export default function Home() {
       formData.append('modelProvider', selectedModel.provider);
       formData.append('modelName', selectedModel.model);
 
-      // Determine the correct endpoint based on the analysis type
-      let endpoint = '/api/analyze-cv';
-      
-      // Use the specialized endpoint for enhanced agent analysis
-      if (analysisType === 'enhanced_agent') {
-        endpoint = '/api/cv-analysis-agent';
-      }
+      const endpoint = '/api/analyze-cv';
 
       console.log(`Calling ${endpoint} with model: ${selectedModel.provider}/${selectedModel.model} for analysis type: ${analysisType}`);
       
@@ -218,6 +244,7 @@ export default function Home() {
 
       console.log('Analysis result:', combinedResults);
       setResult(combinedResults);
+      setRunStats({ usage: data.usage });
     } catch (err) {
       if (err instanceof Error) {
         if (Object.keys(result).length === 0) { // Only set the error if no results were collected
@@ -233,10 +260,168 @@ export default function Home() {
     }
   };
 
+  // Apply a progress update from the enhanced agent analysis stream to the partial result
+  const applyAnalysisUpdate = (update: any) => {
+    if (update.step === 'criterion') {
+      const { completed, total, ...criterion } = update.data;
+      const succeeded = update.status === 'completed';
+      setResult((previous: any) => {
+        const partial = previous.enhanced_agent || {
+          criterion_evaluations: [],
+          failed_criteria: [],
+          detailed_analysis: {},
+          key_strengths: [],
+          key_improvement_areas: [],
+          summary: ''
+        };
+        return {
+          enhanced_agent: {
+            ...partial,
+            ...(succeeded ? {
+              criterion_evaluations: [...partial.criterion_evaluations, criterion],
+              detailed_analysis: { ...partial.detailed_analysis, [criterion.criterion_id]: criterion }
+            } : {
+              failed_criteria: [...partial.failed_criteria, criterion]
+            }),
+            streaming: { completed, total }
+          }
+        };
+      });
+    } else if (update.step === 'scoring' && update.status === 'completed') {
+      setResult((previous: any) => ({
+        enhanced_agent: { ...previous.enhanced_agent, ...update.data }
+      }));
+    } else if (update.step === 'summary' && update.status === 'running') {
+      setResult((previous: any) => ({
+        enhanced_agent: {
+          ...previous.enhanced_agent,
+          summary: (previous.enhanced_agent?.summary || '') + update.data.delta
+        }
+      }));
+    } else if (update.step === 'complete') {
+      console.log('Analysis result:', update.data.result);
+      setResult({ enhanced_agent: update.data.result });
+      setRunStats({ timeTaken: update.data.timeTaken, usage: update.data.usage, trace: update.data.trace });
+    } else if (update.status === 'error') {
+      throw new Error(update.message);
+    }
+  };
+
+  const handleAnalyzeWithStreaming = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setResult({});
+      setRunStats({});
+
+      const formData = new FormData();
+      appendCv(formData, 'file');
+      formData.append('summaryChecklistText', summaryChecklistText);
+      formData.append('assignmentsChecklistText', assignmentsChecklistText);
+      formData.append('modelProvider', selectedModel.provider);
+      formData.append('modelName', selectedModel.model);
+      formData.append('scoringProfileId', selectedScoringProfile);
+      formData.append('summaryChecklistId', selectedSummaryChecklist);
+      formData.append('assignmentsChecklistId', selectedAssignmentsChecklist);
+      formData.append('bypassCache', String(bypassCache));
+
+      console.log(`Calling /api/cv-analysis-agent/stream with model: ${selectedModel.provider}/${selectedModel.model}`);
+
+      const response = await fetch('/api/cv-analysis-agent/stream', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to start CV analysis: ${response.status} ${response.statusText}`);
+      }
+
+      await readEventStream(response, applyAnalysisUpdate);
+    } catch (err) {
+      if (err instanceof Error) {
+        setError(err.message);
+      } else {
+        setError('An error occurred during analysis. Please try again or try a different analysis type.');
+      }
+      console.error('Analysis error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Re-run a single criterion that failed or timed out in the enhanced agent analysis
+  const handleRetryCriterion = async (criterionId: string) => {
+    setRetryingCriteria(previous => [...previous, criterionId]);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/cv-analysis-agent/criterion', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          criterionId,
+          result: result.enhanced_agent,
+          summaryChecklistText,
+          assignmentsChecklistText,
+          modelProvider: selectedModel.provider,
+          modelName: selectedModel.model,
+          scoringProfileId: selectedScoringProfile,
+          bypassCache
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to retry criterion: ${response.status} ${response.statusText}`);
+      }
+
+      setResult({ enhanced_agent: data.result });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while retrying the criterion.');
+      console.error('Retry criterion error:', err);
+    } finally {
+      setRetryingCriteria(previous => previous.filter(id => id !== criterionId));
+    }
+  };
+
+  // Regenerate the profile or one project of the customization job, keeping the rest of the result
+  const handleRegenerateSection = async (sectionKey: string, request: RegenerateSectionRequest) => {
+    if (!result?.job_id) {
+      return null;
+    }
+
+    setRegeneratingSections(previous => [...previous, sectionKey]);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/cv-customization/regenerate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ jobId: result.job_id, ...request }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `Failed to regenerate section: ${response.status} ${response.statusText}`);
+      }
+
+      setResult(data.result);
+      return data.result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while regenerating the section.');
+      console.error('Regenerate section error:', err);
+      return null;
+    } finally {
+      setRegeneratingSections(previous => previous.filter(key => key !== sectionKey));
+    }
+  };
+
   // CV Customization functionality
   const handleCustomizeWithStreaming = async () => {
-    if (!cvFile) {
-      setError('Please upload a CV file first.');
+    if (!cvFile && selectedConsultantIds.length === 0) {
+      setError('Please upload a CV file or select a consultant first.');
       return;
     }
 
@@ -249,9 +434,10 @@ export default function Home() {
       setIsLoading(true);
       setError(null);
       setResult({});
+      setRunStats({});
 
       const formData = new FormData();
-      formData.append('cvFile', cvFile);
+      appendCv(formData, 'cvFile');
       
       // Add all customer files
       customerFiles.forEach(file => {
@@ -261,50 +447,50 @@ export default function Home() {
       formData.append('modelProvider', selectedModel.provider);
       formData.append('modelName', selectedModel.model);
 
-      // Use the streaming endpoint
-      const response = await fetch('/api/cv-customization/stream', {
-        method: 'POST',
-        body: formData,
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to start CV customization: ${response.status} ${response.statusText}`);
-      }
+      // Create the job and follow its progress. If the connection drops before the job
+      // finishes, reconnect to the same job - it resumes from the last completed stage.
+      let jobId: string | null = null;
+      let finished = false;
+      const handleUpdate = (data: any) => {
+        if (data.step === 'job' && data.data?.jobId) {
+          jobId = data.data.jobId;
+        }
+        if (data.step === 'usage' && data.data) {
+          setRunStats(previous => ({ ...previous, timeTaken: data.data.timeTaken, usage: data.data.usage }));
+        }
+        if (data.step === 'trace' && data.data) {
+          setRunStats(previous => ({ ...previous, trace: data.data.trace }));
+        }
+        if (data.step === 'complete' || data.status === 'error') {
+          finished = true;
+        }
+        
+        // Call the progress update handler if it exists
+        if ((window as any).handleProgressUpdate) {
+          (window as any).handleProgressUpdate(data);
+        }
+      };
 
-      // Handle streaming response
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
+      for (let attempt = 0; !finished; attempt++) {
+        try {
+          const response = jobId
+            ? await fetch(`/api/cv-customization/stream?jobId=${encodeURIComponent(jobId)}`)
+            : await fetch('/api/cv-customization/stream', {
+                method: 'POST',
+                body: formData,
+              });
+
+          if (!response.ok) {
+            throw new Error(`Failed to start CV customization: ${response.status} ${response.statusText}`);
+          }
 
-      if (!reader) {
-        throw new Error('Failed to read response stream');
-      }
+          await readEventStream(response, handleUpdate);
+        } catch (streamError) {
+          console.warn('CV customization stream interrupted:', streamError);
+        }
 
-      let buffer = '';
-      
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) break;
-        
-        buffer += decoder.decode(value, { stream: true });
-        
-        // Split buffer into lines
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || ''; // Keep incomplete line in buffer
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              
-              // Call the progress update handler if it exists
-              if ((window as any).handleProgressUpdate) {
-                (window as any).handleProgressUpdate(data);
-              }
-            } catch (e) {
-              console.warn('Failed to parse SSE data:', line);
-            }
-          }
+        if (!finished && (!jobId || attempt >= MAX_STREAM_RECONNECTS)) {
+          throw new Error('Lost connection to the CV customization job. Please try again.');
         }
       }
     } catch (err) {
@@ -320,8 +506,8 @@ export default function Home() {
   };
 
   const handleCustomizeTraditional = async () => {
-    if (!cvFile) {
-      setError('Please upload a CV file first.');
+    if (!cvFile && selectedConsultantIds.length === 0) {
+      setError('Please upload a CV file or select a consultant first.');
       return;
     }
 
@@ -334,9 +520,10 @@ export default function Home() {
       setIsLoading(true);
       setError(null);
       setResult({});
+      setRunStats({});
 
       const formData = new FormData();
-      formData.append('cvFile', cvFile);
+      appendCv(formData, 'cvFile');
       
       // Add all customer files
       customerFiles.forEach(file => {
@@ -377,6 +564,7 @@ export default function Home() {
 
       const data = await response.json();
       setResult(data.result);
+      setRunStats({ timeTaken: data.timeTaken, usage: data.usage, trace: data.trace });
     } catch (err) {
       if (err instanceof Error) {
         setError(err.message);
@@ -416,9 +604,15 @@ export default function Home() {
   const currentAnalysisType = cvAnalysisType.value as CVAnalysisType;
 
   // Determine if we can run the analysis/customization
-  const canRunAnalysis = cvFile && !isLoading;
-  const canRunCustomization = cvFile && customerFiles.length > 0 && !isLoading && selectedModel.provider === 'openai';
-  const canRunEnhancedAgent = currentAnalysisType === 'enhanced_agent' && selectedModel.provider !== 'openai';
+  const cvFileIsPdf = !!cvFile && cvFile.name.toLowerCase().endsWith('.pdf');
+  // Agent pipelines extract the document text server-side, so they don't need PDF-capable models
+  const usesTextExtraction = currentMode === 'cv_customization' || currentAnalysisType === 'enhanced_agent';
+  const modelSupportsAgents = selectedModel.supportsStructuredOutput !== false;
+  // Registered consultants have their CV text stored, so they can be used by the agent pipelines
+  const hasConsultant = selectedConsultantIds.length > 0 && usesTextExtraction;
+  const canRunAnalysis = (cvFile || hasConsultant) && !isLoading && (usesTextExtraction || cvFileIsPdf);
+  const canRunCustomization = (cvFile || hasConsultant) && customerFiles.length > 0 && !isLoading && modelSupportsAgents;
+  const canRunEnhancedAgent = currentAnalysisType === 'enhanced_agent' && !modelSupportsAgents;
 
   return (
     <main className="min-h-screen p-6 md:p-12 bg-gray-50">
@@ -447,6 +641,26 @@ export default function Home() {
                   label="CV Customization for Customer Requirements"
                   description="Customize your CV to match specific customer requirements and job descriptions"
                 />
+                <Radio
+                  {...analysisMode.getRadioProps('cv_batch')}
+                  label="Team Batch Analysis"
+                  description="Run the advanced agent analysis on many CVs or a zip archive and compare the results in one table"
+                />
+                <Radio
+                  {...analysisMode.getRadioProps('cv_ranking')}
+                  label="Candidate Ranking for Customer Request"
+                  description="Rank consultant CVs by how well they cover the requirements of a customer request"
+                />
+                <Radio
+                  {...analysisMode.getRadioProps('cv_history')}
+                  label="History & Run Comparison"
+                  description="Open earlier analyses and customizations, and compare two runs of a consultant to track improvements"
+                />
+                <Radio
+                  {...analysisMode.getRadioProps('cv_consultants')}
+                  label="Consultant Registry"
+                  description="Register consultants with their CV and tags once, and keep newer CVs as revisions"
+                />
               </div>
             </Card.Block>
           </Card>
@@ -455,121 +669,196 @@ export default function Home() {
           <Card>
             <Card.Block>
               <Heading level={2} data-size="sm">
-                {currentMode === 'cv_analysis' ? 'Upload CV & Configure Analysis' : 'Upload Documents & Configure'}
+                {currentMode === 'cv_analysis'
+                  ? 'Upload CV & Configure Analysis'
+                  : currentMode === 'cv_history'
+                    ? 'Analysis History'
+                    : currentMode === 'cv_consultants'
+                      ? 'Consultants'
+                      : currentMode === 'cv_batch' || currentMode === 'cv_ranking' ? 'Upload CVs & Analyze' : 'Upload Documents & Configure'}
               </Heading>
             </Card.Block>
-            <Card.Block>
-              {currentMode === 'cv_analysis' ? (
-                <FileUpload 
-                  onCVUpload={handleCVUpload} 
-                  showChecklistUpload={false}
-                />
-              ) : (
-                <MultiFileUpload 
-                  onCVUpload={handleCVUpload} 
-                  onCustomerFilesUpload={handleCustomerFilesUpload}
-                />
-              )}
-              
-              <Divider data-spacing="true" className="my-4" />
-              
-              <div className="space-y-4">
-                <ModelSelector onModelSelect={setSelectedModel} defaultProvider="openai" />
+            {currentMode === 'cv_history' ? (
+              <Card.Block>
+                <AnalysisHistory />
+              </Card.Block>
+            ) : currentMode === 'cv_batch' || currentMode === 'cv_ranking' || currentMode === 'cv_consultants' ? (
+              <Card.Block>
+                <div className="space-y-4">
+                  <ModelSelector onModelSelect={setSelectedModel} pdfOnly={false} />
+                  {!modelSupportsAgents && (
+                    <Alert data-color="danger">
+                      <Paragraph data-size="xs">
+                        <strong>Warning:</strong> {currentMode === 'cv_batch' ? 'Batch analysis' : currentMode === 'cv_ranking' ? 'Candidate ranking' : 'Registering consultants'} requires a model with structured output support. Please select a different model to use this feature.
+                      </Paragraph>
+                    </Alert>
+                  )}
+                  {currentMode === 'cv_batch' ? (
+                    <BatchAnalysis
+                      model={selectedModel}
+                      summaryChecklistText={summaryChecklistText}
+                      assignmentsChecklistText={assignmentsChecklistText}
+                    />
+                  ) : currentMode === 'cv_ranking' ? (
+                    <CandidateRanking model={selectedModel} />
+                  ) : (
+                    <ConsultantRegistry model={selectedModel} />
+                  )}
+                </div>
+              </Card.Block>
+            ) : (
+              <Card.Block>
+                {currentMode === 'cv_analysis' ? (
+                  <FileUpload 
+                    onCVUpload={handleCVUpload} 
+                    showChecklistUpload={false}
+                    allowDocx={currentAnalysisType === 'enhanced_agent'}
+                  />
+                ) : (
+                  <MultiFileUpload 
+                    onCVUpload={handleCVUpload} 
+                    onCustomerFilesUpload={handleCustomerFilesUpload}
+                  />
+                )}
+
+                {usesTextExtraction && (
+                  <div className="mt-4">
+                    <ConsultantSelector selectedIds={selectedConsultantIds} onChange={setSelectedConsultantIds} />
+                  </div>
+                )}
                 
-                {currentMode === 'cv_analysis' && (
-                  <div className="space-y-2">
-                    <Heading level={3} data-size="xs">Analysis Type</Heading>
-                    <div className="space-y-3">
-                      <Radio
-                        {...cvAnalysisType.getRadioProps('combined')}
-                        label="Summary & Key Assignments Analysis"
-                        description="Comprehensive analysis based on company checklists"
-                      />
-                      <Radio
-                        {...cvAnalysisType.getRadioProps('agent_evaluation')}
-                        label="Basic CV Evaluation"
-                        description="AI agent-based evaluation across multiple criteria"
-                      />
-                      <Radio
-                        {...cvAnalysisType.getRadioProps('enhanced_agent')}
-                        label="Advanced Agent Analysis"
-                        description="Enhanced AI agent analysis with detailed insights"
-                      />
+                <Divider data-spacing="true" className="my-4" />
+                
+                <div className="space-y-4">
+                  <ModelSelector onModelSelect={setSelectedModel} pdfOnly={!usesTextExtraction} />
+                  
+                  {currentMode === 'cv_analysis' && (
+                    <div className="space-y-2">
+                      <Heading level={3} data-size="xs">Analysis Type</Heading>
+                      <div className="space-y-3">
+                        <Radio
+                          {...cvAnalysisType.getRadioProps('combined')}
+                          label="Summary & Key Assignments Analysis"
+                          description="Comprehensive analysis based on company checklists"
+                        />
+                        <Radio
+                          {...cvAnalysisType.getRadioProps('agent_evaluation')}
+                          label="Basic CV Evaluation"
+                          description="AI agent-based evaluation across multiple criteria"
+                        />
+                        <Radio
+                          {...cvAnalysisType.getRadioProps('enhanced_agent')}
+                          label="Advanced Agent Analysis"
+                          description="Enhanced AI agent analysis with detailed insights"
+                        />
+                      </div>
+                      
+                      {(currentAnalysisType === 'agent_evaluation' || currentAnalysisType === 'enhanced_agent') && (
+                        <Alert data-color="info" className="mt-2">
+                          <Paragraph data-size="xs">
+                            <strong>Note:</strong> Agent-based evaluations run on OpenAI, Anthropic and Google models (GPT-4o recommended). These features use specialized AI agents to provide detailed analysis across different CV aspects.
+                          </Paragraph>
+                        </Alert>
+                      )}
+                      
+                      {currentAnalysisType === 'enhanced_agent' && (
+                        <div className="mt-2">
+                          <Label htmlFor="scoringProfileSelect">Scoring Profile:</Label>
+                          <Select
+                            id="scoringProfileSelect"
+                            className="w-full"
+                            value={selectedScoringProfile}
+                            onChange={(e) => setSelectedScoringProfile(e.target.value)}
+                          >
+                            {scoringProfiles.map(profile => (
+                              <option key={profile.id} value={profile.id}>
+                                {profile.name}
+                              </option>
+                            ))}
+                          </Select>
+                          <Paragraph data-size="xs" className="mt-1">
+                            {scoringProfiles.find(profile => profile.id === selectedScoringProfile)?.description}
+                          </Paragraph>
+                          <div className="flex items-center space-x-3 mt-2">
+                            <Switch
+                              checked={bypassCache}
+                              onChange={(e) => setBypassCache(e.target.checked)}
+                              id="bypass-cache-toggle"
+                              aria-labelledby="bypass-cache-label"
+                            />
+                            <Label htmlFor="bypass-cache-toggle" id="bypass-cache-label">
+                              Run all agents again instead of reusing earlier results for the same CV
+                            </Label>
+                          </div>
+                        </div>
+                      )}
+                      
+                      {canRunEnhancedAgent && (
+                        <Alert data-color="danger" className="mt-2">
+                          <Paragraph data-size="xs">
+                            <strong>Warning:</strong> Enhanced Agent Analysis requires a model with structured output support. Please select a different model to use this feature.
+                          </Paragraph>
+                        </Alert>
+                      )}
                     </div>
-                    
-                    {(currentAnalysisType === 'agent_evaluation' || currentAnalysisType === 'enhanced_agent') && (
+                  )}
+
+                  {currentMode === 'cv_customization' && (
+                    <>
+                      {/* Streaming Toggle */}
+                      <div className="flex items-center space-x-3">
+                        <Switch
+                          checked={useStreaming}
+                          onChange={(e) => setUseStreaming(e.target.checked)}
+                          id="streaming-toggle"
+                          aria-labelledby="streaming-label"
+                        />
+                        <Label htmlFor="streaming-toggle" id="streaming-label">
+                          Enable real-time progress updates (recommended)
+                        </Label>
+                      </div>
+                      
                       <Alert data-color="info" className="mt-2">
                         <Paragraph data-size="xs">
-                          <strong>Note:</strong> Agent-based evaluations work best with OpenAI models (GPT-4 recommended). These features use specialized AI agents to provide detailed analysis across different CV aspects.
+                          <strong>Note:</strong> CV customization runs on any of the available models (GPT-4o recommended) and accepts PDF and DOCX files. This feature uses specialized AI agents to analyze your CV and customer requirements to provide tailored recommendations.
+                          {useStreaming && <span className="block mt-1"><strong>Real-time updates:</strong> You'll see progress as each step completes, making the process more transparent and engaging.</span>}
                         </Paragraph>
                       </Alert>
-                    )}
-                    
-                    {canRunEnhancedAgent && (
-                      <Alert data-color="danger" className="mt-2">
-                        <Paragraph data-size="xs">
-                          <strong>Warning:</strong> Enhanced Agent Analysis currently only supports OpenAI models. Please select an OpenAI model to use this feature.
-                        </Paragraph>
-                      </Alert>
-                    )}
-                  </div>
-                )}
+                      
+                      {!modelSupportsAgents && (
+                        <Alert data-color="danger" className="mt-2">
+                          <Paragraph data-size="xs">
+                            <strong>Warning:</strong> CV customization requires a model with structured output support. Please select a different model to use this feature.
+                          </Paragraph>
+                        </Alert>
+                      )}
+                    </>
+                  )}
+
+                  <Button
+                    variant="primary"
+                    onClick={currentMode === 'cv_analysis' ? handleAnalyze : handleCustomize}
+                    disabled={
+                      currentMode === 'cv_analysis' 
+                        ? !canRunAnalysis || canRunEnhancedAgent
+                        : !canRunCustomization
+                    }
+                    className="w-full"
+                  >
+                    {isLoading 
+                      ? (currentMode === 'cv_analysis' ? 'Analyzing...' : 'Processing...') 
+                      : (currentMode === 'cv_analysis' ? 'Analyze' : 'Customize CV')
+                    }
+                  </Button>
 
-                {currentMode === 'cv_customization' && (
-                  <>
-                    {/* Streaming Toggle */}
-                    <div className="flex items-center space-x-3">
-                      <Switch
-                        checked={useStreaming}
-                        onChange={(e) => setUseStreaming(e.target.checked)}
-                        id="streaming-toggle"
-                        aria-labelledby="streaming-label"
-                      />
-                      <Label htmlFor="streaming-toggle" id="streaming-label">
-                        Enable real-time progress updates (recommended)
-                      </Label>
-                    </div>
-                    
-                    <Alert data-color="info" className="mt-2">
-                      <Paragraph data-size="xs">
-                        <strong>Note:</strong> CV customization works best with OpenAI models (GPT-4o recommended). This feature uses specialized AI agents to analyze your CV and customer requirements to provide tailored recommendations.
-                        {useStreaming && <span className="block mt-1"><strong>Real-time updates:</strong> You'll see progress as each step completes, making the process more transparent and engaging.</span>}
-                      </Paragraph>
+                  {error && (
+                    <Alert data-color="danger">
+                      {error}
                     </Alert>
-                    
-                    {selectedModel.provider !== 'openai' && (
-                      <Alert data-color="danger" className="mt-2">
-                        <Paragraph data-size="xs">
-                          <strong>Warning:</strong> CV customization currently only supports OpenAI models. Please select an OpenAI model to use this feature.
-                        </Paragraph>
-                      </Alert>
-                    )}
-                  </>
-                )}
-
-                <Button
-                  variant="primary"
-                  onClick={currentMode === 'cv_analysis' ? handleAnalyze : handleCustomize}
-                  disabled={
-                    currentMode === 'cv_analysis' 
-                      ? !canRunAnalysis || canRunEnhancedAgent
-                      : !canRunCustomization
-                  }
-                  className="w-full"
-                >
-                  {isLoading 
-                    ? (currentMode === 'cv_analysis' ? 'Analyzing...' : 'Processing...') 
-                    : (currentMode === 'cv_analysis' ? 'Analyze' : 'Customize CV')
-                  }
-                </Button>
-
-                {error && (
-                  <Alert data-color="danger">
-                    {error}
-                  </Alert>
-                )}
-              </div>
-            </Card.Block>
+                  )}
+                </div>
+              </Card.Block>
+            )}
           </Card>
 
           {/* Progress Component - only show when using streaming and loading for customization */}
@@ -581,109 +870,113 @@ export default function Home() {
             />
           )}
 
-          {/* Results Card */}
-          <Card>
-            <Card.Block className="flex justify-between items-center">
-              <Heading level={2} data-size="sm">
-                {currentMode === 'cv_analysis' ? 'CV Analysis Results' : 'Customization Results'}
-              </Heading>
-              {currentMode === 'cv_analysis' && currentAnalysisType === 'combined' && (
-                <div className="flex items-center">
-                  <Button 
-                    variant="secondary"
-                    onClick={toggleChecklistEditing}
-                  >
-                    {editingChecklist ? 'Hide Checklist' : 'Edit Checklist'}
-                  </Button>
-                </div>
-              )}
-            </Card.Block>
-            
-            {currentMode === 'cv_analysis' && editingChecklist && currentAnalysisType === 'combined' && (
-              <Card.Block>
-                <div className="flex mb-4 space-x-4">
-                  <Radio
-                    name="checklistType"
-                    value="summary"
-                    checked={activeChecklist === 'summary'}
-                    onChange={() => handleChecklistTypeChange('summary')}
-                    label="Summary Checklist"
-                  />
-                  <Radio
-                    name="checklistType"
-                    value="assignments"
-                    checked={activeChecklist === 'assignments'}
-                    onChange={() => handleChecklistTypeChange('assignments')}
-                    label="Key Assignments Checklist"
-                  />
-                </div>
-                
-                {activeChecklist === 'summary' && (
-                  <div className="mb-4">
-                    <Label htmlFor="summaryChecklistSelect">Select Summary Checklist Template:</Label>
-                    <Select 
-                      id="summaryChecklistSelect"
-                      className="w-full mb-2"
-                      value={selectedSummaryChecklist}
-                      onChange={(e) => handleSummaryChecklistChange(e.target.value)}
+          {/* Results Card - batch and ranking results are shown with their uploads */}
+          {currentMode !== 'cv_batch' && currentMode !== 'cv_ranking' && currentMode !== 'cv_history' && currentMode !== 'cv_consultants' && (
+            <Card>
+              <Card.Block className="flex justify-between items-center">
+                <Heading level={2} data-size="sm">
+                  {currentMode === 'cv_analysis' ? 'CV Analysis Results' : 'Customization Results'}
+                </Heading>
+                {currentMode === 'cv_analysis' && currentAnalysisType === 'combined' && (
+                  <div className="flex items-center">
+                    <Button 
+                      variant="secondary"
+                      onClick={toggleChecklistEditing}
                     >
-                      {summaryChecklists.map(checklist => (
-                        <option key={checklist.id} value={checklist.id}>
-                          {checklist.name}
-                        </option>
-                      ))}
-                    </Select>
+                      {editingChecklist ? 'Hide Checklist' : 'Edit Checklist'}
+                    </Button>
                   </div>
                 )}
-                
-                {activeChecklist === 'assignments' && (
-                  <div className="mb-4">
-                    <Label htmlFor="assignmentsChecklistSelect">Select Assignments Checklist Template:</Label>
-                    <Select 
-                      id="assignmentsChecklistSelect"
-                      className="w-full mb-2"
-                      value={selectedAssignmentsChecklist}
-                      onChange={(e) => handleAssignmentsChecklistChange(e.target.value)}
-                    >
-                      {assignmentsChecklists.map(checklist => (
-                        <option key={checklist.id} value={checklist.id}>
-                          {checklist.name}
-                        </option>
-                      ))}
-                    </Select>
+              </Card.Block>
+
+              {(runStats.timeTaken || runStats.usage || runStats.trace) && (
+                <Card.Block>
+                  <UsageDetails stats={runStats} />
+                </Card.Block>
+              )}
+              
+              {currentMode === 'cv_analysis' && editingChecklist && currentAnalysisType === 'combined' && (
+                <Card.Block>
+                  <div className="flex mb-4 space-x-4">
+                    <Radio
+                      name="checklistType"
+                      value="summary"
+                      checked={activeChecklist === 'summary'}
+                      onChange={() => handleChecklistTypeChange('summary')}
+                      label="Summary Checklist"
+                    />
+                    <Radio
+                      name="checklistType"
+                      value="assignments"
+                      checked={activeChecklist === 'assignments'}
+                      onChange={() => handleChecklistTypeChange('assignments')}
+                      label="Key Assignments Checklist"
+                    />
                   </div>
+                  
+                  <ChecklistSelector
+                    type={activeChecklist}
+                    selectedId={activeChecklist === 'summary' ? selectedSummaryChecklist : selectedAssignmentsChecklist}
+                    content={activeChecklist === 'summary' ? summaryChecklistText : assignmentsChecklistText}
+                    onSelect={activeChecklist === 'summary' ? handleSummaryChecklistChange : handleAssignmentsChecklistChange}
+                  />
+                  
+                  <Textarea
+                    value={activeChecklist === 'summary' ? summaryChecklistText : assignmentsChecklistText}
+                    onChange={(e) => {
+                      if (activeChecklist === 'summary') {
+                        setSummaryChecklistText(e.target.value);
+                      } else {
+                        setAssignmentsChecklistText(e.target.value);
+                      }
+                    }}
+                    rows={10}
+                    className="w-full my-2"
+                  />
+                </Card.Block>
+              )}
+              
+              <Card.Block>
+                {currentMode === 'cv_analysis' ? (
+                  <>
+                    <AnalysisResults 
+                      result={result} 
+                      isLoading={isLoading} 
+                      analysisTypes={[currentAnalysisType as AnalysisType]}
+                      onRetryCriterion={handleRetryCriterion}
+                      retryingCriteria={retryingCriteria}
+                    />
+                    {!isLoading && result.enhanced_agent?.cv && !result.enhanced_agent.streaming && (
+                      <RefinementChat
+                        type="analysis"
+                        model={selectedModel}
+                        result={result.enhanced_agent}
+                        onResultChange={(updated) => setResult({ enhanced_agent: updated })}
+                      />
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <CustomizationResults 
+                      result={result} 
+                      isLoading={isLoading && !useStreaming} // Only show loading for traditional mode
+                      onRegenerate={handleRegenerateSection}
+                      regeneratingSections={regeneratingSections}
+                    />
+                    {!isLoading && result.job_id && (
+                      <RefinementChat
+                        key={result.job_id}
+                        type="customization"
+                        model={selectedModel}
+                        jobId={result.job_id}
+                        onResultChange={setResult}
+                      />
+                    )}
+                  </>
                 )}
-                
-                <Textarea
-                  value={activeChecklist === 'summary' ? summaryChecklistText : assignmentsChecklistText}
-                  onChange={(e) => {
-                    if (activeChecklist === 'summary') {
-                      setSummaryChecklistText(e.target.value);
-                    } else {
-                      setAssignmentsChecklistText(e.target.value);
-                    }
-                  }}
-                  rows={10}
-                  className="w-full my-2"
-                />
               </Card.Block>
-            )}
-            
-            <Card.Block>
-              {currentMode === 'cv_analysis' ? (
-                <AnalysisResults 
-                  result={result} 
-                  isLoading={isLoading} 
-                  analysisTypes={[currentAnalysisType as AnalysisType]}
-                />
-              ) : (
-                <CustomizationResults 
-                  result={result} 
-                  isLoading={isLoading && !useStreaming} // Only show loading for traditional mode
-                />
-              )}
-            </Card.Block>
-          </Card>
+            </Card>
+          )}
         </div>
 
         <div className="mt-10 text-center">
@@ -104,4 +104,75 @@ Although initially had limited experience with C#/.Net, quickly acquired new ski
 
 // For backwards compatibility
 export const defaultSummaryChecklist = summaryChecklists[0].content;
-export const defaultAssignmentsChecklist = assignmentsChecklists[0].content; 
\ No newline at end of file
+export const defaultAssignmentsChecklist = assignmentsChecklists[0].content;
+
+export interface MustPassCriterion {
+  criterionId: string;
+  minimumScore: number;
+}
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  description: string;
+  // Weight per criterion_id, criteria without a weight count as 1
+  weights: Record<string, number>;
+  // Criteria scoring at or above this are listed as strengths
+  strengthThreshold: number;
+  // Criteria scoring below this are listed as improvement areas
+  improvementThreshold: number;
+  mustPass?: MustPassCriterion[];
+}
+
+// Scoring profiles for the enhanced agent analysis
+export const scoringProfiles: ScoringProfile[] = [
+  {
+    id: 'default',
+    name: 'Balanced',
+    description: 'All criteria weigh the same',
+    weights: {},
+    strengthThreshold: 7,
+    improvementThreshold: 7
+  },
+  {
+    id: 'delivery',
+    name: 'Delivery Focused',
+    description: 'Project descriptions and competence verification weigh far more than language quality',
+    weights: {
+      language_quality: 0.5,
+      content_completeness: 1,
+      summary_quality: 1,
+      project_descriptions: 3,
+      competence_verification: 3
+    },
+    strengthThreshold: 7.5,
+    improvementThreshold: 6.5,
+    mustPass: [
+      { criterionId: 'project_descriptions', minimumScore: 5 },
+      { criterionId: 'competence_verification', minimumScore: 5 }
+    ]
+  },
+  {
+    id: 'presentation',
+    name: 'Presentation Focused',
+    description: 'Language quality and the summary weigh the most, for CVs sent directly to customers',
+    weights: {
+      language_quality: 2,
+      content_completeness: 1,
+      summary_quality: 2,
+      project_descriptions: 1,
+      competence_verification: 1
+    },
+    strengthThreshold: 7,
+    improvementThreshold: 7,
+    mustPass: [
+      { criterionId: 'language_quality', minimumScore: 6 }
+    ]
+  }
+];
+
+export const defaultScoringProfile = scoringProfiles[0];
+
+export function getScoringProfile(id: string | null | undefined): ScoringProfile | undefined {
+  return id ? scoringProfiles.find(profile => profile.id === id) : defaultScoringProfile;
+} 
\ No newline at end of file
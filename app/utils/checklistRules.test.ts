@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { formatRulesForPrompt, parseChecklist } from './checklistRules';
+import { assignmentsChecklists } from './checklistData';
+
+describe('parseChecklist', () => {
+  it('turns numbered lines into rules with the text before them as the title', () => {
+    const checklist = parseChecklist('Summary checklist:\n1) Use UK English\n8a) Open with who you are\n2. Preferably mention certifications');
+
+    expect(checklist.title).toBe('Summary checklist');
+    expect(checklist.rules).toEqual([
+      { id: 'rule-1', text: 'Use UK English', severity: 'required' },
+      { id: 'rule-8a', text: 'Open with who you are', severity: 'required' },
+      { id: 'rule-2', text: 'Preferably mention certifications', severity: 'recommended' }
+    ]);
+  });
+
+  it('adds wrapped lines to their rule up to a blank line or a heading, and keeps the rest as notes', () => {
+    const checklist = parseChecklist([
+      '1) Mention the role you played',
+      'in the project.',
+      '2) Mention your key achievements',
+      '',
+      'Good examples:',
+      'Example 1:',
+      'Led the infrastructure design.'
+    ].join('\n'));
+
+    expect(checklist.rules.map(rule => rule.text)).toEqual([
+      'Mention the role you played in the project.',
+      'Mention your key achievements'
+    ]);
+    expect(checklist.notes).toBe('Good examples:\nExample 1:\nLed the infrastructure design.');
+  });
+
+  it('keeps the examples of the default assignments checklist out of its last rule', () => {
+    const checklist = parseChecklist(assignmentsChecklists[0].content);
+    const lastRule = checklist.rules[checklist.rules.length - 1];
+
+    expect(lastRule.id).toBe('rule-7');
+    expect(lastRule.text).not.toMatch(/Example/);
+    expect(checklist.notes).toMatch(/^Good examples of Key Assignment descriptions:/);
+  });
+
+  it('detects the deterministic checks of a rule', () => {
+    const checks = (rule: string) => parseChecklist(`1) ${rule}`).rules[0].checks;
+
+    expect(checks('Summary length should be between 50 and 150 words.')).toEqual([{ type: 'word_count', min: 50, max: 150 }]);
+    expect(checks('Structure as 1-2 paragraphs depending on length')).toEqual([{ type: 'paragraph_count', min: 1, max: 2 }]);
+    expect(checks('Do NOT use bullet points')).toEqual([{ type: 'no_bullet_points' }]);
+    expect(checks('Avoid using your name in the summary')).toEqual([{ type: 'no_candidate_name' }]);
+    expect(checks('Use objective third-person language')).toEqual([{ type: 'no_first_person' }]);
+    expect(checks('Highlight the most relevant experience')).toBeUndefined();
+  });
+
+  it('detects several checks in one rule', () => {
+    expect(parseChecklist('1) Keep descriptions between 75-125 words in a single paragraph').rules[0].checks).toEqual([
+      { type: 'word_count', min: 75, max: 125 },
+      { type: 'paragraph_count', max: 1 }
+    ]);
+  });
+
+  it('leaves conditional paragraph rules to the agent', () => {
+    const rule = 'In case the summary is longer than 100 words, split into 2 paragraphs, otherwise use a single paragraph of text.';
+
+    expect(parseChecklist(`1) ${rule}`).rules[0].checks).toBeUndefined();
+  });
+
+  it('has no rules for a checklist without numbered lines', () => {
+    expect(parseChecklist('Write a short and clear summary.')).toEqual({
+      title: 'Write a short and clear summary.',
+      rules: [],
+      notes: ''
+    });
+  });
+});
+
+describe('formatRulesForPrompt', () => {
+  it('lists each rule with its id and severity', () => {
+    expect(formatRulesForPrompt(parseChecklist('1) Use UK English\n2) Preferably mention certifications').rules)).toBe(
+      '[rule-1] (required) Use UK English\n[rule-2] (recommended) Preferably mention certifications'
+    );
+  });
+});
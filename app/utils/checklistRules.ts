@@ -0,0 +1,139 @@
+export type RuleSeverity = 'required' | 'recommended';
+
+/**
+ * A check that can be verified from the text alone, without an LLM
+ */
+export type DeterministicCheck =
+  | { type: 'word_count'; min?: number; max?: number }
+  | { type: 'paragraph_count'; min?: number; max?: number }
+  | { type: 'no_bullet_points' }
+  | { type: 'no_first_person' }
+  | { type: 'no_candidate_name' };
+
+export interface ChecklistRule {
+  id: string;
+  text: string;
+  severity: RuleSeverity;
+  // A rule can have several checks, as in "75-125 words in a single paragraph"
+  checks?: DeterministicCheck[];
+}
+
+export interface StructuredChecklist {
+  title: string;
+  rules: ChecklistRule[];
+  // Text after the rules that belongs to none of them, such as examples under their own heading
+  notes: string;
+}
+
+/**
+ * A span of the checked text. Offsets are character positions in the summary or project description of the structured CV.
+ */
+export interface TextSpan {
+  start: number;
+  end: number;
+  text: string;
+  // Set for findings in a project description
+  project_id?: string;
+}
+
+/**
+ * The verdict for one rule, as returned in the analysis results
+ */
+export interface RuleVerdict {
+  rule_id: string;
+  rule_text: string;
+  severity: RuleSeverity;
+  passed: boolean;
+  evidence: string;
+  // 'rule_engine' verdicts come from a deterministic check instead of the agent
+  source: 'agent' | 'rule_engine';
+  findings?: TextSpan[];
+}
+
+// Numbered rules like "3) ...", "8a) ..." or "2. ..."
+const RULE_PATTERN = /^\s*(\d+[a-z]?)[).]\s+(.+)$/;
+
+// Unnumbered lines like "Good examples:" or "## Examples"
+const HEADING_PATTERN = /^\s*(?:#+\s+.+|.+:)\s*$/;
+
+const RECOMMENDED_PATTERN = /\b(recommended|preferably|prefer|rather|where possible|try to|if possible)\b/i;
+
+function detectChecks(text: string): DeterministicCheck[] {
+  const checks: DeterministicCheck[] = [];
+
+  const wordRange = text.match(/(\d+)\s*(?:-|–|to|and)\s*(\d+)\s*words/i);
+  if (wordRange) {
+    checks.push({ type: 'word_count', min: Number(wordRange[1]), max: Number(wordRange[2]) });
+  }
+
+  const paragraphRange = text.match(/(\d+)\s*(?:-|–|to|or)\s*(\d+)\s*paragraphs/i);
+  if (paragraphRange) {
+    checks.push({ type: 'paragraph_count', min: Number(paragraphRange[1]), max: Number(paragraphRange[2]) });
+  } else if (/\b(single|one) paragraph\b/i.test(text) && !/\b(in case|otherwise|if)\b/i.test(text)) {
+    // Conditional rules such as "if longer than 100 words use 2 paragraphs, otherwise a single one" are left to the agent
+    checks.push({ type: 'paragraph_count', max: 1 });
+  }
+
+  if (/bullet points?/i.test(text) && /\b(not|no|avoid|don't|never)\b/i.test(text)) {
+    checks.push({ type: 'no_bullet_points' });
+  }
+  if (/\b(avoid|not|don't|never)\b.*\byour name\b/i.test(text)) {
+    checks.push({ type: 'no_candidate_name' });
+  }
+  if (/(third[- ]person|non-personal|"I" form|first[- ]person)/i.test(text)) {
+    checks.push({ type: 'no_first_person' });
+  }
+
+  return checks;
+}
+
+/**
+ * Convert a free text checklist into rules. Every numbered line starts a rule and the unnumbered lines
+ * right after it are added to it, up to a blank line or a heading. Text before the first rule is the title,
+ * text after the rules that belongs to none of them is kept as notes.
+ */
+export function parseChecklist(text: string): StructuredChecklist {
+  const titleLines: string[] = [];
+  const noteLines: string[] = [];
+  const rules: ChecklistRule[] = [];
+  let currentRule: ChecklistRule | null = null;
+
+  for (const line of text.split('\n')) {
+    const match = line.match(RULE_PATTERN);
+    if (match) {
+      currentRule = { id: `rule-${match[1].toLowerCase()}`, text: match[2].trim(), severity: 'required' };
+      rules.push(currentRule);
+    } else if (!line.trim()) {
+      currentRule = null;
+    } else if (currentRule && !HEADING_PATTERN.test(line)) {
+      currentRule.text += ` ${line.trim()}`;
+    } else if (rules.length === 0) {
+      titleLines.push(line.trim());
+    } else {
+      currentRule = null;
+      noteLines.push(line.trim());
+    }
+  }
+
+  return {
+    title: titleLines.join(' ').replace(/:$/, ''),
+    rules: rules.map(rule => {
+      const checks = detectChecks(rule.text);
+      return {
+        ...rule,
+        severity: RECOMMENDED_PATTERN.test(rule.text) ? 'recommended' : 'required',
+        ...(checks.length > 0 ? { checks } : {})
+      };
+    }),
+    notes: noteLines.join('\n')
+  };
+}
+
+/**
+ * One line per rule with its id and severity, for use in agent prompts
+ */
+export function formatRulesForPrompt(rules: ChecklistRule[]): string {
+  return rules
+    .map(rule => `[${rule.id}] (${rule.severity}) ${rule.text}`)
+    .join('\n');
+}
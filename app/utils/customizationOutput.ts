@@ -0,0 +1,164 @@
+export interface FinalProject {
+  project_id?: string;
+  project_name: string;
+  description: string;
+}
+
+/**
+ * The content to hand over from a CV customization result, using corrected texts where available
+ */
+export interface FinalCustomization {
+  profile: string;
+  competencies: string[];
+  projects: FinalProject[];
+}
+
+/**
+ * Find the correction for a customized project by id, falling back to position for results without ids
+ */
+export function getCorrectedProject(result: any, project: any, index: number) {
+  const correctedProjects = result?.correction?.corrected_projects;
+  if (!correctedProjects) {
+    return undefined;
+  }
+  if (project.project_id && correctedProjects.some((p: any) => p.project_id)) {
+    return correctedProjects.find((p: any) => p.project_id === project.project_id);
+  }
+  return correctedProjects[index];
+}
+
+/**
+ * Find the validation of a customized project by id, falling back to name and position like the correction agent
+ */
+export function getProjectValidation(result: any, project: any, index: number) {
+  const projectsValidation = result?.validation?.projects_validation;
+  if (!projectsValidation) {
+    return undefined;
+  }
+  return projectsValidation.find((p: any) => p.project_id && p.project_id === project.project_id)
+    || projectsValidation.find((p: any) => p.project_name === project.project_name)
+    || projectsValidation[index];
+}
+
+/**
+ * Which version of a text goes into the assembled CV
+ */
+export type TextSource = 'original' | 'customized' | 'corrected' | 'edited';
+
+export interface TextSelection {
+  source: TextSource;
+  // Used when the source is 'edited'
+  editedText?: string;
+}
+
+export interface ProjectSelection extends TextSelection {
+  // Rejected projects are left out of the assembled CV
+  included: boolean;
+}
+
+export interface CompetencySelection {
+  text: string;
+  // Original competencies the customization did not select can be added back, 'added' ones are typed in by the user
+  origin: 'customized' | 'original' | 'added';
+  included: boolean;
+}
+
+/**
+ * The choices made when building the final CV from a customization result
+ */
+export interface CvAssembly {
+  profile: TextSelection;
+  competencies: CompetencySelection[];
+  // Keyed by getProjectKey
+  projects: Record<string, ProjectSelection>;
+}
+
+export interface TextVersions {
+  original: string;
+  customized: string;
+  corrected?: string;
+}
+
+export const getProjectKey = (project: any, index: number): string => project.project_id || `index-${index}`;
+
+export function getProfileVersions(result: any): TextVersions {
+  return {
+    original: result?.profile_customization?.original_profile || '',
+    customized: result?.profile_customization?.customized_profile || '',
+    corrected: result?.correction?.corrected_profile?.profile || undefined
+  };
+}
+
+export function getProjectVersions(result: any, project: any, index: number): TextVersions {
+  return {
+    original: project.original_description || '',
+    customized: project.customized_description || '',
+    corrected: getCorrectedProject(result, project, index)?.corrected_description || undefined
+  };
+}
+
+export function resolveText(selection: TextSelection, versions: TextVersions): string {
+  switch (selection.source) {
+    case 'original':
+      return versions.original;
+    case 'corrected':
+      return versions.corrected ?? versions.customized;
+    case 'edited':
+      return selection.editedText ?? versions.corrected ?? versions.customized;
+    default:
+      return versions.customized;
+  }
+}
+
+/**
+ * The default assembly: every suggestion accepted, using corrected texts where available
+ */
+export function createCvAssembly(result: any): CvAssembly {
+  const proposedCompetencies: string[] = result?.correction?.corrected_competencies?.competencies
+    || result?.key_competencies?.relevant_competencies
+    || [];
+  const originalCompetencies: string[] = result?.key_competencies?.original_competencies || [];
+
+  return {
+    profile: { source: result?.correction ? 'corrected' : 'customized' },
+    competencies: [
+      ...proposedCompetencies.map(text => ({ text, origin: 'customized' as const, included: true })),
+      ...originalCompetencies
+        .filter(text => !proposedCompetencies.includes(text))
+        .map(text => ({ text, origin: 'original' as const, included: false }))
+    ],
+    projects: Object.fromEntries((result?.customized_projects || []).map((project: any, index: number) => [
+      getProjectKey(project, index),
+      { source: getCorrectedProject(result, project, index) ? 'corrected' : 'customized', included: true }
+    ]))
+  };
+}
+
+/**
+ * The content of the CV as assembled by the user
+ */
+export function getAssembledCustomization(result: any, assembly: CvAssembly): FinalCustomization {
+  return {
+    profile: resolveText(assembly.profile, getProfileVersions(result)),
+    competencies: assembly.competencies
+      .filter(competency => competency.included)
+      .map(competency => competency.text.trim())
+      .filter(Boolean),
+    projects: (result?.customized_projects || []).flatMap((project: any, index: number) => {
+      const selection = assembly.projects[getProjectKey(project, index)]
+        || { source: getCorrectedProject(result, project, index) ? 'corrected' : 'customized', included: true };
+      if (!selection.included) {
+        return [];
+      }
+      return [{
+        project_id: project.project_id,
+        project_name: project.project_name,
+        description: resolveText(selection, getProjectVersions(result, project, index))
+      }];
+    })
+  };
+}
+
+export function getFinalCustomization(result: any): FinalCustomization {
+  return getAssembledCustomization(result, createCvAssembly(result));
+}
@@ -0,0 +1,38 @@
+/**
+ * Read a Server-Sent Events response and call onEvent with each parsed `data:` payload
+ */
+export async function readEventStream(response: Response, onEvent: (data: any) => void): Promise<void> {
+  const reader = response.body?.getReader();
+  const decoder = new TextDecoder();
+
+  if (!reader) {
+    throw new Error('Failed to read response stream');
+  }
+
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Split buffer into lines
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || ''; // Keep incomplete line in buffer
+
+    for (const line of lines) {
+      if (line.startsWith('data: ')) {
+        let data;
+        try {
+          data = JSON.parse(line.slice(6));
+        } catch (e) {
+          console.warn('Failed to parse SSE data:', line);
+          continue;
+        }
+        onEvent(data);
+      }
+    }
+  }
+}
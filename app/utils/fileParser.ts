@@ -8,6 +8,174 @@ export async function parseTextFile(file: File): Promise<string> {
   }
 }
 
+export type DocumentFormat = 'pdf' | 'docx' | 'text';
+
+export interface ExtractedDocument {
+  fileName: string;
+  format: DocumentFormat;
+  text: string;
+  pageCount?: number;
+}
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/**
+ * Determine the document format from the file name and MIME type
+ */
+export function getDocumentFormat(fileName: string, mimeType = ''): DocumentFormat | null {
+  const lowerName = fileName.toLowerCase();
+
+  if (mimeType === 'application/pdf' || lowerName.endsWith('.pdf')) {
+    return 'pdf';
+  }
+  if (mimeType === DOCX_MIME_TYPE || lowerName.endsWith('.docx')) {
+    return 'docx';
+  }
+  if (mimeType.startsWith('text/') || lowerName.endsWith('.txt') || lowerName.endsWith('.md')) {
+    return 'text';
+  }
+
+  return null;
+}
+
+/**
+ * Normalize extracted text so agents get consistent input regardless of source format
+ */
+export function normalizeExtractedText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    // Non-breaking and other unicode spaces become regular spaces
+    .replace(/[\u00a0\u2000-\u200a\u202f\u205f\u3000]/g, ' ')
+    // Soft hyphens, zero-width characters and stray control characters
+    .replace(/[\u00ad\u200b-\u200d\ufeff]/g, '')
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    // Common ligatures produced by PDF text layers
+    .replace(/\ufb00/g, 'ff')
+    .replace(/\ufb01/g, 'fi')
+    .replace(/\ufb02/g, 'fl')
+    .replace(/\ufb03/g, 'ffi')
+    .replace(/\ufb04/g, 'ffl')
+    // Bullet glyphs are unified so list detection works the same for PDF and DOCX
+    .replace(/^[ \t]*[\u2022\u25cf\u25aa\u25e6\u2023\u2043\uf0b7][ \t]*/gm, '- ')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Extract normalized text from a PDF, DOCX or plain text document.
+ * Intended for server-side use; parsers are loaded on demand.
+ */
+export async function extractDocumentText(file: File): Promise<ExtractedDocument> {
+  const format = getDocumentFormat(file.name, file.type);
+  if (!format) {
+    throw new Error(`Unsupported file type for ${file.name}. Only PDF, DOCX and text files are supported.`);
+  }
+
+  let rawText: string;
+  let pageCount: number | undefined;
+
+  try {
+    if (format === 'pdf') {
+      const { extractText, getDocumentProxy } = await import('unpdf');
+      const pdf = await getDocumentProxy(new Uint8Array(await file.arrayBuffer()));
+      const { totalPages, text } = await extractText(pdf, { mergePages: false });
+      rawText = text.join('\n\n');
+      pageCount = totalPages;
+    } else if (format === 'docx') {
+      const mammoth = await import('mammoth');
+      const { value } = await mammoth.extractRawText({ buffer: Buffer.from(await file.arrayBuffer()) });
+      rawText = value;
+    } else {
+      rawText = await file.text();
+    }
+  } catch (error) {
+    console.error(`Error extracting text from ${file.name}:`, error);
+    throw new Error(`Failed to extract text from ${file.name}`);
+  }
+
+  const text = normalizeExtractedText(rawText);
+  if (!text) {
+    throw new Error(`No text could be extracted from ${file.name}. Scanned documents without a text layer are not supported.`);
+  }
+
+  return { fileName: file.name, format, text, pageCount };
+}
+
+export interface SkippedFile {
+  fileName: string;
+  error: string;
+}
+
+/**
+ * Replace zip archives with the PDF, DOCX and text files they contain.
+ * Intended for server-side use; the zip library is loaded on demand.
+ */
+export async function expandZipArchives(files: File[]): Promise<{ files: File[]; skippedFiles: SkippedFile[] }> {
+  const expanded: File[] = [];
+  const skippedFiles: SkippedFile[] = [];
+
+  for (const file of files) {
+    if (!file.name.toLowerCase().endsWith('.zip')) {
+      expanded.push(file);
+      continue;
+    }
+
+    const { default: JSZip } = await import('jszip');
+    let zip: InstanceType<typeof JSZip>;
+    try {
+      zip = await JSZip.loadAsync(await file.arrayBuffer());
+    } catch (error) {
+      skippedFiles.push({ fileName: file.name, error: 'Could not read zip archive' });
+      continue;
+    }
+
+    for (const entry of Object.values(zip.files)) {
+      const fileName = entry.name.split('/').pop() || '';
+      // Folders and metadata added by macOS and Windows
+      if (entry.dir || !fileName || fileName.startsWith('.') || entry.name.startsWith('__MACOSX/') || fileName === 'Thumbs.db') {
+        continue;
+      }
+      if (!getDocumentFormat(fileName)) {
+        skippedFiles.push({ fileName: `${file.name}/${entry.name}`, error: 'Unsupported file type' });
+        continue;
+      }
+      expanded.push(new File([await entry.async('arraybuffer')], fileName));
+    }
+  }
+
+  return { files: expanded, skippedFiles };
+}
+
+/**
+ * Extract the text of several files, one at a time. Files that cannot be read are skipped and reported.
+ */
+export async function extractDocuments(files: File[]): Promise<{ documents: ExtractedDocument[]; skippedFiles: SkippedFile[] }> {
+  const documents: ExtractedDocument[] = [];
+  const skippedFiles: SkippedFile[] = [];
+
+  for (const file of files) {
+    try {
+      documents.push(await extractDocumentText(file));
+    } catch (error) {
+      skippedFiles.push({ fileName: file.name, error: error instanceof Error ? error.message : 'Failed to extract text' });
+    }
+  }
+
+  return { documents, skippedFiles };
+}
+
+/**
+ * Format an extracted document as a delimited block for use in agent prompts
+ */
+export function formatDocumentForPrompt(document: ExtractedDocument, label: string): string {
+  return `${label} (${document.fileName}):
+<<<DOCUMENT START>>>
+${document.text}
+<<<DOCUMENT END>>>`;
+}
+
 // Default checklist content in case user doesn't upload one
 export const defaultChecklistContent = `Summary checklist:
 1) It has to use non-personal objective form to get more professional CV use e.g. "IPMA B certified Project manager with 10 years experience in Project management" instead of using the "I" form (e.g. "I am IPMA B certified Project manager with 10 years experience in Project management"). 
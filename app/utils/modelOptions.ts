@@ -0,0 +1,27 @@
+export type ModelProvider = 'openai' | 'anthropic' | 'mistral' | 'google';
+// List price in USD per million tokens
+export type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+export type ModelOption = {
+  provider: ModelProvider;
+  model: string;
+  displayName: string;
+  supportsPDF?: boolean;
+  supportsStructuredOutput?: boolean;
+  price?: ModelPrice;
+};
+
+// Shared between the model selector and the server-side model factory (app/api/models.ts)
+export const modelOptions: ModelOption[] = [
+  { provider: 'openai', model: 'gpt-4o', displayName: 'OpenAI GPT-4o', supportsPDF: true, supportsStructuredOutput: true, price: { input: 2.5, output: 10 } },
+  { provider: 'openai', model: 'o4-mini', displayName: 'OpenAI o4-mini Reasoning', supportsPDF: true, supportsStructuredOutput: true, price: { input: 1.1, output: 4.4 } },
+  { provider: 'anthropic', model: 'claude-3-7-sonnet-20250219', displayName: 'Anthropic Claude 3.7 Sonnet', supportsPDF: true, supportsStructuredOutput: true, price: { input: 3, output: 15 } },
+  { provider: 'anthropic', model: 'claude-3-5-sonnet-20241022', displayName: 'Anthropic Claude 3.5 Sonnet', supportsPDF: true, supportsStructuredOutput: true, price: { input: 3, output: 15 } },
+  { provider: 'mistral', model: 'mistral-large-latest', displayName: 'Mistral Large', supportsPDF: false, supportsStructuredOutput: true, price: { input: 2, output: 6 } },
+  { provider: 'mistral', model: 'mistral-medium-latest', displayName: 'Mistral Medium', supportsPDF: false, supportsStructuredOutput: true, price: { input: 0.4, output: 2 } },
+  { provider: 'mistral', model: 'mistral-small-latest', displayName: 'Mistral Small', supportsPDF: false, supportsStructuredOutput: true, price: { input: 0.1, output: 0.3 } },
+  { provider: 'google', model: 'gemini-1.5-pro', displayName: 'Google Gemini 1.5 Pro', supportsPDF: true, supportsStructuredOutput: true, price: { input: 1.25, output: 5 } },
+];
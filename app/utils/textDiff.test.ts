@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, diffWords, findQuote, type DiffPart } from './textDiff';
+
+// Joining the parts of one side gives back that text
+const side = (parts: DiffPart[], removedOrAdded: 'removed' | 'added') =>
+  parts.filter(part => part.type !== removedOrAdded).map(part => part.value).join('');
+
+describe('diffWords', () => {
+  it('marks the changed words and keeps the whitespace', () => {
+    const parts = diffWords('Led a team of five developers', 'Led a team of eight developers');
+
+    expect(parts).toEqual([
+      { type: 'equal', value: 'Led a team of ' },
+      { type: 'removed', value: 'five' },
+      { type: 'added', value: 'eight' },
+      { type: 'equal', value: ' developers' }
+    ]);
+  });
+
+  it('restores both texts exactly', () => {
+    const before = 'Built  the API\nand the frontend.';
+    const after = 'Designed and built the API,\n\nand the frontend.';
+    const parts = diffWords(before, after);
+
+    expect(side(parts, 'added')).toBe(before);
+    expect(side(parts, 'removed')).toBe(after);
+  });
+
+  it('marks everything as added or removed when one side is empty', () => {
+    expect(diffWords('', 'New text')).toEqual([{ type: 'added', value: 'New text' }]);
+    expect(diffWords('Old text', '')).toEqual([{ type: 'removed', value: 'Old text' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
+
+describe('diffLines', () => {
+  it('compares whole lines with their line breaks', () => {
+    expect(diffLines('Java\nKotlin\nSQL', 'Java\nTypeScript\nSQL')).toEqual([
+      { type: 'equal', value: 'Java\n' },
+      { type: 'removed', value: 'Kotlin\n' },
+      { type: 'added', value: 'TypeScript\n' },
+      { type: 'equal', value: 'SQL' }
+    ]);
+  });
+});
+
+describe('findQuote', () => {
+  const text = 'Skilled in JavaScript and Java. Jobbet på «Økonomi» (Azure) i år.';
+  const quoted = (quote: string) => {
+    const span = findQuote(text, quote);
+    return span && text.slice(span.start, span.end);
+  };
+
+  it('ignores case, whitespace and surrounding quotation marks and punctuation', () => {
+    expect(quoted('"skilled   in javascript"')).toBe('Skilled in JavaScript');
+    expect(quoted('java.')).toBe('Java');
+  });
+
+  it('matches whole words only', () => {
+    expect(findQuote(text, 'Java')).toEqual({ start: 26, end: 30 });
+    expect(findQuote(text, 'Script')).toBeNull();
+    expect(findQuote(text, 'kill')).toBeNull();
+  });
+
+  it('matches words with non-ASCII letters', () => {
+    expect(quoted('økonomi')).toBe('Økonomi');
+    expect(quoted('på')).toBe('på');
+    expect(findQuote(text, 'å')).toBeNull();
+  });
+
+  it('matches quotes that start or end with punctuation inside the text', () => {
+    expect(quoted('(Azure)')).toBe('(Azure)');
+  });
+
+  it('returns null for an empty quote', () => {
+    expect(findQuote(text, ' "" ')).toBeNull();
+  });
+});
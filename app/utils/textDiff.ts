@@ -0,0 +1,97 @@
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+/**
+ * Diff two token lists using the longest common subsequence.
+ * Consecutive tokens of the same type are joined, so joining all values of one side restores that text.
+ */
+export function diffTokens(before: string[], after: string[]): DiffPart[] {
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  // lengths[i * cols + j] is the LCS length of before[i..] and after[j..]
+  const lengths = new Uint32Array(rows * cols);
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = before[i] === after[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], value: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.value += value;
+    } else {
+      parts.push({ type, value });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      push('equal', before[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      push('removed', before[i++]);
+    } else {
+      push('added', after[j++]);
+    }
+  }
+  while (i < before.length) push('removed', before[i++]);
+  while (j < after.length) push('added', after[j++]);
+
+  return parts;
+}
+
+/**
+ * Line by line diff, each line keeps its line break
+ */
+export function diffLines(before: string, after: string): DiffPart[] {
+  const lines = (text: string) => text ? text.split(/(?<=\n)/) : [];
+  return diffTokens(lines(before), lines(after));
+}
+
+/**
+ * Word level diff. Whitespace is kept as separate tokens so the texts are restored exactly.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const words = (text: string) => text ? text.split(/(\s+)/).filter(Boolean) : [];
+  return diffTokens(words(before), words(after));
+}
+
+export interface QuoteSpan {
+  start: number;
+  end: number;
+}
+
+const WORD_CHARACTER = /[\p{L}\p{N}_]/u;
+
+/**
+ * Locate a quote from an agent in a text. Agents do not always copy text exactly, so case,
+ * whitespace and surrounding quotation marks or punctuation are ignored.
+ */
+export function findQuote(text: string, quote: string): QuoteSpan | null {
+  const words = quote
+    .trim()
+    .replace(/^["'“”‘’«»]+|["'“”‘’«».,;:!?]+$/g, '')
+    .split(/\s+/)
+    .filter(Boolean);
+  if (words.length === 0) {
+    return null;
+  }
+
+  // Quotes starting or ending in a letter or digit only match whole words, so "Java" is not found in "JavaScript"
+  const before = WORD_CHARACTER.test(words[0][0]) ? '(?<![\\p{L}\\p{N}_])' : '';
+  const after = WORD_CHARACTER.test(words[words.length - 1].slice(-1)) ? '(?![\\p{L}\\p{N}_])' : '';
+  const source = words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+');
+  const pattern = new RegExp(`${before}${source}${after}`, 'iu');
+  const match = pattern.exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
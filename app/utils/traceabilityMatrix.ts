@@ -0,0 +1,124 @@
+import { getFinalCustomization, type FinalCustomization } from './customizationOutput';
+import { findQuote } from './textDiff';
+
+export type RequirementType = 'must_have' | 'should_have';
+export type EvidenceSource = 'profile' | 'competency' | 'project';
+
+export interface MatrixEvidence {
+  source: EvidenceSource;
+  project_id?: string;
+  // Where the passage is, e.g. "Project: Payment platform"
+  location: string;
+  quote: string;
+  // The final CV may differ from the evaluated one after correction, regeneration or editing
+  inFinalCv: boolean;
+}
+
+/**
+ * One requirement of the customer request with the CV passages that prove it
+ */
+export interface MatrixRow {
+  requirement: string;
+  type: RequirementType;
+  priority: string;
+  covered: boolean;
+  coverageDetails: string;
+  evidence: MatrixEvidence[];
+}
+
+export const MATRIX_COLUMNS = ['Requirement', 'Type', 'Priority', 'Covered', 'Coverage details', 'Source', 'Evidence', 'In final CV'];
+
+const TYPE_LABELS: Record<RequirementType, string> = { must_have: 'Must-have', should_have: 'Should-have' };
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+function isInFinalCv(content: FinalCustomization, source: EvidenceSource, quote: string, projectId?: string): boolean {
+  switch (source) {
+    case 'profile':
+      return !!findQuote(content.profile, quote);
+    case 'competency':
+      return content.competencies.some(competency => !!findQuote(competency, quote) || !!findQuote(quote, competency));
+    case 'project': {
+      const project = content.projects.find(p => p.project_id === projectId);
+      return !!project && !!findQuote(project.description, quote);
+    }
+  }
+}
+
+/**
+ * Map each evaluated requirement to its evidence in the customized CV.
+ * Pass the assembled content to check the evidence against the user's choices instead of the default final CV.
+ */
+export function buildTraceabilityMatrix(result: any, content: FinalCustomization = getFinalCustomization(result)): MatrixRow[] {
+  const requirements = result?.customer_requirements;
+  const listed = [
+    ...(requirements?.must_have_requirements || []).map((req: any) => ({ ...req, type: 'must_have' as const })),
+    ...(requirements?.should_have_requirements || []).map((req: any) => ({ ...req, type: 'should_have' as const }))
+  ];
+
+  return (result?.evaluation?.requirement_coverage || []).map((coverage: any): MatrixRow => {
+    const requirement = listed.find(req => normalize(req.requirement) === normalize(coverage.requirement));
+    return {
+      requirement: coverage.requirement,
+      type: coverage.requirement_type || requirement?.type || 'should_have',
+      priority: requirement?.priority || '',
+      covered: coverage.covered,
+      coverageDetails: coverage.coverage_details,
+      // Results from before evidence references were added have no evidence
+      evidence: (coverage.evidence || []).map((evidence: any): MatrixEvidence => {
+        const projectId = evidence.source === 'project' ? evidence.project_id || undefined : undefined;
+        const projectName = content.projects.find(project => project.project_id === projectId)?.project_name;
+        return {
+          source: evidence.source,
+          project_id: projectId,
+          location: evidence.source === 'project'
+            ? `Project: ${projectName || projectId || 'unknown'}`
+            : evidence.source === 'profile' ? 'Profile' : 'Competency',
+          quote: evidence.quote,
+          inFinalCv: isInFinalCv(content, evidence.source, evidence.quote, projectId)
+        };
+      })
+    };
+  });
+}
+
+/**
+ * The matrix as table rows under MATRIX_COLUMNS, one row per evidence passage so it can be filtered in a spreadsheet
+ */
+export function getMatrixTableRows(matrix: MatrixRow[]): string[][] {
+  return matrix.flatMap(row => {
+    const requirementCells = [
+      row.requirement,
+      TYPE_LABELS[row.type],
+      row.priority,
+      row.covered ? 'Yes' : 'No',
+      row.coverageDetails
+    ];
+    if (row.evidence.length === 0) {
+      return [[...requirementCells, '', '', '']];
+    }
+    return row.evidence.map(evidence => [
+      ...requirementCells,
+      evidence.location,
+      evidence.quote,
+      evidence.inFinalCv ? 'Yes' : 'No'
+    ]);
+  });
+}
+
+// Cells starting with these characters are run as formulas by spreadsheet applications
+const FORMULA_PREFIX = /^[=+@\t\r]|^-(?=\S)/;
+
+/**
+ * Comma separated values with quoted cells
+ */
+export function toCsv(rows: string[][]): string {
+  return rows
+    .map(row => row
+      .map(cell => {
+        const value = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+        return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+      })
+      .join(','))
+    .join('\r\n');
+}
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // The agents log every call, which would bury the test output,
+    // and saved checklists would otherwise be written to files
+    env: { LOG_LEVEL: 'silent', CHECKLIST_STORAGE_BACKEND: 'memory' }
+  }
+});